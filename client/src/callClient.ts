@@ -0,0 +1,407 @@
+/**
+ * Typed client for the voice call server
+ * @module callClient
+ * @description Wraps a Socket.IO client connection with typed methods for every call action and
+ * typed subscriptions to every server event. Each method resolves once the server acknowledges
+ * the event and rejects with a {@link CallClientError} otherwise.
+ */
+
+import { io, ManagerOptions, Socket, SocketOptions } from 'socket.io-client';
+import {
+  CallAckResponse,
+  CallError,
+  CallEvents,
+  ClientToServerEvents,
+  CreateRoomPayload,
+  IceServersResponse,
+  PeerQualityStats,
+  ServerToClientEvents,
+  SignalType,
+  WebRTCSignal,
+} from '../../src/types/contract';
+import { CallClientError } from './callClientError';
+
+/**
+ * Socket.IO client socket typed with the call event contract
+ * @typedef {Socket} CallClientSocket
+ */
+export type CallClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+/**
+ * Options of a {@link CallClient}
+ * @interface CallClientOptions
+ */
+export interface CallClientOptions {
+  /** URL of the call server */
+  url: string;
+  /** Access token issued by the main backend, or a function returning a fresh one on every (re)connection */
+  token: string | (() => string | Promise<string>);
+  /** Milliseconds to wait for the server to acknowledge an event (default 10000) */
+  ackTimeout?: number;
+  /** Additional Socket.IO client options; `auth` is always set from `token` */
+  socketOptions?: Partial<ManagerOptions & SocketOptions>;
+}
+
+/**
+ * Default time to wait for an acknowledgement, in milliseconds
+ * @constant {number}
+ */
+const DEFAULT_ACK_TIMEOUT = 10000;
+
+/**
+ * Seconds to wait before connecting again when an instance refused the connection as it shuts down
+ * @constant {number}
+ */
+const SHUTDOWN_RETRY_DELAY = 2;
+
+/**
+ * Typed client for the voice call server
+ * @class CallClient
+ * @description Does not connect until {@link CallClient#connect} is called. Keeps the resume token
+ * of the joined call and, when Socket.IO reconnects after a dropped connection, rejoins with it so
+ * the participant's slot is resumed instead of recreated. When the server announces its shutdown,
+ * the client disconnects and reconnects after the delay it asks for, resuming the call the same way.
+ * @example
+ * const client = new CallClient({ url: 'http://localhost:5000', token: accessToken }).connect();
+ *
+ * client.on(CallEvents.PEERS_LIST, ({ participants }) => participants.forEach(callPeer));
+ * client.on(CallEvents.ERROR, ({ code, message }) => console.warn(code, message));
+ *
+ * await client.join('meeting-123', peer.id);
+ * await client.unmute();
+ */
+export class CallClient {
+  /** Underlying Socket.IO socket */
+  public readonly socket: CallClientSocket;
+
+  /** Time to wait for an acknowledgement, in milliseconds */
+  private readonly ackTimeout: number;
+
+  /** Call joined (or waiting in the lobby of) and the peer id it was joined with */
+  private session: { meetingId: string; peerId: string } | null = null;
+
+  /** Token to resume the current call after a dropped connection */
+  private resumeToken: string | null = null;
+
+  /** Latest ICE servers configuration sent by the server */
+  private latestIceServers: IceServersResponse | null = null;
+
+  /** Pending reconnection after a server shutdown */
+  private shutdownReconnect: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Creates a new call client
+   * @param {CallClientOptions} options - Server URL, access token and connection options
+   */
+  constructor(options: CallClientOptions) {
+    const { url, token, socketOptions } = options;
+    this.ackTimeout = options.ackTimeout ?? DEFAULT_ACK_TIMEOUT;
+
+    this.socket = io(url, {
+      autoConnect: false,
+      ...socketOptions,
+      auth: (cb) => {
+        Promise.resolve(typeof token === 'function' ? token() : token).then(
+          (value) => cb({ token: value }),
+          () => cb({})
+        );
+      },
+    });
+
+    this.socket.on(CallEvents.PEERS_LIST, ({ meetingId, resumeToken }) => {
+      if (this.session?.meetingId === meetingId) {
+        this.resumeToken = resumeToken;
+      }
+    });
+    this.socket.on(CallEvents.ICE_SERVERS, (config) => {
+      this.latestIceServers = config;
+    });
+    this.socket.on(CallEvents.REMOVED, () => this.clearSession());
+    this.socket.on(CallEvents.ENDED, () => this.clearSession());
+    this.socket.on(CallEvents.LOBBY_DENIED, () => this.clearSession());
+
+    // Resume the call on the new connection after Socket.IO reconnects
+    this.socket.io.on('reconnect', () => this.resumeSession());
+
+    // Leave a server that shuts down and resume the call on whichever instance answers next
+    this.socket.on(CallEvents.SERVER_SHUTDOWN, ({ reconnectAfter }) => {
+      this.socket.disconnect();
+      this.reconnectLater(reconnectAfter);
+    });
+
+    // Socket.IO does not retry a refused connection on its own
+    this.socket.on('connect_error', (error: Error & { data?: CallError }) => {
+      if (error.data?.code === 'SERVER_SHUTTING_DOWN') {
+        this.reconnectLater(SHUTDOWN_RETRY_DELAY);
+      }
+    });
+  }
+
+  /**
+   * Identifier of the call joined, or null
+   * @returns {string | null} Meeting/room identifier
+   */
+  public get meetingId(): string | null {
+    return this.session?.meetingId ?? null;
+  }
+
+  /**
+   * Latest ICE servers configuration, or null before the server sent one
+   * @returns {IceServersResponse | null} STUN/TURN servers to pass to RTCPeerConnection
+   */
+  public get iceServers(): IceServersResponse | null {
+    return this.latestIceServers;
+  }
+
+  /**
+   * Open the connection to the server
+   * @returns {this} The client, for chaining
+   */
+  public connect(): this {
+    this.socket.connect();
+    return this;
+  }
+
+  /**
+   * Close the connection without leaving the call
+   * @returns {void}
+   * @description The server holds the participant's slot for its reconnection grace period.
+   * Call {@link CallClient#leave} first to leave for good.
+   */
+  public disconnect(): void {
+    if (this.shutdownReconnect) {
+      clearTimeout(this.shutdownReconnect);
+      this.shutdownReconnect = null;
+    }
+    this.socket.disconnect();
+  }
+
+  /**
+   * Subscribe to a server event
+   * @param {E} event - Server event name
+   * @param {ServerToClientEvents[E]} listener - Listener receiving the typed payload
+   * @returns {Function} Function that removes the listener
+   * @example
+   * const unsubscribe = client.on(CallEvents.PEER_JOINED, ({ peerId }) => connectTo(peerId));
+   */
+  public on<E extends keyof ServerToClientEvents>(event: E, listener: ServerToClientEvents[E]): () => void {
+    // The listener type is checked by the signature; socket.io's overloads do not narrow on a generic event
+    this.socket.on(event, listener as never);
+    return () => {
+      this.socket.off(event, listener as never);
+    };
+  }
+
+  /**
+   * Emit an event and wait for the server to acknowledge it
+   * @param {E} event - Client event name
+   * @param {Parameters<ClientToServerEvents[E]>[0]} payload - Typed payload of the event
+   * @returns {Promise<void>} Resolves once handled
+   * @throws {CallClientError} With the server's error code, or `TIMEOUT`
+   * @description Covers every client event, including those without a dedicated method.
+   * @example
+   * await client.request(CallEvents.RAISE_HAND, { meetingId: 'meeting-123' });
+   */
+  public request<E extends keyof ClientToServerEvents>(
+    event: E,
+    payload: Parameters<ClientToServerEvents[E]>[0]
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAck = (err: Error | null, response?: CallAckResponse) => {
+        if (err) {
+          reject(new CallClientError('TIMEOUT', `No acknowledgement for ${event} within ${this.ackTimeout}ms`));
+        } else if (response?.ok) {
+          resolve();
+        } else {
+          reject(response?.error
+            ? CallClientError.fromCallError(response.error)
+            : new CallClientError('INTERNAL_ERROR', `${event} failed`));
+        }
+      };
+
+      // socket.io's emit overloads do not narrow on a generic event; the payload is checked by the signature
+      (this.socket.timeout(this.ackTimeout).emit as (...args: unknown[]) => void)(event, payload, onAck);
+    });
+  }
+
+  /**
+   * Create a call room with its own settings before anyone joins
+   * @param {CreateRoomPayload} settings - Meeting identifier and the settings that differ from the server defaults
+   * @returns {Promise<void>} Resolves once created; does not join the room
+   * @throws {CallClientError} `FORBIDDEN` unless the token names the user as host of the meeting,
+   * `ROOM_EXISTS` if the meeting already has a room
+   * @example
+   * await client.createRoom({ meetingId: 'meeting-123', maxParticipants: 4, audioOnly: true });
+   * await client.join('meeting-123', peer.id);
+   */
+  public async createRoom(settings: CreateRoomPayload): Promise<void> {
+    return this.request(CallEvents.CREATE_ROOM, settings);
+  }
+
+  /**
+   * Join a call, or resume it after a dropped connection
+   * @param {string} meetingId - Meeting/room identifier
+   * @param {string} peerId - PeerJS peer identifier of this client
+   * @returns {Promise<void>} Resolves once joined or placed in the lobby
+   * @throws {CallClientError} E.g. `ROOM_FULL`, `ROOM_LOCKED`, `BANNED` or `ROLE_NOT_ALLOWED`
+   * @description Sends the resume token when rejoining the same call. The peers arrive in
+   * `call:peers-list`, or `call:lobby-waiting` when the room's lobby is enabled.
+   */
+  public async join(meetingId: string, peerId: string): Promise<void> {
+    if (this.session?.meetingId !== meetingId) {
+      this.resumeToken = null;
+    }
+    this.session = { meetingId, peerId };
+
+    try {
+      await this.request(CallEvents.JOIN, {
+        meetingId,
+        peerId,
+        ...(this.resumeToken ? { resumeToken: this.resumeToken } : {}),
+      });
+    } catch (error) {
+      this.clearSession();
+      throw error;
+    }
+  }
+
+  /**
+   * Leave the current call (or its lobby)
+   * @returns {Promise<void>} Resolves once left
+   * @throws {CallClientError} `NOT_IN_CALL` if no call was joined
+   */
+  public async leave(): Promise<void> {
+    const meetingId = this.requireMeetingId();
+    this.clearSession();
+    await this.request(CallEvents.LEAVE, { meetingId });
+  }
+
+  /**
+   * Send a WebRTC signal to another participant
+   * @param {string} toUserId - User identifier of the recipient
+   * @param {string} toPeerId - PeerJS peer identifier of the recipient
+   * @param {SignalType} signalType - `offer`, `answer` or `ice-candidate`
+   * @param {WebRTCSignal} signal - SDP (`{ type, sdp }`) or ICE candidate (`candidate.toJSON()`)
+   * @returns {Promise<void>} Resolves once relayed
+   * @throws {CallClientError} `INVALID_SIGNAL` or `SIGNAL_TOO_LARGE` for a malformed signal,
+   * `USER_NOT_FOUND`, `PEER_UNAVAILABLE` or `PEER_MISMATCH` if the recipient left, is reconnecting
+   * or uses another peer
+   */
+  public async signal(
+    toUserId: string,
+    toPeerId: string,
+    signalType: SignalType,
+    signal: WebRTCSignal
+  ): Promise<void> {
+    return this.request(CallEvents.SIGNAL, {
+      meetingId: this.requireMeetingId(),
+      toUserId,
+      toPeerId,
+      signal,
+      signalType,
+    });
+  }
+
+  /**
+   * Mute the microphone
+   * @returns {Promise<void>} Resolves once broadcast
+   */
+  public async mute(): Promise<void> {
+    return this.request(CallEvents.MUTE, { meetingId: this.requireMeetingId() });
+  }
+
+  /**
+   * Unmute the microphone
+   * @returns {Promise<void>} Resolves once broadcast
+   * @throws {CallClientError} `FORBIDDEN` for viewers
+   */
+  public async unmute(): Promise<void> {
+    return this.request(CallEvents.UNMUTE, { meetingId: this.requireMeetingId() });
+  }
+
+  /**
+   * Turn the camera on or off
+   * @param {boolean} isVideoOn - New camera state
+   * @returns {Promise<void>} Resolves once broadcast
+   * @throws {CallClientError} `FORBIDDEN` when a viewer turns the camera on, `AUDIO_ONLY` in audio-only rooms
+   */
+  public async setVideo(isVideoOn: boolean): Promise<void> {
+    return this.request(isVideoOn ? CallEvents.VIDEO_ON : CallEvents.VIDEO_OFF, {
+      meetingId: this.requireMeetingId(),
+    });
+  }
+
+  /**
+   * Report the quality of the connection to each remote participant
+   * @param {PeerQualityStats[]} peers - Summarized `getStats()` numbers per remote participant
+   * @returns {Promise<void>} Resolves once recorded
+   * @description Call every 5 to 10 seconds with the values measured since the previous report.
+   * Degraded and recovered connections are announced in `call:quality-warning`.
+   * @example
+   * await client.reportQuality([{ userId: 'user2', rtt: 85, jitter: 6, packetLoss: 0.4, bitrate: 812, candidateType: 'relay' }]);
+   */
+  public async reportQuality(peers: PeerQualityStats[]): Promise<void> {
+    return this.request(CallEvents.QUALITY_REPORT, { meetingId: this.requireMeetingId(), peers });
+  }
+
+  /**
+   * Request fresh ICE servers before the TURN credentials expire
+   * @returns {Promise<IceServersResponse>} The new configuration
+   */
+  public async refreshIceServers(): Promise<IceServersResponse> {
+    const refreshed = new Promise<IceServersResponse>((resolve) => {
+      this.socket.once(CallEvents.ICE_SERVERS, resolve);
+    });
+    await this.request(CallEvents.REFRESH_ICE_SERVERS, {});
+    return refreshed;
+  }
+
+  /**
+   * Get the current meeting identifier or fail
+   * @returns {string} Meeting/room identifier
+   * @throws {CallClientError} `NOT_IN_CALL` if no call was joined
+   * @private
+   */
+  private requireMeetingId(): string {
+    if (!this.session) {
+      throw new CallClientError('NOT_IN_CALL', 'Join a call first');
+    }
+    return this.session.meetingId;
+  }
+
+  /**
+   * Rejoin the current call on a new connection, resuming the participant's slot
+   * @private
+   */
+  private readonly resumeSession = (): void => {
+    if (this.session) {
+      const { meetingId, peerId } = this.session;
+      this.join(meetingId, peerId).catch(() => this.clearSession());
+    }
+  };
+
+  /**
+   * Connect again after a delay and resume the current call
+   * @param {number} seconds - Delay before connecting
+   * @private
+   */
+  private reconnectLater(seconds: number): void {
+    if (this.shutdownReconnect) {
+      clearTimeout(this.shutdownReconnect);
+    }
+    this.shutdownReconnect = setTimeout(() => {
+      this.shutdownReconnect = null;
+      this.socket.off('connect', this.resumeSession).once('connect', this.resumeSession);
+      this.socket.connect();
+    }, seconds * 1000);
+  }
+
+  /**
+   * Forget the current call and its resume token
+   * @private
+   */
+  private clearSession(): void {
+    this.session = null;
+    this.resumeToken = null;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Error thrown by the call client
+ * @module callClientError
+ * @description Wraps the {@link CallError} the server answered with, so callers can branch on
+ * its `code` in a `catch` block.
+ */
+
+import { CallError, CallErrorCode } from '../../src/types/contract';
+
+/**
+ * Error codes of a {@link CallClientError}
+ * @typedef {string} CallClientErrorCode
+ * @description The server's {@link CallErrorCode}s, plus `TIMEOUT` when the server did not
+ * acknowledge an event in time and `NOT_IN_CALL` when an event needs a call that was not joined.
+ */
+export type CallClientErrorCode = CallErrorCode | 'TIMEOUT' | 'NOT_IN_CALL';
+
+/**
+ * Error thrown by the call client's methods
+ * @class CallClientError
+ * @example
+ * try {
+ *   await client.join('meeting-123', peerId);
+ * } catch (error) {
+ *   if (error instanceof CallClientError && error.code === 'ROOM_FULL') {
+ *     showRoomFull();
+ *   }
+ * }
+ */
+export class CallClientError extends Error {
+  /** Error code for programmatic error handling */
+  public readonly code: CallClientErrorCode;
+
+  /** Dot-separated path of the offending payload field, for `INVALID_PAYLOAD` */
+  public readonly path?: string;
+
+  /**
+   * Creates a new call client error
+   * @param {CallClientErrorCode} code - Error code
+   * @param {string} message - Human-readable error message
+   * @param {string} [path] - Offending payload field
+   */
+  constructor(code: CallClientErrorCode, message: string, path?: string) {
+    super(message);
+    this.name = 'CallClientError';
+    this.code = code;
+    this.path = path;
+  }
+
+  /**
+   * Creates a client error from an error sent by the server
+   * @param {CallError} error - Error received in an acknowledgement or `call:error`
+   * @returns {CallClientError} The equivalent client error
+   */
+  public static fromCallError(error: CallError): CallClientError {
+    return new CallClientError(error.code, error.message, error.path);
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Voice call client SDK
+ * @module index
+ * @description Public entry point: the typed {@link CallClient}, its error class and the
+ * event contract shared with the server (event names, payloads and error codes).
+ */
+
+export { CallClient, CallClientOptions, CallClientSocket } from './callClient';
+export { CallClientError, CallClientErrorCode } from './callClientError';
+export * from '../../src/types/contract';
@@ -0,0 +1,10 @@
+// Keep the test output free of the server's logs unless LOG_LEVEL asks for them
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+};
@@ -0,0 +1,101 @@
+/**
+ * Tests of the inbound event payload schemas
+ */
+
+import { EVENT_SCHEMAS, MAX_SDP_LENGTH, createRoomSchema } from '../eventSchemas';
+import { CallEvents } from '../../types';
+
+const schemaOf = (event: CallEvents) => {
+  const schema = EVENT_SCHEMAS[event];
+  if (!schema) throw new Error(`No schema for ${event}`);
+  return schema;
+};
+
+const peer = (userId: string) => ({ userId, rtt: 80, jitter: 4, packetLoss: 0.5, bitrate: 900, candidateType: 'host' });
+
+describe('event schemas', () => {
+  describe('call:join', () => {
+    it('accepts a meeting and peer id', () => {
+      expect(schemaOf(CallEvents.JOIN).safeParse({ meetingId: 'abc123', peerId: 'peer-1' }).success).toBe(true);
+    });
+
+    it('rejects an invalid meeting id', () => {
+      expect(schemaOf(CallEvents.JOIN).safeParse({ meetingId: 'abc 123!', peerId: 'peer-1' }).success).toBe(false);
+    });
+
+    it('rejects a missing peer id', () => {
+      expect(schemaOf(CallEvents.JOIN).safeParse({ meetingId: 'abc123' }).success).toBe(false);
+    });
+  });
+
+  describe('call:signal', () => {
+    const offer = (sdp: string) => ({
+      meetingId: 'abc123',
+      toUserId: 'user2',
+      toPeerId: 'peer-2',
+      signalType: 'offer',
+      signal: { type: 'offer', sdp },
+    });
+
+    it('accepts an offer', () => {
+      expect(schemaOf(CallEvents.SIGNAL).safeParse(offer('v=0')).success).toBe(true);
+    });
+
+    it('rejects an SDP whose type does not match the signal type', () => {
+      const payload = { ...offer('v=0'), signal: { type: 'answer', sdp: 'v=0' } };
+      expect(schemaOf(CallEvents.SIGNAL).safeParse(payload).success).toBe(false);
+    });
+
+    it('rejects an oversized SDP with SIGNAL_TOO_LARGE', () => {
+      const result = schemaOf(CallEvents.SIGNAL).safeParse(offer('a'.repeat(MAX_SDP_LENGTH + 1)));
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0]).toMatchObject({ params: { callErrorCode: 'SIGNAL_TOO_LARGE' } });
+      }
+    });
+  });
+
+  describe('call:reaction', () => {
+    it('accepts an allowed emoji', () => {
+      expect(schemaOf(CallEvents.REACTION).safeParse({ meetingId: 'abc123', emoji: '👍' }).success).toBe(true);
+    });
+
+    it('rejects any other emoji', () => {
+      expect(schemaOf(CallEvents.REACTION).safeParse({ meetingId: 'abc123', emoji: '💩' }).success).toBe(false);
+    });
+  });
+
+  describe('call:quality-report', () => {
+    it('accepts one entry per remote participant', () => {
+      const payload = { meetingId: 'abc123', peers: [peer('user2'), peer('user3')] };
+      expect(schemaOf(CallEvents.QUALITY_REPORT).safeParse(payload).success).toBe(true);
+    });
+
+    it('rejects duplicate and out of range entries', () => {
+      const schema = schemaOf(CallEvents.QUALITY_REPORT);
+
+      expect(schema.safeParse({ meetingId: 'abc123', peers: [peer('user2'), peer('user2')] }).success).toBe(false);
+      expect(schema.safeParse({ meetingId: 'abc123', peers: [{ ...peer('user2'), packetLoss: 150 }] }).success).toBe(false);
+      expect(schema.safeParse({ meetingId: 'abc123', peers: [] }).success).toBe(false);
+    });
+  });
+
+  describe('room creation', () => {
+    it('accepts settings that keep the host role', () => {
+      const result = createRoomSchema.safeParse({ meetingId: 'abc123', maxParticipants: 4, allowedRoles: ['host', 'participant'] });
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects allowed roles without host', () => {
+      expect(createRoomSchema.safeParse({ meetingId: 'abc123', allowedRoles: ['participant'] }).success).toBe(false);
+    });
+
+    it('rejects a schedule ending before it starts', () => {
+      const startsAt = new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString();
+      const endsAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+      expect(createRoomSchema.safeParse({ meetingId: 'abc123', schedule: { startsAt, endsAt } }).success).toBe(false);
+    });
+  });
+});
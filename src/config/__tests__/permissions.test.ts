@@ -0,0 +1,52 @@
+/**
+ * Tests of the role-based permission policy
+ */
+
+import { isEventAllowed, resolveJoinRole } from '../permissions';
+import { AuthenticatedUser, CallEvents } from '../../types';
+
+const user = (overrides: Partial<AuthenticatedUser> = {}): AuthenticatedUser => ({
+  userId: 'user1',
+  username: 'John',
+  hostOf: [],
+  defaultRole: 'participant',
+  ...overrides,
+});
+
+describe('isEventAllowed', () => {
+  it('lets every role signal and mute itself', () => {
+    for (const role of ['host', 'co-host', 'participant', 'viewer'] as const) {
+      expect(isEventAllowed(CallEvents.SIGNAL, role)).toBe(true);
+      expect(isEventAllowed(CallEvents.MUTE, role)).toBe(true);
+    }
+  });
+
+  it('keeps viewers from publishing media', () => {
+    expect(isEventAllowed(CallEvents.UNMUTE, 'viewer')).toBe(false);
+    expect(isEventAllowed(CallEvents.VIDEO_ON, 'viewer')).toBe(false);
+    expect(isEventAllowed(CallEvents.UNMUTE, 'participant')).toBe(true);
+  });
+
+  it('limits moderation to hosts and co-hosts', () => {
+    expect(isEventAllowed(CallEvents.REMOVE_PARTICIPANT, 'participant')).toBe(false);
+    expect(isEventAllowed(CallEvents.REMOVE_PARTICIPANT, 'co-host')).toBe(true);
+    expect(isEventAllowed(CallEvents.END, 'co-host')).toBe(false);
+    expect(isEventAllowed(CallEvents.END, 'host')).toBe(true);
+  });
+
+  it('denies events missing from the policy', () => {
+    expect(isEventAllowed('call:unknown', 'host')).toBe(false);
+  });
+});
+
+describe('resolveJoinRole', () => {
+  it('makes the first joiner and designated hosts host', () => {
+    expect(resolveJoinRole(user(), 'abc123', true)).toBe('host');
+    expect(resolveJoinRole(user({ hostOf: ['abc123'], defaultRole: 'viewer' }), 'abc123', false)).toBe('host');
+  });
+
+  it('gives everyone else the role of their token', () => {
+    expect(resolveJoinRole(user({ hostOf: ['other'] }), 'abc123', false)).toBe('participant');
+    expect(resolveJoinRole(user({ defaultRole: 'viewer' }), 'abc123', false)).toBe('viewer');
+  });
+});
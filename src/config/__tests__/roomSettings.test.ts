@@ -0,0 +1,25 @@
+/**
+ * Tests of the schedule closing time
+ */
+
+import { getClosingTime } from '../roomSettings';
+
+describe('getClosingTime', () => {
+  const startedAt = '2024-01-01T10:00:00.000Z';
+
+  it('has no closing time without an end or a maximum duration', () => {
+    expect(getClosingTime({ startsAt: null, endsAt: null, maxDuration: null }, startedAt)).toBeNull();
+  });
+
+  it('closes at the end of the maximum duration, counted from the first join', () => {
+    expect(getClosingTime({ startsAt: null, endsAt: null, maxDuration: 3600 }, startedAt)).toBe('2024-01-01T11:00:00.000Z');
+    expect(getClosingTime({ startsAt: null, endsAt: null, maxDuration: 3600 }, null)).toBeNull();
+  });
+
+  it('closes at whichever comes first', () => {
+    const schedule = { startsAt: null, endsAt: '2024-01-01T10:30:00.000Z', maxDuration: 3600 };
+
+    expect(getClosingTime(schedule, startedAt)).toBe('2024-01-01T10:30:00.000Z');
+    expect(getClosingTime({ ...schedule, maxDuration: 600 }, startedAt)).toBe('2024-01-01T10:10:00.000Z');
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Runtime schemas for client-to-server event payloads
+ * @module config/eventSchemas
+ * @description Declares the shape every inbound event payload must have. Checked by the
+ * validation middleware before any handler runs, so handlers can rely on their payload types.
+ */
+
+import { z } from 'zod';
+import {
+  CallErrorCode,
+  CallEvents,
+  CallRole,
+  CandidateType,
+  CreateRoomPayload,
+  JoinCallPayload,
+  QualityReportPayload,
+  ReactionPayload,
+  RemoveParticipantPayload,
+  ScreenSharePolicy,
+  ScreenShareStartPayload,
+  SetLobbyPayload,
+  SetRolePayload,
+  SetScreenSharePolicyPayload,
+  SignalPayload,
+} from '../types';
+import { MAX_CALL_DURATION, MAX_ROOM_CAPACITY, MAX_SCHEDULE_AHEAD } from './roomSettings';
+
+/**
+ * Reactions clients may send
+ * @constant {string[]}
+ */
+export const ALLOWED_REACTIONS = ['👍', '👏', '❤️', '😂', '😮', '🎉'] as const;
+
+/**
+ * Longest SDP offer or answer relayed, in characters
+ * @constant {number}
+ */
+export const MAX_SDP_LENGTH = 32 * 1024;
+
+/**
+ * Longest ICE candidate line relayed, in characters
+ * @constant {number}
+ */
+export const MAX_CANDIDATE_LENGTH = 1024;
+
+/**
+ * Meeting identifiers: letters, digits, `-` and `_`
+ */
+const meetingIdSchema = z.string().regex(/^[A-Za-z0-9_-]{1,128}$/, 'Invalid meeting ID');
+
+/**
+ * User identifiers as issued by the main backend (ObjectIds, UUIDs, e-mail-like ids)
+ */
+const userIdSchema = z.string().regex(/^[A-Za-z0-9_.:@-]{1,128}$/, 'Invalid user ID');
+
+/**
+ * PeerJS peer and stream identifiers
+ */
+const peerIdSchema = z.string().regex(/^[A-Za-z0-9_-]{1,128}$/, 'Invalid peer ID');
+
+/**
+ * Participant roles
+ */
+const roleSchema = z.enum(['host', 'co-host', 'participant', 'viewer'] satisfies [CallRole, ...CallRole[]]);
+
+/**
+ * Payloads that only name the meeting (`MutePayload`, `RoomModerationPayload`, ...)
+ */
+const meetingOnlySchema = z.object({ meetingId: meetingIdSchema });
+
+/**
+ * Payloads aimed at one participant of the meeting (`ModerationTargetPayload`, `LobbyDecisionPayload`)
+ */
+const targetSchema = z.object({ meetingId: meetingIdSchema, targetUserId: userIdSchema });
+
+const joinSchema: z.ZodType<JoinCallPayload> = z.object({
+  meetingId: meetingIdSchema,
+  peerId: peerIdSchema,
+  resumeToken: z.string().min(1).max(64).optional(),
+});
+
+/**
+ * ISO 8601 timestamps, normalized to UTC
+ */
+const timestampSchema = z.string().datetime({ offset: true }).transform(value => new Date(value).toISOString());
+
+/**
+ * Planned times of a new room
+ * @description The end must be in the future and after the start, and neither may be more than
+ * `MAX_SCHEDULE_AHEAD` away.
+ */
+const scheduleSchema = z.object({
+  startsAt: timestampSchema.nullable().optional(),
+  endsAt: timestampSchema.nullable().optional(),
+  maxDuration: z.number().int().min(60).max(MAX_CALL_DURATION).nullable().optional(),
+}).superRefine((schedule, ctx) => {
+  const horizon = Date.now() + MAX_SCHEDULE_AHEAD * 1000;
+
+  for (const field of ['startsAt', 'endsAt'] as const) {
+    const value = schedule[field];
+    if (value && Date.parse(value) > horizon) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: 'Too far ahead' });
+    }
+  }
+
+  if (schedule.endsAt && Date.parse(schedule.endsAt) <= Date.now()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endsAt'], message: 'Must be in the future' });
+  }
+  if (schedule.startsAt && schedule.endsAt && schedule.endsAt <= schedule.startsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endsAt'], message: 'Must be after startsAt' });
+  }
+});
+
+/**
+ * Settings of a new room, shared by `call:create-room` and `POST /api/call/room`
+ * @description `host` must stay allowed, so the call always has someone to run it.
+ */
+export const createRoomSchema: z.ZodType<CreateRoomPayload> = z.object({
+  meetingId: meetingIdSchema,
+  maxParticipants: z.number().int().min(1).max(MAX_ROOM_CAPACITY).optional(),
+  audioOnly: z.boolean().optional(),
+  startMuted: z.boolean().optional(),
+  startCameraOff: z.boolean().optional(),
+  lobbyEnabled: z.boolean().optional(),
+  allowedRoles: z.array(roleSchema)
+    .refine(roles => roles.includes('host'), 'Allowed roles must include host')
+    .optional(),
+  schedule: scheduleSchema.optional(),
+});
+
+/**
+ * String of at most `max` characters, rejected with `SIGNAL_TOO_LARGE` beyond that
+ * @param {number} max - Maximum length
+ * @param {string} label - Name used in the error message
+ * @returns {z.ZodType<string>} Schema
+ * @private
+ */
+const cappedString = (max: number, label: string) => z.string().superRefine((value, ctx) => {
+  if (value.length > max) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `${label} exceeds ${max} characters`,
+      params: { callErrorCode: 'SIGNAL_TOO_LARGE' satisfies CallErrorCode },
+    });
+  }
+});
+
+const sessionDescriptionSchema = (type: 'offer' | 'answer') => z.object({
+  type: z.literal(type),
+  sdp: cappedString(MAX_SDP_LENGTH, 'SDP'),
+});
+
+const iceCandidateSchema = z.object({
+  candidate: cappedString(MAX_CANDIDATE_LENGTH, 'ICE candidate'),
+  sdpMid: z.string().max(64).nullish(),
+  sdpMLineIndex: z.number().int().min(0).max(255).nullish(),
+  usernameFragment: z.string().max(256).nullish(),
+});
+
+const signalTargetSchema = z.object({
+  meetingId: meetingIdSchema,
+  toUserId: userIdSchema,
+  toPeerId: peerIdSchema,
+});
+
+/**
+ * The signal's shape depends on its type: offers and answers carry an SDP whose `type` matches,
+ * ICE candidates a candidate line
+ */
+const signalSchema: z.ZodType<SignalPayload> = z.discriminatedUnion('signalType', [
+  signalTargetSchema.extend({ signalType: z.literal('offer'), signal: sessionDescriptionSchema('offer') }),
+  signalTargetSchema.extend({ signalType: z.literal('answer'), signal: sessionDescriptionSchema('answer') }),
+  signalTargetSchema.extend({ signalType: z.literal('ice-candidate'), signal: iceCandidateSchema }),
+]);
+
+const setRoleSchema: z.ZodType<SetRolePayload> = z.object({
+  meetingId: meetingIdSchema,
+  targetUserId: userIdSchema,
+  role: roleSchema,
+});
+
+const screenShareStartSchema: z.ZodType<ScreenShareStartPayload> = z.object({
+  meetingId: meetingIdSchema,
+  streamId: peerIdSchema,
+});
+
+const removeParticipantSchema: z.ZodType<RemoveParticipantPayload> = targetSchema.extend({
+  ban: z.boolean().optional(),
+});
+
+const setLobbySchema: z.ZodType<SetLobbyPayload> = z.object({
+  meetingId: meetingIdSchema,
+  enabled: z.boolean(),
+});
+
+const setScreenSharePolicySchema: z.ZodType<SetScreenSharePolicyPayload> = z.object({
+  meetingId: meetingIdSchema,
+  policy: z.enum(['single', 'multiple'] satisfies [ScreenSharePolicy, ...ScreenSharePolicy[]]),
+});
+
+const reactionSchema: z.ZodType<ReactionPayload> = z.object({
+  meetingId: meetingIdSchema,
+  emoji: z.enum(ALLOWED_REACTIONS),
+});
+
+/**
+ * Connection quality of every remote participant
+ * @description One entry per remote participant; a room has at most `MAX_ROOM_CAPACITY - 1` of them.
+ */
+const qualityReportSchema: z.ZodType<QualityReportPayload> = z.object({
+  meetingId: meetingIdSchema,
+  peers: z.array(z.object({
+    userId: userIdSchema,
+    rtt: z.number().min(0).max(60000),
+    jitter: z.number().min(0).max(60000),
+    packetLoss: z.number().min(0).max(100),
+    bitrate: z.number().min(0).max(1000000),
+    candidateType: z.enum(['host', 'srflx', 'prflx', 'relay'] satisfies [CandidateType, ...CandidateType[]]),
+  }))
+    .min(1)
+    .max(MAX_ROOM_CAPACITY - 1)
+    .refine(peers => new Set(peers.map(peer => peer.userId)).size === peers.length, 'Duplicate peer'),
+});
+
+/**
+ * Error code of invalid payloads of each event; `INVALID_PAYLOAD` when not listed
+ * @constant {Partial<Record<CallEvents, CallErrorCode>>}
+ * @description A schema issue may override it with a `callErrorCode` param (e.g. `SIGNAL_TOO_LARGE`).
+ */
+export const INVALID_PAYLOAD_CODES: Partial<Record<CallEvents, CallErrorCode>> = {
+  [CallEvents.SIGNAL]: 'INVALID_SIGNAL',
+};
+
+/**
+ * Payload schema of each client-to-server event
+ * @constant {Partial<Record<CallEvents, z.ZodTypeAny>>}
+ * @description Events without a schema are passed through unchecked; the authorization
+ * middleware denies any event missing from the permission policy.
+ */
+export const EVENT_SCHEMAS: Partial<Record<CallEvents, z.ZodTypeAny>> = {
+  [CallEvents.JOIN]: joinSchema,
+  [CallEvents.LEAVE]: meetingOnlySchema,
+  [CallEvents.CREATE_ROOM]: createRoomSchema,
+  [CallEvents.SIGNAL]: signalSchema,
+  [CallEvents.MUTE]: meetingOnlySchema,
+  [CallEvents.UNMUTE]: meetingOnlySchema,
+  [CallEvents.VIDEO_ON]: meetingOnlySchema,
+  [CallEvents.VIDEO_OFF]: meetingOnlySchema,
+  [CallEvents.SCREEN_SHARE_START]: screenShareStartSchema,
+  [CallEvents.SCREEN_SHARE_STOP]: meetingOnlySchema,
+  [CallEvents.RAISE_HAND]: meetingOnlySchema,
+  [CallEvents.LOWER_HAND]: meetingOnlySchema,
+  [CallEvents.REACTION]: reactionSchema,
+  [CallEvents.QUALITY_REPORT]: qualityReportSchema,
+  [CallEvents.SET_ROLE]: setRoleSchema,
+  [CallEvents.MUTE_PARTICIPANT]: targetSchema,
+  [CallEvents.MUTE_ALL]: meetingOnlySchema,
+  [CallEvents.STOP_VIDEO]: targetSchema,
+  [CallEvents.REMOVE_PARTICIPANT]: removeParticipantSchema,
+  [CallEvents.LOCK_ROOM]: meetingOnlySchema,
+  [CallEvents.UNLOCK_ROOM]: meetingOnlySchema,
+  [CallEvents.STOP_SCREEN_SHARE]: targetSchema,
+  [CallEvents.LOWER_PARTICIPANT_HAND]: targetSchema,
+  [CallEvents.SET_SCREEN_SHARE_POLICY]: setScreenSharePolicySchema,
+  [CallEvents.SET_LOBBY]: setLobbySchema,
+  [CallEvents.LOBBY_ADMIT]: targetSchema,
+  [CallEvents.LOBBY_DENY]: targetSchema,
+  [CallEvents.LOBBY_ADMIT_ALL]: meetingOnlySchema,
+  [CallEvents.END]: meetingOnlySchema,
+  [CallEvents.REFRESH_ICE_SERVERS]: z.object({}).nullish(),
+};
@@ -0,0 +1,107 @@
+/**
+ * Role-based permission policy for call events
+ * @module config/permissions
+ * @description Declares which participant roles may emit each client-to-server event
+ * and how a role is assigned when a user joins a call.
+ */
+
+import { AuthenticatedUser, CallEvents, CallRole } from '../types';
+
+/**
+ * Every role, for events any participant may emit
+ * @constant {CallRole[]}
+ */
+const ALL_ROLES: CallRole[] = ['host', 'co-host', 'participant', 'viewer'];
+
+/**
+ * Roles allowed to publish audio and video
+ * @constant {CallRole[]}
+ */
+const SPEAKER_ROLES: CallRole[] = ['host', 'co-host', 'participant'];
+
+/**
+ * Roles allowed to moderate the call
+ * @constant {CallRole[]}
+ */
+export const MODERATOR_ROLES: CallRole[] = ['host', 'co-host'];
+
+/**
+ * Events that may be emitted without being a participant of a call
+ * @constant {CallEvents[]}
+ * @description `call:join` and `call:create-room` are handled before the sender has a role (the
+ * latter checks the `hostOf` claim itself), ICE servers are needed before joining, and users
+ * waiting in the lobby may give up with `call:leave`.
+ */
+export const MEMBERSHIP_EXEMPT_EVENTS: CallEvents[] = [
+  CallEvents.JOIN,
+  CallEvents.LEAVE,
+  CallEvents.CREATE_ROOM,
+  CallEvents.REFRESH_ICE_SERVERS,
+];
+
+/**
+ * Permission policy: which roles may emit each event
+ * @constant {Partial<Record<CallEvents, CallRole[]>>}
+ * @description Checked by the authorization middleware for every inbound event except
+ * the {@link MEMBERSHIP_EXEMPT_EVENTS}. Events missing from this policy are denied.
+ */
+export const EVENT_PERMISSIONS: Partial<Record<CallEvents, CallRole[]>> = {
+  [CallEvents.SIGNAL]: ALL_ROLES,
+  [CallEvents.MUTE]: ALL_ROLES,
+  [CallEvents.UNMUTE]: SPEAKER_ROLES,
+  [CallEvents.VIDEO_ON]: SPEAKER_ROLES,
+  [CallEvents.VIDEO_OFF]: ALL_ROLES,
+  [CallEvents.SCREEN_SHARE_START]: SPEAKER_ROLES,
+  [CallEvents.SCREEN_SHARE_STOP]: ALL_ROLES,
+  [CallEvents.RAISE_HAND]: ALL_ROLES,
+  [CallEvents.LOWER_HAND]: ALL_ROLES,
+  [CallEvents.REACTION]: ALL_ROLES,
+  [CallEvents.QUALITY_REPORT]: ALL_ROLES,
+  [CallEvents.SET_ROLE]: ['host'],
+  [CallEvents.MUTE_PARTICIPANT]: MODERATOR_ROLES,
+  [CallEvents.MUTE_ALL]: MODERATOR_ROLES,
+  [CallEvents.STOP_VIDEO]: MODERATOR_ROLES,
+  [CallEvents.REMOVE_PARTICIPANT]: MODERATOR_ROLES,
+  [CallEvents.LOCK_ROOM]: MODERATOR_ROLES,
+  [CallEvents.UNLOCK_ROOM]: MODERATOR_ROLES,
+  [CallEvents.STOP_SCREEN_SHARE]: MODERATOR_ROLES,
+  [CallEvents.LOWER_PARTICIPANT_HAND]: MODERATOR_ROLES,
+  [CallEvents.SET_SCREEN_SHARE_POLICY]: MODERATOR_ROLES,
+  [CallEvents.SET_LOBBY]: MODERATOR_ROLES,
+  [CallEvents.LOBBY_ADMIT]: MODERATOR_ROLES,
+  [CallEvents.LOBBY_DENY]: MODERATOR_ROLES,
+  [CallEvents.LOBBY_ADMIT_ALL]: MODERATOR_ROLES,
+  [CallEvents.END]: ['host'],
+};
+
+/**
+ * Checks whether a role may emit an event
+ * @param {string} event - Inbound event name
+ * @param {CallRole} role - Role of the sender
+ * @returns {boolean} True if the policy allows the event for this role
+ */
+export const isEventAllowed = (event: string, role: CallRole): boolean => {
+  const allowedRoles = EVENT_PERMISSIONS[event as CallEvents];
+  return allowedRoles !== undefined && allowedRoles.includes(role);
+};
+
+/**
+ * Determines the role a user receives when joining a call
+ * @param {AuthenticatedUser} user - Authenticated user joining the call
+ * @param {string} meetingId - Meeting being joined
+ * @param {boolean} isFirstJoiner - Whether the room has no participants yet
+ * @returns {CallRole} The role to assign
+ * @description Users whose token names them as host of the meeting (`hostOf` claim) and the
+ * first user to join an empty room become host. Everyone else gets the role requested by the
+ * token (`viewer`) or `participant`.
+ */
+export const resolveJoinRole = (
+  user: AuthenticatedUser,
+  meetingId: string,
+  isFirstJoiner: boolean
+): CallRole => {
+  if (isFirstJoiner || user.hostOf.includes(meetingId)) {
+    return 'host';
+  }
+  return user.defaultRole;
+};
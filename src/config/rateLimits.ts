@@ -0,0 +1,135 @@
+/**
+ * Rate limits for socket events and connections
+ * @module config/rateLimits
+ * @description Declares how often each socket may emit each kind of event, when a socket that
+ * keeps exceeding its limits is disconnected, and how many connections one IP address may open.
+ * Every limit can be overridden through the environment.
+ */
+
+import { CallEvents } from '../types';
+
+/**
+ * Token bucket limit
+ * @interface RateLimit
+ */
+export interface RateLimit {
+  /** Events allowed in a burst */
+  capacity: number;
+  /** Sustained events per second once the burst is used up */
+  refillPerSecond: number;
+}
+
+/**
+ * Groups of events sharing one token bucket per socket
+ * @typedef {string} RateLimitGroup
+ * @description
+ * - `join`: joining and leaving calls
+ * - `signal`: WebRTC offers, answers and ICE candidates (bursty when connecting to many peers)
+ * - `media`: microphone, camera and screen share toggles
+ * - `reaction`: ephemeral reactions
+ * - `moderation`: host and co-host commands, role changes and lobby decisions
+ * - `default`: every other event
+ */
+export type RateLimitGroup = 'join' | 'signal' | 'media' | 'reaction' | 'moderation' | 'default';
+
+/**
+ * Parse a `capacity:refillPerSecond` limit from the environment
+ * @param {string | undefined} value - Environment value, e.g. `10:2`
+ * @param {RateLimit} fallback - Limit used when the value is missing or invalid
+ * @returns {RateLimit} Parsed limit
+ * @private
+ */
+const parseRateLimit = (value: string | undefined, fallback: RateLimit): RateLimit => {
+  const [capacity, refillPerSecond] = (value || '').split(':').map(Number);
+
+  if (!(capacity > 0) || !(refillPerSecond > 0)) {
+    return fallback;
+  }
+  return { capacity, refillPerSecond };
+};
+
+/**
+ * Limit of each event group, per socket
+ * @constant {Record<RateLimitGroup, RateLimit>}
+ * @description Overridden with `RATE_LIMIT_<GROUP>=capacity:refillPerSecond`.
+ */
+export const RATE_LIMITS: Record<RateLimitGroup, RateLimit> = {
+  join: parseRateLimit(process.env.RATE_LIMIT_JOIN, { capacity: 5, refillPerSecond: 0.2 }),
+  signal: parseRateLimit(process.env.RATE_LIMIT_SIGNAL, { capacity: 200, refillPerSecond: 50 }),
+  media: parseRateLimit(process.env.RATE_LIMIT_MEDIA, { capacity: 10, refillPerSecond: 2 }),
+  reaction: parseRateLimit(process.env.RATE_LIMIT_REACTION, { capacity: 5, refillPerSecond: 1 }),
+  moderation: parseRateLimit(process.env.RATE_LIMIT_MODERATION, { capacity: 20, refillPerSecond: 5 }),
+  default: parseRateLimit(process.env.RATE_LIMIT_DEFAULT, { capacity: 20, refillPerSecond: 5 }),
+};
+
+/**
+ * Group of each client-to-server event; events not listed fall in `default`
+ * @constant {Partial<Record<CallEvents, RateLimitGroup>>}
+ */
+export const EVENT_RATE_LIMIT_GROUPS: Partial<Record<CallEvents, RateLimitGroup>> = {
+  [CallEvents.JOIN]: 'join',
+  [CallEvents.LEAVE]: 'join',
+  [CallEvents.CREATE_ROOM]: 'join',
+  [CallEvents.SIGNAL]: 'signal',
+  [CallEvents.MUTE]: 'media',
+  [CallEvents.UNMUTE]: 'media',
+  [CallEvents.VIDEO_ON]: 'media',
+  [CallEvents.VIDEO_OFF]: 'media',
+  [CallEvents.SCREEN_SHARE_START]: 'media',
+  [CallEvents.SCREEN_SHARE_STOP]: 'media',
+  [CallEvents.REACTION]: 'reaction',
+  [CallEvents.SET_ROLE]: 'moderation',
+  [CallEvents.MUTE_PARTICIPANT]: 'moderation',
+  [CallEvents.MUTE_ALL]: 'moderation',
+  [CallEvents.STOP_VIDEO]: 'moderation',
+  [CallEvents.REMOVE_PARTICIPANT]: 'moderation',
+  [CallEvents.LOCK_ROOM]: 'moderation',
+  [CallEvents.UNLOCK_ROOM]: 'moderation',
+  [CallEvents.STOP_SCREEN_SHARE]: 'moderation',
+  [CallEvents.LOWER_PARTICIPANT_HAND]: 'moderation',
+  [CallEvents.SET_SCREEN_SHARE_POLICY]: 'moderation',
+  [CallEvents.SET_LOBBY]: 'moderation',
+  [CallEvents.LOBBY_ADMIT]: 'moderation',
+  [CallEvents.LOBBY_DENY]: 'moderation',
+  [CallEvents.LOBBY_ADMIT_ALL]: 'moderation',
+  [CallEvents.END]: 'moderation',
+};
+
+/**
+ * Rate-limited events after which a socket is disconnected
+ * @constant {number}
+ * @default 30
+ */
+export const MAX_RATE_LIMIT_VIOLATIONS = parseInt(process.env.MAX_RATE_LIMIT_VIOLATIONS || '30', 10);
+
+/**
+ * Seconds over which rate limit violations are counted
+ * @constant {number}
+ * @default 60
+ */
+export const RATE_LIMIT_VIOLATION_WINDOW = parseInt(process.env.RATE_LIMIT_VIOLATION_WINDOW || '60', 10);
+
+/**
+ * Open socket connections allowed per IP address, on each instance
+ * @constant {number}
+ * @default 20
+ */
+export const MAX_CONNECTIONS_PER_IP = parseInt(process.env.MAX_CONNECTIONS_PER_IP || '20', 10);
+
+/**
+ * Connection attempts allowed per IP address, on each instance
+ * @constant {RateLimit}
+ * @description Overridden with `CONNECTION_RATE_LIMIT=capacity:refillPerSecond`.
+ */
+export const CONNECTION_RATE_LIMIT = parseRateLimit(
+  process.env.CONNECTION_RATE_LIMIT,
+  { capacity: 10, refillPerSecond: 1 }
+);
+
+/**
+ * Whether to take the client IP from `X-Forwarded-For`
+ * @constant {boolean}
+ * @description Enable only behind a reverse proxy that sets the header (Render, nginx, ...);
+ * otherwise clients could pick their own IP.
+ */
+export const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
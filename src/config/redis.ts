@@ -0,0 +1,75 @@
+/**
+ * Redis connection configuration
+ * @module config/redis
+ * @description Creates the Redis connections used by the shared room store and by the
+ * Socket.IO adapter that broadcasts events across server instances.
+ */
+
+import Redis from 'ioredis';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { logger } from '../utils/logger';
+
+/**
+ * Shared Redis client for commands, created on first use
+ * @type {Redis | null}
+ */
+let redisClient: Redis | null = null;
+
+/**
+ * Publisher and subscriber connections of the Socket.IO adapter
+ * @type {Redis[]}
+ */
+const adapterClients: Redis[] = [];
+
+/**
+ * Whether call state is shared through Redis
+ * @returns {boolean} True when `ROOM_STORE` is set to `redis`
+ */
+export const isRedisEnabled = (): boolean => process.env.ROOM_STORE === 'redis';
+
+/**
+ * Creates a Redis connection from `REDIS_URL`
+ * @param {string} name - Connection name used in logs
+ * @returns {Redis} New ioredis client
+ * @private
+ */
+const createConnection = (name: string): Redis => {
+  const client = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
+  client.on('error', (error) => logger.error(`Redis ${name} connection error`, error));
+  return client;
+};
+
+/**
+ * Get the shared Redis client for commands
+ * @returns {Redis} ioredis client connected to `REDIS_URL`
+ */
+export const getRedisClient = (): Redis => {
+  if (!redisClient) {
+    redisClient = createConnection('command');
+  }
+  return redisClient;
+};
+
+/**
+ * Create the Socket.IO Redis adapter
+ * @returns {ReturnType<typeof createAdapter>} Adapter factory to pass to `io.adapter()`
+ * @description Uses dedicated publisher and subscriber connections, as subscribed connections
+ * cannot issue regular commands. Rooms, broadcasts and `io.in(socketId)` operations then reach
+ * sockets connected to any instance.
+ */
+export const createRedisAdapter = (): ReturnType<typeof createAdapter> => {
+  const pubClient = createConnection('publisher');
+  const subClient = createConnection('subscriber');
+  adapterClients.push(pubClient, subClient);
+  return createAdapter(pubClient, subClient);
+};
+
+/**
+ * Close the connections of the Socket.IO adapter
+ * @returns {Promise<void>}
+ * @description Used when the server shuts down, once Socket.IO is closed. The command connection
+ * is closed with the room store.
+ */
+export const closeRedisAdapter = async (): Promise<void> => {
+  await Promise.all(adapterClients.splice(0).map(client => client.quit()));
+};
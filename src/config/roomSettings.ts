@@ -0,0 +1,148 @@
+/**
+ * Call room settings and their defaults
+ * @module config/roomSettings
+ * @description Server-wide defaults of the per-room settings, read from the environment, and how
+ * the settings requested for a new room are completed with them.
+ */
+
+import { CallRoomSettings, CallSchedule } from '../types';
+
+/**
+ * Default maximum number of participants per call room
+ * @constant {number}
+ * @default 10
+ */
+export const MAX_PARTICIPANTS = parseInt(process.env.MAX_PARTICIPANTS || '10', 10);
+
+/**
+ * Minimum number of participants per call
+ * @constant {number}
+ * @default 2
+ * @description A call is `active` from this many participants on; below it, it is `waiting` to
+ * start or `ending`. Rooms with a lower capacity need all their places filled instead.
+ */
+export const MIN_PARTICIPANTS = parseInt(process.env.MIN_PARTICIPANTS || '2', 10);
+
+/**
+ * Seconds a call may stay below {@link MIN_PARTICIPANTS} before it is ended
+ * @constant {number}
+ * @default 120
+ * @description Counted from the first join for calls that never reached the minimum. `0` never
+ * ends calls for lack of participants; they go back to `waiting` instead.
+ */
+export const MIN_PARTICIPANTS_TIMEOUT = parseInt(process.env.MIN_PARTICIPANTS_TIMEOUT || '120', 10);
+
+/**
+ * Highest capacity a room may be created with
+ * @constant {number}
+ * @description Every participant holds a WebRTC connection to every other one, so large rooms
+ * quickly exhaust the clients' upload bandwidth.
+ */
+export const MAX_ROOM_CAPACITY = 50;
+
+/**
+ * Seconds a room created ahead of time is kept while nobody has joined it
+ * @constant {number}
+ * @default 3600
+ */
+export const EMPTY_ROOM_TIMEOUT = parseInt(process.env.EMPTY_ROOM_TIMEOUT || '3600', 10);
+
+/**
+ * Seconds before a scheduled end at which participants are warned with `call:ending-soon`
+ * @constant {number[]}
+ * @default [300, 60]
+ */
+export const CALL_ENDING_WARNINGS = (process.env.CALL_ENDING_WARNINGS || '300,60')
+  .split(',')
+  .map(offset => parseInt(offset.trim(), 10))
+  .filter(offset => offset > 0)
+  .sort((a, b) => b - a);
+
+/**
+ * Furthest ahead a schedule may start or end, in seconds
+ * @constant {number}
+ * @description Keeps every schedule timer within the range `setTimeout` supports.
+ */
+export const MAX_SCHEDULE_AHEAD = 7 * 24 * 60 * 60;
+
+/**
+ * Longest `maxDuration` a schedule may set, in seconds
+ * @constant {number}
+ */
+export const MAX_CALL_DURATION = 24 * 60 * 60;
+
+/**
+ * Seconds joins keep being rejected with `MEETING_ENDED` after a schedule ended a call
+ * @constant {number}
+ * @description A designated host or an admin creating the room again lifts the rejection earlier.
+ */
+export const ENDED_MEETING_RETENTION = 24 * 60 * 60;
+
+/**
+ * Settings of rooms created by a first `call:join`, and of settings left out on creation
+ * @constant {CallRoomSettings}
+ */
+export const DEFAULT_ROOM_SETTINGS: Readonly<CallRoomSettings> = {
+  maxParticipants: MAX_PARTICIPANTS,
+  audioOnly: false,
+  startMuted: true,
+  startCameraOff: true,
+  allowedRoles: ['host', 'co-host', 'participant', 'viewer'],
+};
+
+/**
+ * Complete the settings requested for a new room with the defaults
+ * @param {Partial<CallRoomSettings>} [requested={}] - Settings chosen by the creator
+ * @returns {CallRoomSettings} Settings of the room
+ * @example
+ * resolveRoomSettings({ maxParticipants: 4, audioOnly: true });
+ * // Returns: { maxParticipants: 4, audioOnly: true, startMuted: true, startCameraOff: true, allowedRoles: [...] }
+ */
+export const resolveRoomSettings = (requested: Partial<CallRoomSettings> = {}): CallRoomSettings => ({
+  maxParticipants: requested.maxParticipants ?? DEFAULT_ROOM_SETTINGS.maxParticipants,
+  audioOnly: requested.audioOnly ?? DEFAULT_ROOM_SETTINGS.audioOnly,
+  startMuted: requested.startMuted ?? DEFAULT_ROOM_SETTINGS.startMuted,
+  startCameraOff: requested.startCameraOff ?? DEFAULT_ROOM_SETTINGS.startCameraOff,
+  allowedRoles: requested.allowedRoles ? [...requested.allowedRoles] : [...DEFAULT_ROOM_SETTINGS.allowedRoles],
+});
+
+/**
+ * Participants a room needs to be `active`
+ * @param {CallRoomSettings} settings - Settings of the room
+ * @returns {number} {@link MIN_PARTICIPANTS}, or the room's capacity when it is smaller
+ */
+export const getMinParticipants = (settings: CallRoomSettings): number =>
+  Math.min(MIN_PARTICIPANTS, settings.maxParticipants);
+
+/**
+ * Complete the schedule requested for a new room
+ * @param {Partial<CallSchedule>} [requested={}] - Planned times chosen by the creator
+ * @returns {CallSchedule} Schedule of the room; times left out are null
+ */
+export const resolveSchedule = (requested: Partial<CallSchedule> = {}): CallSchedule => ({
+  startsAt: requested.startsAt ?? null,
+  endsAt: requested.endsAt ?? null,
+  maxDuration: requested.maxDuration ?? null,
+});
+
+/**
+ * When a schedule ends its call
+ * @param {CallSchedule} schedule - Schedule of the room
+ * @param {string | null} startedAt - First join of the call, or null while nobody has joined
+ * @returns {string | null} The schedule's `endsAt` or the end of `maxDuration` after `startedAt`,
+ * whichever comes first; null when neither applies
+ * @example
+ * getClosingTime({ startsAt: null, endsAt: null, maxDuration: 3600 }, '2024-01-01T10:00:00.000Z');
+ * // Returns: '2024-01-01T11:00:00.000Z'
+ */
+export const getClosingTime = (schedule: CallSchedule, startedAt: string | null): string | null => {
+  const limits: number[] = [];
+  if (schedule.endsAt !== null) {
+    limits.push(Date.parse(schedule.endsAt));
+  }
+  if (schedule.maxDuration !== null && startedAt !== null) {
+    limits.push(Date.parse(startedAt) + schedule.maxDuration * 1000);
+  }
+
+  return limits.length > 0 ? new Date(Math.min(...limits)).toISOString() : null;
+};
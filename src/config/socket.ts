@@ -6,57 +6,89 @@
  */
 
 import { Server as HTTPServer } from 'http';
-import { Server, Socket } from 'socket.io';
+import { Server } from 'socket.io';
 import {
+  CallAck,
   CallEvents,
-  CallParticipant,
+  CallRoomInfo,
+  CallRoomSummary,
+  CallServer,
+  CallSocket,
+  CreateRoomPayload,
   JoinCallPayload,
   LeaveCallPayload,
   SignalPayload,
   MutePayload,
   VideoPayload,
-  getIceServers,
+  SetRolePayload,
+  ScreenShareStartPayload,
+  ScreenShareStopPayload,
 } from '../types';
-import { logger } from '../utils/logger';
-
-/**
- * In-memory storage for active call rooms with their participants
- * @type {Map<string, Map<string, CallParticipant>>}
- * @description Key: meetingId, Value: Map of participants where key is userId and value is CallParticipant
- */
-const callRooms = new Map<string, Map<string, CallParticipant>>();
-
-/**
- * Map socket IDs to user info for quick lookup on disconnect
- * @type {Map<string, { meetingId: string; userId: string }>}
- * @description Key: socketId, Value: { meetingId, userId }
- */
-const socketToUser = new Map<string, { meetingId: string; userId: string }>();
+import { resolveJoinRole } from './permissions';
+import { createRedisAdapter, isRedisEnabled } from './redis';
+import { authenticateSocket } from '../middlewares/socketAuth';
+import { createRateLimitMiddleware, limitConnections, trackConnection } from '../middlewares/socketRateLimit';
+import { createAuthorizationMiddleware } from '../middlewares/socketAuthorization';
+import { createLogContextMiddleware } from '../middlewares/socketLogContext';
+import { createMetricsMiddleware } from '../middlewares/socketMetrics';
+import { createValidationMiddleware } from '../middlewares/socketValidation';
+import { registerLobbyHandlers } from '../handlers/lobbyHandlers';
+import { registerModerationHandlers } from '../handlers/moderationHandlers';
+import { registerParticipationHandlers } from '../handlers/participationHandlers';
+import { registerQualityHandlers } from '../handlers/qualityHandlers';
+import {
+  admitParticipant,
+  applyRole,
+  buildParticipant,
+  createResumeToken,
+  createRoom,
+  createRoomAhead,
+  enterLobby,
+  getHandQueue,
+  leaveLobby,
+  removeParticipant,
+  setParticipantMuted,
+  setParticipantScreenShare,
+  setParticipantVideo,
+} from '../services/roomService';
+import { registerCallStateMachine } from '../services/callStateService';
+import { registerHistoryRecorder } from '../services/historyService';
+import { getJoinRejection, registerCallScheduler } from '../services/scheduleService';
+import { deferShutdown, isShuttingDown, rejectConnectionsDuringShutdown } from '../services/shutdownService';
+import { registerWebhooks } from '../services/webhookService';
+import { recordConnection, recordSignalRelayed, trackSocketServer } from '../services/metricsService';
+import { RECONNECT_GRACE_PERIOD, cancelSlotExpiry, holdParticipantSlot } from '../services/sessionService';
+import { checkTurnConfiguration, getIceServers } from '../utils/iceServers';
+import { isAuthConfigured } from '../utils/jwt';
+import { logger, runWithLogContext } from '../utils/logger';
+import { emitCallError } from '../utils/socketErrors';
+import { getRoomStore } from '../store';
 
 /**
- * Maximum number of participants allowed per call room
- * @constant {number}
- * @default 10
+ * Storage for call rooms, their participants and socket mappings
+ * @description In memory by default, or shared through Redis when `ROOM_STORE=redis`
+ * so several instances can serve the same calls.
  */
-const MAX_PARTICIPANTS = parseInt(process.env.MAX_PARTICIPANTS || '10', 10);
+const store = getRoomStore();
 
 /**
  * Initialize Socket.IO server for voice calls
  * @param {HTTPServer} httpServer - HTTP server instance to attach Socket.IO to
- * @returns {Server} Configured Socket.IO server instance with all event handlers
- * @description Sets up Socket.IO server with CORS configuration and registers all event handlers
- * for voice call operations including join, leave, signaling, and mute/unmute events.
+ * @returns {CallServer} Configured Socket.IO server instance with all event handlers
+ * @description Sets up Socket.IO server with CORS configuration, token authentication on the
+ * handshake, the Redis adapter when state is shared across instances, and registers all event handlers for voice call operations including join, leave,
+ * signaling, and mute/unmute events. Handlers always act on behalf of the authenticated user.
  * @example
  * const httpServer = createServer(app);
  * const io = initializeSocketIO(httpServer);
  */
-export const initializeSocketIO = (httpServer: HTTPServer): Server => {
+export const initializeSocketIO = (httpServer: HTTPServer): CallServer => {
   const corsOriginEnv = process.env.CORS_ORIGIN || 'http://localhost:5173';
   const allowedOrigins = corsOriginEnv === '*' 
     ? '*' 
     : corsOriginEnv.split(',').map(origin => origin.trim());
 
-  const io = new Server(httpServer, {
+  const io: CallServer = new Server(httpServer, {
     cors: {
       origin: allowedOrigins,
       credentials: allowedOrigins !== '*',
@@ -66,120 +98,255 @@ export const initializeSocketIO = (httpServer: HTTPServer): Server => {
     pingInterval: 25000,
   });
 
+  // Broadcast across instances when call state is shared through Redis
+  if (isRedisEnabled()) {
+    io.adapter(createRedisAdapter());
+    logger.info('Socket.IO Redis adapter enabled');
+  }
+
+  // Send new connections to other instances once this one is shutting down
+  io.use(rejectConnectionsDuringShutdown);
+
+  // Reject IP addresses opening too many connections, before spending time on their token
+  io.use(limitConnections);
+
+  // Reject connections without a valid access token
+  if (!isAuthConfigured()) {
+    logger.warn('JWT verification key is not configured - all socket connections will be rejected');
+  }
+  io.use(authenticateSocket);
+
+  checkTurnConfiguration();
+
+  // Report open connections in the metrics
+  trackSocketServer(io);
+
+  // Drive call states from participant counts, and end scheduled calls on time
+  registerCallStateMachine(io);
+  registerCallScheduler(io);
+
+  // Record call sessions in the history and notify other services through webhooks
+  registerHistoryRecorder();
+  registerWebhooks();
+
   /**
    * Handle socket connection
-   * @param {Socket} socket - Socket instance representing a client connection
+   * @param {CallSocket} socket - Authenticated socket instance representing a client connection
    * @description Sets up event listeners for all voice call operations when a client connects.
+   * Every event is timed until handled for the metrics, handled with the socket, user and
+   * meeting as log context, counted against the socket's rate limits and its payload is checked against
+   * its schema, then every event except `call:join`
+   * goes through the role-based authorization middleware. Handlers answer the optional
+   * acknowledgement callback of every event with `{ ok, error? }`.
    * Automatically sends ICE server configuration to the client upon connection.
    */
-  io.on(CallEvents.CONNECTION, (socket: Socket) => {
-    logger.socket('connection', `New connection: ${socket.id}`);
+  io.on(CallEvents.CONNECTION, (socket: CallSocket) => {
+    const { userId, username } = socket.data.user;
+    const log = logger.child({ socketId: socket.id, userId });
+    log.socket('connection', `New connection: ${socket.id} (user ${userId})`);
+    trackConnection(socket);
+    recordConnection();
+
+    // Time every event until it is handled, including events rejected by the next middlewares
+    socket.use(createMetricsMiddleware(socket));
+
+    // Tag the log entries of every event with the socket, user and meeting
+    socket.use(createLogContextMiddleware(socket));
+
+    // Drop events beyond the socket's rate limits and disconnect repeat offenders
+    socket.use(createRateLimitMiddleware(socket));
+
+    // Reject malformed payloads before they reach the permission check or a handler
+    socket.use(createValidationMiddleware(socket));
+
+    // Check every inbound event against the role-based permission policy
+    socket.use(createAuthorizationMiddleware(
+      socket,
+      (meetingId, participantUserId) => store.getParticipant(meetingId, participantUserId)
+    ));
 
-    // Send ICE servers configuration to client (includes ExpressTURN if configured)
-    socket.emit('call:ice-servers', getIceServers());
+    // Send ICE servers configuration to client (TURN credentials are minted for this user)
+    socket.emit(CallEvents.ICE_SERVERS, getIceServers(userId));
+
+    /**
+     * Handle a client refreshing its ICE servers configuration
+     * @description Mints new TURN credentials for the authenticated user. Clients should request
+     * this before the `expiresAt` of the previous configuration.
+     * @fires CallEvents#ICE_SERVERS - Emitted to the requesting client
+     */
+    socket.on(CallEvents.REFRESH_ICE_SERVERS, (_payload: unknown, ack?: CallAck) => {
+      socket.emit(CallEvents.ICE_SERVERS, getIceServers(userId));
+      ack?.({ ok: true });
+      logger.socket('ice-servers', `Refreshed ICE servers for user ${userId}`);
+    });
+
+    /**
+     * Handle a client creating a call room ahead of the first join
+     * @param {CreateRoomPayload} payload - Payload containing meetingId and the room's settings
+     * @description Creates the room with the requested capacity, media defaults, lobby and allowed
+     * roles and an optional schedule; settings left out take the server defaults. Only designated
+     * hosts of the meeting (`hostOf` claim) may create its room, which also starts again a meeting
+     * its schedule ended. Creating a room does not join it, and the first user to join still
+     * becomes host. Rooms nobody joins are deleted after `EMPTY_ROOM_TIMEOUT`.
+     * @fires CallEvents#ERROR - `FORBIDDEN` if the user is not a host of the meeting, `ROOM_EXISTS`
+     * if the meeting already has a room, `SERVER_SHUTTING_DOWN` while the server shuts down
+     */
+    socket.on(CallEvents.CREATE_ROOM, async (payload: CreateRoomPayload, ack?: CallAck) => {
+      try {
+        if (isShuttingDown()) {
+          emitCallError(socket, 'SERVER_SHUTTING_DOWN', 'Server is shutting down, reconnect to create the room', ack);
+          return;
+        }
+
+        if (!socket.data.user.hostOf.includes(payload.meetingId)) {
+          emitCallError(socket, 'FORBIDDEN', 'Only a host of this meeting can create its call room', ack);
+          return;
+        }
+
+        // Hosts may start again a meeting whose schedule ended it
+        const room = await createRoomAhead(io, payload, true);
+        if ('code' in room) {
+          emitCallError(socket, room.code, room.message, ack);
+          return;
+        }
+        ack?.({ ok: true });
+
+      } catch (error) {
+        logger.error('Error creating call room', error);
+        emitCallError(socket, 'INTERNAL_ERROR', 'Failed to create call room', ack);
+      }
+    });
 
     /**
      * Handle user joining a voice call
-     * @param {JoinCallPayload} payload - Payload containing meetingId, userId, peerId, and username
+     * @param {JoinCallPayload} payload - Payload containing meetingId, peerId and an optional resumeToken
      * @description Validates the payload, creates or joins a call room, and notifies other participants.
-     * Sends the list of existing peers to the newly joined participant.
+     * Rooms created this way get the default settings. The room's capacity, allowed roles and
+     * schedule apply, and new participants start muted or with their camera on as its settings say.
+     * The first joiner of a room, or a user named as host in their token, becomes host.
+     * Sends the list of existing peers and a resume token to the newly joined participant. When the
+     * room's lobby is enabled, new joiners other than hosts wait in the lobby until a moderator admits them.
+     * A participant within the reconnection grace period resumes their slot (role, media state and
+     * joinedAt) with the resume token; without it, the held slot is released and they join afresh.
      * @fires CallEvents#PEERS_LIST - Emitted to the joining participant with list of existing peers
      * @fires CallEvents#PEER_JOINED - Emitted to all other participants when a new peer joins
-     * @fires CallEvents#ERROR - Emitted if validation fails or room is full
+     * @fires CallEvents#PEER_RECONNECTED - Emitted to all other participants when a session is resumed
+     * @fires CallEvents#LOBBY_WAITING - Emitted to the joining user when placed in the lobby
+     * @fires CallEvents#LOBBY_UPDATE - Emitted to the room's moderators when a user starts waiting
+     * @fires CallEvents#ERROR - Emitted if the room is full or locked, the user is banned, their role
+     * is not allowed, the meeting has not started or has ended (`MEETING_NOT_STARTED`, `MEETING_ENDED`),
+     * or the server is shutting down (`SERVER_SHUTTING_DOWN`)
      */
-    socket.on(CallEvents.JOIN, (payload: JoinCallPayload) => {
+    socket.on(CallEvents.JOIN, async (payload: JoinCallPayload, ack?: CallAck) => {
       try {
-        const { meetingId, userId, peerId, username } = payload;
-
-        // Validate payload
-        if (!meetingId || !userId || !peerId) {
-          socket.emit(CallEvents.ERROR, {
-            message: 'Meeting ID, User ID, and Peer ID are required',
-            code: 'INVALID_PAYLOAD',
-          });
+        const { meetingId, peerId, resumeToken } = payload;
+
+        // Joins, resumes included, go to another instance once this one is shutting down
+        if (isShuttingDown()) {
+          emitCallError(socket, 'SERVER_SHUTTING_DOWN', 'Server is shutting down, reconnect to join', ack);
           return;
         }
 
-        // Get or create the call room
-        let room = callRooms.get(meetingId);
-        if (!room) {
-          room = new Map<string, CallParticipant>();
-          callRooms.set(meetingId, room);
+        // A slot held after a dropped connection can only be reclaimed with its resume token
+        const heldSlot = await store.getParticipant(meetingId, userId);
+        const isResume = !!heldSlot && !!resumeToken && heldSlot.resumeToken === resumeToken;
+        if (heldSlot?.connectionState === 'reconnecting' && !isResume) {
+          cancelSlotExpiry(meetingId, userId);
+          await removeParticipant(io, heldSlot);
+        }
+
+        // A meeting whose schedule ended it does not start again on its own
+        const existingRoom = await store.getRoom(meetingId);
+        if (!existingRoom && (await store.isMeetingEnded(meetingId))) {
+          emitCallError(socket, 'MEETING_ENDED', 'This meeting has ended', ack);
+          return;
         }
 
-        // Check if room is full
-        if (room.size >= MAX_PARTICIPANTS) {
-          socket.emit(CallEvents.ERROR, {
-            message: `Call is full (maximum ${MAX_PARTICIPANTS} participants)`,
-            code: 'ROOM_FULL',
-          });
+        // Get or create the call room (with the default settings); a concurrent first join may create it first
+        const room = existingRoom || (await createRoom(meetingId)) || (await store.getRoom(meetingId));
+        if (!room) {
+          emitCallError(socket, 'JOIN_ERROR', 'Failed to join call', ack);
           return;
         }
+        const participants = await store.getParticipants(meetingId);
 
         // Check if user is already in the call (reconnection)
-        const existingParticipant = room.get(userId);
-        if (existingParticipant) {
-          // Update socket ID and peer ID (reconnection)
-          existingParticipant.socketId = socket.id;
-          existingParticipant.peerId = peerId;
+        let participant = participants.find(p => p.userId === userId);
+
+        if (room.bannedUserIds.includes(userId)) {
+          emitCallError(socket, 'BANNED', 'You have been removed from this call', ack);
+          return;
+        }
+
+        // Scheduled rooms only accept new participants within their window
+        const rejection = participant ? null : getJoinRejection(room);
+        if (rejection) {
+          emitCallError(socket, rejection.code, rejection.message, ack);
+          return;
+        }
+
+        // Locked rooms only accept participants reconnecting and designated hosts
+        if (room.isLocked && !participant && !socket.data.user.hostOf.includes(meetingId)) {
+          emitCallError(socket, 'ROOM_LOCKED', 'This call is locked by the host', ack);
+          return;
+        }
+
+        // Check if room is full (checked again, atomically, when the participant is stored)
+        const { maxParticipants, allowedRoles } = room.settings;
+        if (!participant && participants.length >= maxParticipants) {
+          emitCallError(socket, 'ROOM_FULL', `Call is full (maximum ${maxParticipants} participants)`, ack);
+          return;
+        }
+
+        if (participant) {
+          // Update socket ID and peer ID (reconnection); role, media state and joinedAt are kept
+          cancelSlotExpiry(meetingId, userId);
+          participant.socketId = socket.id;
+          participant.peerId = peerId;
+          participant.connectionState = 'connected';
+          participant.resumeToken = createResumeToken();
           logger.call('reconnect', `User ${username} reconnected to call ${meetingId}`);
         } else {
-          // Add new participant
-          const participant: CallParticipant = {
-            socketId: socket.id,
-            userId,
-            meetingId,
-            peerId,
-            username: username || 'Anonymous',
-            isMuted: true, // Start muted by default
-            isVideoOn: false, // Start with camera off by default
-            joinedAt: new Date().toISOString(),
-          };
-          room.set(userId, participant);
-          logger.call('join', `User ${username} joined call ${meetingId}`);
-        }
-
-        // Map socket to user for disconnect handling
-        socketToUser.set(socket.id, { meetingId, userId });
-
-        // Join the socket room
-        socket.join(meetingId);
-
-        // Get list of other participants (excluding self)
-        const otherParticipants = Array.from(room.values())
-          .filter(p => p.userId !== userId)
-          .map(p => ({
-            userId: p.userId,
-            peerId: p.peerId,
-            username: p.username,
-            isMuted: p.isMuted,
-            isVideoOn: p.isVideoOn,
-            joinedAt: p.joinedAt,
-          }));
-
-        // Send list of existing peers to the new participant
-        socket.emit(CallEvents.PEERS_LIST, {
-          meetingId,
-          participants: otherParticipants,
-          count: otherParticipants.length,
-        });
+          const role = resolveJoinRole(socket.data.user, meetingId, participants.length === 0);
+
+          if (!allowedRoles.includes(role)) {
+            emitCallError(socket, 'ROLE_NOT_ALLOWED', `The ${role} role may not join this call`, ack);
+            return;
+          }
+
+          // Hold everyone but hosts in the lobby until a moderator admits them
+          if (room.lobbyEnabled && role !== 'host') {
+            const waiting = (await store.getLobbyEntries(meetingId)).find(e => e.userId === userId);
+            await enterLobby(io, {
+              meetingId,
+              userId,
+              username,
+              socketId: socket.id,
+              peerId,
+              role,
+              requestedAt: waiting?.requestedAt || new Date().toISOString(),
+            });
+            ack?.({ ok: true });
+            return;
+          }
+
+          // Add new participant, with the microphone and camera the room starts them with
+          participant = buildParticipant(room, { socketId: socket.id, userId, peerId, username, role });
+          logger.call('join', `User ${username} joined call ${meetingId} as ${participant.role}`);
+        }
 
-        // Notify other participants about the new peer
-        socket.to(meetingId).emit(CallEvents.PEER_JOINED, {
-          userId,
-          peerId,
-          username: username || 'Anonymous',
-          timestamp: new Date().toISOString(),
-        });
+        const count = await admitParticipant(io, participant, isResume);
+        if (count === null) {
+          emitCallError(socket, 'ROOM_FULL', `Call is full (maximum ${maxParticipants} participants)`, ack);
+          return;
+        }
+        ack?.({ ok: true });
 
-        logger.call('join', `Call ${meetingId} now has ${room.size} participants`);
+        logger.call('join', `Call ${meetingId} now has ${count} participants`);
 
       } catch (error) {
         logger.error('Error joining call', error);
-        socket.emit(CallEvents.ERROR, {
-          message: 'Failed to join call',
-          code: 'JOIN_ERROR',
-        });
+        emitCallError(socket, 'JOIN_ERROR', 'Failed to join call', ack);
       }
     });
 
@@ -188,247 +355,364 @@ export const initializeSocketIO = (httpServer: HTTPServer): Server => {
      * @param {SignalPayload} payload - Payload containing signaling data and target user information
      * @description Forwards WebRTC signaling messages between peers. The server acts as a relay
      * for SDP offers, answers, and ICE candidates to establish peer-to-peer connections.
+     * Signals are only relayed between connected participants of the same meeting, to the peer
+     * (or screen share stream) the target actually uses. The signal's shape and size are checked
+     * by the validation middleware, and the sender's identifiers always come from the server.
      * @fires CallEvents#SIGNAL - Emitted to the target peer with the signaling data
-     * @fires CallEvents#ERROR - Emitted if room, target user, or payload is invalid
+     * @fires CallEvents#ERROR - `USER_NOT_FOUND` if the target is not in the call, `PEER_UNAVAILABLE`
+     * if it is reconnecting, `PEER_MISMATCH` if `toPeerId` is not one of its peers
      */
-    socket.on(CallEvents.SIGNAL, (payload: SignalPayload) => {
+    socket.on(CallEvents.SIGNAL, async (payload: SignalPayload, ack?: CallAck) => {
       try {
         const { meetingId, toUserId, toPeerId, signal, signalType } = payload;
 
-        if (!meetingId || !toUserId || !signal) {
-          socket.emit(CallEvents.ERROR, {
-            message: 'Invalid signal payload',
-            code: 'INVALID_SIGNAL',
-          });
+        if (toUserId === userId) {
+          emitCallError(socket, 'INVALID_SIGNAL', 'You cannot signal yourself', ack, 'toUserId');
           return;
         }
 
-        const room = callRooms.get(meetingId);
-        if (!room) {
-          socket.emit(CallEvents.ERROR, {
-            message: 'Call room not found',
-            code: 'ROOM_NOT_FOUND',
-          });
+        const [senderParticipant, targetParticipant] = await Promise.all([
+          store.getParticipant(meetingId, userId),
+          store.getParticipant(meetingId, toUserId),
+        ]);
+
+        // Already enforced by the authorization middleware; checked again so a signal never leaves without its sender
+        if (!senderParticipant || senderParticipant.socketId !== socket.id) {
+          emitCallError(socket, 'FORBIDDEN', 'You are not a participant of this call', ack);
           return;
         }
 
-        // Find the target participant
-        const targetParticipant = room.get(toUserId);
         if (!targetParticipant) {
-          socket.emit(CallEvents.ERROR, {
-            message: 'Target user not found in call',
-            code: 'USER_NOT_FOUND',
-          });
+          emitCallError(socket, 'USER_NOT_FOUND', 'Target user not found in call', ack);
           return;
         }
 
-        // Get sender info
-        const userInfo = socketToUser.get(socket.id);
-        const senderParticipant = userInfo ? room.get(userInfo.userId) : null;
+        if (targetParticipant.connectionState !== 'connected') {
+          emitCallError(socket, 'PEER_UNAVAILABLE', `${targetParticipant.username} is reconnecting`, ack);
+          return;
+        }
+
+        // Stale or forged peer ids would reach the wrong RTCPeerConnection on the other side
+        if (toPeerId !== targetParticipant.peerId && toPeerId !== targetParticipant.screenStreamId) {
+          emitCallError(socket, 'PEER_MISMATCH', 'toPeerId is not a peer of the target user', ack, 'toPeerId');
+          return;
+        }
 
         // Forward the signal to the target peer
         io.to(targetParticipant.socketId).emit(CallEvents.SIGNAL, {
           meetingId,
-          fromUserId: userInfo?.userId,
+          fromUserId: userId,
           toUserId,
-          fromPeerId: senderParticipant?.peerId,
+          fromPeerId: senderParticipant.peerId,
           toPeerId,
           signal,
           signalType,
         });
+        recordSignalRelayed(signalType);
+        ack?.({ ok: true });
 
-        logger.socket('signal', `Signal ${signalType} from ${userInfo?.userId} to ${toUserId}`);
+        logger.socket('signal', `Signal ${signalType} from ${userId} to ${toUserId}`);
 
       } catch (error) {
         logger.error('Error handling signal', error);
-        socket.emit(CallEvents.ERROR, {
-          message: 'Failed to send signal',
-          code: 'SIGNAL_ERROR',
-        });
+        emitCallError(socket, 'SIGNAL_ERROR', 'Failed to send signal', ack);
       }
     });
 
     /**
      * Handle user muting their microphone
-     * @param {MutePayload} payload - Payload containing meetingId and userId
-     * @description Updates the participant's mute status and broadcasts the change to all
+     * @param {MutePayload} payload - Payload containing meetingId
+     * @description Updates the authenticated user's mute status and broadcasts the change to all
      * participants in the call room.
      * @fires CallEvents#MUTE_STATUS - Emitted to all participants in the room with updated mute status
      */
-    socket.on(CallEvents.MUTE, (payload: MutePayload) => {
+    socket.on(CallEvents.MUTE, async (payload: MutePayload, ack?: CallAck) => {
       try {
-        const { meetingId, userId } = payload;
+        const { meetingId } = payload;
 
-        if (!meetingId || !userId) {
+        const participant = await store.getParticipant(meetingId, userId);
+        if (!participant) {
+          emitCallError(socket, 'USER_NOT_FOUND', 'You are not a participant of this call', ack);
           return;
         }
 
-        const room = callRooms.get(meetingId);
-        if (!room) return;
-
-        const participant = room.get(userId);
-        if (!participant) return;
-
-        // Update mute status
-        participant.isMuted = true;
-
-        // Broadcast mute status to all participants in the room
-        io.to(meetingId).emit(CallEvents.MUTE_STATUS, {
-          userId,
-          username: participant.username,
-          isMuted: true,
-          timestamp: new Date().toISOString(),
-        });
+        await setParticipantMuted(io, participant, true);
+        ack?.({ ok: true });
 
         logger.call('mute', `User ${participant.username} muted in call ${meetingId}`);
 
       } catch (error) {
         logger.error('Error handling mute', error);
+        emitCallError(socket, 'INTERNAL_ERROR', 'Failed to handle mute', ack);
       }
     });
 
     /**
      * Handle user unmuting their microphone
-     * @param {MutePayload} payload - Payload containing meetingId and userId
-     * @description Updates the participant's mute status and broadcasts the change to all
+     * @param {MutePayload} payload - Payload containing meetingId
+     * @description Updates the authenticated user's mute status and broadcasts the change to all
      * participants in the call room.
      * @fires CallEvents#MUTE_STATUS - Emitted to all participants in the room with updated mute status
      */
-    socket.on(CallEvents.UNMUTE, (payload: MutePayload) => {
+    socket.on(CallEvents.UNMUTE, async (payload: MutePayload, ack?: CallAck) => {
       try {
-        const { meetingId, userId } = payload;
+        const { meetingId } = payload;
 
-        if (!meetingId || !userId) {
+        const participant = await store.getParticipant(meetingId, userId);
+        if (!participant) {
+          emitCallError(socket, 'USER_NOT_FOUND', 'You are not a participant of this call', ack);
           return;
         }
 
-        const room = callRooms.get(meetingId);
-        if (!room) return;
-
-        const participant = room.get(userId);
-        if (!participant) return;
-
-        // Update mute status
-        participant.isMuted = false;
-
-        // Broadcast unmute status to all participants in the room
-        io.to(meetingId).emit(CallEvents.MUTE_STATUS, {
-          userId,
-          username: participant.username,
-          isMuted: false,
-          timestamp: new Date().toISOString(),
-        });
+        await setParticipantMuted(io, participant, false);
+        ack?.({ ok: true });
 
         logger.call('unmute', `User ${participant.username} unmuted in call ${meetingId}`);
 
       } catch (error) {
         logger.error('Error handling unmute', error);
+        emitCallError(socket, 'INTERNAL_ERROR', 'Failed to handle unmute', ack);
       }
     });
 
     /**
      * Handle user turning on their camera
-     * @param {VideoPayload} payload - Payload containing meetingId and userId
-     * @description Updates the participant's video status and broadcasts the change to all
-     * participants in the call room.
+     * @param {VideoPayload} payload - Payload containing meetingId
+     * @description Updates the authenticated user's video status and broadcasts the change to all
+     * participants in the call room. Cameras stay off in audio-only rooms.
      * @fires CallEvents#VIDEO_STATUS - Emitted to all participants in the room with updated video status
+     * @fires CallEvents#ERROR - `AUDIO_ONLY` if the room is audio-only
      */
-    socket.on(CallEvents.VIDEO_ON, (payload: VideoPayload) => {
+    socket.on(CallEvents.VIDEO_ON, async (payload: VideoPayload, ack?: CallAck) => {
       try {
-        const { meetingId, userId } = payload;
-
-        if (!meetingId || !userId) {
+        const { meetingId } = payload;
+
+        const [room, participant] = await Promise.all([
+          store.getRoom(meetingId),
+          store.getParticipant(meetingId, userId),
+        ]);
+        if (!room || !participant) {
+          emitCallError(socket, 'USER_NOT_FOUND', 'You are not a participant of this call', ack);
           return;
         }
 
-        const room = callRooms.get(meetingId);
-        if (!room) return;
-
-        const participant = room.get(userId);
-        if (!participant) return;
-
-        // Update video status
-        participant.isVideoOn = true;
+        if (room.settings.audioOnly) {
+          emitCallError(socket, 'AUDIO_ONLY', 'This call is audio-only', ack);
+          return;
+        }
 
-        // Broadcast video status to all participants in the room
-        io.to(meetingId).emit(CallEvents.VIDEO_STATUS, {
-          userId,
-          username: participant.username,
-          isVideoOn: true,
-          timestamp: new Date().toISOString(),
-        });
+        await setParticipantVideo(io, participant, true);
+        ack?.({ ok: true });
 
         logger.call('video-on', `User ${participant.username} turned on camera in call ${meetingId}`);
 
       } catch (error) {
         logger.error('Error handling video on', error);
+        emitCallError(socket, 'INTERNAL_ERROR', 'Failed to handle video on', ack);
       }
     });
 
     /**
      * Handle user turning off their camera
-     * @param {VideoPayload} payload - Payload containing meetingId and userId
-     * @description Updates the participant's video status and broadcasts the change to all
+     * @param {VideoPayload} payload - Payload containing meetingId
+     * @description Updates the authenticated user's video status and broadcasts the change to all
      * participants in the call room.
      * @fires CallEvents#VIDEO_STATUS - Emitted to all participants in the room with updated video status
      */
-    socket.on(CallEvents.VIDEO_OFF, (payload: VideoPayload) => {
+    socket.on(CallEvents.VIDEO_OFF, async (payload: VideoPayload, ack?: CallAck) => {
       try {
-        const { meetingId, userId } = payload;
+        const { meetingId } = payload;
 
-        if (!meetingId || !userId) {
+        const participant = await store.getParticipant(meetingId, userId);
+        if (!participant) {
+          emitCallError(socket, 'USER_NOT_FOUND', 'You are not a participant of this call', ack);
           return;
         }
 
-        const room = callRooms.get(meetingId);
-        if (!room) return;
+        await setParticipantVideo(io, participant, false);
+        ack?.({ ok: true });
 
-        const participant = room.get(userId);
-        if (!participant) return;
+        logger.call('video-off', `User ${participant.username} turned off camera in call ${meetingId}`);
 
-        // Update video status
-        participant.isVideoOn = false;
+      } catch (error) {
+        logger.error('Error handling video off', error);
+        emitCallError(socket, 'INTERNAL_ERROR', 'Failed to handle video off', ack);
+      }
+    });
 
-        // Broadcast video status to all participants in the room
-        io.to(meetingId).emit(CallEvents.VIDEO_STATUS, {
-          userId,
-          username: participant.username,
-          isVideoOn: false,
-          timestamp: new Date().toISOString(),
-        });
+    /**
+     * Handle user starting to share their screen
+     * @param {ScreenShareStartPayload} payload - Payload containing meetingId and the screen's streamId
+     * @description Records the screen stream and broadcasts it so other participants can connect
+     * to it. In rooms with the `single` policy, only one participant may share at a time.
+     * Starting again replaces the previous stream. Audio-only rooms do not allow screen sharing.
+     * @fires CallEvents#SCREEN_SHARE_STATUS - Emitted to all participants in the room with the new stream
+     * @fires CallEvents#ERROR - Emitted if someone else is already sharing or the room is audio-only
+     */
+    socket.on(CallEvents.SCREEN_SHARE_START, async (payload: ScreenShareStartPayload, ack?: CallAck) => {
+      try {
+        const { meetingId, streamId } = payload;
+
+        const [room, participants] = await Promise.all([
+          store.getRoom(meetingId),
+          store.getParticipants(meetingId),
+        ]);
+        const participant = participants.find(p => p.userId === userId);
+        if (!room || !participant) {
+          emitCallError(socket, 'USER_NOT_FOUND', 'You are not a participant of this call', ack);
+          return;
+        }
 
-        logger.call('video-off', `User ${participant.username} turned off camera in call ${meetingId}`);
+        if (room.settings.audioOnly) {
+          emitCallError(socket, 'AUDIO_ONLY', 'This call is audio-only', ack);
+          return;
+        }
+
+        const presenter = participants.find(p => p.isScreenSharing && p.userId !== userId);
+        if (room.screenSharePolicy === 'single' && presenter) {
+          emitCallError(socket, 'SCREEN_SHARE_BUSY', `${presenter.username} is already sharing their screen`, ack);
+          return;
+        }
+
+        await setParticipantScreenShare(io, participant, streamId);
+        ack?.({ ok: true });
+
+        logger.call('screen-share', `User ${participant.username} started sharing their screen in call ${meetingId}`);
 
       } catch (error) {
-        logger.error('Error handling video off', error);
+        logger.error('Error handling screen share start', error);
+        emitCallError(socket, 'INTERNAL_ERROR', 'Failed to handle screen share start', ack);
       }
     });
 
+    /**
+     * Handle user stopping their screen share
+     * @param {ScreenShareStopPayload} payload - Payload containing meetingId
+     * @fires CallEvents#SCREEN_SHARE_STATUS - Emitted to all participants in the room
+     */
+    socket.on(CallEvents.SCREEN_SHARE_STOP, async (payload: ScreenShareStopPayload, ack?: CallAck) => {
+      try {
+        const { meetingId } = payload;
+
+        const participant = await store.getParticipant(meetingId, userId);
+        if (!participant) {
+          emitCallError(socket, 'USER_NOT_FOUND', 'You are not a participant of this call', ack);
+          return;
+        }
+
+        if (participant.isScreenSharing) {
+          await setParticipantScreenShare(io, participant, null);
+        }
+        ack?.({ ok: true });
+
+        logger.call('screen-share', `User ${participant.username} stopped sharing their screen in call ${meetingId}`);
+
+      } catch (error) {
+        logger.error('Error handling screen share stop', error);
+        emitCallError(socket, 'INTERNAL_ERROR', 'Failed to handle screen share stop', ack);
+      }
+    });
+
+    /**
+     * Handle the host changing a participant's role
+     * @param {SetRolePayload} payload - Payload containing meetingId, targetUserId and the new role
+     * @description Assigns the new role and broadcasts it to the room. Assigning `host` hands host
+     * rights over and demotes the current host to co-host (or the next role the room allows).
+     * Participants demoted to viewer are muted and their camera is turned off.
+     * @fires CallEvents#ROLE_CHANGED - Emitted to all participants in the room for each role change
+     * @fires CallEvents#ERROR - Emitted if the target user is the sender or not in the call, or the room does not allow the role
+     */
+    socket.on(CallEvents.SET_ROLE, async (payload: SetRolePayload, ack?: CallAck) => {
+      try {
+        const { meetingId, targetUserId, role } = payload;
+
+        if (targetUserId === userId) {
+          emitCallError(socket, 'INVALID_PAYLOAD', 'You cannot change your own role', ack, 'targetUserId');
+          return;
+        }
+
+        const [room, target] = await Promise.all([
+          store.getRoom(meetingId),
+          store.getParticipant(meetingId, targetUserId),
+        ]);
+        if (!room || !target) {
+          emitCallError(socket, 'USER_NOT_FOUND', 'Target user not found in call', ack);
+          return;
+        }
+
+        const { allowedRoles } = room.settings;
+        if (!allowedRoles.includes(role)) {
+          emitCallError(socket, 'ROLE_NOT_ALLOWED', `This call does not allow the ${role} role`, ack, 'role');
+          return;
+        }
+
+        if (role === 'host') {
+          // Hand host rights over; the previous host stays on as co-host, or the next role allowed
+          const currentHost = await store.getParticipant(meetingId, userId);
+          const demotedRole = (['co-host', 'participant', 'viewer'] as const).find(r => allowedRoles.includes(r));
+          if (currentHost && demotedRole) {
+            await applyRole(io, currentHost, demotedRole, userId);
+          }
+        }
+
+        await applyRole(io, target, role, userId);
+        ack?.({ ok: true });
+        logger.call('role', `User ${target.username} is now ${role} in call ${meetingId}`);
+
+      } catch (error) {
+        logger.error('Error handling role change', error);
+        emitCallError(socket, 'INTERNAL_ERROR', 'Failed to handle role change', ack);
+      }
+    });
+
+    // Host and co-host moderation commands
+    registerModerationHandlers(io, socket);
+
+    // Host and co-host lobby decisions
+    registerLobbyHandlers(io, socket);
+
+    // Raised hands and reactions
+    registerParticipationHandlers(io, socket);
+
+    // Connection quality reports
+    registerQualityHandlers(io, socket);
+
     /**
      * Handle user leaving a call
-     * @param {LeaveCallPayload} payload - Payload containing meetingId and userId
-     * @description Removes the participant from the call room and notifies other participants.
-     * Cleans up empty rooms automatically.
+     * @param {LeaveCallPayload} payload - Payload containing meetingId
+     * @description Removes the authenticated user from the call room (or its lobby) and notifies
+     * other participants. Cleans up empty rooms automatically.
      * @fires CallEvents#PEER_LEFT - Emitted to all remaining participants when a user leaves
+     * @fires CallEvents#LOBBY_UPDATE - Emitted to the room's moderators when a waiting user leaves
      */
-    socket.on(CallEvents.LEAVE, (payload: LeaveCallPayload) => {
-      handleUserLeave(socket, io, payload.meetingId, payload.userId);
+    socket.on(CallEvents.LEAVE, async (payload: LeaveCallPayload, ack?: CallAck) => {
+      await handleUserLeave(socket, io, payload.meetingId, userId);
+      ack?.({ ok: true });
     });
 
     /**
      * Handle socket disconnection
      * @description Automatically handles user leave when socket disconnects unexpectedly.
      * Uses the socket-to-user mapping to identify which user left and clean up their resources.
+     * Participants keep their slot for the reconnection grace period. A shutdown waits for the
+     * handler before closing the store.
+     * @fires CallEvents#PEER_RECONNECTING - Emitted to all other participants when the slot is held
      */
-    socket.on(CallEvents.DISCONNECT, () => {
-      const userInfo = socketToUser.get(socket.id);
-      
-      if (userInfo) {
-        handleUserLeave(socket, io, userInfo.meetingId, userInfo.userId);
+    socket.on(CallEvents.DISCONNECT, () => deferShutdown(runWithLogContext({ socketId: socket.id, userId }, async () => {
+      try {
+        const userInfo = await store.getSocketMapping(socket.id);
+
+        if (userInfo) {
+          await runWithLogContext({ meetingId: userInfo.meetingId }, () =>
+            handleUserLeave(socket, io, userInfo.meetingId, userInfo.userId, RECONNECT_GRACE_PERIOD > 0)
+          );
+        }
+      } catch (error) {
+        logger.error('Error handling disconnect', error);
       }
 
       logger.socket('disconnect', `Socket disconnected: ${socket.id}`);
-    });
+    })));
   });
 
   return io;
@@ -436,58 +720,52 @@ export const initializeSocketIO = (httpServer: HTTPServer): Server => {
 
 /**
  * Handle user leaving a call (either explicitly or on disconnect)
- * @param {Socket} socket - Socket instance of the leaving user
- * @param {Server} io - Socket.IO server instance for broadcasting events
+ * @param {CallSocket} socket - Socket instance of the leaving user
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
  * @param {string} meetingId - Meeting/room identifier
  * @param {string} userId - User identifier of the leaving participant
- * @returns {void}
+ * @param {boolean} [holdSlot=false] - Keep the participant's slot for the reconnection grace period
+ * @returns {Promise<void>}
  * @description Removes the participant from the call room, cleans up socket mappings,
  * and notifies all remaining participants. Automatically deletes empty rooms to free memory.
+ * Users still waiting are removed from the lobby instead. Sockets replaced by a newer
+ * connection of the same user are ignored.
  * @fires CallEvents#PEER_LEFT - Emitted to all remaining participants in the room
+ * @fires CallEvents#PEER_RECONNECTING - Emitted instead of PEER_LEFT when the slot is held
+ * @fires CallEvents#LOBBY_UPDATE - Emitted to the room's moderators when a waiting user leaves
  * @private
  */
-function handleUserLeave(
-  socket: Socket,
-  io: Server,
+async function handleUserLeave(
+  socket: CallSocket,
+  io: CallServer,
   meetingId: string,
-  userId: string
-): void {
+  userId: string,
+  holdSlot: boolean = false
+): Promise<void> {
   try {
     if (!meetingId || !userId) return;
 
-    const room = callRooms.get(meetingId);
-    if (!room) return;
-
-    const participant = room.get(userId);
-    if (!participant) return;
-
-    // Remove participant from room
-    room.delete(userId);
-
-    // Remove socket mapping
-    socketToUser.delete(socket.id);
-
-    // Leave the socket room
-    socket.leave(meetingId);
-
-    // Notify other participants
-    io.to(meetingId).emit(CallEvents.PEER_LEFT, {
-      userId,
-      peerId: participant.peerId,
-      username: participant.username,
-      timestamp: new Date().toISOString(),
-    });
+    // Remove socket mapping (unless it belongs to another call)
+    const mapping = await store.getSocketMapping(socket.id);
+    if (mapping?.meetingId === meetingId) {
+      await store.deleteSocketMapping(socket.id);
+    }
 
-    logger.call('leave', `User ${participant.username} left call ${meetingId}`);
+    // Ignore stale sockets once the same user has rejoined from another connection
+    const participant = await store.getParticipant(meetingId, userId);
+    if (!participant) {
+      await leaveLobby(io, meetingId, userId, socket.id);
+      return;
+    }
+    if (participant.socketId !== socket.id) return;
 
-    // Clean up empty rooms
-    if (room.size === 0) {
-      callRooms.delete(meetingId);
-      logger.call('cleanup', `Call room ${meetingId} deleted (empty)`);
-    } else {
-      logger.call('leave', `Call ${meetingId} now has ${room.size} participants`);
+    if (holdSlot) {
+      await holdParticipantSlot(io, participant);
+      return;
     }
 
+    await removeParticipant(io, participant);
+
   } catch (error) {
     logger.error('Error handling user leave', error);
   }
@@ -495,60 +773,105 @@ function handleUserLeave(
 
 /**
  * Get the number of active call rooms
- * @returns {number} Total number of active call rooms currently in memory
+ * @returns {Promise<number>} Total number of active call rooms in the room store
  * @description Returns the count of distinct meeting rooms that have at least one participant.
+ * With the Redis store this covers every server instance.
  * @example
- * const activeCalls = getActiveCallsCount();
+ * const activeCalls = await getActiveCallsCount();
  * // Returns: 5 (if there are 5 active call rooms)
  */
-export const getActiveCallsCount = (): number => {
-  return callRooms.size;
+export const getActiveCallsCount = async (): Promise<number> => {
+  return (await store.listRoomIds()).length;
 };
 
 /**
  * Get the total number of users across all active call rooms
- * @returns {number} Total number of participants in all call rooms
- * @description Iterates through all active call rooms and sums up the total number of participants.
+ * @returns {Promise<number>} Total number of participants in all call rooms
+ * @description Sums up the participants of all active call rooms in the room store.
  * Useful for server statistics and monitoring.
  * @example
- * const totalUsers = getTotalUsersInCalls();
+ * const totalUsers = await getTotalUsersInCalls();
  * // Returns: 23 (if there are 23 total participants across all rooms)
  */
-export const getTotalUsersInCalls = (): number => {
-  let total = 0;
-  for (const room of callRooms.values()) {
-    total += room.size;
-  }
-  return total;
+export const getTotalUsersInCalls = async (): Promise<number> => {
+  return store.countAllParticipants();
+};
+
+/**
+ * List every running call
+ * @returns {Promise<CallRoomSummary[]>} Summary of each room in the room store, unsorted
+ * @description With the Redis store this covers every server instance.
+ * @example
+ * const rooms = await listCallRooms();
+ * // Returns: [{ meetingId: 'meeting-123', participants: 3, waiting: 0, ... }]
+ */
+export const listCallRooms = async (): Promise<CallRoomSummary[]> => {
+  const summaries = await Promise.all((await store.listRoomIds()).map(async (meetingId) => {
+    const [room, participants, lobby] = await Promise.all([
+      store.getRoom(meetingId),
+      store.getParticipants(meetingId),
+      store.getLobbyEntries(meetingId),
+    ]);
+    if (!room) return null;
+
+    return {
+      meetingId,
+      sessionId: room.sessionId,
+      createdAt: room.createdAt,
+      participants: participants.length,
+      waiting: lobby.length,
+      isLocked: room.isLocked,
+      lobbyEnabled: room.lobbyEnabled,
+      state: room.state,
+    };
+  }));
+
+  return summaries.filter((summary): summary is CallRoomSummary => summary !== null);
 };
 
 /**
  * Get call room information including participants list
  * @param {string} meetingId - Meeting/room identifier
- * @returns {Object | null} Room information object with meetingId, participant count, and user list, or null if room doesn't exist
+ * @returns {Promise<CallRoomInfo | null>} Room information object with meetingId, participant count, lock, lobby and screen sharing settings, the room's settings, call state, user list and waiting users, or null if room doesn't exist
  * @description Retrieves detailed information about a specific call room, including all participants
- * and their current mute and video status. Returns null if the room doesn't exist or has no active participants.
+ * and their current role, mute, video, screen sharing and hand status, the raised hand queue and the
+ * users waiting in the lobby.
+ * Returns null if the room doesn't exist or has no active participants.
  * @example
- * const roomInfo = getCallRoomInfo('meeting-123');
+ * const roomInfo = await getCallRoomInfo('meeting-123');
  * // Returns: { meetingId: 'meeting-123', participants: 3, users: [...] }
  */
-export const getCallRoomInfo = (meetingId: string): {
-  meetingId: string;
-  participants: number;
-  users: Array<{ userId: string; username: string; isMuted: boolean; isVideoOn: boolean }>;
-} | null => {
-  const room = callRooms.get(meetingId);
+export const getCallRoomInfo = async (meetingId: string): Promise<CallRoomInfo | null> => {
+  const room = await store.getRoom(meetingId);
   if (!room) return null;
+  const [participants, lobby, raisedHands] = await Promise.all([
+    store.getParticipants(meetingId),
+    store.getLobbyEntries(meetingId),
+    getHandQueue(meetingId),
+  ]);
 
   return {
     meetingId,
-    participants: room.size,
-    users: Array.from(room.values()).map(p => ({
+    participants: participants.length,
+    isLocked: room.isLocked,
+    lobbyEnabled: room.lobbyEnabled,
+    screenSharePolicy: room.screenSharePolicy,
+    settings: room.settings,
+    state: room.state,
+    endsAt: room.endsAt,
+    schedule: room.schedule,
+    closesAt: room.closesAt,
+    lobby: lobby.map(e => ({ userId: e.userId, username: e.username, requestedAt: e.requestedAt })),
+    raisedHands,
+    users: participants.map(p => ({
       userId: p.userId,
       username: p.username,
+      role: p.role,
       isMuted: p.isMuted,
       isVideoOn: p.isVideoOn,
+      isScreenSharing: p.isScreenSharing,
+      handRaisedAt: p.handRaisedAt,
+      connectionState: p.connectionState,
     })),
   };
 };
-
@@ -0,0 +1,122 @@
+/**
+ * Webhook subscriptions and delivery settings
+ * @module config/webhooks
+ * @description Declares the endpoints notified of call lifecycle events, read from the `WEBHOOKS`
+ * environment variable, and how deliveries are retried.
+ */
+
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+
+/**
+ * Event types sent to webhook endpoints
+ * @constant {string[]}
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  'call.started',
+  'participant.joined',
+  'participant.left',
+  'call.ended',
+  'moderation.action',
+] as const;
+
+/**
+ * Event type sent to webhook endpoints
+ * @typedef {string} WebhookEventType
+ */
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * Schema of one subscription in `WEBHOOKS`
+ */
+const subscriptionSchema = z.object({
+  url: z.string().url(),
+  secret: z.string().min(16),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).nonempty().optional(),
+});
+
+/**
+ * Endpoint notified of call lifecycle events
+ * @interface WebhookSubscription
+ */
+export interface WebhookSubscription {
+  /** URL receiving a POST request per event */
+  url: string;
+  /** Secret the HMAC signature of each request is computed with */
+  secret: string;
+  /** Event types sent to the endpoint */
+  events: WebhookEventType[];
+}
+
+/**
+ * Parse the webhook subscriptions from the environment
+ * @param {string | undefined} value - JSON array of `{ url, secret, events? }`
+ * @returns {WebhookSubscription[]} Subscriptions; all event types when `events` is omitted
+ * @description Invalid configuration is logged and ignored, so a typo disables webhooks rather
+ * than the server.
+ * @private
+ */
+const parseSubscriptions = (value: string | undefined): WebhookSubscription[] => {
+  if (!value) return [];
+
+  try {
+    const result = z.array(subscriptionSchema).safeParse(JSON.parse(value));
+
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      logger.error(`Invalid WEBHOOKS at ${issue.path.join('.')}: ${issue.message} - webhooks are disabled`);
+      return [];
+    }
+    return result.data.map(({ url, secret, events }) => ({
+      url,
+      secret,
+      events: events ?? [...WEBHOOK_EVENT_TYPES],
+    }));
+  } catch {
+    logger.error('WEBHOOKS is not valid JSON - webhooks are disabled');
+    return [];
+  }
+};
+
+/**
+ * Endpoints notified of call lifecycle events
+ * @constant {WebhookSubscription[]}
+ * @description Set with `WEBHOOKS`, e.g.
+ * `[{"url":"https://chat.example.com/hooks/call","secret":"...","events":["call.started","call.ended"]}]`.
+ */
+export const WEBHOOK_SUBSCRIPTIONS = parseSubscriptions(process.env.WEBHOOKS);
+
+/**
+ * Delivery attempts per event and endpoint before it is dead-lettered
+ * @constant {number}
+ * @default 6
+ */
+export const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10);
+
+/**
+ * Delay before the first retry, in milliseconds; doubled after every failed attempt
+ * @constant {number}
+ * @default 1000
+ */
+export const WEBHOOK_RETRY_BASE_DELAY = parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY || '1000', 10);
+
+/**
+ * Milliseconds to wait for an endpoint to respond
+ * @constant {number}
+ * @default 5000
+ */
+export const WEBHOOK_TIMEOUT = parseInt(process.env.WEBHOOK_TIMEOUT || '5000', 10);
+
+/**
+ * Deliveries sent at the same time, across all endpoints
+ * @constant {number}
+ * @default 4
+ */
+export const WEBHOOK_CONCURRENCY = parseInt(process.env.WEBHOOK_CONCURRENCY || '4', 10);
+
+/**
+ * File that deliveries failing every attempt are appended to, one JSON object per line
+ * @constant {string}
+ * @default 'data/webhook-dead-letters.jsonl'
+ */
+export const WEBHOOK_DEAD_LETTER_FILE = process.env.WEBHOOK_DEAD_LETTER_FILE || 'data/webhook-dead-letters.jsonl';
@@ -0,0 +1,195 @@
+/**
+ * Lobby event handlers
+ * @module handlers/lobbyHandlers
+ * @description Socket.IO handlers that let hosts and co-hosts run a room's lobby: enable or
+ * disable it and admit or deny the users waiting in it. Only moderators reach these handlers
+ * (see `config/permissions`).
+ */
+
+import {
+  CallAck,
+  CallEvents,
+  CallServer,
+  CallSocket,
+  LobbyDecisionPayload,
+  LobbyEntry,
+  RoomMetadata,
+  RoomModerationPayload,
+  SetLobbyPayload,
+} from '../types';
+import {
+  admitLobbyEntry,
+  denyLobbyEntry,
+  notifyLobbyUpdate,
+  notifyModeration,
+  setRoomLobby,
+} from '../services/roomService';
+import { getRoomStore } from '../store';
+import { emitCallError } from '../utils/socketErrors';
+import { logger } from '../utils/logger';
+
+/**
+ * Storage for call rooms, their participants and socket mappings
+ */
+const store = getRoomStore();
+
+/**
+ * Take a waiting user out of the lobby and into the call
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {RoomMetadata} room - Room the user waits for
+ * @param {LobbyEntry} entry - Waiting user to admit
+ * @returns {Promise<boolean>} False if the call is full and the user keeps waiting
+ * @description A user who meanwhile joined the call directly is only dropped from the lobby.
+ * @private
+ */
+const admit = async (io: CallServer, room: RoomMetadata, entry: LobbyEntry): Promise<boolean> => {
+  const participants = await store.getParticipants(entry.meetingId);
+  const alreadyJoined = participants.some(p => p.userId === entry.userId);
+
+  if (!alreadyJoined && participants.length >= room.settings.maxParticipants) {
+    return false;
+  }
+
+  await store.removeLobbyEntry(entry.meetingId, entry.userId);
+  if (!alreadyJoined && !(await admitLobbyEntry(io, room, entry))) {
+    // Filled up by a concurrent join in the meantime
+    await store.saveLobbyEntry(entry);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Register lobby event handlers on a socket
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CallSocket} socket - Authenticated socket of the moderator
+ * @returns {void}
+ * @example
+ * io.on('connection', (socket) => registerLobbyHandlers(io, socket));
+ */
+export const registerLobbyHandlers = (io: CallServer, socket: CallSocket): void => {
+  const { userId } = socket.data.user;
+
+  /**
+   * Handle a moderator enabling or disabling the lobby
+   * @param {SetLobbyPayload} payload - Payload containing meetingId and enabled
+   * @description Only affects new joiners; users already waiting stay in the lobby.
+   * @fires CallEvents#MODERATION - Emitted to all participants in the room
+   */
+  socket.on(CallEvents.SET_LOBBY, async (payload: SetLobbyPayload, ack?: CallAck) => {
+    try {
+      const room = await store.getRoom(payload.meetingId);
+      if (!room) {
+        emitCallError(socket, 'ROOM_NOT_FOUND', 'Call room not found', ack);
+        return;
+      }
+
+      await setRoomLobby(room, payload.enabled);
+      ack?.({ ok: true });
+      notifyModeration(io, room.meetingId, payload.enabled ? 'enable-lobby' : 'disable-lobby', null, userId);
+
+    } catch (error) {
+      logger.error('Error setting lobby', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to set lobby', ack);
+    }
+  });
+
+  /**
+   * Handle a moderator admitting one waiting user
+   * @param {LobbyDecisionPayload} payload - Payload containing meetingId and targetUserId
+   * @fires CallEvents#PEERS_LIST - Emitted to the admitted user
+   * @fires CallEvents#PEER_JOINED - Emitted to all other participants in the room
+   * @fires CallEvents#LOBBY_UPDATE - Emitted to the room's moderators
+   * @fires CallEvents#ERROR - Emitted if the user is not waiting (`USER_NOT_FOUND`) or the call is full (`ROOM_FULL`)
+   */
+  socket.on(CallEvents.LOBBY_ADMIT, async (payload: LobbyDecisionPayload, ack?: CallAck) => {
+    try {
+      const { meetingId, targetUserId } = payload;
+      const [room, entries] = await Promise.all([store.getRoom(meetingId), store.getLobbyEntries(meetingId)]);
+      const entry = entries.find(e => e.userId === targetUserId);
+
+      if (!room || !entry) {
+        emitCallError(socket, 'USER_NOT_FOUND', 'User is not waiting in the lobby', ack);
+        return;
+      }
+
+      if (!(await admit(io, room, entry))) {
+        emitCallError(socket, 'ROOM_FULL', `Call is full (maximum ${room.settings.maxParticipants} participants)`, ack);
+        return;
+      }
+      ack?.({ ok: true });
+      await notifyLobbyUpdate(io, meetingId);
+
+    } catch (error) {
+      logger.error('Error admitting user from lobby', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to admit user from lobby', ack);
+    }
+  });
+
+  /**
+   * Handle a moderator denying one waiting user
+   * @param {LobbyDecisionPayload} payload - Payload containing meetingId and targetUserId
+   * @fires CallEvents#LOBBY_DENIED - Emitted to the denied user
+   * @fires CallEvents#LOBBY_UPDATE - Emitted to the room's moderators
+   * @fires CallEvents#ERROR - Emitted if the user is not waiting (`USER_NOT_FOUND`)
+   */
+  socket.on(CallEvents.LOBBY_DENY, async (payload: LobbyDecisionPayload, ack?: CallAck) => {
+    try {
+      const { meetingId, targetUserId } = payload;
+      const entry = (await store.getLobbyEntries(meetingId)).find(e => e.userId === targetUserId);
+
+      if (!entry) {
+        emitCallError(socket, 'USER_NOT_FOUND', 'User is not waiting in the lobby', ack);
+        return;
+      }
+
+      await denyLobbyEntry(io, entry, 'DENIED', userId);
+      ack?.({ ok: true });
+      await notifyLobbyUpdate(io, meetingId);
+
+    } catch (error) {
+      logger.error('Error denying user from lobby', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to deny user from lobby', ack);
+    }
+  });
+
+  /**
+   * Handle a moderator admitting everyone waiting
+   * @param {RoomModerationPayload} payload - Payload containing meetingId
+   * @description Admits users in the order they started waiting until the call is full; the rest
+   * keep waiting.
+   * @fires CallEvents#PEERS_LIST - Emitted to each admitted user
+   * @fires CallEvents#PEER_JOINED - Emitted to the room for each admitted user
+   * @fires CallEvents#LOBBY_UPDATE - Emitted to the room's moderators
+   * @fires CallEvents#ERROR - Emitted with `ROOM_FULL` if some users could not be admitted
+   */
+  socket.on(CallEvents.LOBBY_ADMIT_ALL, async (payload: RoomModerationPayload, ack?: CallAck) => {
+    try {
+      const { meetingId } = payload;
+      const [room, entries] = await Promise.all([store.getRoom(meetingId), store.getLobbyEntries(meetingId)]);
+      if (!room) {
+        emitCallError(socket, 'ROOM_NOT_FOUND', 'Call room not found', ack);
+        return;
+      }
+      let isFull = false;
+
+      for (const entry of entries) {
+        if (!(await admit(io, room, entry))) {
+          isFull = true;
+          break;
+        }
+      }
+
+      if (isFull) {
+        emitCallError(socket, 'ROOM_FULL', `Call is full (maximum ${room.settings.maxParticipants} participants)`, ack);
+      } else {
+        ack?.({ ok: true });
+      }
+      await notifyLobbyUpdate(io, meetingId);
+
+    } catch (error) {
+      logger.error('Error admitting lobby', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to admit lobby', ack);
+    }
+  });
+};
@@ -0,0 +1,317 @@
+/**
+ * Moderation event handlers
+ * @module handlers/moderationHandlers
+ * @description Socket.IO handlers that let hosts and co-hosts control a call: force-mute,
+ * stop video and screen shares, lower hands, remove or ban participants, lock the room, set its
+ * screen sharing policy and, for hosts, end the call. Only moderators reach these
+ * handlers (see `config/permissions`).
+ */
+
+import {
+  CallAck,
+  CallEvents,
+  CallParticipant,
+  CallServer,
+  CallSocket,
+  ModerationTargetPayload,
+  RemoveParticipantPayload,
+  RoomModerationPayload,
+  SetScreenSharePolicyPayload,
+} from '../types';
+import {
+  endCall,
+  forceMuteParticipant,
+  kickParticipant,
+  muteAllParticipants,
+  notifyModeration,
+  setParticipantHand,
+  setParticipantScreenShare,
+  setParticipantVideo,
+  setRoomLocked,
+  setRoomScreenSharePolicy,
+} from '../services/roomService';
+import { getRoomStore } from '../store';
+import { emitCallError } from '../utils/socketErrors';
+import { logger } from '../utils/logger';
+
+/**
+ * Storage for call rooms, their participants and socket mappings
+ */
+const store = getRoomStore();
+
+/**
+ * Resolve the participant a moderation action targets
+ * @param {CallSocket} socket - Moderator's socket
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {string} targetUserId - User identifier of the target
+ * @param {CallAck} [ack] - Acknowledgement callback answered with the error
+ * @returns {Promise<CallParticipant | null>} The target, or null after emitting an error
+ * @description Moderators cannot target themselves, and co-hosts cannot act on a host.
+ * @fires CallEvents#ERROR - `INVALID_PAYLOAD`, `USER_NOT_FOUND` or `FORBIDDEN`
+ * @private
+ */
+const resolveTarget = async (
+  socket: CallSocket,
+  meetingId: string,
+  targetUserId: string,
+  ack?: CallAck
+): Promise<CallParticipant | null> => {
+  const { userId } = socket.data.user;
+
+  if (targetUserId === userId) {
+    emitCallError(socket, 'INVALID_PAYLOAD', 'A target user other than yourself is required', ack, 'targetUserId');
+    return null;
+  }
+
+  const [actor, target] = await Promise.all([
+    store.getParticipant(meetingId, userId),
+    store.getParticipant(meetingId, targetUserId),
+  ]);
+
+  if (!target) {
+    emitCallError(socket, 'USER_NOT_FOUND', 'Target user not found in call', ack);
+    return null;
+  }
+
+  if (target.role === 'host' && actor?.role !== 'host') {
+    emitCallError(socket, 'FORBIDDEN', 'Only a host can moderate another host', ack);
+    return null;
+  }
+
+  return target;
+};
+
+/**
+ * Register moderation event handlers on a socket
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CallSocket} socket - Authenticated socket of the moderator
+ * @returns {void}
+ * @example
+ * io.on('connection', (socket) => registerModerationHandlers(io, socket));
+ */
+export const registerModerationHandlers = (io: CallServer, socket: CallSocket): void => {
+  const { userId } = socket.data.user;
+
+  /**
+   * Handle a moderator muting one participant
+   * @param {ModerationTargetPayload} payload - Payload containing meetingId and targetUserId
+   * @fires CallEvents#MUTE_STATUS - Emitted to all participants in the room
+   * @fires CallEvents#MODERATION - Emitted to all participants in the room
+   */
+  socket.on(CallEvents.MUTE_PARTICIPANT, async (payload: ModerationTargetPayload, ack?: CallAck) => {
+    try {
+      const target = await resolveTarget(socket, payload.meetingId, payload.targetUserId, ack);
+      if (!target) return;
+
+      await forceMuteParticipant(io, target, userId);
+      ack?.({ ok: true });
+
+    } catch (error) {
+      logger.error('Error muting participant', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to mute participant', ack);
+    }
+  });
+
+  /**
+   * Handle a moderator muting everyone else in the call
+   * @param {RoomModerationPayload} payload - Payload containing meetingId
+   * @description Mutes every unmuted participant except the moderator and the hosts.
+   * @fires CallEvents#MUTE_STATUS - Emitted to all participants for each muted participant
+   * @fires CallEvents#MODERATION - Emitted to all participants in the room
+   */
+  socket.on(CallEvents.MUTE_ALL, async (payload: RoomModerationPayload, ack?: CallAck) => {
+    try {
+      await muteAllParticipants(io, payload.meetingId, userId);
+      ack?.({ ok: true });
+
+    } catch (error) {
+      logger.error('Error muting all participants', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to mute all participants', ack);
+    }
+  });
+
+  /**
+   * Handle a moderator turning off a participant's camera
+   * @param {ModerationTargetPayload} payload - Payload containing meetingId and targetUserId
+   * @fires CallEvents#VIDEO_STATUS - Emitted to all participants in the room
+   * @fires CallEvents#MODERATION - Emitted to all participants in the room
+   */
+  socket.on(CallEvents.STOP_VIDEO, async (payload: ModerationTargetPayload, ack?: CallAck) => {
+    try {
+      const target = await resolveTarget(socket, payload.meetingId, payload.targetUserId, ack);
+      if (!target) return;
+
+      if (target.isVideoOn) {
+        await setParticipantVideo(io, target, false);
+      }
+      ack?.({ ok: true });
+      notifyModeration(io, target.meetingId, 'stop-video', target.userId, userId);
+
+    } catch (error) {
+      logger.error('Error stopping participant video', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to stop participant video', ack);
+    }
+  });
+
+  /**
+   * Handle a moderator stopping a participant's screen share
+   * @param {ModerationTargetPayload} payload - Payload containing meetingId and targetUserId
+   * @fires CallEvents#SCREEN_SHARE_STATUS - Emitted to all participants in the room
+   * @fires CallEvents#MODERATION - Emitted to all participants in the room
+   */
+  socket.on(CallEvents.STOP_SCREEN_SHARE, async (payload: ModerationTargetPayload, ack?: CallAck) => {
+    try {
+      const target = await resolveTarget(socket, payload.meetingId, payload.targetUserId, ack);
+      if (!target) return;
+
+      if (target.isScreenSharing) {
+        await setParticipantScreenShare(io, target, null);
+      }
+      ack?.({ ok: true });
+      notifyModeration(io, target.meetingId, 'stop-screen-share', target.userId, userId);
+
+    } catch (error) {
+      logger.error('Error stopping participant screen share', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to stop participant screen share', ack);
+    }
+  });
+
+  /**
+   * Handle a moderator lowering a participant's hand
+   * @param {ModerationTargetPayload} payload - Payload containing meetingId and targetUserId
+   * @fires CallEvents#HAND_QUEUE - Emitted to all participants in the room
+   * @fires CallEvents#MODERATION - Emitted to all participants in the room
+   */
+  socket.on(CallEvents.LOWER_PARTICIPANT_HAND, async (payload: ModerationTargetPayload, ack?: CallAck) => {
+    try {
+      const target = await resolveTarget(socket, payload.meetingId, payload.targetUserId, ack);
+      if (!target) return;
+
+      await setParticipantHand(io, target, false);
+      ack?.({ ok: true });
+      notifyModeration(io, target.meetingId, 'lower-hand', target.userId, userId);
+
+    } catch (error) {
+      logger.error('Error lowering participant hand', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to lower participant hand', ack);
+    }
+  });
+
+  /**
+   * Handle a moderator removing a participant
+   * @param {RemoveParticipantPayload} payload - Payload containing meetingId, targetUserId and optional ban flag
+   * @description The removed socket is taken out of the meeting room and told why. With `ban`, the
+   * user cannot rejoin for the rest of the meeting.
+   * @fires CallEvents#REMOVED - Emitted to the removed participant
+   * @fires CallEvents#PEER_LEFT - Emitted to all remaining participants
+   * @fires CallEvents#MODERATION - Emitted to all remaining participants
+   */
+  socket.on(CallEvents.REMOVE_PARTICIPANT, async (payload: RemoveParticipantPayload, ack?: CallAck) => {
+    try {
+      const target = await resolveTarget(socket, payload.meetingId, payload.targetUserId, ack);
+      if (!target) return;
+
+      await kickParticipant(io, target, payload.ban === true, userId);
+      ack?.({ ok: true });
+
+    } catch (error) {
+      logger.error('Error removing participant', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to remove participant', ack);
+    }
+  });
+
+  /**
+   * Handle the host ending the call for everyone
+   * @param {RoomModerationPayload} payload - Payload containing meetingId
+   * @description The call moves to `ended`, every participant is taken out of it and users waiting
+   * in the lobby are turned away.
+   * @fires CallEvents#STATE - Emitted to all participants in the room
+   * @fires CallEvents#ENDED - Emitted to all participants in the room
+   */
+  socket.on(CallEvents.END, async (payload: RoomModerationPayload, ack?: CallAck) => {
+    try {
+      const room = await store.getRoom(payload.meetingId);
+      if (!room) {
+        emitCallError(socket, 'ROOM_NOT_FOUND', 'Call room not found', ack);
+        return;
+      }
+
+      await endCall(io, room.meetingId, userId);
+      ack?.({ ok: true });
+
+    } catch (error) {
+      logger.error('Error ending call', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to end call', ack);
+    }
+  });
+
+  /**
+   * Handle a moderator locking the room
+   * @param {RoomModerationPayload} payload - Payload containing meetingId
+   * @fires CallEvents#MODERATION - Emitted to all participants in the room
+   */
+  socket.on(CallEvents.LOCK_ROOM, async (payload: RoomModerationPayload, ack?: CallAck) => {
+    try {
+      const room = await store.getRoom(payload.meetingId);
+      if (!room) {
+        emitCallError(socket, 'ROOM_NOT_FOUND', 'Call room not found', ack);
+        return;
+      }
+
+      await setRoomLocked(room, true);
+      ack?.({ ok: true });
+      notifyModeration(io, room.meetingId, 'lock', null, userId);
+
+    } catch (error) {
+      logger.error('Error locking room', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to lock room', ack);
+    }
+  });
+
+  /**
+   * Handle a moderator unlocking the room
+   * @param {RoomModerationPayload} payload - Payload containing meetingId
+   * @fires CallEvents#MODERATION - Emitted to all participants in the room
+   */
+  socket.on(CallEvents.UNLOCK_ROOM, async (payload: RoomModerationPayload, ack?: CallAck) => {
+    try {
+      const room = await store.getRoom(payload.meetingId);
+      if (!room) {
+        emitCallError(socket, 'ROOM_NOT_FOUND', 'Call room not found', ack);
+        return;
+      }
+
+      await setRoomLocked(room, false);
+      ack?.({ ok: true });
+      notifyModeration(io, room.meetingId, 'unlock', null, userId);
+
+    } catch (error) {
+      logger.error('Error unlocking room', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to unlock room', ack);
+    }
+  });
+
+  /**
+   * Handle a moderator changing the screen sharing policy
+   * @param {SetScreenSharePolicyPayload} payload - Payload containing meetingId and policy
+   * @fires CallEvents#MODERATION - Emitted to all participants in the room
+   */
+  socket.on(CallEvents.SET_SCREEN_SHARE_POLICY, async (payload: SetScreenSharePolicyPayload, ack?: CallAck) => {
+    try {
+      const room = await store.getRoom(payload.meetingId);
+      if (!room) {
+        emitCallError(socket, 'ROOM_NOT_FOUND', 'Call room not found', ack);
+        return;
+      }
+
+      await setRoomScreenSharePolicy(room, payload.policy);
+      const action = payload.policy === 'single' ? 'single-presenter' : 'multiple-presenters';
+      ack?.({ ok: true });
+      notifyModeration(io, room.meetingId, action, null, userId);
+
+    } catch (error) {
+      logger.error('Error setting screen share policy', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to set screen share policy', ack);
+    }
+  });
+};
@@ -0,0 +1,94 @@
+/**
+ * Participation event handlers
+ * @module handlers/participationHandlers
+ * @description Socket.IO handlers for the ways participants take part without speaking:
+ * raising a hand to ask for the floor and sending ephemeral reactions.
+ */
+
+import { CallAck, CallEvents, CallServer, CallSocket, HandPayload, ReactionPayload } from '../types';
+import { setParticipantHand } from '../services/roomService';
+import { getRoomStore } from '../store';
+import { emitCallError } from '../utils/socketErrors';
+import { logger } from '../utils/logger';
+
+/**
+ * Storage for call rooms, their participants and socket mappings
+ */
+const store = getRoomStore();
+
+/**
+ * Register participation event handlers on a socket
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CallSocket} socket - Authenticated socket of the participant
+ * @returns {void}
+ * @example
+ * io.on('connection', (socket) => registerParticipationHandlers(io, socket));
+ */
+export const registerParticipationHandlers = (io: CallServer, socket: CallSocket): void => {
+  const { userId, username } = socket.data.user;
+
+  /**
+   * Handle user raising their hand
+   * @param {HandPayload} payload - Payload containing meetingId
+   * @description Adds the user to the end of the room's raised hand queue.
+   * @fires CallEvents#HAND_QUEUE - Emitted to all participants in the room
+   */
+  socket.on(CallEvents.RAISE_HAND, async (payload: HandPayload, ack?: CallAck) => {
+    try {
+      const participant = await store.getParticipant(payload.meetingId, userId);
+      if (!participant) {
+        emitCallError(socket, 'USER_NOT_FOUND', 'You are not a participant of this call', ack);
+        return;
+      }
+
+      await setParticipantHand(io, participant, true);
+      ack?.({ ok: true });
+      logger.call('hand', `User ${username} raised their hand in call ${payload.meetingId}`);
+
+    } catch (error) {
+      logger.error('Error raising hand', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to raise hand', ack);
+    }
+  });
+
+  /**
+   * Handle user lowering their hand
+   * @param {HandPayload} payload - Payload containing meetingId
+   * @fires CallEvents#HAND_QUEUE - Emitted to all participants in the room
+   */
+  socket.on(CallEvents.LOWER_HAND, async (payload: HandPayload, ack?: CallAck) => {
+    try {
+      const participant = await store.getParticipant(payload.meetingId, userId);
+      if (!participant) {
+        emitCallError(socket, 'USER_NOT_FOUND', 'You are not a participant of this call', ack);
+        return;
+      }
+
+      await setParticipantHand(io, participant, false);
+      ack?.({ ok: true });
+      logger.call('hand', `User ${username} lowered their hand in call ${payload.meetingId}`);
+
+    } catch (error) {
+      logger.error('Error lowering hand', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to lower hand', ack);
+    }
+  });
+
+  /**
+   * Handle user sending a reaction
+   * @param {ReactionPayload} payload - Payload containing meetingId and emoji
+   * @description The emoji must be one of `ALLOWED_REACTIONS` (see `config/eventSchemas`).
+   * Reactions are fanned out to the room and not stored. Their rate is limited by the
+   * `reaction` group of `config/rateLimits`.
+   * @fires CallEvents#REACTION - Emitted to all participants in the room
+   */
+  socket.on(CallEvents.REACTION, (payload: ReactionPayload, ack?: CallAck) => {
+    io.to(payload.meetingId).emit(CallEvents.REACTION, {
+      userId,
+      username,
+      emoji: payload.emoji,
+      timestamp: new Date().toISOString(),
+    });
+    ack?.({ ok: true });
+  });
+};
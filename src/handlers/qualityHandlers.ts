@@ -0,0 +1,52 @@
+/**
+ * Quality event handlers
+ * @module handlers/qualityHandlers
+ * @description Socket.IO handler for the connection quality telemetry clients send while in a call.
+ */
+
+import { CallAck, CallEvents, CallServer, CallSocket, QualityReportPayload } from '../types';
+import { recordQualityReport } from '../services/qualityService';
+import { getRoomStore } from '../store';
+import { emitCallError } from '../utils/socketErrors';
+import { logger } from '../utils/logger';
+
+/**
+ * Storage for call rooms, their participants and socket mappings
+ */
+const store = getRoomStore();
+
+/**
+ * Register quality event handlers on a socket
+ * @param {CallServer} io - Socket.IO server instance for the warnings
+ * @param {CallSocket} socket - Authenticated socket of the participant
+ * @returns {void}
+ * @example
+ * io.on('connection', (socket) => registerQualityHandlers(io, socket));
+ */
+export const registerQualityHandlers = (io: CallServer, socket: CallSocket): void => {
+  const { userId } = socket.data.user;
+
+  /**
+   * Handle a connection quality report
+   * @param {QualityReportPayload} payload - Payload containing meetingId and the quality of each peer connection
+   * @description Summarized `getStats()` numbers, sent every 5 to 10 seconds. Aggregated per
+   * participant and per connection, and served by `GET /api/call/room/:meetingId/quality`.
+   * @fires CallEvents#QUALITY_WARNING - Emitted to both participants of a connection that crossed a threshold
+   */
+  socket.on(CallEvents.QUALITY_REPORT, async (payload: QualityReportPayload, ack?: CallAck) => {
+    try {
+      const participant = await store.getParticipant(payload.meetingId, userId);
+      if (!participant) {
+        emitCallError(socket, 'USER_NOT_FOUND', 'You are not a participant of this call', ack);
+        return;
+      }
+
+      await recordQualityReport(io, participant, payload.peers);
+      ack?.({ ok: true });
+
+    } catch (error) {
+      logger.error('Error recording quality report', error);
+      emitCallError(socket, 'INTERNAL_ERROR', 'Failed to record quality report', ack);
+    }
+  });
+};
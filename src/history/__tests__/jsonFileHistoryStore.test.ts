@@ -0,0 +1,101 @@
+/**
+ * Tests of the JSON Lines file call history store
+ */
+
+import { mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CallSession } from '../../types';
+import { JsonFileHistoryStore } from '../jsonFileHistoryStore';
+
+const session = (sessionId: string, endedAt: string | null = null): CallSession => ({
+  sessionId,
+  meetingId: 'm1',
+  startedAt: '2026-01-01T10:00:00.000Z',
+  endedAt,
+  peakParticipants: 1,
+  attendance: [],
+});
+
+describe('JsonFileHistoryStore', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'call-history-'));
+    filePath = join(directory, 'history', 'call-history.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('appends one line per change and reads the latest version back', async () => {
+    const store = new JsonFileHistoryStore(filePath);
+    await store.saveSession(session('s1'));
+    await store.saveSession(session('s1', '2026-01-01T11:00:00.000Z'));
+    await store.saveSession(session('s2'));
+    await store.close();
+
+    expect(readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(3);
+
+    const reopened = new JsonFileHistoryStore(filePath);
+    expect((await reopened.getSession('s1'))?.endedAt).toBe('2026-01-01T11:00:00.000Z');
+    expect(await reopened.getSession('s2')).not.toBeNull();
+    await reopened.close();
+  });
+
+  it('compacts superseded lines at startup', async () => {
+    const store = new JsonFileHistoryStore(filePath);
+    await store.saveSession(session('s1'));
+    await store.saveSession(session('s1', '2026-01-01T11:00:00.000Z'));
+    await store.close();
+
+    const reopened = new JsonFileHistoryStore(filePath);
+    await reopened.close();
+
+    expect(readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('replays deletions', async () => {
+    const store = new JsonFileHistoryStore(filePath);
+    await store.saveSession(session('s1', '2026-01-01T11:00:00.000Z'));
+    await store.saveSession(session('s2'));
+    expect(await store.deleteSessionsEndedBefore(new Date('2026-02-01T00:00:00.000Z'))).toBe(1);
+    await store.close();
+
+    const reopened = new JsonFileHistoryStore(filePath);
+    expect(await reopened.getSession('s1')).toBeNull();
+    expect(await reopened.getSession('s2')).not.toBeNull();
+    await reopened.close();
+  });
+
+  it('moves a file with unreadable lines aside and keeps the readable sessions', async () => {
+    const store = new JsonFileHistoryStore(filePath);
+    await store.saveSession(session('s1'));
+    await store.close();
+    writeFileSync(filePath, `${readFileSync(filePath, 'utf8')}{"session":{"sessionId":"s2"`);
+
+    const reopened = new JsonFileHistoryStore(filePath);
+    await reopened.close();
+
+    const corrupt = readdirSync(join(directory, 'history')).filter(name => name.startsWith('call-history.jsonl.corrupt-'));
+    expect(corrupt).toHaveLength(1);
+    expect(readFileSync(join(directory, 'history', corrupt[0]), 'utf8')).toContain('"s2"');
+    expect(await reopened.getSession('s1')).not.toBeNull();
+    expect(readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('reads a file written as a single JSON document by earlier versions', async () => {
+    mkdirSync(join(directory, 'history'));
+    writeFileSync(filePath, JSON.stringify({ version: 1, sessions: [session('s1'), session('s2')] }));
+
+    const store = new JsonFileHistoryStore(filePath);
+    expect((await store.listSessions('m1', { limit: 20, offset: 0 })).total).toBe(2);
+    await store.close();
+  });
+
+  it('refuses to start when the file cannot be read', () => {
+    expect(() => new JsonFileHistoryStore(directory)).toThrow(/Could not read call history/);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests of the in-memory call history store and its queries
+ */
+
+import { CallSession, SessionAttendance } from '../../types';
+import { MemoryHistoryStore } from '../memoryHistoryStore';
+
+const stay = (userId: string, joinedAt: string, leftAt: string | null): SessionAttendance => ({
+  userId,
+  username: userId,
+  role: 'participant',
+  joinedAt,
+  leftAt,
+  leaveReason: leftAt ? 'left' : null,
+});
+
+const session = (sessionId: string, startedAt: string, endedAt: string | null, attendance: SessionAttendance[]): CallSession => ({
+  sessionId,
+  meetingId: 'm1',
+  startedAt,
+  endedAt,
+  peakParticipants: attendance.length,
+  attendance,
+});
+
+const page = { limit: 20, offset: 0 };
+
+describe('MemoryHistoryStore', () => {
+  let store: MemoryHistoryStore;
+
+  beforeEach(async () => {
+    store = new MemoryHistoryStore();
+    await store.saveSession(session('s1', '2026-01-01T10:00:00.000Z', '2026-01-01T11:00:00.000Z', [
+      stay('alice', '2026-01-01T10:00:00.000Z', '2026-01-01T10:30:00.000Z'),
+      stay('bob', '2026-01-01T10:05:00.000Z', '2026-01-01T11:00:00.000Z'),
+    ]));
+    await store.saveSession(session('s2', '2026-01-02T10:00:00.000Z', null, [
+      stay('alice', '2026-01-02T10:00:00.000Z', null),
+    ]));
+  });
+
+  it('returns copies of saved sessions', async () => {
+    const saved = await store.getSession('s1');
+    saved!.attendance.push(stay('mallory', '2026-01-01T10:00:00.000Z', null));
+
+    expect((await store.getSession('s1'))?.attendance).toHaveLength(2);
+    expect(await store.getSession('unknown')).toBeNull();
+  });
+
+  it('lists the sessions of a meeting latest first', async () => {
+    const result = await store.listSessions('m1', page);
+
+    expect(result.items.map(s => s.sessionId)).toEqual(['s2', 's1']);
+    expect(result.total).toBe(2);
+    expect((await store.listSessions('m2', page)).total).toBe(0);
+  });
+
+  it('lists the sessions overlapping a date range, running sessions included', async () => {
+    const from = new Date('2026-01-01T12:00:00.000Z');
+    const to = new Date('2026-01-01T10:30:00.000Z');
+
+    expect((await store.listSessions('m1', { ...page, from })).items.map(s => s.sessionId)).toEqual(['s2']);
+    expect((await store.listSessions('m1', { ...page, to })).items.map(s => s.sessionId)).toEqual(['s1']);
+  });
+
+  it('only lists the sessions a given user attended', async () => {
+    expect((await store.listSessions('m1', { ...page, attendee: 'bob' })).items.map(s => s.sessionId)).toEqual(['s1']);
+    expect((await store.listSessions('m1', { ...page, attendee: 'mallory' })).total).toBe(0);
+  });
+
+  it('pages the results', async () => {
+    const result = await store.listSessions('m1', { limit: 1, offset: 1 });
+
+    expect(result).toMatchObject({ total: 2, limit: 1, offset: 1 });
+    expect(result.items.map(s => s.sessionId)).toEqual(['s1']);
+  });
+
+  it('lists the stays of a user with their duration', async () => {
+    const result = await store.listAttendance('alice', page);
+
+    expect(result.items).toEqual([
+      expect.objectContaining({ sessionId: 's2', meetingId: 'm1', durationSeconds: null }),
+      expect.objectContaining({ sessionId: 's1', meetingId: 'm1', durationSeconds: 30 * 60 }),
+    ]);
+  });
+
+  it('deletes ended sessions older than a date and keeps running ones', async () => {
+    expect(await store.deleteSessionsEndedBefore(new Date('2026-02-01T00:00:00.000Z'))).toBe(1);
+
+    expect(await store.getSession('s1')).toBeNull();
+    expect(await store.getSession('s2')).not.toBeNull();
+  });
+});
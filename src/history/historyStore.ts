@@ -0,0 +1,92 @@
+/**
+ * Call history store abstraction
+ * @module history/historyStore
+ * @description Defines the storage contract for recorded call sessions and the queries run on
+ * them by the history endpoints.
+ */
+
+import { AttendanceRecord, CallSession } from '../types';
+
+/**
+ * Date range and page of a history query
+ * @interface HistoryQuery
+ */
+export interface HistoryQuery {
+  /** Only include sessions or stays still running at or after this time */
+  from?: Date;
+  /** Only include sessions or stays started at or before this time */
+  to?: Date;
+  /** Only include sessions this user attended (ignored when listing attendance) */
+  attendee?: string;
+  /** Maximum number of items to return */
+  limit: number;
+  /** Number of matching items to skip */
+  offset: number;
+}
+
+/**
+ * One page of query results, newest first
+ * @interface HistoryPage
+ */
+export interface HistoryPage<T> {
+  /** Items of the page */
+  items: T[];
+  /** Number of items matching the query across all pages */
+  total: number;
+  /** Maximum number of items per page */
+  limit: number;
+  /** Number of matching items skipped */
+  offset: number;
+}
+
+/**
+ * Storage backend for call history
+ * @interface HistoryStore
+ * @description All operations are asynchronous so that implementations can be backed by a
+ * database. Implementations: {@link MemoryHistoryStore} (lost on restart) and
+ * {@link JsonFileHistoryStore} (persisted to a JSON Lines file).
+ */
+export interface HistoryStore {
+  /**
+   * Get a recorded session
+   * @param {string} sessionId - Session identifier
+   * @returns {Promise<CallSession | null>} The session, or null if unknown
+   */
+  getSession(sessionId: string): Promise<CallSession | null>;
+
+  /**
+   * Create or replace a session
+   * @param {CallSession} session - Session to store
+   * @returns {Promise<void>}
+   */
+  saveSession(session: CallSession): Promise<void>;
+
+  /**
+   * List the sessions of a meeting
+   * @param {string} meetingId - Meeting/room identifier
+   * @param {HistoryQuery} query - Date range and page
+   * @returns {Promise<HistoryPage<CallSession>>} Sessions overlapping the range, latest start first
+   */
+  listSessions(meetingId: string, query: HistoryQuery): Promise<HistoryPage<CallSession>>;
+
+  /**
+   * List the stays of a user in every recorded session
+   * @param {string} userId - User identifier
+   * @param {HistoryQuery} query - Date range and page
+   * @returns {Promise<HistoryPage<AttendanceRecord>>} Stays overlapping the range, latest join first
+   */
+  listAttendance(userId: string, query: HistoryQuery): Promise<HistoryPage<AttendanceRecord>>;
+
+  /**
+   * Delete the sessions that ended before a date
+   * @param {Date} before - Sessions ended before this time are deleted; running sessions are kept
+   * @returns {Promise<number>} Number of sessions deleted
+   */
+  deleteSessionsEndedBefore(before: Date): Promise<number>;
+
+  /**
+   * Finish pending writes and release any resources held by the store
+   * @returns {Promise<void>}
+   */
+  close(): Promise<void>;
+}
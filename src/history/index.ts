@@ -0,0 +1,40 @@
+/**
+ * Call history store factory
+ * @module history
+ * @description Provides the history store selected by the `HISTORY_STORE` environment variable.
+ */
+
+import { HistoryStore } from './historyStore';
+import { JsonFileHistoryStore } from './jsonFileHistoryStore';
+import { MemoryHistoryStore } from './memoryHistoryStore';
+
+export { HistoryPage, HistoryQuery, HistoryStore } from './historyStore';
+
+/**
+ * Path of the history file used by the default store
+ * @constant {string}
+ * @default 'data/call-history.jsonl'
+ */
+export const HISTORY_FILE = process.env.HISTORY_FILE || 'data/call-history.jsonl';
+
+/**
+ * History store instance, created on first use
+ * @type {HistoryStore | null}
+ */
+let historyStore: HistoryStore | null = null;
+
+/**
+ * Get the history store shared by the history recorder and HTTP routes
+ * @returns {HistoryStore} {@link MemoryHistoryStore} when `HISTORY_STORE=memory`, otherwise
+ * {@link JsonFileHistoryStore} writing to {@link HISTORY_FILE}
+ * @example
+ * const session = await getHistoryStore().getSession(sessionId);
+ */
+export const getHistoryStore = (): HistoryStore => {
+  if (!historyStore) {
+    historyStore = process.env.HISTORY_STORE === 'memory'
+      ? new MemoryHistoryStore()
+      : new JsonFileHistoryStore(HISTORY_FILE);
+  }
+  return historyStore;
+};
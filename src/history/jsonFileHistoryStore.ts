@@ -0,0 +1,198 @@
+/**
+ * JSON Lines file call history store
+ * @module history/jsonFileHistoryStore
+ * @description Keeps recorded call sessions in memory and appends every change to a JSON Lines
+ * file, so history survives restarts without a database.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync } from 'fs';
+import { appendFile, mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { CallSession } from '../types';
+import { logger } from '../utils/logger';
+import { MemoryHistoryStore } from './memoryHistoryStore';
+
+/**
+ * Minimum number of lines in the history file before it is compacted
+ * @constant {number}
+ * @description Every save of a session appends its latest version, so the file is rewritten with
+ * one line per session once it holds this many lines and more than twice as many as sessions.
+ */
+const COMPACTION_MIN_RECORDS = 1000;
+
+/**
+ * One line of the history file
+ * @interface HistoryRecord
+ * @description A line holds one of:
+ * - `session`: the latest version of a session, replacing earlier lines of the same session
+ * - `deleted`: identifiers of sessions deleted after the retention period
+ * - `sessions`: every session, as written on one line by earlier versions of this store
+ * @private
+ */
+interface HistoryRecord {
+  /** Saved session */
+  session?: CallSession;
+  /** Deleted session identifiers */
+  deleted?: string[];
+  /** Every session of a file written by earlier versions */
+  sessions?: CallSession[];
+}
+
+/**
+ * History store persisted to a JSON Lines file
+ * @class JsonFileHistoryStore
+ * @extends {MemoryHistoryStore}
+ * @implements {HistoryStore}
+ * @description Reads the file once at startup, then appends a line for every saved session and
+ * every deletion, in order. The file is compacted at startup and whenever most of its lines have
+ * been superseded, by writing a temporary file renamed over the previous one, so a crash never
+ * loses what was written. A file with lines that cannot be parsed is moved aside as
+ * `<file>.corrupt-<timestamp>` rather than overwritten, keeping the sessions of the lines that
+ * could be read; a file that cannot be read at all stops the server from starting. Suitable for a
+ * single server instance; the file must not be shared.
+ */
+export class JsonFileHistoryStore extends MemoryHistoryStore {
+  /** Path of the history file */
+  private readonly filePath: string;
+
+  /** Last queued write, chained so that lines are written in order */
+  private writing: Promise<void> = Promise.resolve();
+
+  /** Number of lines in the file */
+  private records = 0;
+
+  /**
+   * Creates the store and loads the sessions saved in the file
+   * @param {string} filePath - Path of the history file, created (with its directory) if missing
+   * @throws {Error} If the file exists but cannot be read
+   */
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+
+    mkdirSync(dirname(filePath), { recursive: true });
+    if (!this.load() || this.records > this.sessions.size) {
+      void this.enqueue(() => this.compact()).catch(error => {
+        logger.error(`Could not compact call history in ${this.filePath}`, error);
+      });
+    }
+  }
+
+  public async saveSession(session: CallSession): Promise<void> {
+    await super.saveSession(session);
+    await this.append({ session });
+  }
+
+  public async deleteSessionsEndedBefore(before: Date): Promise<number> {
+    const sessionIds = Array.from(this.sessions.keys());
+    const deleted = await super.deleteSessionsEndedBefore(before);
+    if (deleted > 0) {
+      await this.append({ deleted: sessionIds.filter(sessionId => !this.sessions.has(sessionId)) });
+    }
+    return deleted;
+  }
+
+  public async close(): Promise<void> {
+    await this.writing;
+  }
+
+  /**
+   * Replay the file into the sessions
+   * @returns {boolean} False if the file had lines that could not be parsed and was moved aside
+   * @throws {Error} If the file exists but cannot be read
+   * @private
+   */
+  private load(): boolean {
+    if (!existsSync(this.filePath)) return true;
+
+    let content: string;
+    try {
+      content = readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      throw new Error(`Could not read call history from ${this.filePath}: ${(error as Error).message}`);
+    }
+
+    let invalidLines = 0;
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') continue;
+
+      try {
+        this.replay(JSON.parse(line) as HistoryRecord);
+        this.records += 1;
+      } catch {
+        invalidLines += 1;
+      }
+    }
+
+    if (invalidLines === 0) return true;
+
+    const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+    renameSync(this.filePath, corruptPath);
+    logger.error(`Call history in ${this.filePath} has ${invalidLines} unreadable lines; moved it to ${corruptPath} and kept ${this.sessions.size} sessions`);
+    return false;
+  }
+
+  /**
+   * Apply one line of the file to the sessions
+   * @param {HistoryRecord} record - Parsed line
+   * @returns {void}
+   * @throws {Error} If the line is not a history record
+   * @private
+   */
+  private replay(record: HistoryRecord): void {
+    if (record.session) {
+      this.sessions.set(record.session.sessionId, record.session);
+    } else if (Array.isArray(record.deleted)) {
+      record.deleted.forEach(sessionId => this.sessions.delete(sessionId));
+    } else if (Array.isArray(record.sessions)) {
+      record.sessions.forEach(session => this.sessions.set(session.sessionId, session));
+    } else {
+      throw new Error('Unknown history record');
+    }
+  }
+
+  /**
+   * Run a write once the writes queued before it have finished
+   * @param {Function} write - Write to run
+   * @returns {Promise<void>} Resolves once the write is done; a failure does not stop later writes
+   * @private
+   */
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const queued = this.writing.then(write);
+    this.writing = queued.catch(() => undefined);
+    return queued;
+  }
+
+  /**
+   * Append a line to the file, compacting it when most lines have been superseded
+   * @param {HistoryRecord} record - Line to append
+   * @returns {Promise<void>} Resolves once the line is on disk
+   * @private
+   */
+  private append(record: HistoryRecord): Promise<void> {
+    return this.enqueue(async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, `${JSON.stringify(record)}\n`);
+      this.records += 1;
+
+      if (this.records >= COMPACTION_MIN_RECORDS && this.records > 2 * this.sessions.size) {
+        await this.compact();
+      }
+    });
+  }
+
+  /**
+   * Rewrite the file with one line per session
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async compact(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    const tempPath = `${this.filePath}.tmp`;
+
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tempPath, sessions.map(session => `${JSON.stringify({ session })}\n`).join(''));
+    await rename(tempPath, this.filePath);
+    this.records = sessions.length;
+  }
+}
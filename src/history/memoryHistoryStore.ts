@@ -0,0 +1,105 @@
+/**
+ * In-memory call history store
+ * @module history/memoryHistoryStore
+ * @description Keeps recorded call sessions in process memory. History is lost on restart.
+ */
+
+import { AttendanceRecord, CallSession } from '../types';
+import { HistoryPage, HistoryQuery, HistoryStore } from './historyStore';
+
+/**
+ * Whether a period overlaps the date range of a query
+ * @param {string} start - ISO 8601 start of the period
+ * @param {string | null} end - ISO 8601 end of the period, or null if still running
+ * @param {HistoryQuery} query - Query with an optional date range
+ * @returns {boolean} True if the period overlaps the range
+ * @private
+ */
+const overlaps = (start: string, end: string | null, query: HistoryQuery): boolean => {
+  if (query.to && Date.parse(start) > query.to.getTime()) return false;
+  if (query.from && end !== null && Date.parse(end) < query.from.getTime()) return false;
+  return true;
+};
+
+/**
+ * Sort items latest first and cut out the requested page
+ * @param {T[]} items - Items matching the query
+ * @param {Function} startOf - Returns the ISO 8601 timestamp items are sorted by
+ * @param {HistoryQuery} query - Query with the page to return
+ * @returns {HistoryPage<T>} Page of items
+ * @private
+ */
+const paginate = <T>(items: T[], startOf: (item: T) => string, query: HistoryQuery): HistoryPage<T> => ({
+  items: items
+    .sort((a, b) => startOf(b).localeCompare(startOf(a)))
+    .slice(query.offset, query.offset + query.limit),
+  total: items.length,
+  limit: query.limit,
+  offset: query.offset,
+});
+
+/**
+ * History store backed by an in-process Map
+ * @class MemoryHistoryStore
+ * @implements {HistoryStore}
+ * @description Returned objects are copies, so callers must save changes back through the store
+ * exactly as they would with a database.
+ */
+export class MemoryHistoryStore implements HistoryStore {
+  /** Recorded sessions. Key: sessionId */
+  protected readonly sessions = new Map<string, CallSession>();
+
+  public async getSession(sessionId: string): Promise<CallSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? structuredClone(session) : null;
+  }
+
+  public async saveSession(session: CallSession): Promise<void> {
+    this.sessions.set(session.sessionId, structuredClone(session));
+  }
+
+  public async listSessions(meetingId: string, query: HistoryQuery): Promise<HistoryPage<CallSession>> {
+    const matching = Array.from(this.sessions.values())
+      .filter(s => s.meetingId === meetingId && overlaps(s.startedAt, s.endedAt, query))
+      .filter(s => !query.attendee || s.attendance.some(stay => stay.userId === query.attendee));
+
+    return structuredClone(paginate(matching, s => s.startedAt, query));
+  }
+
+  public async listAttendance(userId: string, query: HistoryQuery): Promise<HistoryPage<AttendanceRecord>> {
+    const records: AttendanceRecord[] = [];
+
+    for (const session of this.sessions.values()) {
+      for (const stay of session.attendance) {
+        if (stay.userId !== userId || !overlaps(stay.joinedAt, stay.leftAt, query)) continue;
+
+        records.push({
+          ...stay,
+          sessionId: session.sessionId,
+          meetingId: session.meetingId,
+          durationSeconds: stay.leftAt === null
+            ? null
+            : Math.round((Date.parse(stay.leftAt) - Date.parse(stay.joinedAt)) / 1000),
+        });
+      }
+    }
+
+    return paginate(records, r => r.joinedAt, query);
+  }
+
+  public async deleteSessionsEndedBefore(before: Date): Promise<number> {
+    let deleted = 0;
+
+    for (const [sessionId, session] of this.sessions) {
+      if (session.endedAt !== null && Date.parse(session.endedAt) < before.getTime()) {
+        this.sessions.delete(sessionId);
+        deleted += 1;
+      }
+    }
+    return deleted;
+  }
+
+  public async close(): Promise<void> {
+    // Nothing to flush
+  }
+}
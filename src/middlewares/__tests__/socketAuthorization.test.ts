@@ -0,0 +1,86 @@
+/**
+ * Tests of the per-socket authorization middleware
+ */
+
+import { Event } from 'socket.io';
+import { createAuthorizationMiddleware } from '../socketAuthorization';
+import { CallEvents, CallParticipant, CallRole, CallSocket } from '../../types';
+
+const participant = (role: CallRole, socketId: string = 'socket-1'): CallParticipant => ({
+  socketId,
+  userId: 'user1',
+  meetingId: 'abc123',
+  peerId: 'peer-1',
+  username: 'John',
+  role,
+  isMuted: true,
+  isVideoOn: false,
+  isScreenSharing: false,
+  screenStreamId: null,
+  handRaisedAt: null,
+  joinedAt: new Date().toISOString(),
+  connectionState: 'connected',
+  resumeToken: 'token',
+});
+
+const createSocket = () => ({
+  id: 'socket-1',
+  data: { user: { userId: 'user1', username: 'John', hostOf: [], defaultRole: 'participant' } },
+  emit: jest.fn(),
+});
+
+/**
+ * Run the middleware on one event
+ * @returns The arguments next was called with, or null if it was not, and the socket
+ */
+const authorize = async (event: Event, found: CallParticipant | null) => {
+  const socket = createSocket();
+  const next = jest.fn();
+  const middleware = createAuthorizationMiddleware(socket as unknown as CallSocket, async () => found);
+
+  await middleware(event, next);
+  return { socket, next };
+};
+
+describe('createAuthorizationMiddleware', () => {
+  it('lets membership-exempt events through', async () => {
+    const { next } = await authorize([CallEvents.JOIN, { meetingId: 'abc123', peerId: 'peer-1' }], null);
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('lets a participant emit an event allowed for their role', async () => {
+    const { next, socket } = await authorize([CallEvents.RAISE_HAND, { meetingId: 'abc123' }], participant('viewer'));
+
+    expect(next).toHaveBeenCalledWith();
+    expect(socket.emit).not.toHaveBeenCalled();
+  });
+
+  it('rejects users who are not in the call', async () => {
+    const ack = jest.fn();
+    const { next, socket } = await authorize([CallEvents.RAISE_HAND, { meetingId: 'abc123' }, ack], null);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(socket.emit).toHaveBeenCalledWith(CallEvents.ERROR, expect.objectContaining({ code: 'FORBIDDEN' }));
+    expect(ack).toHaveBeenCalledWith({ ok: false, error: expect.objectContaining({ code: 'FORBIDDEN' }) });
+  });
+
+  it('rejects events from another socket of the participant', async () => {
+    const { next } = await authorize([CallEvents.RAISE_HAND, { meetingId: 'abc123' }], participant('host', 'socket-2'));
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('rejects events the role is not allowed to emit', async () => {
+    const { next, socket } = await authorize([CallEvents.UNMUTE, { meetingId: 'abc123' }], participant('viewer'));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(socket.emit).toHaveBeenCalledWith(
+      CallEvents.ERROR,
+      expect.objectContaining({ code: 'FORBIDDEN', message: expect.stringContaining('viewer') })
+    );
+  });
+
+  it('rejects payloads without a meeting id', async () => {
+    const { next } = await authorize([CallEvents.RAISE_HAND, {}], participant('host'));
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests of the per-socket event metrics middleware
+ */
+
+import { EventEmitter } from 'events';
+import { Event } from 'socket.io';
+import { createMetricsMiddleware } from '../socketMetrics';
+import { recordEventHandled, recordJoinFailure } from '../../services/metricsService';
+import { CallAck, CallEvents, CallSocket } from '../../types';
+
+jest.mock('../../services/metricsService');
+
+/**
+ * Create a socket that dispatches events to its listeners on the next tick, as Socket.IO does
+ * once the middlewares are through
+ */
+const createSocket = () => {
+  const listeners = new EventEmitter();
+  const outgoing: ((...args: unknown[]) => void)[] = [];
+
+  const socket = {
+    id: 'socket-1',
+    on: (event: string, listener: (...args: never[]) => unknown) => {
+      listeners.on(event, listener as (...args: unknown[]) => unknown);
+      return socket;
+    },
+    emit: jest.fn((...args: unknown[]) => outgoing.forEach(listener => listener(...args))),
+    prependAnyOutgoing: (listener: (...args: unknown[]) => void) => {
+      outgoing.unshift(listener);
+    },
+  };
+
+  const middleware = createMetricsMiddleware(socket as unknown as CallSocket);
+  const dispatch = (packet: Event) =>
+    middleware(packet, () => process.nextTick(() => listeners.emit(packet[0], ...packet.slice(1))));
+
+  return { socket, middleware, dispatch };
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('createMetricsMiddleware', () => {
+  beforeEach(() => {
+    jest.mocked(recordEventHandled).mockClear();
+    jest.mocked(recordJoinFailure).mockClear();
+  });
+
+  it('records an event when its handler settles, even if it acknowledges earlier', async () => {
+    const { socket, dispatch } = createSocket();
+    socket.on(CallEvents.RAISE_HAND, async (_payload: unknown, ack?: CallAck) => {
+      ack?.({ ok: true });
+      await wait(50);
+    });
+
+    const ack = jest.fn();
+    dispatch([CallEvents.RAISE_HAND, { meetingId: 'abc123' }, ack]);
+    await wait(10);
+
+    expect(ack).toHaveBeenCalledWith({ ok: true });
+    expect(recordEventHandled).not.toHaveBeenCalled();
+
+    await wait(60);
+    expect(recordEventHandled).toHaveBeenCalledTimes(1);
+    const [event, status, seconds] = jest.mocked(recordEventHandled).mock.calls[0];
+    expect([event, status]).toEqual([CallEvents.RAISE_HAND, 'ok']);
+    expect(seconds).toBeGreaterThanOrEqual(0.04);
+  });
+
+  it('passes the client acknowledgement on untouched, and adds none', async () => {
+    const { socket, dispatch } = createSocket();
+    const received: unknown[] = [];
+    socket.on(CallEvents.RAISE_HAND, async (_payload: unknown, ack?: CallAck) => {
+      received.push(ack);
+    });
+
+    const ack = jest.fn();
+    dispatch([CallEvents.RAISE_HAND, { meetingId: 'abc123' }, ack]);
+    dispatch([CallEvents.RAISE_HAND, { meetingId: 'abc123' }]);
+    await wait(10);
+
+    expect(received).toEqual([ack, undefined]);
+    expect(recordEventHandled).toHaveBeenCalledTimes(2);
+  });
+
+  it('records the code of the error sent back by the handler', async () => {
+    const { socket, dispatch } = createSocket();
+    socket.on(CallEvents.JOIN, async () => {
+      await wait(5);
+      socket.emit(CallEvents.ERROR, { code: 'ROOM_FULL', message: 'Call is full' });
+    });
+
+    dispatch([CallEvents.JOIN, { meetingId: 'abc123', peerId: 'peer-1' }]);
+    await wait(20);
+
+    expect(recordEventHandled).toHaveBeenCalledWith(CallEvents.JOIN, 'ROOM_FULL', expect.any(Number));
+    expect(recordJoinFailure).toHaveBeenCalledWith('ROOM_FULL');
+  });
+
+  it('records an event rejected by a later middleware when the error is sent', async () => {
+    const { socket, middleware } = createSocket();
+
+    middleware([CallEvents.RAISE_HAND, { meetingId: 42 }], () => {
+      socket.emit(CallEvents.ERROR, { code: 'INVALID_PAYLOAD', message: 'Invalid meetingId' });
+    });
+
+    expect(recordEventHandled).toHaveBeenCalledWith(CallEvents.RAISE_HAND, 'INVALID_PAYLOAD', expect.any(Number));
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests of the per-socket payload validation middleware
+ */
+
+import { Event } from 'socket.io';
+import { createValidationMiddleware } from '../socketValidation';
+import { MAX_SDP_LENGTH } from '../../config/eventSchemas';
+import { CallEvents, CallSocket } from '../../types';
+
+const createSocket = () => ({
+  id: 'socket-1',
+  data: { user: { userId: 'user1', username: 'John', hostOf: [], defaultRole: 'participant' } },
+  emit: jest.fn(),
+});
+
+/**
+ * Run the middleware on one packet
+ * @returns The packet after the middleware, the next callback and the socket
+ */
+const validate = (packet: Event) => {
+  const socket = createSocket();
+  const next = jest.fn();
+
+  createValidationMiddleware(socket as unknown as CallSocket)(packet, next);
+  return { packet, socket, next };
+};
+
+const offer = (sdp: string) => ({
+  meetingId: 'abc123',
+  toUserId: 'user2',
+  toPeerId: 'peer-2',
+  signalType: 'offer',
+  signal: { type: 'offer', sdp },
+});
+
+describe('createValidationMiddleware', () => {
+  it('passes a valid payload on, stripped of unknown keys and extra arguments', () => {
+    const ack = jest.fn();
+    const { packet, next } = validate([CallEvents.RAISE_HAND, { meetingId: 'abc123', extra: true }, 'junk', ack]);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(packet).toEqual([CallEvents.RAISE_HAND, { meetingId: 'abc123' }, ack]);
+  });
+
+  it('rejects an invalid payload with INVALID_PAYLOAD and the offending path', () => {
+    const ack = jest.fn();
+    const { next, socket } = validate([CallEvents.RAISE_HAND, { meetingId: 42 }, ack]);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(socket.emit).toHaveBeenCalledWith(
+      CallEvents.ERROR,
+      expect.objectContaining({ code: 'INVALID_PAYLOAD', path: 'meetingId' })
+    );
+    expect(ack).toHaveBeenCalledWith({ ok: false, error: expect.objectContaining({ code: 'INVALID_PAYLOAD' }) });
+  });
+
+  it('rejects a malformed signal with INVALID_SIGNAL', () => {
+    const { next, socket } = validate([CallEvents.SIGNAL, { ...offer('v=0'), toPeerId: undefined }]);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(socket.emit).toHaveBeenCalledWith(CallEvents.ERROR, expect.objectContaining({ code: 'INVALID_SIGNAL' }));
+  });
+
+  it('rejects an oversized signal with SIGNAL_TOO_LARGE', () => {
+    const { next, socket } = validate([CallEvents.SIGNAL, offer('a'.repeat(MAX_SDP_LENGTH + 1))]);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(socket.emit).toHaveBeenCalledWith(CallEvents.ERROR, expect.objectContaining({ code: 'SIGNAL_TOO_LARGE' }));
+  });
+});
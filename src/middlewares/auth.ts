@@ -0,0 +1,113 @@
+/**
+ * HTTP authentication middleware module
+ * @module middlewares/auth
+ * @description Verifies bearer access tokens on REST endpoints that act on behalf of a user,
+ * and the static keys protecting the metrics endpoint and the admin API.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { createError } from './errorHandler';
+import { extractBearerToken, verifyAccessToken } from '../utils/jwt';
+
+/**
+ * Express middleware that requires a valid bearer token
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ * @returns {void}
+ * @description Verifies the `Authorization: Bearer <token>` header with the same rules as the
+ * Socket.IO handshake and stores the identity in `res.locals.user`. Responds with 401 otherwise.
+ * @example
+ * router.get('/ice-servers', requireAuth, handler);
+ */
+export const requireAuth = (req: Request, res: Response, next: NextFunction): void => {
+  const result = verifyAccessToken(extractBearerToken(req.headers.authorization));
+
+  if (!result.valid) {
+    next(createError(result.message, 401));
+    return;
+  }
+
+  res.locals.user = result.user;
+  next();
+};
+
+/**
+ * Compare a secret sent by a client with the configured one in constant time
+ * @param {string | undefined} provided - Secret sent by the client
+ * @param {string} expected - Configured secret
+ * @returns {boolean} True if both match
+ * @private
+ */
+const matchesSecret = (provided: string | undefined, expected: string): boolean => {
+  const received = Buffer.from(provided || '');
+  const secret = Buffer.from(expected);
+  return received.length === secret.length && timingSafeEqual(received, secret);
+};
+
+/**
+ * Express middleware that requires the metrics token when one is configured
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ * @returns {void}
+ * @description When `METRICS_TOKEN` is set, the request must send it as
+ * `Authorization: Bearer <token>` (the scraper's `authorization` setting in Prometheus).
+ * Responds with 401 otherwise. Without `METRICS_TOKEN` the endpoint is public.
+ * @example
+ * app.get('/metrics', requireMetricsToken, handler);
+ */
+export const requireMetricsToken = (req: Request, _res: Response, next: NextFunction): void => {
+  const expected = process.env.METRICS_TOKEN;
+  if (!expected) {
+    next();
+    return;
+  }
+
+  if (!matchesSecret(extractBearerToken(req.headers.authorization), expected)) {
+    next(createError('Invalid metrics token', 401));
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks whether a request sends the admin API key
+ * @param {Request} req - Express request object
+ * @returns {boolean} True if `ADMIN_API_KEY` is set and sent in the `X-Admin-Key` header
+ * @description For endpoints open to users that admins may use beyond a user's own rights.
+ * @example
+ * const isAdmin = hasAdminKey(req);
+ */
+export const hasAdminKey = (req: Request): boolean => {
+  const expected = process.env.ADMIN_API_KEY;
+  return !!expected && matchesSecret(req.get('x-admin-key'), expected);
+};
+
+/**
+ * Express middleware that requires the admin API key
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ * @returns {void}
+ * @description The request must send `ADMIN_API_KEY` in the `X-Admin-Key` header. Responds with
+ * 401 otherwise, and with 503 when no key is configured, so the admin API is off by default.
+ * @example
+ * router.delete('/room/:meetingId', requireAdminKey, handler);
+ */
+export const requireAdminKey = (req: Request, _res: Response, next: NextFunction): void => {
+  const expected = process.env.ADMIN_API_KEY;
+  if (!expected) {
+    next(createError('Admin API is disabled (ADMIN_API_KEY is not set)', 503));
+    return;
+  }
+
+  if (!matchesSecret(req.get('x-admin-key'), expected)) {
+    next(createError('Invalid admin API key', 401));
+    return;
+  }
+
+  next();
+};
@@ -38,6 +38,23 @@ export const createError = (message: string, statusCode: number): AppError => {
   return error;
 };
 
+/**
+ * Wraps an async route handler so rejected promises reach the error handler
+ * @param {Function} handler - Async Express route handler
+ * @returns {Function} Express route handler forwarding rejections to `next`
+ * @example
+ * router.get('/stats', asyncHandler(async (_req, res) => {
+ *   res.json({ activeCalls: await getActiveCallsCount() });
+ * }));
+ */
+export const asyncHandler = (
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<void>
+) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res, next).catch(next);
+  };
+};
+
 /**
  * Global error handler middleware for Express
  * @param {AppError} err - Error object to handle
@@ -60,7 +77,7 @@ export const errorHandler = (
   const statusCode = err.statusCode || 500;
   const message = err.message || 'Internal Server Error';
 
-  logger.error(`${statusCode} - ${message}`, err.stack);
+  logger.error(`${statusCode} - ${message}`, err);
 
   res.status(statusCode).json({
     success: false,
@@ -0,0 +1,74 @@
+/**
+ * HTTP request logging middleware module
+ * @module middlewares/requestLogger
+ * @description Gives every HTTP request a correlation id and logs it once answered, through the
+ * structured logger.
+ */
+
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import morgan from 'morgan';
+import { logger, runWithLogContext } from '../utils/logger';
+
+/**
+ * Correlation ids accepted from the `X-Request-Id` header
+ * @constant {RegExp}
+ */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Assign a correlation id to a request
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ * @returns {void}
+ * @description Keeps the caller's `X-Request-Id` when it is well-formed, otherwise generates one,
+ * stores it in `res.locals.requestId`, echoes it in the `X-Request-Id` response header and runs the
+ * rest of the request with it as log context.
+ * @example
+ * app.use(assignRequestId);
+ */
+export const assignRequestId = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get('X-Request-Id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+
+  res.locals.requestId = requestId;
+  res.setHeader('X-Request-Id', requestId);
+  runWithLogContext({ requestId }, next);
+};
+
+morgan.token<Request, Response>('request-id', (_req, res) => res.locals.requestId);
+
+/**
+ * Log every answered request
+ * @description Writes `GET /api/call/stats 200 1.234 ms` with the method, URL, status, response
+ * time, size, remote address, user agent and correlation id as data; at `warn` level for 4xx
+ * responses and `error` for 5xx. Registered after {@link assignRequestId}.
+ * @example
+ * app.use(requestLogger);
+ */
+export const requestLogger = morgan<Request, Response>((tokens, req, res) => {
+  const status = Number(tokens.status(req, res)) || 0;
+  const log = logger.child({ requestId: tokens['request-id'](req, res) });
+  const message = `${tokens.method(req, res)} ${tokens.url(req, res)} ${status} ${tokens['response-time'](req, res)} ms`;
+  const data = {
+    method: tokens.method(req, res),
+    url: tokens.url(req, res),
+    status,
+    responseTime: Number(tokens['response-time'](req, res)),
+    contentLength: Number(tokens.res(req, res, 'content-length')) || 0,
+    remoteAddr: tokens['remote-addr'](req, res),
+    userAgent: tokens['user-agent'](req, res),
+  };
+
+  if (status >= 500) {
+    log.error(message, data);
+  } else if (status >= 400) {
+    log.warn(message, data);
+  } else {
+    log.info(message, data);
+  }
+
+  // Written through the logger already
+  return null;
+});
@@ -0,0 +1,48 @@
+/**
+ * Socket.IO authentication middleware module
+ * @module middlewares/socketAuth
+ * @description Verifies the access token sent during the Socket.IO handshake and attaches
+ * the authenticated user identity to the socket.
+ */
+
+import { ExtendedError } from 'socket.io';
+import { recordRejectedConnection } from '../services/metricsService';
+import { CallError, CallSocket } from '../types';
+import { extractBearerToken, verifyAccessToken } from '../utils/jwt';
+import { logger } from '../utils/logger';
+
+/**
+ * Socket.IO handshake middleware that authenticates the connecting client
+ * @param {CallSocket} socket - Socket attempting to connect
+ * @param {Function} next - Callback to accept or reject the connection
+ * @returns {void}
+ * @description Reads the token from `handshake.auth.token` (preferred) or from an
+ * `Authorization: Bearer <token>` header. On success the verified identity is stored in
+ * `socket.data.user`. On failure the connection is rejected and the client receives a
+ * `connect_error` whose `data` property is a {@link CallError} with an `AUTH_*` code.
+ * @example
+ * io.use(authenticateSocket);
+ */
+export const authenticateSocket = (
+  socket: CallSocket,
+  next: (err?: ExtendedError) => void
+): void => {
+  const authToken = socket.handshake.auth?.token;
+  const token = typeof authToken === 'string' && authToken
+    ? authToken
+    : extractBearerToken(socket.handshake.headers.authorization);
+
+  const result = verifyAccessToken(token);
+
+  if (!result.valid) {
+    logger.socket('auth', `Rejected connection ${socket.id}: ${result.code}`);
+    recordRejectedConnection(result.code);
+    const error: ExtendedError = new Error(result.message);
+    error.data = { message: result.message, code: result.code } satisfies CallError;
+    next(error);
+    return;
+  }
+
+  socket.data.user = result.user;
+  next();
+};
@@ -0,0 +1,82 @@
+/**
+ * Socket.IO authorization middleware module
+ * @module middlewares/socketAuthorization
+ * @description Checks every inbound event against the role-based permission policy
+ * before it reaches its handler.
+ */
+
+import { Event } from 'socket.io';
+import { MEMBERSHIP_EXEMPT_EVENTS, isEventAllowed } from '../config/permissions';
+import { CallAck, CallEvents, CallParticipant, CallSocket } from '../types';
+import { logger } from '../utils/logger';
+import { emitCallError } from '../utils/socketErrors';
+
+/**
+ * Looks up the participant record of a user in a meeting
+ * @callback ParticipantLookup
+ * @param {string} meetingId - Meeting identifier
+ * @param {string} userId - User identifier
+ * @returns {Promise<CallParticipant | null>} The participant, or null if not in the meeting
+ */
+export type ParticipantLookup = (meetingId: string, userId: string) => Promise<CallParticipant | null>;
+
+/**
+ * Creates the per-socket authorization middleware
+ * @param {CallSocket} socket - Authenticated socket the middleware is attached to
+ * @param {ParticipantLookup} getParticipant - Function used to resolve the sender's participant record
+ * @returns {Function} Middleware to register with `socket.use()`
+ * @description Membership-exempt events such as `call:join` are always let through. Any other
+ * event is only dispatched if the sender is the connected participant of the meeting named in the
+ * payload and its role is allowed by the policy; otherwise a `FORBIDDEN` error is emitted and the
+ * event is dropped.
+ * @example
+ * socket.use(createAuthorizationMiddleware(socket, (meetingId, userId) => store.getParticipant(meetingId, userId)));
+ */
+export const createAuthorizationMiddleware = (
+  socket: CallSocket,
+  getParticipant: ParticipantLookup
+) => {
+  return async ([event, payload, ack]: Event, next: (err?: Error) => void): Promise<void> => {
+    if (MEMBERSHIP_EXEMPT_EVENTS.includes(event as CallEvents)) {
+      next();
+      return;
+    }
+
+    const { userId } = socket.data.user;
+    const meetingId = (payload as { meetingId?: unknown } | undefined)?.meetingId;
+    let participant: CallParticipant | null = null;
+
+    try {
+      participant = typeof meetingId === 'string' ? await getParticipant(meetingId, userId) : null;
+    } catch (error) {
+      logger.error(`Error authorizing ${event}`, error);
+    }
+
+    if (!participant || participant.socketId !== socket.id) {
+      deny(socket, event, 'You are not a participant of this call', ack);
+      return;
+    }
+
+    if (!isEventAllowed(event, participant.role)) {
+      deny(socket, event, `Your role (${participant.role}) is not allowed to perform this action`, ack);
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Rejects an event with a FORBIDDEN error
+ * @param {CallSocket} socket - Socket that emitted the event
+ * @param {string} event - Rejected event name
+ * @param {string} message - Human-readable reason
+ * @param {CallAck} [ack] - Acknowledgement callback of the event
+ * @returns {void}
+ * @fires CallEvents#ERROR
+ * @private
+ */
+const deny = (socket: CallSocket, event: string, message: string, ack?: CallAck): void => {
+  logger.socket('forbidden', `Denied ${event} for user ${socket.data.user.userId}: ${message}`);
+  emitCallError(socket, 'FORBIDDEN', message, typeof ack === 'function' ? ack : undefined);
+};
@@ -0,0 +1,38 @@
+/**
+ * Socket.IO log context middleware module
+ * @module middlewares/socketLogContext
+ * @description Tags every log entry written while an event is handled with the socket, user,
+ * meeting and event it belongs to.
+ */
+
+import { Event } from 'socket.io';
+import { CallSocket } from '../types';
+import { runWithLogContext } from '../utils/logger';
+
+/**
+ * Creates the per-socket log context middleware
+ * @param {CallSocket} socket - Authenticated socket the middleware is attached to
+ * @returns {Function} Middleware to register with `socket.use()`
+ * @description Runs the rest of the middleware chain and the handler with the `socketId`,
+ * `userId`, `event` and, when the payload names one, `meetingId` as log context, so the entries
+ * of the handler and of the services it calls can be correlated. The payload is not validated
+ * yet, so only a short string is taken as the meeting.
+ * @example
+ * socket.use(createLogContextMiddleware(socket));
+ */
+export const createLogContextMiddleware = (socket: CallSocket) => {
+  return (packet: Event, next: (err?: Error) => void): void => {
+    const [event, payload] = packet;
+    const meetingId: unknown = payload && typeof payload === 'object' ? payload.meetingId : undefined;
+
+    runWithLogContext(
+      {
+        socketId: socket.id,
+        userId: socket.data.user.userId,
+        event,
+        ...(typeof meetingId === 'string' && meetingId.length <= 128 ? { meetingId } : {}),
+      },
+      () => next()
+    );
+  };
+};
@@ -0,0 +1,126 @@
+/**
+ * Socket.IO metrics middleware module
+ * @module middlewares/socketMetrics
+ * @description Measures how long every inbound event takes to be handled and how it ended.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Event } from 'socket.io';
+import { CallError, CallErrorCode, CallEvents, CallSocket } from '../types';
+import { recordEventHandled, recordJoinFailure } from '../services/metricsService';
+
+/**
+ * Timing of an inbound event, from its receipt until it has been handled
+ * @interface EventTiming
+ * @private
+ */
+interface EventTiming {
+  /** Socket that emitted the event */
+  socketId: string;
+  /** Event name */
+  event: string;
+  /** `process.hrtime` when the event was received */
+  receivedAt: bigint;
+  /** `ok`, or the code of the first error sent back while the event was handled */
+  status: string;
+  /** Whether a handler has started on the event */
+  dispatched: boolean;
+  /** Whether the event has been recorded */
+  recorded: boolean;
+}
+
+/**
+ * Timing of the event being handled, carried from the middleware to the handler and its
+ * asynchronous continuations
+ */
+const timings = new AsyncLocalStorage<EventTiming>();
+
+/**
+ * Record the duration and outcome of an event, once
+ * @param {EventTiming} timing - Timing of the event
+ * @returns {void}
+ * @private
+ */
+const recordTiming = (timing: EventTiming): void => {
+  if (timing.recorded) return;
+  timing.recorded = true;
+
+  recordEventHandled(timing.event, timing.status, Number(process.hrtime.bigint() - timing.receivedAt) / 1e9);
+  if (timing.event === CallEvents.JOIN && timing.status !== 'ok') {
+    recordJoinFailure(timing.status as CallErrorCode);
+  }
+};
+
+/**
+ * Creates the per-socket metrics middleware
+ * @param {CallSocket} socket - Authenticated socket the middleware is attached to
+ * @returns {Function} Middleware to register with `socket.use()`, before every other middleware
+ * and before the event handlers
+ * @description Times every event until its handler's promise settles and records the outcome:
+ * `ok`, or the code of the first `call:error` sent to the socket while the event was handled (or
+ * `error` if the handler throws). Events rejected by the rate limiting, validation and
+ * authorization middlewares never reach a handler, so they are recorded when their error is sent.
+ * Rejected `call:join` requests are also counted by error code. The packet, acknowledgement
+ * callback included, is passed on untouched; to see the handlers' promises, the handlers
+ * registered on the socket afterwards are wrapped.
+ * @example
+ * socket.use(createMetricsMiddleware(socket));
+ */
+export const createMetricsMiddleware = (socket: CallSocket) => {
+  socket.prependAnyOutgoing((event: string, error?: CallError) => {
+    const timing = timings.getStore();
+    if (event !== CallEvents.ERROR || !timing || timing.socketId !== socket.id || timing.recorded) return;
+
+    if (timing.status === 'ok') {
+      timing.status = error?.code || 'error';
+    }
+    if (!timing.dispatched) {
+      recordTiming(timing);
+    }
+  });
+
+  const on = socket.on.bind(socket) as (event: string, listener: (...args: unknown[]) => unknown) => CallSocket;
+  socket.on = ((event: string, listener: (...args: unknown[]) => unknown) => on(event, (...args: unknown[]) => {
+    const timing = timings.getStore();
+    if (!timing || timing.socketId !== socket.id || timing.event !== event || timing.dispatched) {
+      return listener(...args);
+    }
+    timing.dispatched = true;
+
+    const failed = (): void => {
+      if (timing.status === 'ok') timing.status = 'error';
+      recordTiming(timing);
+    };
+
+    let result: unknown;
+    try {
+      result = listener(...args);
+    } catch (error) {
+      failed();
+      throw error;
+    }
+
+    // Rethrown so that a rejection nobody handles is still reported as unhandled
+    void Promise.resolve(result).then(
+      () => recordTiming(timing),
+      error => {
+        failed();
+        throw error;
+      }
+    );
+    return result;
+  })) as CallSocket['on'];
+
+  return (packet: Event, next: (err?: Error) => void): void => {
+    const timing: EventTiming = {
+      socketId: socket.id,
+      event: packet[0],
+      receivedAt: process.hrtime.bigint(),
+      status: 'ok',
+      dispatched: false,
+      recorded: false,
+    };
+
+    timings.run(timing, () => next());
+  };
+};
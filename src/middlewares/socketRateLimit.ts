@@ -0,0 +1,250 @@
+/**
+ * Socket.IO rate limiting middleware module
+ * @module middlewares/socketRateLimit
+ * @description Limits how often a socket may emit events and how many connections an IP address
+ * may open, so a single misbehaving client cannot flood a room or the server.
+ */
+
+import { ExtendedError, Event } from 'socket.io';
+import {
+  CONNECTION_RATE_LIMIT,
+  EVENT_RATE_LIMIT_GROUPS,
+  MAX_CONNECTIONS_PER_IP,
+  MAX_RATE_LIMIT_VIOLATIONS,
+  RATE_LIMITS,
+  RATE_LIMIT_VIOLATION_WINDOW,
+  RateLimitGroup,
+  TRUST_PROXY,
+} from '../config/rateLimits';
+import { recordRejectedConnection } from '../services/metricsService';
+import { CallAck, CallError, CallEvents, CallSocket } from '../types';
+import { logger } from '../utils/logger';
+import { emitCallError } from '../utils/socketErrors';
+import { TokenBucket } from '../utils/tokenBucket';
+
+/**
+ * Connection state of one IP address on this instance
+ * @interface IpConnections
+ * @private
+ */
+interface IpConnections {
+  /** Open connections */
+  active: number;
+  /** Connection attempts still allowed */
+  attempts: TokenBucket;
+  /** Time of the last attempt, in milliseconds */
+  lastSeen: number;
+}
+
+/**
+ * Counters of rate limit hits since startup
+ * @interface RateLimitStats
+ */
+export interface RateLimitStats {
+  /** Events rejected, per event group */
+  limitedEvents: Record<RateLimitGroup, number>;
+  /** Sockets disconnected for repeatedly exceeding their limits */
+  disconnectedSockets: number;
+  /** Connections rejected by the per-IP limits */
+  rejectedConnections: number;
+}
+
+/**
+ * Rate limit counters of this instance
+ */
+const stats: RateLimitStats = {
+  limitedEvents: { join: 0, signal: 0, media: 0, reaction: 0, moderation: 0, default: 0 },
+  disconnectedSockets: 0,
+  rejectedConnections: 0,
+};
+
+/**
+ * Connections per IP address on this instance
+ */
+const connectionsByIp = new Map<string, IpConnections>();
+
+/**
+ * Milliseconds an idle IP entry is kept
+ * @constant {number}
+ */
+const IP_ENTRY_TTL = 60000;
+
+// Forget IP addresses without open connections once their attempt bucket has had time to refill
+setInterval(() => {
+  const expiry = Date.now() - IP_ENTRY_TTL;
+  for (const [ip, entry] of connectionsByIp) {
+    if (entry.active === 0 && entry.lastSeen < expiry) {
+      connectionsByIp.delete(ip);
+    }
+  }
+}, IP_ENTRY_TTL).unref();
+
+/**
+ * Number of IP addresses tracked by the connection limits of this instance
+ * @returns {number} Addresses with open connections, or seen within the last minute
+ */
+export const countTrackedAddresses = (): number => connectionsByIp.size;
+
+/**
+ * Get the client IP address of a socket
+ * @param {CallSocket} socket - Connecting or connected socket
+ * @returns {string} Client IP address
+ * @description Uses the first `X-Forwarded-For` address when `TRUST_PROXY` is enabled.
+ * @private
+ */
+const getClientIp = (socket: CallSocket): string => {
+  const forwardedFor = socket.handshake.headers['x-forwarded-for'];
+  const header = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
+
+  if (TRUST_PROXY && header) {
+    return header.split(',')[0].trim();
+  }
+  return socket.handshake.address;
+};
+
+/**
+ * Reject a connection attempt with a `RATE_LIMITED` error
+ * @param {CallSocket} socket - Connecting socket
+ * @param {Function} next - Handshake callback
+ * @param {string} message - Reason sent to the client
+ * @returns {void}
+ * @private
+ */
+const rejectConnection = (socket: CallSocket, next: (err?: ExtendedError) => void, message: string): void => {
+  stats.rejectedConnections += 1;
+  recordRejectedConnection('RATE_LIMITED');
+  logger.socket('rate-limit', `Rejected connection ${socket.id} from ${getClientIp(socket)}: ${message}`);
+
+  const error: ExtendedError = new Error(message);
+  error.data = { message, code: 'RATE_LIMITED' } satisfies CallError;
+  next(error);
+};
+
+/**
+ * Socket.IO handshake middleware that limits connections per IP address
+ * @param {CallSocket} socket - Socket attempting to connect
+ * @param {Function} next - Callback to accept or reject the connection
+ * @returns {void}
+ * @description Rejects the handshake with a `connect_error` whose `data` is a {@link CallError}
+ * with code `RATE_LIMITED` when the IP opens connections too fast or already has
+ * {@link MAX_CONNECTIONS_PER_IP} open. Limits apply per instance.
+ * @example
+ * io.use(limitConnections);
+ */
+export const limitConnections = (
+  socket: CallSocket,
+  next: (err?: ExtendedError) => void
+): void => {
+  const ip = getClientIp(socket);
+  let entry = connectionsByIp.get(ip);
+
+  if (!entry) {
+    entry = {
+      active: 0,
+      attempts: new TokenBucket(CONNECTION_RATE_LIMIT.capacity, CONNECTION_RATE_LIMIT.refillPerSecond),
+      lastSeen: Date.now(),
+    };
+    connectionsByIp.set(ip, entry);
+  }
+  entry.lastSeen = Date.now();
+
+  if (!entry.attempts.tryRemove()) {
+    rejectConnection(socket, next, 'Too many connection attempts, try again later');
+    return;
+  }
+
+  if (entry.active >= MAX_CONNECTIONS_PER_IP) {
+    rejectConnection(socket, next, `Too many connections from your address (maximum ${MAX_CONNECTIONS_PER_IP})`);
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Count an accepted connection against its IP address until it disconnects
+ * @param {CallSocket} socket - Newly connected socket
+ * @returns {void}
+ * @example
+ * io.on('connection', (socket) => trackConnection(socket));
+ */
+export const trackConnection = (socket: CallSocket): void => {
+  const entry = connectionsByIp.get(getClientIp(socket));
+  if (!entry) return;
+
+  entry.active += 1;
+  socket.once(CallEvents.DISCONNECT, () => {
+    entry.active -= 1;
+    entry.lastSeen = Date.now();
+  });
+};
+
+/**
+ * Creates the per-socket event rate limiting middleware
+ * @param {CallSocket} socket - Authenticated socket the middleware is attached to
+ * @returns {Function} Middleware to register with `socket.use()`
+ * @description Each socket has one token bucket per event group (see `config/rateLimits`).
+ * An event arriving with its bucket empty is dropped and answered with `RATE_LIMITED`.
+ * A socket exceeding its limits {@link MAX_RATE_LIMIT_VIOLATIONS} times within
+ * {@link RATE_LIMIT_VIOLATION_WINDOW} seconds is disconnected.
+ * @example
+ * socket.use(createRateLimitMiddleware(socket));
+ */
+export const createRateLimitMiddleware = (socket: CallSocket) => {
+  const buckets = new Map<RateLimitGroup, TokenBucket>();
+  let violations: number[] = [];
+
+  return (packet: Event, next: (err?: Error) => void): void => {
+    // Events still buffered when a flooding socket was disconnected are dropped silently
+    if (socket.disconnected) return;
+
+    const [event] = packet;
+    const group = EVENT_RATE_LIMIT_GROUPS[event as CallEvents] || 'default';
+    let bucket = buckets.get(group);
+
+    if (!bucket) {
+      bucket = new TokenBucket(RATE_LIMITS[group].capacity, RATE_LIMITS[group].refillPerSecond);
+      buckets.set(group, bucket);
+    }
+
+    if (bucket.tryRemove()) {
+      next();
+      return;
+    }
+
+    const now = Date.now();
+    const last = packet[packet.length - 1];
+    const ack = typeof last === 'function' ? (last as CallAck) : undefined;
+
+    stats.limitedEvents[group] += 1;
+    violations = violations.filter(time => time > now - RATE_LIMIT_VIOLATION_WINDOW * 1000);
+    violations.push(now);
+
+    // Only the first hit of a window is logged, so a flood does not flood the logs too
+    if (violations.length === 1) {
+      logger.socket('rate-limit', `User ${socket.data.user.userId} exceeded the ${group} rate limit with ${event}`);
+    }
+
+    if (violations.length >= MAX_RATE_LIMIT_VIOLATIONS) {
+      stats.disconnectedSockets += 1;
+      logger.warn(`Disconnecting socket ${socket.id} of user ${socket.data.user.userId} for flooding`);
+      emitCallError(socket, 'RATE_LIMITED', 'Too many requests, disconnecting', ack);
+      socket.disconnect(true);
+      return;
+    }
+
+    emitCallError(socket, 'RATE_LIMITED', `Too many ${group} requests, slow down`, ack);
+  };
+};
+
+/**
+ * Get the rate limit counters of this instance
+ * @returns {RateLimitStats} Events rejected per group, sockets disconnected and connections rejected
+ * @example
+ * const { disconnectedSockets } = getRateLimitStats();
+ */
+export const getRateLimitStats = (): RateLimitStats => ({
+  limitedEvents: { ...stats.limitedEvents },
+  disconnectedSockets: stats.disconnectedSockets,
+  rejectedConnections: stats.rejectedConnections,
+});
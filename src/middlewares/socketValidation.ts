@@ -0,0 +1,75 @@
+/**
+ * Socket.IO payload validation middleware module
+ * @module middlewares/socketValidation
+ * @description Checks every inbound event payload against its runtime schema before it
+ * reaches the authorization middleware and its handler.
+ */
+
+import { Event } from 'socket.io';
+import { ZodError } from 'zod';
+import { EVENT_SCHEMAS, INVALID_PAYLOAD_CODES } from '../config/eventSchemas';
+import { CallAck, CallErrorCode, CallEvents, CallSocket } from '../types';
+import { logger } from '../utils/logger';
+import { emitCallError } from '../utils/socketErrors';
+
+/**
+ * Creates the per-socket validation middleware
+ * @param {CallSocket} socket - Authenticated socket the middleware is attached to
+ * @returns {Function} Middleware to register with `socket.use()`
+ * @description Normalizes every event to `[event, payload, ack?]`: a trailing function is taken
+ * as the acknowledgement callback and any other extra arguments are dropped. The payload is
+ * replaced by its parsed form (unknown keys stripped). An invalid payload is rejected with
+ * `INVALID_PAYLOAD` (or the event's own code, see `INVALID_PAYLOAD_CODES`) and the path of the
+ * first offending field, and the event is dropped.
+ * Events without a schema are left to the authorization middleware.
+ * @example
+ * socket.use(createValidationMiddleware(socket));
+ */
+export const createValidationMiddleware = (socket: CallSocket) => {
+  return (packet: Event, next: (err?: Error) => void): void => {
+    const [event, ...args] = packet;
+    const ack = typeof args[args.length - 1] === 'function' ? (args.pop() as CallAck) : undefined;
+    const schema = EVENT_SCHEMAS[event as CallEvents];
+    let payload: unknown = args[0];
+
+    if (schema) {
+      const result = schema.safeParse(payload);
+
+      if (!result.success) {
+        reject(socket, event, result.error, ack);
+        return;
+      }
+      payload = result.data;
+    }
+
+    // Rewrite the packet in place so later middlewares and the handler see the clean arguments
+    packet.length = 0;
+    packet.push(event, payload);
+    if (ack) {
+      packet.push(ack);
+    }
+
+    next();
+  };
+};
+
+/**
+ * Rejects an event with an INVALID_PAYLOAD error, or the more precise code of the event or issue
+ * @param {CallSocket} socket - Socket that emitted the event
+ * @param {string} event - Rejected event name
+ * @param {ZodError} error - Validation error
+ * @param {CallAck} [ack] - Acknowledgement callback of the event
+ * @returns {void}
+ * @fires CallEvents#ERROR
+ * @private
+ */
+const reject = (socket: CallSocket, event: string, error: ZodError, ack?: CallAck): void => {
+  const issue = error.issues[0];
+  const path = issue.path.join('.');
+  const message = path ? `Invalid ${path}: ${issue.message}` : `Invalid payload: ${issue.message}`;
+  const issueCode = issue.code === 'custom' ? (issue.params?.callErrorCode as CallErrorCode | undefined) : undefined;
+  const code = issueCode || INVALID_PAYLOAD_CODES[event as CallEvents] || 'INVALID_PAYLOAD';
+
+  logger.socket('invalid', `Rejected ${event} from user ${socket.data.user.userId}: ${message}`);
+  emitCallError(socket, code, message, ack, path || undefined);
+};
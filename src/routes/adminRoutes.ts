@@ -0,0 +1,212 @@
+/**
+ * Admin routes module for operating running calls
+ * @module routes/adminRoutes
+ * @description Lets operators list calls, end them and moderate participants over HTTP. Every
+ * route requires the admin API key and goes through the same room service functions as the
+ * socket handlers, so participants receive the same notifications.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { listCallRooms } from '../config/socket';
+import { requireAdminKey } from '../middlewares/auth';
+import { asyncHandler } from '../middlewares/errorHandler';
+import { endCall, forceMuteParticipant, kickParticipant, muteAllParticipants } from '../services/roomService';
+import { getRoomStore } from '../store';
+import { CallServer } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Storage for call rooms, their participants and socket mappings
+ */
+const store = getRoomStore();
+
+/**
+ * Query string of `GET /api/call/rooms`
+ */
+const listRoomsQuerySchema = z.object({
+  sort: z.enum(['createdAt', 'participants', 'meetingId']).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Body of the kick endpoint
+ */
+const kickBodySchema = z.object({
+  ban: z.boolean().optional(),
+});
+
+/**
+ * Answer a request with 400 for the first issue of a validation error
+ * @param {Response} res - Express response object
+ * @param {z.ZodError} error - Validation error
+ * @returns {void}
+ * @private
+ */
+const rejectInvalid = (res: Response, error: z.ZodError): void => {
+  const issue = error.issues[0];
+  res.status(400).json({
+    success: false,
+    message: `Invalid ${issue.path.join('.') || 'body'}: ${issue.message}`,
+  });
+};
+
+/**
+ * Create the admin router
+ * @param {CallServer} io - Socket.IO server instance, used to notify the affected participants
+ * @returns {Router} Router to mount at `/api/call`
+ * @example
+ * app.use('/api/call', createAdminRoutes(io));
+ */
+export const createAdminRoutes = (io: CallServer): Router => {
+  const router = Router();
+
+  /**
+   * List running calls
+   * @route GET /api/call/rooms
+   * @access Admin (`X-Admin-Key`)
+   * @query {string} [sort=createdAt] - `createdAt`, `participants` or `meetingId`
+   * @query {string} [order=desc] - `asc` or `desc`
+   * @query {number} [limit=20] - Rooms per page (1-100)
+   * @query {number} [offset=0] - Rooms to skip
+   * @returns {Object} Page of room summaries
+   * @example
+   * // Response
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "items": [
+   *       { "meetingId": "abc123", "sessionId": "5f0c...", "createdAt": "2024-01-01T00:00:00.000Z", "participants": 3, "waiting": 1, "isLocked": false, "lobbyEnabled": true, "state": "active" }
+   *     ],
+   *     "total": 1,
+   *     "limit": 20,
+   *     "offset": 0
+   *   }
+   * }
+   */
+  router.get('/rooms', requireAdminKey, asyncHandler(async (req: Request, res: Response) => {
+    const result = listRoomsQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      rejectInvalid(res, result.error);
+      return;
+    }
+
+    const { sort, order, limit, offset } = result.data;
+    const direction = order === 'asc' ? 1 : -1;
+    const rooms = (await listCallRooms()).sort((a, b) => {
+      const byField = sort === 'participants'
+        ? a.participants - b.participants
+        : a[sort].localeCompare(b[sort]);
+      return byField * direction;
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { items: rooms.slice(offset, offset + limit), total: rooms.length, limit, offset },
+    });
+  }));
+
+  /**
+   * End a call for everyone
+   * @route DELETE /api/call/room/:meetingId
+   * @access Admin (`X-Admin-Key`)
+   * @param {string} meetingId - The unique identifier of the meeting/call room
+   * @returns {Object} Number of participants removed
+   * @description Broadcasts `call:ended`, removes every participant and turns the lobby away.
+   * @example
+   * // Response
+   * { "success": true, "data": { "meetingId": "abc123", "removedParticipants": 3 } }
+   */
+  router.delete('/room/:meetingId', requireAdminKey, asyncHandler(async (req: Request, res: Response) => {
+    const { meetingId } = req.params;
+
+    if (!(await store.getRoom(meetingId))) {
+      res.status(404).json({ success: false, message: 'Call room not found or no active call' });
+      return;
+    }
+
+    const removedParticipants = await endCall(io, meetingId, null);
+    logger.info(`Call ${meetingId} ended through the admin API`);
+
+    res.status(200).json({ success: true, data: { meetingId, removedParticipants } });
+  }));
+
+  /**
+   * Remove a participant from a call
+   * @route POST /api/call/room/:meetingId/participants/:userId/kick
+   * @access Admin (`X-Admin-Key`)
+   * @param {string} meetingId - The unique identifier of the meeting/call room
+   * @param {string} userId - The participant to remove
+   * @body {boolean} [ban=false] - Also keep the user from rejoining for the rest of the meeting
+   * @returns {Object} Success status
+   * @description Same as `call:remove-participant`: the participant receives `call:removed` and
+   * the room `call:peer-left` and `call:moderation` with a null `byUserId`.
+   */
+  router.post('/room/:meetingId/participants/:userId/kick', requireAdminKey, asyncHandler(async (req: Request, res: Response) => {
+    const { meetingId, userId } = req.params;
+    const result = kickBodySchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      rejectInvalid(res, result.error);
+      return;
+    }
+
+    const target = await store.getParticipant(meetingId, userId);
+    if (!target) {
+      res.status(404).json({ success: false, message: 'Participant not found in call' });
+      return;
+    }
+
+    await kickParticipant(io, target, result.data.ban === true, null);
+    logger.info(`User ${userId} ${result.data.ban ? 'banned from' : 'removed from'} call ${meetingId} through the admin API`);
+
+    res.status(200).json({ success: true, data: { meetingId, userId, banned: result.data.ban === true } });
+  }));
+
+  /**
+   * Mute a participant
+   * @route POST /api/call/room/:meetingId/participants/:userId/mute
+   * @access Admin (`X-Admin-Key`)
+   * @param {string} meetingId - The unique identifier of the meeting/call room
+   * @param {string} userId - The participant to mute
+   * @returns {Object} Success status
+   * @description Same as `call:mute-participant`, hosts included.
+   */
+  router.post('/room/:meetingId/participants/:userId/mute', requireAdminKey, asyncHandler(async (req: Request, res: Response) => {
+    const { meetingId, userId } = req.params;
+
+    const target = await store.getParticipant(meetingId, userId);
+    if (!target) {
+      res.status(404).json({ success: false, message: 'Participant not found in call' });
+      return;
+    }
+
+    await forceMuteParticipant(io, target, null);
+
+    res.status(200).json({ success: true, data: { meetingId, userId } });
+  }));
+
+  /**
+   * Mute everyone in a call except the hosts
+   * @route POST /api/call/room/:meetingId/mute
+   * @access Admin (`X-Admin-Key`)
+   * @param {string} meetingId - The unique identifier of the meeting/call room
+   * @returns {Object} Number of participants muted
+   * @description Same as `call:mute-all`.
+   */
+  router.post('/room/:meetingId/mute', requireAdminKey, asyncHandler(async (req: Request, res: Response) => {
+    const { meetingId } = req.params;
+
+    if (!(await store.getRoom(meetingId))) {
+      res.status(404).json({ success: false, message: 'Call room not found or no active call' });
+      return;
+    }
+
+    const muted = await muteAllParticipants(io, meetingId, null);
+
+    res.status(200).json({ success: true, data: { meetingId, muted } });
+  }));
+
+  return router;
+};
@@ -4,35 +4,83 @@
  */
 
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { MAX_PARTICIPANTS, MIN_PARTICIPANTS } from '../config/roomSettings';
 import { getActiveCallsCount, getTotalUsersInCalls, getCallRoomInfo } from '../config/socket';
-import { DEFAULT_ICE_SERVERS } from '../types';
+import { HistoryQuery, getHistoryStore } from '../history';
+import { requireAuth } from '../middlewares/auth';
+import { getRateLimitStats } from '../middlewares/socketRateLimit';
+import { asyncHandler } from '../middlewares/errorHandler';
+import { getLiveness } from '../services/healthService';
+import { getCallQuality } from '../services/qualityService';
+import { AuthenticatedUser, CallSession } from '../types';
+import { getIceServers } from '../utils/iceServers';
 
 /** Express router instance for call-related routes */
 const router = Router();
 
+/**
+ * Query string of the history endpoints
+ * @description `from` and `to` are ISO 8601 dates; pages hold 20 items by default, at most 100.
+ */
+const historyQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Parse the date range and page of a history request
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object, answered with 400 if the query is invalid
+ * @returns {HistoryQuery | null} The query, or null once the request has been rejected
+ * @private
+ */
+const parseHistoryQuery = (req: Request, res: Response): HistoryQuery | null => {
+  const result = historyQuerySchema.safeParse(req.query);
+
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    res.status(400).json({
+      success: false,
+      message: `Invalid ${issue.path.join('.')}: ${issue.message}`,
+    });
+    return null;
+  }
+  return result.data;
+};
+
+/**
+ * Whether a user may read a recorded session
+ * @param {AuthenticatedUser} user - Authenticated user
+ * @param {CallSession} session - Recorded session
+ * @returns {boolean} True for designated hosts of the meeting and users who attended the session
+ * @private
+ */
+const canViewSession = (user: AuthenticatedUser, session: CallSession): boolean =>
+  user.hostOf.includes(session.meetingId) || session.attendance.some(stay => stay.userId === user.userId);
+
 /**
  * Health check endpoint for the call service
  * @route GET /api/call/health
  * @access Public
  * @returns {Object} Health status with service information
+ * @description Same liveness answer as `GET /health/live`; use `GET /health/ready` to know whether
+ * the instance should receive traffic.
  * @example
  * // Response
  * {
  *   "success": true,
- *   "service": "voice-call-server",
  *   "status": "ok",
+ *   "service": "voice-call-server",
+ *   "uptime": 3600,
  *   "timestamp": "2024-01-01T00:00:00.000Z",
  *   "environment": "development"
  * }
  */
 router.get('/health', (_req: Request, res: Response) => {
-  res.status(200).json({
-    success: true,
-    service: 'voice-call-server',
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-    environment: process.env.NODE_ENV || 'development',
-  });
+  res.status(200).json({ success: true, ...getLiveness() });
 });
 
 /**
@@ -40,6 +88,8 @@ router.get('/health', (_req: Request, res: Response) => {
  * @route GET /api/call/stats
  * @access Public
  * @returns {Object} Server statistics
+ * @description Counts are read from the room store, so they cover every server instance
+ * sharing it. Rate limit counters cover this instance only.
  * @example
  * // Response
  * {
@@ -48,28 +98,34 @@ router.get('/health', (_req: Request, res: Response) => {
  *     "activeCalls": 5,
  *     "totalUsersInCalls": 23,
  *     "maxParticipantsPerCall": 10,
- *     "minParticipantsPerCall": 2
+ *     "minParticipantsPerCall": 2,
+ *     "rateLimits": {
+ *       "limitedEvents": { "join": 0, "signal": 12, "media": 3, "reaction": 0, "moderation": 0, "default": 0 },
+ *       "disconnectedSockets": 0,
+ *       "rejectedConnections": 1
+ *     }
  *   }
  * }
  */
-router.get('/stats', (_req: Request, res: Response) => {
+router.get('/stats', asyncHandler(async (_req: Request, res: Response) => {
   res.status(200).json({
     success: true,
     data: {
-      activeCalls: getActiveCallsCount(),
-      totalUsersInCalls: getTotalUsersInCalls(),
-      maxParticipantsPerCall: parseInt(process.env.MAX_PARTICIPANTS || '10', 10),
-      minParticipantsPerCall: parseInt(process.env.MIN_PARTICIPANTS || '2', 10),
+      activeCalls: await getActiveCallsCount(),
+      totalUsersInCalls: await getTotalUsersInCalls(),
+      maxParticipantsPerCall: MAX_PARTICIPANTS,
+      minParticipantsPerCall: MIN_PARTICIPANTS,
+      rateLimits: getRateLimitStats(),
     },
   });
-});
+}));
 
 /**
  * Get information about a specific call room
  * @route GET /api/call/room/:meetingId
  * @access Public
  * @param {string} meetingId - The unique identifier of the meeting/call room
- * @returns {Object} Room information including participants
+ * @returns {Object} Room information including participants and users waiting in the lobby
  * @example
  * // Response (success)
  * {
@@ -77,9 +133,23 @@ router.get('/stats', (_req: Request, res: Response) => {
  *   "data": {
  *     "meetingId": "abc123",
  *     "participants": 3,
+ *     "isLocked": false,
+ *     "lobbyEnabled": true,
+ *     "screenSharePolicy": "single",
+ *     "settings": { "maxParticipants": 10, "audioOnly": false, "startMuted": true, "startCameraOff": true, "allowedRoles": ["host", "co-host", "participant", "viewer"] },
+ *     "state": "active",
+ *     "endsAt": null,
+ *     "schedule": { "startsAt": "2024-01-01T10:00:00.000Z", "endsAt": "2024-01-01T11:00:00.000Z", "maxDuration": null },
+ *     "closesAt": "2024-01-01T11:00:00.000Z",
+ *     "lobby": [
+ *       { "userId": "user3", "username": "Alex", "requestedAt": "2024-01-01T00:05:00.000Z" }
+ *     ],
+ *     "raisedHands": [
+ *       { "userId": "user2", "username": "Jane", "raisedAt": "2024-01-01T00:04:00.000Z" }
+ *     ],
  *     "users": [
- *       { "userId": "user1", "username": "John", "isMuted": false },
- *       { "userId": "user2", "username": "Jane", "isMuted": true }
+ *       { "userId": "user1", "username": "John", "role": "host", "isMuted": false, "isVideoOn": true, "isScreenSharing": true, "handRaisedAt": null, "connectionState": "connected" },
+ *       { "userId": "user2", "username": "Jane", "role": "participant", "isMuted": true, "isVideoOn": false, "isScreenSharing": false, "handRaisedAt": "2024-01-01T00:04:00.000Z", "connectionState": "reconnecting" }
  *     ]
  *   }
  * }
@@ -89,7 +159,7 @@ router.get('/stats', (_req: Request, res: Response) => {
  *   "message": "Call room not found or no active call"
  * }
  */
-router.get('/room/:meetingId', (req: Request, res: Response) => {
+router.get('/room/:meetingId', asyncHandler(async (req: Request, res: Response) => {
   const { meetingId } = req.params;
 
   if (!meetingId) {
@@ -100,7 +170,7 @@ router.get('/room/:meetingId', (req: Request, res: Response) => {
     return;
   }
 
-  const roomInfo = getCallRoomInfo(meetingId);
+  const roomInfo = await getCallRoomInfo(meetingId);
 
   if (!roomInfo) {
     res.status(404).json({
@@ -114,34 +184,247 @@ router.get('/room/:meetingId', (req: Request, res: Response) => {
     success: true,
     data: roomInfo,
   });
-});
+}));
+
+/**
+ * Get the connection quality of a call
+ * @route GET /api/call/room/:meetingId/quality
+ * @access Authenticated (Bearer token of a current participant, or of a designated host)
+ * @param {string} meetingId - The unique identifier of the meeting/call room
+ * @returns {Object} Quality per participant and per peer connection, from the `call:quality-report` events
+ * @description `peers` has one entry per direction of each connection: `userId` reported its
+ * connection to `remoteUserId`. Metrics are in milliseconds (`rtt`, `jitter`), percent
+ * (`packetLoss`) and kbit/s (`bitrate`); `worst` holds the lowest bitrate.
+ * @example
+ * // Response (success)
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "meetingId": "abc123",
+ *     "thresholds": { "rtt": 300, "jitter": 30, "packetLoss": 5 },
+ *     "participants": [
+ *       {
+ *         "userId": "user1",
+ *         "username": "John",
+ *         "reports": 42,
+ *         "average": { "rtt": 85.2, "jitter": 6.1, "packetLoss": 0.4, "bitrate": 812.5 },
+ *         "worst": { "rtt": 410, "jitter": 22.3, "packetLoss": 7.5, "bitrate": 120 },
+ *         "candidateTypes": ["relay"],
+ *         "degradedWith": ["user2"],
+ *         "updatedAt": "2024-01-01T00:07:00.000Z"
+ *       }
+ *     ],
+ *     "peers": [
+ *       {
+ *         "userId": "user1",
+ *         "remoteUserId": "user2",
+ *         "candidateType": "relay",
+ *         "reports": 42,
+ *         "latest": { "rtt": 410, "jitter": 12, "packetLoss": 1.2, "bitrate": 640 },
+ *         "average": { "rtt": 85.2, "jitter": 6.1, "packetLoss": 0.4, "bitrate": 812.5 },
+ *         "worst": { "rtt": 410, "jitter": 22.3, "packetLoss": 7.5, "bitrate": 120 },
+ *         "issues": [{ "metric": "rtt", "value": 410, "threshold": 300 }],
+ *         "firstReportAt": "2024-01-01T00:00:10.000Z",
+ *         "updatedAt": "2024-01-01T00:07:00.000Z"
+ *       }
+ *     ]
+ *   }
+ * }
+ * // Response (not found)
+ * {
+ *   "success": false,
+ *   "message": "Call room not found or no active call"
+ * }
+ * // Response (forbidden)
+ * {
+ *   "success": false,
+ *   "message": "You can only view the quality of calls you are in"
+ * }
+ */
+router.get('/room/:meetingId/quality', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const user = res.locals.user as AuthenticatedUser;
+  const { meetingId } = req.params;
+  const quality = await getCallQuality(meetingId);
+
+  if (!quality) {
+    res.status(404).json({
+      success: false,
+      message: 'Call room not found or no active call',
+    });
+    return;
+  }
+
+  const isParticipant = quality.participants.some(participant => participant.userId === user.userId);
+  if (!isParticipant && !user.hostOf.includes(meetingId)) {
+    res.status(403).json({
+      success: false,
+      message: 'You can only view the quality of calls you are in',
+    });
+    return;
+  }
+
+  res.status(200).json({
+    success: true,
+    data: quality,
+  });
+}));
 
 /**
  * Get ICE servers configuration for WebRTC connections
  * @route GET /api/call/ice-servers
- * @access Public
- * @returns {Object} Array of ICE server configurations (STUN/TURN)
- * @description Returns the list of STUN servers used for NAT traversal in WebRTC connections.
- * These servers help peers discover their public IP addresses.
+ * @access Authenticated (Bearer token)
+ * @returns {Object} ICE server configurations (STUN/TURN) and credential expiry
+ * @description Returns the same configuration sent over Socket.IO: STUN/TURN servers used for NAT
+ * traversal, with TURN credentials minted for the authenticated user.
  * @example
  * // Response
  * {
  *   "success": true,
  *   "data": {
  *     "iceServers": [
- *       { "urls": "stun:stun.l.google.com:19302" },
- *       { "urls": "stun:stun1.l.google.com:19302" }
- *     ]
+ *       { "urls": "stun:turn.example.com:3478" },
+ *       { "urls": "turn:turn.example.com:3478", "username": "1700003600:user1", "credential": "..." }
+ *     ],
+ *     "ttl": 3600,
+ *     "expiresAt": "2024-01-01T01:00:00.000Z"
  *   }
  * }
  */
-router.get('/ice-servers', (_req: Request, res: Response) => {
+router.get('/ice-servers', requireAuth, (_req: Request, res: Response) => {
+  const user = res.locals.user as AuthenticatedUser;
+
   res.status(200).json({
     success: true,
-    data: {
-      iceServers: DEFAULT_ICE_SERVERS,
-    },
+    data: getIceServers(user.userId),
   });
 });
 
+/**
+ * Get the recorded call sessions of a meeting
+ * @route GET /api/call/history/:meetingId
+ * @access Authenticated (Bearer token)
+ * @param {string} meetingId - The unique identifier of the meeting/call room
+ * @query {string} [from] - Only sessions still running at or after this date (ISO 8601)
+ * @query {string} [to] - Only sessions started at or before this date (ISO 8601)
+ * @query {number} [limit=20] - Sessions per page (1-100)
+ * @query {number} [offset=0] - Sessions to skip
+ * @returns {Object} Page of sessions, latest first
+ * @description Only lists the sessions the user attended, unless the token names them as host
+ * of the meeting (`hostOf` claim).
+ * @example
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "items": [
+ *       {
+ *         "sessionId": "5f0c...",
+ *         "meetingId": "abc123",
+ *         "startedAt": "2024-01-01T00:00:00.000Z",
+ *         "endedAt": "2024-01-01T00:45:00.000Z",
+ *         "peakParticipants": 2,
+ *         "attendance": [
+ *           { "userId": "user1", "username": "John", "role": "host", "joinedAt": "2024-01-01T00:00:00.000Z", "leftAt": "2024-01-01T00:45:00.000Z", "leaveReason": "left" },
+ *           { "userId": "user2", "username": "Jane", "role": "participant", "joinedAt": "2024-01-01T00:02:00.000Z", "leftAt": "2024-01-01T00:30:00.000Z", "leaveReason": "REMOVED_BY_HOST" }
+ *         ]
+ *       }
+ *     ],
+ *     "total": 1,
+ *     "limit": 20,
+ *     "offset": 0
+ *   }
+ * }
+ */
+router.get('/history/:meetingId', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const user = res.locals.user as AuthenticatedUser;
+  const { meetingId } = req.params;
+
+  const query = parseHistoryQuery(req, res);
+  if (!query) return;
+
+  // Designated hosts see every session of their meeting, other users only those they attended
+  const visible = user.hostOf.includes(meetingId) ? query : { ...query, attendee: user.userId };
+
+  res.status(200).json({
+    success: true,
+    data: await getHistoryStore().listSessions(meetingId, visible),
+  });
+}));
+
+/**
+ * Get a recorded call session
+ * @route GET /api/call/sessions/:sessionId
+ * @access Authenticated (Bearer token of a user who attended the session, or of a designated host)
+ * @param {string} sessionId - The unique identifier of the session
+ * @returns {Object} The session, with every participant's stays
+ * @description Sessions the user may not read are answered as not found.
+ * @example
+ * // Response (not found)
+ * {
+ *   "success": false,
+ *   "message": "Call session not found"
+ * }
+ */
+router.get('/sessions/:sessionId', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const user = res.locals.user as AuthenticatedUser;
+  const session = await getHistoryStore().getSession(req.params.sessionId);
+
+  if (!session || !canViewSession(user, session)) {
+    res.status(404).json({
+      success: false,
+      message: 'Call session not found',
+    });
+    return;
+  }
+
+  res.status(200).json({
+    success: true,
+    data: session,
+  });
+}));
+
+/**
+ * Get the calls a user attended
+ * @route GET /api/call/users/:userId/attendance
+ * @access Authenticated (Bearer token of the same user)
+ * @param {string} userId - The unique identifier of the user
+ * @query {string} [from] - Only stays still running at or after this date (ISO 8601)
+ * @query {string} [to] - Only stays started at or before this date (ISO 8601)
+ * @query {number} [limit=20] - Stays per page (1-100)
+ * @query {number} [offset=0] - Stays to skip
+ * @returns {Object} Page of stays, latest first
+ * @example
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "items": [
+ *       { "sessionId": "5f0c...", "meetingId": "abc123", "userId": "user2", "username": "Jane", "role": "participant", "joinedAt": "2024-01-01T00:02:00.000Z", "leftAt": "2024-01-01T00:30:00.000Z", "leaveReason": "left", "durationSeconds": 1680 }
+ *     ],
+ *     "total": 1,
+ *     "limit": 20,
+ *     "offset": 0
+ *   }
+ * }
+ */
+router.get('/users/:userId/attendance', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const user = res.locals.user as AuthenticatedUser;
+
+  if (req.params.userId !== user.userId) {
+    res.status(403).json({
+      success: false,
+      message: 'You can only view your own attendance',
+    });
+    return;
+  }
+
+  const query = parseHistoryQuery(req, res);
+  if (!query) return;
+
+  res.status(200).json({
+    success: true,
+    data: await getHistoryStore().listAttendance(user.userId, query),
+  });
+}));
+
 export default router;
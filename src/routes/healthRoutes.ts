@@ -0,0 +1,112 @@
+/**
+ * Health routes module for probes and runtime diagnostics
+ * @module routes/healthRoutes
+ * @description Liveness and readiness probes for orchestrators and load balancers, and the
+ * runtime diagnostics of the instance for operators.
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAdminKey } from '../middlewares/auth';
+import { asyncHandler } from '../middlewares/errorHandler';
+import { checkReadiness, getDiagnostics, getLiveness } from '../services/healthService';
+import { CallServer } from '../types';
+
+/**
+ * Create the health router
+ * @param {CallServer} io - Socket.IO server instance, whose connections are checked
+ * @returns {Router} Router to mount at `/health`
+ * @example
+ * app.use('/health', createHealthRoutes(io));
+ */
+export const createHealthRoutes = (io: CallServer): Router => {
+  const router = Router();
+
+  /**
+   * Liveness probe
+   * @route GET /health/live
+   * @access Public
+   * @returns {Object} Static status; answering at all proves the process alive
+   * @description Also served at `GET /health` and `GET /api/call/health`. Never fails while the
+   * process runs, so restarting on failure only restarts stuck processes.
+   * @example
+   * // Response
+   * {
+   *   "success": true,
+   *   "status": "ok",
+   *   "service": "voice-call-server",
+   *   "uptime": 3600,
+   *   "timestamp": "2024-01-01T00:00:00.000Z",
+   *   "environment": "development"
+   * }
+   */
+  const live = (_req: Request, res: Response): void => {
+    res.status(200).json({ success: true, ...getLiveness() });
+  };
+  router.get('/', live);
+  router.get('/live', live);
+
+  /**
+   * Readiness probe
+   * @route GET /health/ready
+   * @access Public
+   * @returns {Object} Every check with its value and threshold
+   * @description Answers 503 while the instance shuts down, when the event-loop lag exceeds
+   * `READY_MAX_EVENT_LOOP_LAG`, the heap usage exceeds `READY_MAX_HEAP_USAGE` or the open
+   * connections reach `READY_MAX_CONNECTIONS`, so that load balancers send new clients elsewhere.
+   * @example
+   * // Response (200, or 503 with "status": "not-ready")
+   * {
+   *   "success": true,
+   *   "status": "ready",
+   *   "checks": {
+   *     "draining": { "ok": true, "value": false, "threshold": null },
+   *     "eventLoopLag": { "ok": true, "value": 1.2, "threshold": 500 },
+   *     "heapUsage": { "ok": true, "value": 1.4, "threshold": 90 },
+   *     "connections": { "ok": true, "value": 12, "threshold": null }
+   *   },
+   *   "timestamp": "2024-01-01T00:00:00.000Z"
+   * }
+   */
+  router.get('/ready', (_req: Request, res: Response) => {
+    const { ready, checks } = checkReadiness(io);
+
+    res.status(ready ? 200 : 503).json({
+      success: ready,
+      status: ready ? 'ready' : 'not-ready',
+      checks,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  /**
+   * Runtime diagnostics of this instance
+   * @route GET /health/diagnostics
+   * @access Admin (`X-Admin-Key`)
+   * @returns {Object} Uptime, memory breakdown, event loop, connections and the size of every map
+   * @description Store sizes cover every instance when call state is shared through Redis; the
+   * rest covers the instance answering. With the in-memory store, `store.socketMappings` above
+   * `sockets.connected` means socket mappings are leaking.
+   * @example
+   * // Response
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "uptime": 3600,
+   *     "process": { "pid": 4242, "node": "v20.11.0" },
+   *     "memory": { "rss": 83886080, "heapTotal": 41943040, "heapUsed": 31457280, "external": 2097152, "arrayBuffers": 65536, "heapLimit": 4345298944 },
+   *     "eventLoop": { "lag": 1.2, "mean": 0.4, "max": 3.1 },
+   *     "sockets": { "engineClients": 12, "connected": 12, "rooms": 15 },
+   *     "store": { "rooms": 2, "participants": 11, "waiting": 1, "socketMappings": 12, "endedMeetings": 0 },
+   *     "timers": { "slotExpiries": 1, "emptyRooms": 0, "endingCalls": 0, "schedules": 1 },
+   *     "webhooks": { "queued": 0, "active": 0, "retrying": 0 },
+   *     "trackedAddresses": 9,
+   *     "shuttingDown": false
+   *   }
+   * }
+   */
+  router.get('/diagnostics', requireAdminKey, asyncHandler(async (_req: Request, res: Response) => {
+    res.status(200).json({ success: true, data: await getDiagnostics(io) });
+  }));
+
+  return router;
+};
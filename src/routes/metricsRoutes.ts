@@ -0,0 +1,32 @@
+/**
+ * Metrics routes module for Prometheus scraping
+ * @module routes/metricsRoutes
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireMetricsToken } from '../middlewares/auth';
+import { asyncHandler } from '../middlewares/errorHandler';
+import { metricsRegistry } from '../services/metricsService';
+
+/** Express router instance for the metrics endpoint */
+const router = Router();
+
+/**
+ * Get the server metrics in Prometheus text format
+ * @route GET /metrics
+ * @access Public, or `Authorization: Bearer <METRICS_TOKEN>` when `METRICS_TOKEN` is set
+ * @returns {string} Metrics in the Prometheus text exposition format
+ * @description Room and participant gauges are read from the room store and cover every
+ * instance sharing it; counters and histograms cover the instance answering the scrape.
+ * @example
+ * // Response
+ * # HELP call_active_rooms Call rooms currently open
+ * # TYPE call_active_rooms gauge
+ * call_active_rooms 5
+ */
+router.get('/', requireMetricsToken, asyncHandler(async (_req: Request, res: Response) => {
+  res.set('Content-Type', metricsRegistry.contentType);
+  res.status(200).send(await metricsRegistry.metrics());
+}));
+
+export default router;
@@ -0,0 +1,131 @@
+/**
+ * Room routes module for creating calls over HTTP
+ * @module routes/roomRoutes
+ * @description Lets the main backend or a meeting's host create a call room with its own settings
+ * before anyone joins. Uses the same room service function as `call:create-room`.
+ */
+
+import { Router, Request, Response } from 'express';
+import { createRoomSchema } from '../config/eventSchemas';
+import { getCallRoomInfo } from '../config/socket';
+import { hasAdminKey, requireAuth } from '../middlewares/auth';
+import { asyncHandler } from '../middlewares/errorHandler';
+import { createRoomAhead } from '../services/roomService';
+import { SHUTDOWN_RECONNECT_AFTER, isShuttingDown } from '../services/shutdownService';
+import { AuthenticatedUser, CallServer } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Create the room router
+ * @param {CallServer} io - Socket.IO server instance, used when an unused room expires
+ * @returns {Router} Router to mount at `/api/call`
+ * @example
+ * app.use('/api/call', createRoomRoutes(io));
+ */
+export const createRoomRoutes = (io: CallServer): Router => {
+  const router = Router();
+
+  /**
+   * Create a call room with its own settings
+   * @route POST /api/call/room
+   * @access Authenticated (Bearer token) as a designated host of the meeting (`hostOf` claim), or with the `X-Admin-Key` header
+   * @body {string} meetingId - The unique identifier of the meeting/call room
+   * @body {number} [maxParticipants] - Capacity (1-50); defaults to `MAX_PARTICIPANTS`
+   * @body {boolean} [audioOnly=false] - Disable cameras and screen sharing
+   * @body {boolean} [startMuted=true] - Joiners start with their microphone muted
+   * @body {boolean} [startCameraOff=true] - Joiners start with their camera off
+   * @body {boolean} [lobbyEnabled=false] - Joiners wait in the lobby until admitted
+   * @body {string[]} [allowedRoles] - Roles allowed in the call; must include `host`. Defaults to every role
+   * @body {Object} [schedule] - Planned times: `startsAt`, `endsAt` (ISO 8601) and `maxDuration` (seconds, 60-86400)
+   * @returns {Object} The new room, as returned by `GET /api/call/room/:meetingId`
+   * @description Creating a room does not join it; the first user to join becomes host. Rooms
+   * nobody joins are deleted after `EMPTY_ROOM_TIMEOUT` seconds (after `startsAt` for scheduled rooms).
+   * Creating the room starts again a meeting whose schedule ended it.
+   * @example
+   * // Request
+   * { "meetingId": "abc123", "maxParticipants": 4, "audioOnly": true, "lobbyEnabled": true }
+   * // Response (201)
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "meetingId": "abc123",
+   *     "participants": 0,
+   *     "isLocked": false,
+   *     "lobbyEnabled": true,
+   *     "screenSharePolicy": "single",
+   *     "settings": { "maxParticipants": 4, "audioOnly": true, "startMuted": true, "startCameraOff": true, "allowedRoles": ["host", "co-host", "participant", "viewer"] },
+   *     "state": "waiting",
+   *     "endsAt": null,
+   *     "schedule": { "startsAt": null, "endsAt": null, "maxDuration": null },
+   *     "closesAt": null,
+   *     "lobby": [],
+   *     "raisedHands": [],
+   *     "users": []
+   *   }
+   * }
+   * // Response (not a host of the meeting, 403)
+   * {
+   *   "success": false,
+   *   "message": "Only a host of this meeting can create its call room"
+   * }
+   * // Response (conflict, 409)
+   * {
+   *   "success": false,
+   *   "message": "This meeting already has a call room"
+   * }
+   * // Response (shutting down, 503, with a Retry-After header)
+   * {
+   *   "success": false,
+   *   "message": "Server is shutting down"
+   * }
+   */
+  router.post('/room', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+    if (isShuttingDown()) {
+      res.setHeader('Retry-After', String(SHUTDOWN_RECONNECT_AFTER));
+      res.status(503).json({
+        success: false,
+        message: 'Server is shutting down',
+      });
+      return;
+    }
+
+    const result = createRoomSchema.safeParse(req.body ?? {});
+
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      res.status(400).json({
+        success: false,
+        message: `Invalid ${issue.path.join('.') || 'body'}: ${issue.message}`,
+      });
+      return;
+    }
+
+    const user = res.locals.user as AuthenticatedUser;
+    if (!user.hostOf.includes(result.data.meetingId) && !hasAdminKey(req)) {
+      res.status(403).json({
+        success: false,
+        message: 'Only a host of this meeting can create its call room',
+      });
+      return;
+    }
+
+    // Hosts and admins may start again a meeting whose schedule ended it
+    const room = await createRoomAhead(io, result.data, true);
+    if ('code' in room) {
+      res.status(409).json({
+        success: false,
+        message: room.message,
+      });
+      return;
+    }
+
+    logger.info(`Call room ${room.meetingId} created by user ${user.userId}`);
+
+    res.status(201).json({
+      success: true,
+      data: await getCallRoomInfo(room.meetingId),
+    });
+  }));
+
+  return router;
+};
@@ -12,13 +12,18 @@ dotenv.config();
 
 import express, { Application } from 'express';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
 import cors from 'cors';
 import helmet from 'helmet';
-import morgan from 'morgan';
 import { initializeSocketIO } from './config/socket';
 import { errorHandler, notFoundHandler } from './middlewares/errorHandler';
+import { assignRequestId, requestLogger } from './middlewares/requestLogger';
+import { createAdminRoutes } from './routes/adminRoutes';
 import callRoutes from './routes/callRoutes';
+import { createHealthRoutes } from './routes/healthRoutes';
+import metricsRoutes from './routes/metricsRoutes';
+import { createRoomRoutes } from './routes/roomRoutes';
+import { registerShutdownHandlers } from './services/shutdownService';
+import { CallServer } from './types';
 import { logger } from './utils/logger';
 
 /**
@@ -35,7 +40,7 @@ class App {
   public server: ReturnType<typeof createServer>;
   
   /** Socket.IO server instance for real-time communication */
-  public io: Server | null = null;
+  public io: CallServer;
   
   /** Server port number */
   private readonly PORT: number;
@@ -50,13 +55,14 @@ class App {
     this.PORT = parseInt(process.env.PORT || '5000', 10);
     
     this.initializeMiddlewares();
+    // Socket.IO comes first: the admin routes notify participants through it
+    this.io = this.initializeSocketIO();
     this.initializeRoutes();
-    this.initializeSocketIO();
     this.initializeErrorHandling();
   }
 
   /**
-   * Initializes Express middlewares for security, parsing, and logging
+   * Initializes Express middlewares for logging, security and parsing
    * @private
    * @returns {void}
    * @description Sets up:
@@ -66,6 +72,10 @@ class App {
    * - Morgan for HTTP request logging
    */
   private initializeMiddlewares(): void {
+    // Correlation id and structured log line for every HTTP request, rejected ones included
+    this.app.use(assignRequestId);
+    this.app.use(requestLogger);
+
     // Security middleware - sets various HTTP headers
     this.app.use(helmet());
     
@@ -103,12 +113,6 @@ class App {
     this.app.use(express.json());
     this.app.use(express.urlencoded({ extended: true }));
 
-    // HTTP request logging - 'dev' format for development, 'combined' for production
-    if (process.env.NODE_ENV !== 'production') {
-      this.app.use(morgan('dev'));
-    } else {
-      this.app.use(morgan('combined'));
-    }
   }
 
   /**
@@ -117,22 +121,23 @@ class App {
    * @returns {void}
    * @description Sets up:
    * - Root endpoint with service information
-   * - Health check endpoint
+   * - Liveness, readiness and diagnostics endpoints
    * - Call-related API routes
+   * - Room creation route
+   * - Admin API routes (admin API key required)
+   * - Prometheus metrics endpoint
    */
   private initializeRoutes(): void {
-    // Health check endpoint at root level
-    this.app.get('/health', (_req, res) => {
-      res.status(200).json({
-        status: 'ok',
-        service: 'voice-call-server',
-        timestamp: new Date().toISOString(),
-        environment: process.env.NODE_ENV || 'development',
-      });
-    });
+    // Liveness and readiness probes, and runtime diagnostics (admin API key required)
+    this.app.use('/health', createHealthRoutes(this.io));
 
     // Mount call-related routes
     this.app.use('/api/call', callRoutes);
+    this.app.use('/api/call', createRoomRoutes(this.io));
+    this.app.use('/api/call', createAdminRoutes(this.io));
+
+    // Mount the Prometheus metrics endpoint
+    this.app.use('/metrics', metricsRoutes);
 
     // Root endpoint with service information and available endpoints
     this.app.get('/', (_req, res) => {
@@ -142,11 +147,18 @@ class App {
         description: 'Real-time voice call server with Socket.IO and WebRTC/PeerJS',
         endpoints: {
           health: '/health',
+          liveness: '/health/live',
+          readiness: '/health/ready',
+          diagnostics: '/health/diagnostics (admin)',
           stats: '/api/call/stats',
           iceServers: '/api/call/ice-servers',
           roomInfo: '/api/call/room/:meetingId',
+          createRoom: 'POST /api/call/room',
+          rooms: '/api/call/rooms (admin)',
+          metrics: '/metrics',
         },
         socketEvents: {
+          createRoom: 'call:create-room',
           join: 'call:join',
           leave: 'call:leave',
           signal: 'call:signal',
@@ -166,15 +178,16 @@ class App {
   /**
    * Initializes Socket.IO server for real-time voice communication
    * @private
-   * @returns {void}
+   * @returns {CallServer} The Socket.IO server
    * @description Sets up Socket.IO with event handlers for:
    * - Joining/leaving voice calls
    * - WebRTC signaling (offer, answer, ICE candidates)
    * - Mute/unmute status broadcasting
    */
-  private initializeSocketIO(): void {
-    this.io = initializeSocketIO(this.server);
+  private initializeSocketIO(): CallServer {
+    const io = initializeSocketIO(this.server);
     logger.success('Socket.IO initialized for voice calls');
+    return io;
   }
 
   /**
@@ -215,19 +228,12 @@ process.on('unhandledRejection', (reason: unknown, promise: Promise<unknown>) =>
   logger.error('Unhandled Rejection', { promise, reason });
 });
 
-/**
- * Global handler for uncaught exceptions
- * @param {Error} error - The uncaught error
- * @description Logs the error and exits the process with code 1
- */
-process.on('uncaughtException', (error: Error) => {
-  logger.error('Uncaught Exception:', error);
-  process.exit(1);
-});
-
 // Create and start the application instance
 const app = new App();
 app.listen();
 
+// Drain connections and flush pending state on SIGTERM/SIGINT, and after an uncaught exception
+registerShutdownHandlers(app.io);
+
 // Export for testing purposes
 export default app;
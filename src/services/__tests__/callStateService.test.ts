@@ -0,0 +1,154 @@
+/**
+ * Tests of the call state machine
+ */
+
+import { emitCallLifecycle, settleCallLifecycle } from '../callLifecycle';
+import { registerCallStateMachine } from '../callStateService';
+import { createRoom, endCall } from '../roomService';
+import { getRoomStore } from '../../store';
+import { CallEvents, CallParticipant, CallServer } from '../../types';
+
+jest.mock('../roomService', () => ({
+  ...jest.requireActual('../roomService'),
+  endCall: jest.fn(),
+}));
+
+const store = getRoomStore();
+
+const emit = jest.fn();
+const io = { to: () => ({ emit }) } as unknown as CallServer;
+
+const makeParticipant = (meetingId: string, userId: string): CallParticipant => ({
+  socketId: `socket-${userId}`,
+  userId,
+  meetingId,
+  peerId: `peer-${userId}`,
+  username: userId,
+  role: 'participant',
+  isMuted: false,
+  isVideoOn: true,
+  isScreenSharing: false,
+  screenStreamId: null,
+  handRaisedAt: null,
+  joinedAt: new Date().toISOString(),
+  connectionState: 'connected',
+  resumeToken: `token-${userId}`,
+});
+
+/**
+ * Add a participant to a room and publish its join, as the room service does
+ */
+const join = async (meetingId: string, userId: string): Promise<void> => {
+  const participant = makeParticipant(meetingId, userId);
+  await store.addParticipant(participant, 10);
+  emitCallLifecycle('participant-joined', {
+    sessionId: 'session',
+    participant,
+    participantCount: await store.countParticipants(meetingId),
+  });
+  await settleCallLifecycle();
+};
+
+/**
+ * Remove a participant from a room and publish its departure, as the room service does
+ */
+const leave = async (meetingId: string, userId: string): Promise<void> => {
+  const participantCount = await store.removeParticipant(meetingId, userId);
+  emitCallLifecycle('participant-left', {
+    sessionId: 'session',
+    participant: makeParticipant(meetingId, userId),
+    reason: null,
+    leftAt: new Date().toISOString(),
+    participantCount,
+  });
+  await settleCallLifecycle();
+};
+
+const stateOf = async (meetingId: string) => {
+  const room = await store.getRoom(meetingId);
+  return { state: room?.state, endsAt: room?.endsAt };
+};
+
+describe('call state machine', () => {
+  beforeAll(() => {
+    registerCallStateMachine(io);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    emit.mockClear();
+    jest.mocked(endCall).mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('becomes active once the minimum of participants is reached', async () => {
+    await createRoom('m1');
+    await join('m1', 'u1');
+    await join('m1', 'u2');
+
+    expect(await stateOf('m1')).toEqual({ state: 'active', endsAt: null });
+    expect(emit).toHaveBeenCalledWith(CallEvents.STATE, expect.objectContaining({
+      meetingId: 'm1',
+      state: 'active',
+      previousState: 'waiting',
+      participants: 2,
+      minParticipants: 2,
+    }));
+  });
+
+  it('ends an active call that stays below the minimum', async () => {
+    await createRoom('m2');
+    await join('m2', 'u1');
+    await join('m2', 'u2');
+    await leave('m2', 'u2');
+
+    const { state, endsAt } = await stateOf('m2');
+    expect(state).toBe('ending');
+    expect(Date.parse(endsAt!)).toBe(Date.now() + 120 * 1000);
+
+    await jest.advanceTimersByTimeAsync(119 * 1000);
+    expect(endCall).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(endCall).toHaveBeenCalledWith(io, 'm2', null);
+  });
+
+  it('goes back to active and keeps the call when someone joins during the countdown', async () => {
+    await createRoom('m3');
+    await join('m3', 'u1');
+    await join('m3', 'u2');
+    await leave('m3', 'u2');
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    await join('m3', 'u3');
+
+    expect(await stateOf('m3')).toEqual({ state: 'active', endsAt: null });
+
+    await jest.advanceTimersByTimeAsync(120 * 1000);
+    expect(endCall).not.toHaveBeenCalled();
+  });
+
+  it('ends a call nobody else joins, keeping it waiting until then', async () => {
+    await createRoom('m4');
+    await join('m4', 'u1');
+
+    const { state, endsAt } = await stateOf('m4');
+    expect(state).toBe('waiting');
+    expect(endsAt).not.toBeNull();
+
+    await jest.advanceTimersByTimeAsync(120 * 1000);
+    expect(endCall).toHaveBeenCalledWith(io, 'm4', null);
+  });
+
+  it('does not change an ended call', async () => {
+    await createRoom('m5');
+    await store.updateRoom('m5', { state: 'ended' });
+    await join('m5', 'u1');
+    await join('m5', 'u2');
+
+    expect((await stateOf('m5')).state).toBe('ended');
+    expect(emit).not.toHaveBeenCalled();
+  });
+});
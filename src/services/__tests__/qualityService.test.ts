@@ -0,0 +1,156 @@
+/**
+ * Tests of the connection quality aggregation
+ */
+
+import { getCallQuality, recordQualityReport } from '../qualityService';
+import { createRoom } from '../roomService';
+import { getRoomStore } from '../../store';
+import { CallEvents, CallParticipant, CallServer, PeerQualityStats } from '../../types';
+
+const store = getRoomStore();
+
+const emit = jest.fn();
+const to = jest.fn((_recipients: string[]) => ({ emit }));
+const io = { to } as unknown as CallServer;
+
+const makeParticipant = (meetingId: string, userId: string): CallParticipant => ({
+  socketId: `socket-${userId}`,
+  userId,
+  meetingId,
+  peerId: `peer-${userId}`,
+  username: userId,
+  role: 'participant',
+  isMuted: false,
+  isVideoOn: true,
+  isScreenSharing: false,
+  screenStreamId: null,
+  handRaisedAt: null,
+  joinedAt: new Date().toISOString(),
+  connectionState: 'connected',
+  resumeToken: `token-${userId}`,
+});
+
+const peer = (userId: string, values: Partial<PeerQualityStats> = {}): PeerQualityStats => ({
+  userId,
+  rtt: 80,
+  jitter: 4,
+  packetLoss: 0.5,
+  bitrate: 900,
+  candidateType: 'host',
+  ...values,
+});
+
+/**
+ * Create a room with participants u1, u2 and u3
+ */
+const startCall = async (meetingId: string): Promise<CallParticipant[]> => {
+  await createRoom(meetingId);
+  const participants = ['u1', 'u2', 'u3'].map(userId => makeParticipant(meetingId, userId));
+  for (const participant of participants) {
+    await store.addParticipant(participant, 10);
+  }
+  return participants;
+};
+
+describe('quality service', () => {
+  beforeEach(() => {
+    emit.mockClear();
+    to.mockClear();
+  });
+
+  it('keeps the latest, mean and worst values of each connection', async () => {
+    const [u1] = await startCall('q1');
+
+    await recordQualityReport(io, u1, [peer('u2', { rtt: 100, bitrate: 1000 })]);
+    await recordQualityReport(io, u1, [peer('u2', { rtt: 150, bitrate: 500, candidateType: 'relay' })]);
+    await recordQualityReport(io, u1, [peer('u2', { rtt: 120, bitrate: 800, candidateType: 'relay' })]);
+
+    const quality = await getCallQuality('q1');
+    expect(quality?.peers).toEqual([expect.objectContaining({
+      userId: 'u1',
+      remoteUserId: 'u2',
+      candidateType: 'relay',
+      reports: 3,
+      latest: expect.objectContaining({ rtt: 120, bitrate: 800 }),
+      average: expect.objectContaining({ rtt: 123.3, bitrate: 766.7 }),
+      worst: expect.objectContaining({ rtt: 150, bitrate: 500 }),
+      issues: [],
+    })]);
+  });
+
+  it('ignores entries for the reporter and for users not in the call', async () => {
+    const [u1] = await startCall('q2');
+
+    await recordQualityReport(io, u1, [peer('u1'), peer('someone-else')]);
+
+    expect((await getCallQuality('q2'))?.peers).toEqual([]);
+  });
+
+  it('warns both participants once when a connection degrades, and again when it recovers', async () => {
+    const [u1] = await startCall('q3');
+
+    await recordQualityReport(io, u1, [peer('u2', { rtt: 450, packetLoss: 8 })]);
+    await recordQualityReport(io, u1, [peer('u2', { rtt: 500, packetLoss: 9 })]);
+
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(to).toHaveBeenCalledWith(['socket-u1', 'socket-u2']);
+    expect(emit).toHaveBeenCalledWith(CallEvents.QUALITY_WARNING, expect.objectContaining({
+      meetingId: 'q3',
+      userId: 'u1',
+      remoteUserId: 'u2',
+      status: 'degraded',
+      issues: [
+        { metric: 'rtt', value: 450, threshold: 300 },
+        { metric: 'packetLoss', value: 8, threshold: 5 },
+      ],
+    }));
+
+    await recordQualityReport(io, u1, [peer('u2')]);
+
+    expect(emit).toHaveBeenCalledTimes(2);
+    expect(emit).toHaveBeenLastCalledWith(CallEvents.QUALITY_WARNING, expect.objectContaining({
+      status: 'recovered',
+      issues: [],
+    }));
+  });
+
+  it('combines the connections of each participant, weighted by their reports', async () => {
+    const [u1, u2] = await startCall('q4');
+
+    await recordQualityReport(io, u1, [peer('u2', { rtt: 100 }), peer('u3', { rtt: 400 })]);
+    await recordQualityReport(io, u1, [peer('u2', { rtt: 100 })]);
+    await recordQualityReport(io, u2, [peer('u1', { jitter: 10, candidateType: 'srflx' })]);
+
+    const quality = await getCallQuality('q4');
+    expect(quality?.thresholds).toEqual({ rtt: 300, jitter: 30, packetLoss: 5 });
+    expect(quality?.participants).toEqual([
+      expect.objectContaining({
+        userId: 'u1',
+        reports: 3,
+        average: expect.objectContaining({ rtt: 200 }),
+        worst: expect.objectContaining({ rtt: 400 }),
+        candidateTypes: ['host'],
+        degradedWith: ['u3'],
+      }),
+      expect.objectContaining({
+        userId: 'u2',
+        reports: 1,
+        average: expect.objectContaining({ jitter: 10 }),
+        candidateTypes: ['srflx'],
+        degradedWith: [],
+      }),
+      expect.objectContaining({
+        userId: 'u3',
+        reports: 0,
+        average: null,
+        worst: null,
+        degradedWith: ['u1'],
+        updatedAt: null,
+      }),
+    ]);
+  });
+
+  it('has no quality for a room that does not exist', async () => {
+    expect(await getCallQuality('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Tests of the room service
+ */
+
+import { clearEmptyRoomTimers, createRoomAhead } from '../roomService';
+import { getRoomStore } from '../../store';
+import { CallServer } from '../../types';
+
+const store = getRoomStore();
+
+const io = { to: () => ({ emit: jest.fn() }) } as unknown as CallServer;
+
+describe('createRoomAhead', () => {
+  afterEach(() => {
+    clearEmptyRoomTimers();
+  });
+
+  it('creates a room once', async () => {
+    const room = await createRoomAhead(io, { meetingId: 'r1', maxParticipants: 4 });
+
+    expect(room).toMatchObject({ meetingId: 'r1', settings: { maxParticipants: 4 } });
+    expect(await createRoomAhead(io, { meetingId: 'r1' })).toEqual({
+      code: 'ROOM_EXISTS',
+      message: 'This meeting already has a call room',
+    });
+  });
+
+  it('keeps a meeting its schedule ended unless asked to reopen it', async () => {
+    await store.markMeetingEnded('r2', 60);
+
+    expect(await createRoomAhead(io, { meetingId: 'r2' })).toEqual({
+      code: 'MEETING_ENDED',
+      message: 'This meeting has ended',
+    });
+    expect(await store.getRoom('r2')).toBeNull();
+    expect(await store.isMeetingEnded('r2')).toBe(true);
+  });
+
+  it('reopens a meeting its schedule ended', async () => {
+    await store.markMeetingEnded('r3', 60);
+
+    expect(await createRoomAhead(io, { meetingId: 'r3' }, true)).toMatchObject({ meetingId: 'r3' });
+    expect(await store.isMeetingEnded('r3')).toBe(false);
+  });
+});
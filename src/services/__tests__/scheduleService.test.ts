@@ -0,0 +1,119 @@
+/**
+ * Tests of the call schedule enforcement
+ */
+
+import { emitCallLifecycle, settleCallLifecycle } from '../callLifecycle';
+import { createRoom, endCall } from '../roomService';
+import { clearScheduleTimers, countScheduleTimers, getJoinRejection, registerCallScheduler } from '../scheduleService';
+import { getRoomStore } from '../../store';
+import { CallEvents, CallServer, RoomMetadata } from '../../types';
+
+jest.mock('../roomService', () => ({
+  ...jest.requireActual('../roomService'),
+  endCall: jest.fn(),
+}));
+
+const store = getRoomStore();
+
+const emit = jest.fn();
+const io = { to: () => ({ emit }) } as unknown as CallServer;
+
+const inMinutes = (minutes: number): string => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+/**
+ * Create a room whose schedule ends it in some minutes and publish its start
+ */
+const startCall = async (meetingId: string, minutes: number): Promise<RoomMetadata> => {
+  const room = await createRoom(meetingId, { schedule: { endsAt: inMinutes(minutes) } });
+  emitCallLifecycle('call-started', { sessionId: room!.sessionId, meetingId, startedAt: new Date().toISOString() });
+  await settleCallLifecycle();
+  return room!;
+};
+
+describe('getJoinRejection', () => {
+  const makeRoom = (schedule: Partial<RoomMetadata['schedule']>, closesAt: string | null = null) =>
+    ({ schedule: { startsAt: null, endsAt: null, maxDuration: null, ...schedule }, closesAt }) as RoomMetadata;
+
+  it('accepts joins within the window', () => {
+    expect(getJoinRejection(makeRoom({}))).toBeNull();
+    expect(getJoinRejection(makeRoom({ startsAt: inMinutes(-5) }, inMinutes(5)))).toBeNull();
+  });
+
+  it('rejects joins before the start', () => {
+    const startsAt = inMinutes(5);
+
+    expect(getJoinRejection(makeRoom({ startsAt }))).toEqual({
+      code: 'MEETING_NOT_STARTED',
+      message: `This meeting starts at ${startsAt}`,
+    });
+  });
+
+  it('rejects joins once the call reached its closing time', () => {
+    expect(getJoinRejection(makeRoom({}, inMinutes(-1)))?.code).toBe('MEETING_ENDED');
+  });
+});
+
+describe('schedule timers', () => {
+  beforeAll(() => {
+    registerCallScheduler(io);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    emit.mockClear();
+    jest.mocked(endCall).mockClear();
+  });
+
+  afterEach(() => {
+    clearScheduleTimers();
+    jest.useRealTimers();
+  });
+
+  it('warns the participants before the end, then ends the call', async () => {
+    await startCall('s1', 10);
+    expect(countScheduleTimers()).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit).toHaveBeenCalledWith(CallEvents.ENDING_SOON, expect.objectContaining({
+      meetingId: 's1',
+      secondsLeft: 300,
+      reason: 'scheduled-end',
+    }));
+
+    await jest.advanceTimersByTimeAsync(4 * 60 * 1000);
+    expect(emit).toHaveBeenLastCalledWith(CallEvents.ENDING_SOON, expect.objectContaining({ secondsLeft: 60 }));
+    expect(endCall).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(endCall).toHaveBeenCalledWith(io, 's1', null);
+    expect(await store.isMeetingEnded('s1')).toBe(true);
+    expect(countScheduleTimers()).toBe(0);
+  });
+
+  it('skips the warnings whose time has passed', async () => {
+    await startCall('s2', 2);
+
+    await jest.advanceTimersByTimeAsync(2 * 60 * 1000);
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit).toHaveBeenCalledWith(CallEvents.ENDING_SOON, expect.objectContaining({ secondsLeft: 60 }));
+    expect(endCall).toHaveBeenCalledWith(io, 's2', null);
+  });
+
+  it('cancels the timers when the call ends first', async () => {
+    const room = await startCall('s3', 10);
+
+    emitCallLifecycle('call-ended', {
+      sessionId: room.sessionId,
+      meetingId: 's3',
+      startedAt: room.createdAt,
+      endedAt: new Date().toISOString(),
+    });
+    await settleCallLifecycle();
+    await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+    expect(emit).not.toHaveBeenCalled();
+    expect(endCall).not.toHaveBeenCalled();
+    expect(await store.isMeetingEnded('s3')).toBe(false);
+  });
+});
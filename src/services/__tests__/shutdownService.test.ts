@@ -0,0 +1,117 @@
+/**
+ * Tests of the graceful shutdown
+ */
+
+import { ExtendedError } from 'socket.io';
+import {
+  SHUTDOWN_RECONNECT_AFTER,
+  deferShutdown,
+  isShuttingDown,
+  registerShutdownHandlers,
+  rejectConnectionsDuringShutdown,
+} from '../shutdownService';
+import { getRoomStore } from '../../store';
+import { CallEvents, CallServer, CallSocket } from '../../types';
+
+jest.mock('../../utils/logger', () => ({
+  ...jest.requireActual('../../utils/logger'),
+  flushLogs: jest.fn(async () => undefined),
+}));
+
+const steps: string[] = [];
+
+const sockets = new Map<string, unknown>([['socket-1', {}], ['socket-2', {}]]);
+const io = {
+  sockets: { sockets },
+  local: {
+    emit: jest.fn((event: string) => {
+      steps.push(event);
+      // Clients leave a moment after being told to
+      setTimeout(() => sockets.clear(), 150);
+    }),
+  },
+  close: jest.fn((callback: () => void) => {
+    steps.push('closed');
+    // A disconnect handler still running once Socket.IO is closed
+    deferShutdown(new Promise<void>(resolve => setTimeout(() => {
+      steps.push('disconnect handled');
+      resolve();
+    }, 50)));
+    callback();
+  }),
+} as unknown as CallServer;
+
+const exit = jest.spyOn(process, 'exit').mockImplementation((() => undefined) as () => never);
+
+/**
+ * Ask for the connection of a new socket
+ */
+const connect = (): ExtendedError | undefined => {
+  let rejection: ExtendedError | undefined;
+  rejectConnectionsDuringShutdown({ id: 'socket-3' } as CallSocket, error => {
+    rejection = error;
+  });
+  return rejection;
+};
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  const deadline = Date.now() + 5000;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('graceful shutdown', () => {
+  const emitter: NodeJS.EventEmitter = process;
+  const events = ['SIGTERM', 'SIGINT', 'uncaughtException'];
+  const previousListeners = new Map(events.map(event => [event, emitter.listeners(event)]));
+
+  beforeAll(() => {
+    process.env.HISTORY_STORE = 'memory';
+    registerShutdownHandlers(io);
+  });
+
+  afterAll(() => {
+    for (const event of events) {
+      emitter.listeners(event)
+        .filter(listener => !previousListeners.get(event)?.includes(listener))
+        .forEach(listener => emitter.removeListener(event, listener as (...args: unknown[]) => void));
+    }
+    exit.mockRestore();
+  });
+
+  it('accepts connections until a signal arrives', () => {
+    expect(isShuttingDown()).toBe(false);
+    expect(connect()).toBeUndefined();
+  });
+
+  it('drains the connections and waits for pending work before closing the stores', async () => {
+    jest.spyOn(getRoomStore(), 'close').mockImplementation(async () => {
+      steps.push('store closed');
+    });
+
+    process.emit('SIGTERM', 'SIGTERM');
+
+    expect(isShuttingDown()).toBe(true);
+    expect(io.local.emit).toHaveBeenCalledWith(CallEvents.SERVER_SHUTDOWN, expect.objectContaining({
+      reconnectAfter: SHUTDOWN_RECONNECT_AFTER,
+    }));
+
+    await waitFor(() => exit.mock.calls.length > 0);
+    expect(steps).toEqual([CallEvents.SERVER_SHUTDOWN, 'closed', 'disconnect handled', 'store closed']);
+    expect(exit).toHaveBeenCalledWith(0);
+  });
+
+  it('turns new connections away once shutting down', () => {
+    expect(connect()?.data).toEqual({ code: 'SERVER_SHUTTING_DOWN', message: 'Server is shutting down' });
+  });
+
+  it('exits immediately on a second signal', async () => {
+    exit.mockClear();
+    process.emit('SIGINT', 'SIGINT');
+
+    await waitFor(() => exit.mock.calls.length > 0);
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+});
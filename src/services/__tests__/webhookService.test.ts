@@ -0,0 +1,136 @@
+/**
+ * Tests of webhook delivery, retries and dead-lettering
+ */
+
+import { readFileSync, rmSync } from 'fs';
+import { WEBHOOK_DEAD_LETTER_FILE } from '../../config/webhooks';
+import { dispatchWebhook, flushWebhooks, getWebhookQueueStats } from '../webhookService';
+import { verifyWebhook } from '../../utils/webhookSignature';
+
+jest.mock('../../config/webhooks', () => ({
+  WEBHOOK_SUBSCRIPTIONS: [{
+    url: 'https://hooks.example.com/call',
+    secret: 'a-webhook-secret-of-some-length',
+    events: ['call.started', 'call.ended'],
+  }],
+  WEBHOOK_MAX_ATTEMPTS: 3,
+  WEBHOOK_RETRY_BASE_DELAY: 20,
+  WEBHOOK_TIMEOUT: 1000,
+  WEBHOOK_CONCURRENCY: 2,
+  WEBHOOK_DEAD_LETTER_FILE: require('path').join(require('os').tmpdir(), `webhook-dead-letters-${process.pid}.jsonl`),
+}));
+
+const fetchMock = jest.spyOn(global, 'fetch');
+
+/**
+ * Wait until a condition holds, checking every few milliseconds
+ */
+const waitFor = async (condition: () => boolean, timeout: number = 2000): Promise<void> => {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+const isIdle = (): boolean => {
+  const { queued, active, retrying } = getWebhookQueueStats();
+  return queued + active + retrying === 0;
+};
+
+const requestOf = (call: number) => fetchMock.mock.calls[call][1] as RequestInit & { headers: Record<string, string> };
+
+const deadLetters = (): Record<string, unknown>[] => {
+  try {
+    return readFileSync(WEBHOOK_DEAD_LETTER_FILE, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+  } catch {
+    return [];
+  }
+};
+
+describe('webhook delivery', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    rmSync(WEBHOOK_DEAD_LETTER_FILE, { force: true });
+  });
+
+  afterAll(() => {
+    rmSync(WEBHOOK_DEAD_LETTER_FILE, { force: true });
+  });
+
+  it('posts a signed event to subscribed endpoints', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    dispatchWebhook('call.started', { meetingId: 'abc123' });
+    await waitFor(isIdle);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const { body, headers } = requestOf(0);
+    expect(JSON.parse(body as string)).toMatchObject({ type: 'call.started', data: { meetingId: 'abc123' } });
+    expect(headers['X-Webhook-Id']).toBe(JSON.parse(body as string).id);
+    expect(verifyWebhook(
+      'a-webhook-secret-of-some-length',
+      headers['X-Webhook-Timestamp'],
+      body as string,
+      headers['X-Webhook-Signature']
+    )).toBe(true);
+  });
+
+  it('skips endpoints not subscribed to the event type', async () => {
+    dispatchWebhook('participant.joined', { meetingId: 'abc123' });
+    await waitFor(isIdle);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('retries server errors with the same event id until delivered', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+    dispatchWebhook('call.ended', { meetingId: 'abc123' });
+    await waitFor(() => fetchMock.mock.calls.length === 3 && isIdle());
+
+    const ids = [0, 1, 2].map(call => requestOf(call).headers['X-Webhook-Id']);
+    expect(new Set(ids).size).toBe(1);
+    expect(deadLetters()).toEqual([]);
+  });
+
+  it('dead-letters an event once every attempt failed', async () => {
+    fetchMock.mockImplementation(async () => new Response(null, { status: 500 }));
+
+    dispatchWebhook('call.ended', { meetingId: 'abc123' });
+    await waitFor(() => deadLetters().length === 1);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(deadLetters()[0]).toMatchObject({
+      url: 'https://hooks.example.com/call',
+      attempts: 3,
+      error: 'HTTP 500',
+      event: { type: 'call.ended' },
+    });
+  });
+
+  it('does not retry client errors', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 400 }));
+
+    dispatchWebhook('call.ended', { meetingId: 'abc123' });
+    await waitFor(() => deadLetters().length === 1);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(deadLetters()[0]).toMatchObject({ attempts: 1, error: 'HTTP 400' });
+  });
+
+  it('dead-letters deliveries waiting for a retry when flushed at shutdown', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+
+    dispatchWebhook('call.ended', { meetingId: 'abc123' });
+    await waitFor(() => getWebhookQueueStats().retrying === 1);
+    await flushWebhooks();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(deadLetters()[0]).toMatchObject({ attempts: 1, error: 'Server shut down before the next attempt' });
+    expect(isIdle()).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Call lifecycle events module
+ * @module services/callLifecycle
+ * @description In-process notifications of calls starting and ending, participants joining
+ * and leaving, and moderators acting, published by the room service. Lets features such as the
+ * call history and webhooks follow calls without the room service knowing about them.
+ */
+
+import { CallParticipant, ModerationNotification, RemovalReason } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Payload of each lifecycle event
+ * @interface CallLifecycleEvents
+ */
+export interface CallLifecycleEvents {
+  /** The first participant was admitted into a room; rooms nobody joins never start */
+  'call-started': { sessionId: string; meetingId: string; startedAt: string };
+  /** A participant was admitted into the call; not published when a held slot is resumed */
+  'participant-joined': { sessionId: string; participant: CallParticipant; participantCount: number };
+  /** A participant left or was removed */
+  'participant-left': {
+    sessionId: string;
+    participant: CallParticipant;
+    reason: RemovalReason | null;
+    leftAt: string;
+    participantCount: number;
+  };
+  /** The last participant left and the room of a started call was deleted */
+  'call-ended': { sessionId: string; meetingId: string; startedAt: string; endedAt: string };
+  /** A host or co-host acted on the call (same payload as `call:moderation`) */
+  'moderation': ModerationNotification;
+}
+
+/**
+ * Name of a lifecycle event
+ * @typedef {string} CallLifecycleEvent
+ */
+export type CallLifecycleEvent = keyof CallLifecycleEvents;
+
+/**
+ * Listener of a lifecycle event
+ * @typedef {Function} CallLifecycleListener
+ */
+export type CallLifecycleListener<E extends CallLifecycleEvent> = (
+  payload: CallLifecycleEvents[E]
+) => void | Promise<void>;
+
+/**
+ * Listeners per event; each list only holds listeners of its own event
+ */
+const listeners = new Map<CallLifecycleEvent, CallLifecycleListener<never>[]>();
+
+/**
+ * Listeners still running
+ */
+const running = new Set<Promise<void>>();
+
+/**
+ * Subscribe to a lifecycle event
+ * @param {E} event - Event name
+ * @param {CallLifecycleListener<E>} listener - Listener receiving the typed payload
+ * @returns {void}
+ * @example
+ * onCallLifecycle('call-ended', ({ meetingId }) => logger.info(`Call ${meetingId} ended`));
+ */
+export const onCallLifecycle = <E extends CallLifecycleEvent>(
+  event: E,
+  listener: CallLifecycleListener<E>
+): void => {
+  listeners.set(event, [...(listeners.get(event) ?? []), listener]);
+};
+
+/**
+ * Publish a lifecycle event
+ * @param {E} event - Event name
+ * @param {CallLifecycleEvents[E]} payload - Event payload
+ * @returns {void}
+ * @description Listeners run without being awaited, so a slow or failing listener never delays
+ * or breaks the call; their errors are logged.
+ */
+export const emitCallLifecycle = <E extends CallLifecycleEvent>(
+  event: E,
+  payload: CallLifecycleEvents[E]
+): void => {
+  for (const listener of (listeners.get(event) ?? []) as CallLifecycleListener<E>[]) {
+    const run = Promise.resolve()
+      .then(() => listener(payload))
+      .catch(error => logger.error(`Error in ${event} listener`, error))
+      .finally(() => running.delete(run));
+    running.add(run);
+  }
+};
+
+/**
+ * Wait for the listeners still running, including those of events they publish
+ * @returns {Promise<void>} Resolves once no listener is running
+ * @description Used when the server shuts down, so that history and webhooks see the last events.
+ */
+export const settleCallLifecycle = async (): Promise<void> => {
+  while (running.size > 0) {
+    await Promise.all(running);
+  }
+};
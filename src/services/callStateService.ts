@@ -0,0 +1,159 @@
+/**
+ * Call state service
+ * @module services/callStateService
+ * @description Moves calls between the `waiting`, `active`, `ending` and `ended` states as
+ * participants join and leave, and ends calls that stay below the minimum number of participants
+ * for longer than `MIN_PARTICIPANTS_TIMEOUT`, whether they were active before or never got there.
+ */
+
+import { CallServer } from '../types';
+import { MIN_PARTICIPANTS_TIMEOUT, getMinParticipants } from '../config/roomSettings';
+import { onCallLifecycle } from './callLifecycle';
+import { endCall, setCallState } from './roomService';
+import { getRoomStore } from '../store';
+import { logger } from '../utils/logger';
+
+/**
+ * Storage for call rooms, their participants and socket mappings
+ */
+const store = getRoomStore();
+
+/**
+ * Pending ends of calls below the minimum on this instance. Key: meetingId
+ */
+const endingTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Evaluations still to run, chained so that each one sees the state saved by the previous one
+ */
+let pendingEvaluation: Promise<void> = Promise.resolve();
+
+/**
+ * Cancel the pending end of a call
+ * @param {string} meetingId - Meeting/room identifier
+ * @returns {void}
+ * @private
+ */
+const cancelEnding = (meetingId: string): void => {
+  clearTimeout(endingTimers.get(meetingId));
+  endingTimers.delete(meetingId);
+};
+
+/**
+ * End a call whose countdown ran out
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {string} sessionId - Session the countdown was started for; a newer call of the same meeting is kept
+ * @param {string} endsAt - End the countdown was started for
+ * @returns {Promise<void>}
+ * @description Does nothing if the call became active in the meantime (possibly on another
+ * instance), started another countdown or has already ended.
+ * @private
+ */
+const endBelowMinimum = async (io: CallServer, meetingId: string, sessionId: string, endsAt: string): Promise<void> => {
+  endingTimers.delete(meetingId);
+
+  try {
+    const room = await store.getRoom(meetingId);
+    if (!room || room.sessionId !== sessionId || room.endsAt !== endsAt) return;
+
+    logger.call('state', `Call ${meetingId} stayed below ${getMinParticipants(room.settings)} participants for ${MIN_PARTICIPANTS_TIMEOUT}s`);
+    await endCall(io, meetingId, null);
+  } catch (error) {
+    logger.error('Error ending call below the minimum of participants', error);
+  }
+};
+
+/**
+ * Bring a call's state in line with its number of participants
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @returns {Promise<void>}
+ * @description Reaching the minimum makes the call `active` and cancels a countdown. An active call
+ * falling below it starts `ending` (or goes back to `waiting` when `MIN_PARTICIPANTS_TIMEOUT` is 0).
+ * A waiting call stays `waiting` but gets the same countdown from its first evaluation, so that a
+ * participant left alone in a call nobody else joins does not keep the room open forever. Ended
+ * calls never change again.
+ * @fires CallEvents#STATE - Emitted to all participants in the room on a change
+ * @private
+ */
+const evaluateCallState = async (io: CallServer, meetingId: string): Promise<void> => {
+  const room = await store.getRoom(meetingId);
+  if (!room || room.state === 'ended') return;
+
+  const participants = await store.countParticipants(meetingId);
+  if (participants === 0) return; // The room is being closed
+
+  if (participants >= getMinParticipants(room.settings)) {
+    cancelEnding(meetingId);
+    if (room.state !== 'active') {
+      await setCallState(io, room, 'active');
+    }
+    return;
+  }
+
+  // Ending calls keep their countdown, and so do waiting calls that already have one
+  if (room.state === 'ending' || room.endsAt !== null) return;
+
+  if (MIN_PARTICIPANTS_TIMEOUT <= 0) {
+    if (room.state === 'active') {
+      await setCallState(io, room, 'waiting');
+    }
+    return;
+  }
+
+  const endsAt = new Date(Date.now() + MIN_PARTICIPANTS_TIMEOUT * 1000).toISOString();
+  if (!(await setCallState(io, room, room.state === 'active' ? 'ending' : 'waiting', endsAt))) return;
+
+  cancelEnding(meetingId);
+  endingTimers.set(
+    meetingId,
+    setTimeout(() => void endBelowMinimum(io, meetingId, room.sessionId, endsAt), MIN_PARTICIPANTS_TIMEOUT * 1000)
+  );
+};
+
+/**
+ * Evaluate a call's state after the evaluations queued before it
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @returns {Promise<void>}
+ * @private
+ */
+const queueEvaluation = (io: CallServer, meetingId: string): Promise<void> => {
+  pendingEvaluation = pendingEvaluation
+    .then(() => evaluateCallState(io, meetingId))
+    .catch(error => logger.error(`Error updating the state of call ${meetingId}`, error));
+
+  return pendingEvaluation;
+};
+
+/**
+ * Number of calls below the minimum whose end is pending on this instance
+ * @returns {number} Pending ends
+ */
+export const countEndingTimers = (): number => endingTimers.size;
+
+/**
+ * Cancel every pending end of a call below the minimum on this instance
+ * @returns {void}
+ * @description Used when the server shuts down; those calls stay `ending` in the store.
+ */
+export const clearEndingTimers = (): void => {
+  endingTimers.forEach(timer => clearTimeout(timer));
+  endingTimers.clear();
+};
+
+/**
+ * Start driving call states from the call lifecycle events
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @returns {void}
+ * @example
+ * registerCallStateMachine(io);
+ */
+export const registerCallStateMachine = (io: CallServer): void => {
+  onCallLifecycle('participant-joined', ({ participant }) => queueEvaluation(io, participant.meetingId));
+
+  onCallLifecycle('participant-left', ({ participant }) => queueEvaluation(io, participant.meetingId));
+
+  onCallLifecycle('call-ended', ({ meetingId }) => cancelEnding(meetingId));
+};
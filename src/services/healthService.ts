@@ -0,0 +1,245 @@
+/**
+ * Health service
+ * @module services/healthService
+ * @description Answers the liveness and readiness probes and gathers the runtime diagnostics of
+ * this instance: event-loop lag, heap usage, open connections and the size of every in-process
+ * map that could leak.
+ */
+
+import { monitorEventLoopDelay } from 'perf_hooks';
+import { getHeapStatistics } from 'v8';
+import { CallServer } from '../types';
+import { countTrackedAddresses } from '../middlewares/socketRateLimit';
+import { countEndingTimers } from './callStateService';
+import { countEmptyRoomTimers } from './roomService';
+import { countScheduleTimers } from './scheduleService';
+import { countSlotExpiries } from './sessionService';
+import { isShuttingDown } from './shutdownService';
+import { getWebhookQueueStats } from './webhookService';
+import { RoomStoreSizes, getRoomStore } from '../store';
+
+/**
+ * Event-loop lag, in milliseconds, above which the instance reports not ready
+ * @constant {number}
+ * @default 500
+ */
+export const READY_MAX_EVENT_LOOP_LAG = parseInt(process.env.READY_MAX_EVENT_LOOP_LAG || '500', 10);
+
+/**
+ * Share of the heap limit, in percent, above which the instance reports not ready
+ * @constant {number}
+ * @default 90
+ */
+export const READY_MAX_HEAP_USAGE = parseInt(process.env.READY_MAX_HEAP_USAGE || '90', 10);
+
+/**
+ * Open Socket.IO connections from which the instance reports not ready
+ * @constant {number}
+ * @default 0
+ * @description `0` sets no limit.
+ */
+export const READY_MAX_CONNECTIONS = parseInt(process.env.READY_MAX_CONNECTIONS || '0', 10);
+
+/**
+ * Milliseconds over which the event-loop lag is measured
+ * @constant {number}
+ */
+const LAG_WINDOW = 10000;
+
+/**
+ * Sampling interval of the event-loop delay, in milliseconds
+ * @constant {number}
+ */
+const LAG_RESOLUTION = 20;
+
+/**
+ * Storage for call rooms, their participants and socket mappings
+ */
+const store = getRoomStore();
+
+/**
+ * Event-loop delay histogram, reset at the end of every window
+ */
+const loopDelay = monitorEventLoopDelay({ resolution: LAG_RESOLUTION });
+loopDelay.enable();
+
+/**
+ * Convert a sampled delay to event-loop lag
+ * @param {number} nanoseconds - Delay recorded by the histogram, which includes the sampling interval
+ * @returns {number} Lag in milliseconds
+ * @private
+ */
+const toLag = (nanoseconds: number): number => Math.max(nanoseconds / 1e6 - LAG_RESOLUTION, 0);
+
+/**
+ * 99th percentile of the event-loop delay over the last complete window, in milliseconds
+ */
+let previousWindowLag = 0;
+
+setInterval(() => {
+  previousWindowLag = toLag(loopDelay.percentile(99));
+  loopDelay.reset();
+}, LAG_WINDOW).unref();
+
+/**
+ * Outcome of one readiness check
+ * @interface ReadinessCheck
+ */
+export interface ReadinessCheck {
+  /** Whether the check passes */
+  ok: boolean;
+  /** Measured value */
+  value: number | boolean;
+  /** Limit the value is compared with, or null when there is none */
+  threshold: number | null;
+}
+
+/**
+ * Readiness of this instance
+ * @interface ReadinessReport
+ */
+export interface ReadinessReport {
+  /** Whether every check passes */
+  ready: boolean;
+  /** Individual checks */
+  checks: {
+    /** Whether the instance is shutting down (passes when it is not) */
+    draining: ReadinessCheck;
+    /** 99th percentile of the event-loop delay, in milliseconds */
+    eventLoopLag: ReadinessCheck;
+    /** Heap used, in percent of the heap limit */
+    heapUsage: ReadinessCheck;
+    /** Open Socket.IO connections */
+    connections: ReadinessCheck;
+  };
+}
+
+/**
+ * Runtime diagnostics of this instance
+ * @interface Diagnostics
+ */
+export interface Diagnostics {
+  /** Seconds since the process started */
+  uptime: number;
+  /** Process identifier and Node.js version */
+  process: { pid: number; node: string };
+  /** Memory breakdown in bytes, with the heap limit */
+  memory: NodeJS.MemoryUsage & { heapLimit: number };
+  /** Event-loop delay in milliseconds: 99th percentile over the last window, mean and max of the current one */
+  eventLoop: { lag: number; mean: number; max: number };
+  /** Socket.IO on this instance: engine clients, connected sockets and rooms (every socket has its own) */
+  sockets: { engineClients: number; connected: number; rooms: number };
+  /** Entries of the room store; with Redis these cover every instance */
+  store: RoomStoreSizes;
+  /** Timers pending on this instance */
+  timers: { slotExpiries: number; emptyRooms: number; endingCalls: number; schedules: number };
+  /** Webhook deliveries of this instance */
+  webhooks: { queued: number; active: number; retrying: number };
+  /** IP addresses tracked by the connection limits */
+  trackedAddresses: number;
+  /** Whether the instance is shutting down */
+  shuttingDown: boolean;
+}
+
+/**
+ * Round a number of milliseconds to a tenth
+ * @param {number} value - Milliseconds
+ * @returns {number} Rounded value
+ * @private
+ */
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Current event-loop lag
+ * @returns {number} The higher of the last window's 99th percentile and the current one's, in milliseconds
+ * @description A blocked event loop shows up as soon as it is released, without waiting for the
+ * window to end.
+ * @private
+ */
+const getEventLoopLag = (): number => {
+  const current = loopDelay.count > 0 ? toLag(loopDelay.percentile(99)) : 0;
+  return round(Math.max(previousWindowLag, current));
+};
+
+/**
+ * Liveness of this instance
+ * @returns {Object} Static status with the uptime; answering at all is what proves the process alive
+ * @example
+ * res.status(200).json({ success: true, ...getLiveness() });
+ */
+export const getLiveness = (): {
+  status: 'ok';
+  service: string;
+  uptime: number;
+  timestamp: string;
+  environment: string;
+} => ({
+  status: 'ok',
+  service: 'voice-call-server',
+  uptime: Math.round(process.uptime()),
+  timestamp: new Date().toISOString(),
+  environment: process.env.NODE_ENV || 'development',
+});
+
+/**
+ * Check whether this instance should receive traffic
+ * @param {CallServer} io - Socket.IO server instance
+ * @returns {ReadinessReport} The report; not ready while shutting down or above a threshold
+ * @example
+ * const { ready } = checkReadiness(io);
+ */
+export const checkReadiness = (io: CallServer): ReadinessReport => {
+  const shuttingDown = isShuttingDown();
+  const lag = getEventLoopLag();
+  const { used_heap_size: used, heap_size_limit: limit } = getHeapStatistics();
+  const heapUsage = round((used / limit) * 100);
+  const connections = io.engine.clientsCount;
+
+  const checks: ReadinessReport['checks'] = {
+    draining: { ok: !shuttingDown, value: shuttingDown, threshold: null },
+    eventLoopLag: { ok: lag <= READY_MAX_EVENT_LOOP_LAG, value: lag, threshold: READY_MAX_EVENT_LOOP_LAG },
+    heapUsage: { ok: heapUsage <= READY_MAX_HEAP_USAGE, value: heapUsage, threshold: READY_MAX_HEAP_USAGE },
+    connections: {
+      ok: READY_MAX_CONNECTIONS <= 0 || connections < READY_MAX_CONNECTIONS,
+      value: connections,
+      threshold: READY_MAX_CONNECTIONS > 0 ? READY_MAX_CONNECTIONS : null,
+    },
+  };
+
+  return { ready: Object.values(checks).every(check => check.ok), checks };
+};
+
+/**
+ * Gather the runtime diagnostics of this instance
+ * @param {CallServer} io - Socket.IO server instance
+ * @returns {Promise<Diagnostics>} Uptime, memory, event loop, connections and map sizes
+ * @description With the in-memory store, more socket mappings than connected sockets means
+ * mappings are not cleaned up when sockets leave.
+ * @example
+ * const { store, sockets } = await getDiagnostics(io);
+ */
+export const getDiagnostics = async (io: CallServer): Promise<Diagnostics> => ({
+  uptime: Math.round(process.uptime()),
+  process: { pid: process.pid, node: process.version },
+  memory: { ...process.memoryUsage(), heapLimit: getHeapStatistics().heap_size_limit },
+  eventLoop: {
+    lag: getEventLoopLag(),
+    mean: loopDelay.count > 0 ? round(toLag(loopDelay.mean)) : 0,
+    max: loopDelay.count > 0 ? round(toLag(loopDelay.max)) : 0,
+  },
+  sockets: {
+    engineClients: io.engine.clientsCount,
+    connected: io.sockets.sockets.size,
+    rooms: io.sockets.adapter.rooms.size,
+  },
+  store: await store.getSizes(),
+  timers: {
+    slotExpiries: countSlotExpiries(),
+    emptyRooms: countEmptyRoomTimers(),
+    endingCalls: countEndingTimers(),
+    schedules: countScheduleTimers(),
+  },
+  webhooks: getWebhookQueueStats(),
+  trackedAddresses: countTrackedAddresses(),
+  shuttingDown: isShuttingDown(),
+});
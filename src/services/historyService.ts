@@ -0,0 +1,148 @@
+/**
+ * Call history service
+ * @module services/historyService
+ * @description Records every call session in the history store from the call lifecycle events:
+ * when it started and ended, its peak number of participants and each participant's stays.
+ */
+
+import { CallSession } from '../types';
+import { onCallLifecycle } from './callLifecycle';
+import { getHistoryStore } from '../history';
+import { logger } from '../utils/logger';
+
+/**
+ * Storage for recorded call sessions
+ */
+const history = getHistoryStore();
+
+/**
+ * Days an ended session is kept in the history
+ * @constant {number}
+ * @default 90
+ * @description `0` keeps sessions forever.
+ */
+export const HISTORY_RETENTION_DAYS = parseInt(process.env.HISTORY_RETENTION_DAYS || '90', 10);
+
+/**
+ * Updates still to be applied, chained so that each one reads the result of the previous one
+ */
+let pendingUpdate: Promise<void> = Promise.resolve();
+
+/**
+ * Apply an update to a session after the updates queued before it
+ * @param {string} sessionId - Session identifier
+ * @param {Function} update - Changes the session in place; receives null if it was never recorded
+ * and may return a session to record instead
+ * @returns {Promise<void>} Resolves once the session is saved
+ * @private
+ */
+const updateSession = (
+  sessionId: string,
+  update: (session: CallSession | null) => CallSession | null | void
+): Promise<void> => {
+  pendingUpdate = pendingUpdate.then(async () => {
+    const session = await history.getSession(sessionId);
+    const updated = update(session) || session;
+    if (updated) {
+      await history.saveSession(updated);
+    }
+  }).catch(error => logger.error(`Error recording call session ${sessionId}`, error));
+
+  return pendingUpdate;
+};
+
+/**
+ * Delete sessions older than the retention period
+ * @returns {Promise<void>}
+ * @private
+ */
+const pruneHistory = async (): Promise<void> => {
+  if (HISTORY_RETENTION_DAYS <= 0) return;
+
+  const deleted = await history.deleteSessionsEndedBefore(
+    new Date(Date.now() - HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+  );
+  if (deleted > 0) {
+    logger.info(`Deleted ${deleted} call sessions older than ${HISTORY_RETENTION_DAYS} days from the history`);
+  }
+};
+
+/**
+ * Start recording call sessions
+ * @returns {void}
+ * @description Subscribes to the call lifecycle events. A session first seen through a
+ * participant joining (e.g. a room created before this instance started) starts with that
+ * participant. With several instances, each one records the events it handles in its own store.
+ * @example
+ * registerHistoryRecorder();
+ */
+export const registerHistoryRecorder = (): void => {
+  onCallLifecycle('call-started', ({ sessionId, meetingId, startedAt }) =>
+    updateSession(sessionId, session => session || {
+      sessionId,
+      meetingId,
+      startedAt,
+      endedAt: null,
+      peakParticipants: 0,
+      attendance: [],
+    })
+  );
+
+  onCallLifecycle('participant-joined', ({ sessionId, participant, participantCount }) =>
+    updateSession(sessionId, existing => {
+      const session = existing || {
+        sessionId,
+        meetingId: participant.meetingId,
+        startedAt: participant.joinedAt,
+        endedAt: null,
+        peakParticipants: 0,
+        attendance: [],
+      };
+
+      // A participant reconnecting without resuming keeps their joinedAt and continues their stay
+      const isNewStay = !session.attendance.some(
+        stay => stay.userId === participant.userId && stay.joinedAt === participant.joinedAt
+      );
+      if (isNewStay) {
+        session.attendance.push({
+          userId: participant.userId,
+          username: participant.username,
+          role: participant.role,
+          joinedAt: participant.joinedAt,
+          leftAt: null,
+          leaveReason: null,
+        });
+      }
+
+      session.peakParticipants = Math.max(session.peakParticipants, participantCount);
+      return session;
+    })
+  );
+
+  onCallLifecycle('participant-left', ({ sessionId, participant, reason, leftAt }) =>
+    updateSession(sessionId, session => {
+      const stay = session?.attendance.find(
+        s => s.userId === participant.userId && s.joinedAt === participant.joinedAt && s.leftAt === null
+      );
+      if (stay) {
+        stay.leftAt = leftAt;
+        stay.leaveReason = reason || 'left';
+      }
+    })
+  );
+
+  onCallLifecycle('call-ended', async ({ sessionId, endedAt }) => {
+    await updateSession(sessionId, session => {
+      if (!session) return;
+
+      session.endedAt = endedAt;
+      for (const stay of session.attendance.filter(s => s.leftAt === null)) {
+        stay.leftAt = endedAt;
+        stay.leaveReason = 'left';
+      }
+    });
+    await pruneHistory();
+  });
+
+  pruneHistory().catch(error => logger.error('Error pruning the call history', error));
+};
@@ -0,0 +1,223 @@
+/**
+ * Prometheus metrics service
+ * @module services/metricsService
+ * @description Holds the Prometheus registry of the server and the metrics describing call and
+ * signaling activity. Gauges of rooms and participants are read from the room store when
+ * scraped, so they cover every instance sharing it; counters and histograms cover this instance.
+ */
+
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { CallErrorCode, CallEvents, CallServer, SignalType } from '../types';
+import { getRoomStore } from '../store';
+
+/**
+ * Storage for call rooms, their participants and socket mappings
+ */
+const store = getRoomStore();
+
+/**
+ * Registry of every metric exposed at `GET /metrics`
+ * @description Also collects the default Node.js process metrics (CPU, memory, event loop lag).
+ */
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+/**
+ * Socket.IO server whose connections are reported, set by {@link trackSocketServer}
+ */
+let socketServer: CallServer | null = null;
+
+/**
+ * Event names reported as-is in the `event` label; anything else is reported as `unknown`
+ */
+const KNOWN_EVENTS = new Set<string>(Object.values(CallEvents));
+
+/**
+ * Buckets of the call and participant duration histograms, in seconds (1 minute to 4 hours)
+ */
+const DURATION_BUCKETS = [60, 300, 600, 900, 1800, 2700, 3600, 5400, 7200, 14400];
+
+new Gauge({
+  name: 'call_active_rooms',
+  help: 'Call rooms currently open',
+  registers: [metricsRegistry],
+  async collect() {
+    this.set((await store.listRoomIds()).length);
+  },
+});
+
+new Gauge({
+  name: 'call_active_participants',
+  help: 'Participants currently in a call, including those reconnecting',
+  registers: [metricsRegistry],
+  async collect() {
+    this.set(await store.countAllParticipants());
+  },
+});
+
+new Gauge({
+  name: 'call_socket_connections',
+  help: 'Socket.IO connections currently open on this instance',
+  registers: [metricsRegistry],
+  collect() {
+    this.set(socketServer ? socketServer.of('/').sockets.size : 0);
+  },
+});
+
+const socketConnections = new Counter({
+  name: 'call_socket_connections_total',
+  help: 'Socket.IO connections accepted',
+  registers: [metricsRegistry],
+});
+
+const rejectedConnections = new Counter({
+  name: 'call_socket_connections_rejected_total',
+  help: 'Socket.IO connections rejected during the handshake, by error code',
+  labelNames: ['code'] as const,
+  registers: [metricsRegistry],
+});
+
+const joins = new Counter({
+  name: 'call_joins_total',
+  help: 'Participants admitted into a call, by kind (new or resumed session)',
+  labelNames: ['kind'] as const,
+  registers: [metricsRegistry],
+});
+
+const joinFailures = new Counter({
+  name: 'call_join_failures_total',
+  help: 'Join requests rejected, by error code',
+  labelNames: ['code'] as const,
+  registers: [metricsRegistry],
+});
+
+const leaves = new Counter({
+  name: 'call_leaves_total',
+  help: 'Participants who left a call, by reason',
+  labelNames: ['reason'] as const,
+  registers: [metricsRegistry],
+});
+
+const signalsRelayed = new Counter({
+  name: 'call_signals_relayed_total',
+  help: 'WebRTC signals relayed between peers, by signal type',
+  labelNames: ['signal_type'] as const,
+  registers: [metricsRegistry],
+});
+
+const callDuration = new Histogram({
+  name: 'call_duration_seconds',
+  help: 'Time from the first participant joining a call until its last participant left',
+  buckets: DURATION_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+const participantDuration = new Histogram({
+  name: 'call_participant_duration_seconds',
+  help: 'Time a participant spent in a call',
+  buckets: DURATION_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+const eventDuration = new Histogram({
+  name: 'call_socket_event_duration_seconds',
+  help: 'Time to handle a socket event, by event and status (ok or error code)',
+  labelNames: ['event', 'status'] as const,
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+  registers: [metricsRegistry],
+});
+
+/**
+ * Seconds elapsed since an ISO 8601 timestamp
+ * @param {string} since - Start time
+ * @returns {number} Elapsed seconds, never negative
+ * @private
+ */
+const secondsSince = (since: string): number => Math.max(0, (Date.now() - Date.parse(since)) / 1000);
+
+/**
+ * Report the connections of a Socket.IO server
+ * @param {CallServer} io - Socket.IO server instance
+ * @returns {void}
+ * @example
+ * trackSocketServer(io);
+ */
+export const trackSocketServer = (io: CallServer): void => {
+  socketServer = io;
+};
+
+/**
+ * Count an accepted socket connection
+ * @returns {void}
+ */
+export const recordConnection = (): void => {
+  socketConnections.inc();
+};
+
+/**
+ * Count a connection rejected during the handshake
+ * @param {CallErrorCode} code - Error code sent to the client
+ * @returns {void}
+ */
+export const recordRejectedConnection = (code: CallErrorCode): void => {
+  rejectedConnections.inc({ code });
+};
+
+/**
+ * Count a participant admitted into a call
+ * @param {boolean} isResume - Whether the participant resumed an existing session
+ * @returns {void}
+ */
+export const recordJoin = (isResume: boolean): void => {
+  joins.inc({ kind: isResume ? 'resume' : 'new' });
+};
+
+/**
+ * Count a rejected join request
+ * @param {CallErrorCode} code - Error code the join was rejected with
+ * @returns {void}
+ */
+export const recordJoinFailure = (code: CallErrorCode): void => {
+  joinFailures.inc({ code });
+};
+
+/**
+ * Count a participant leaving a call and record how long they stayed
+ * @param {string} joinedAt - When the participant joined
+ * @param {string} reason - `left`, or the removal reason in lower case
+ * @returns {void}
+ */
+export const recordLeave = (joinedAt: string, reason: string): void => {
+  leaves.inc({ reason });
+  participantDuration.observe(secondsSince(joinedAt));
+};
+
+/**
+ * Record how long a call lasted once its room is closed
+ * @param {string} startedAt - When the first participant joined
+ * @returns {void}
+ * @description Time the room stood empty before the first join is not counted.
+ */
+export const recordCallEnded = (startedAt: string): void => {
+  callDuration.observe(secondsSince(startedAt));
+};
+
+/**
+ * Count a relayed WebRTC signal
+ * @param {SignalType} signalType - `offer`, `answer` or `ice-candidate`
+ * @returns {void}
+ */
+export const recordSignalRelayed = (signalType: SignalType): void => {
+  signalsRelayed.inc({ signal_type: signalType });
+};
+
+/**
+ * Record how long a socket event took to be handled
+ * @param {string} event - Event name
+ * @param {string} status - `ok`, or the error code the event was rejected with
+ * @param {number} seconds - Time from receipt until its handler finished, or until it was rejected
+ * @returns {void}
+ */
+export const recordEventHandled = (event: string, status: string, seconds: number): void => {
+  eventDuration.observe({ event: KNOWN_EVENTS.has(event) ? event : 'unknown', status }, seconds);
+};
@@ -0,0 +1,276 @@
+/**
+ * Call quality service
+ * @module services/qualityService
+ * @description Aggregates the connection quality clients report with `call:quality-report`, per
+ * participant and per peer connection, and warns both participants of a connection with
+ * `call:quality-warning` when its round-trip time, jitter or packet loss crosses a threshold.
+ */
+
+import {
+  CallEvents,
+  CallParticipant,
+  CallQualityInfo,
+  CallServer,
+  CandidateType,
+  ParticipantQuality,
+  PeerQuality,
+  PeerQualityRecord,
+  PeerQualityStats,
+  QualityIssue,
+  QualityMetric,
+  QualityValues,
+} from '../types';
+import { getRoomStore } from '../store';
+import { logger } from '../utils/logger';
+
+/**
+ * Round-trip time, in milliseconds, above which a connection is degraded
+ * @constant {number}
+ * @default 300
+ */
+export const QUALITY_MAX_RTT = parseInt(process.env.QUALITY_MAX_RTT || '300', 10);
+
+/**
+ * Jitter, in milliseconds, above which a connection is degraded
+ * @constant {number}
+ * @default 30
+ */
+export const QUALITY_MAX_JITTER = parseInt(process.env.QUALITY_MAX_JITTER || '30', 10);
+
+/**
+ * Packet loss, in percent, above which a connection is degraded
+ * @constant {number}
+ * @default 5
+ */
+export const QUALITY_MAX_PACKET_LOSS = parseInt(process.env.QUALITY_MAX_PACKET_LOSS || '5', 10);
+
+/**
+ * Threshold of each checked metric
+ * @constant {Record<QualityMetric, number>}
+ */
+const QUALITY_THRESHOLDS: Record<QualityMetric, number> = {
+  rtt: QUALITY_MAX_RTT,
+  jitter: QUALITY_MAX_JITTER,
+  packetLoss: QUALITY_MAX_PACKET_LOSS,
+};
+
+/**
+ * Storage for call rooms, their participants and socket mappings
+ */
+const store = getRoomStore();
+
+/**
+ * Round a metric to a tenth
+ * @param {number} value - Metric value
+ * @returns {number} Rounded value
+ * @private
+ */
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Round every metric to a tenth
+ * @param {QualityValues} values - Metrics
+ * @returns {QualityValues} Rounded metrics
+ * @private
+ */
+const roundValues = ({ rtt, jitter, packetLoss, bitrate }: QualityValues): QualityValues => ({
+  rtt: round(rtt),
+  jitter: round(jitter),
+  packetLoss: round(packetLoss),
+  bitrate: round(bitrate),
+});
+
+/**
+ * Check metrics against the thresholds
+ * @param {QualityValues} values - Metrics of a report
+ * @returns {QualityIssue[]} Metrics beyond their thresholds
+ * @private
+ */
+const findIssues = (values: QualityValues): QualityIssue[] =>
+  (Object.keys(QUALITY_THRESHOLDS) as QualityMetric[])
+    .filter(metric => values[metric] > QUALITY_THRESHOLDS[metric])
+    .map(metric => ({ metric, value: round(values[metric]), threshold: QUALITY_THRESHOLDS[metric] }));
+
+/**
+ * Fold a report into the aggregate of a peer connection
+ * @param {PeerQualityRecord | null} previous - Aggregate so far, or null on the first report
+ * @param {Object} identity - Meeting, reporter and remote participant of the connection
+ * @param {QualityValues} values - Metrics of the report
+ * @param {CandidateType} candidateType - Local candidate type of the report
+ * @returns {PeerQualityRecord} The updated aggregate
+ * @private
+ */
+const aggregateReport = (
+  previous: PeerQualityRecord | null,
+  identity: Pick<PeerQualityRecord, 'meetingId' | 'userId' | 'remoteUserId'>,
+  values: QualityValues,
+  candidateType: CandidateType
+): PeerQualityRecord => {
+  const now = new Date().toISOString();
+  const reports = (previous?.reports ?? 0) + 1;
+
+  // Running mean, so that the record does not grow with the number of reports
+  const mean = (metric: keyof QualityValues): number => previous
+    ? previous.average[metric] + (values[metric] - previous.average[metric]) / reports
+    : values[metric];
+
+  return {
+    ...identity,
+    candidateType,
+    reports,
+    latest: values,
+    average: { rtt: mean('rtt'), jitter: mean('jitter'), packetLoss: mean('packetLoss'), bitrate: mean('bitrate') },
+    worst: previous
+      ? {
+        rtt: Math.max(previous.worst.rtt, values.rtt),
+        jitter: Math.max(previous.worst.jitter, values.jitter),
+        packetLoss: Math.max(previous.worst.packetLoss, values.packetLoss),
+        bitrate: Math.min(previous.worst.bitrate, values.bitrate),
+      }
+      : values,
+    issues: findIssues(values),
+    firstReportAt: previous?.firstReportAt ?? now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Whether the same metrics are beyond their thresholds
+ * @param {QualityIssue[]} a - Issues of a report
+ * @param {QualityIssue[]} b - Issues of another report
+ * @returns {boolean} True if both name the same metrics
+ * @private
+ */
+const sameMetrics = (a: QualityIssue[], b: QualityIssue[]): boolean =>
+  a.length === b.length && a.every(issue => b.some(other => other.metric === issue.metric));
+
+/**
+ * Record a quality report of a participant
+ * @param {CallServer} io - Socket.IO server instance for the warnings
+ * @param {CallParticipant} reporter - Participant who sent the report
+ * @param {PeerQualityStats[]} peers - Quality of the connection to each remote participant
+ * @returns {Promise<void>}
+ * @description Entries for the reporter themselves or for users who are not in the call are
+ * ignored. A warning is sent whenever the metrics beyond their thresholds change, not on every
+ * report, so a connection that stays degraded is only announced once.
+ * @fires CallEvents#QUALITY_WARNING - Emitted to both participants of a connection that degraded or recovered
+ * @example
+ * await recordQualityReport(io, participant, payload.peers);
+ */
+export const recordQualityReport = async (
+  io: CallServer,
+  reporter: CallParticipant,
+  peers: PeerQualityStats[]
+): Promise<void> => {
+  const { meetingId, userId } = reporter;
+  const participants = new Map(
+    (await store.getParticipants(meetingId)).map(participant => [participant.userId, participant])
+  );
+
+  for (const { userId: remoteUserId, candidateType, ...values } of peers) {
+    const remote = participants.get(remoteUserId);
+    if (!remote || remoteUserId === userId) continue;
+
+    const previous = await store.getQualityRecord(meetingId, userId, remoteUserId);
+    const record = aggregateReport(previous, { meetingId, userId, remoteUserId }, values, candidateType);
+    await store.saveQualityRecord(record);
+
+    if (sameMetrics(previous?.issues ?? [], record.issues)) continue;
+
+    const status = record.issues.length > 0 ? 'degraded' : 'recovered';
+    const recipients = [reporter, remote]
+      .filter(participant => participant.connectionState === 'connected')
+      .map(participant => participant.socketId);
+
+    if (recipients.length > 0) {
+      io.to(recipients).emit(CallEvents.QUALITY_WARNING, {
+        meetingId,
+        userId,
+        remoteUserId,
+        status,
+        issues: record.issues,
+        timestamp: record.updatedAt,
+      });
+    }
+
+    const details = record.issues.map(issue => `${issue.metric} ${issue.value} > ${issue.threshold}`).join(', ');
+    logger.call('quality', `Connection from ${userId} to ${remoteUserId} in call ${meetingId} ${status}${details ? ` (${details})` : ''}`);
+  }
+};
+
+/**
+ * Combine the connections reported by one participant
+ * @param {CallParticipant} participant - Participant
+ * @param {PeerQualityRecord[]} records - Every connection of the room
+ * @returns {ParticipantQuality} The participant's quality
+ * @private
+ */
+const aggregateParticipant = (participant: CallParticipant, records: PeerQualityRecord[]): ParticipantQuality => {
+  const own = records.filter(record => record.userId === participant.userId);
+  const reports = own.reduce((total, record) => total + record.reports, 0);
+
+  const degradedWith = records
+    .filter(record => record.issues.length > 0)
+    .flatMap(record => {
+      if (record.userId === participant.userId) return [record.remoteUserId];
+      if (record.remoteUserId === participant.userId) return [record.userId];
+      return [];
+    });
+
+  // Means weighted by the number of reports of each connection
+  const mean = (metric: keyof QualityValues): number =>
+    own.reduce((total, record) => total + record.average[metric] * record.reports, 0) / reports;
+  const highest = (metric: keyof QualityValues): number => Math.max(...own.map(record => record.worst[metric]));
+
+  return {
+    userId: participant.userId,
+    username: participant.username,
+    reports,
+    average: reports > 0
+      ? roundValues({ rtt: mean('rtt'), jitter: mean('jitter'), packetLoss: mean('packetLoss'), bitrate: mean('bitrate') })
+      : null,
+    worst: reports > 0
+      ? roundValues({
+        rtt: highest('rtt'),
+        jitter: highest('jitter'),
+        packetLoss: highest('packetLoss'),
+        bitrate: Math.min(...own.map(record => record.worst.bitrate)),
+      })
+      : null,
+    candidateTypes: Array.from(new Set(own.map(record => record.candidateType))),
+    degradedWith: Array.from(new Set(degradedWith)),
+    updatedAt: own.reduce<string | null>((latest, record) =>
+      latest === null || record.updatedAt > latest ? record.updatedAt : latest, null),
+  };
+};
+
+/**
+ * Get the connection quality of a call
+ * @param {string} meetingId - Meeting/room identifier
+ * @returns {Promise<CallQualityInfo | null>} Quality per participant and per connection, or null if the room does not exist
+ * @example
+ * const quality = await getCallQuality('abc123');
+ */
+export const getCallQuality = async (meetingId: string): Promise<CallQualityInfo | null> => {
+  const room = await store.getRoom(meetingId);
+  if (!room) return null;
+
+  const [participants, records] = await Promise.all([
+    store.getParticipants(meetingId),
+    store.getQualityRecords(meetingId),
+  ]);
+
+  return {
+    meetingId,
+    thresholds: { ...QUALITY_THRESHOLDS },
+    participants: participants.map(participant => aggregateParticipant(participant, records)),
+    peers: records
+      .sort((a, b) => a.userId.localeCompare(b.userId) || a.remoteUserId.localeCompare(b.remoteUserId))
+      .map(({ meetingId: _meetingId, ...record }): PeerQuality => ({
+        ...record,
+        latest: roundValues(record.latest),
+        average: roundValues(record.average),
+        worst: roundValues(record.worst),
+      })),
+  };
+};
@@ -0,0 +1,1031 @@
+/**
+ * Room mutation service
+ * @module services/roomService
+ * @description Shared operations that change call state in the room store and notify the
+ * affected clients. Used by the participant, moderation and lobby socket handlers alike, so
+ * every path that mutates a room produces the same broadcasts.
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import {
+  CallErrorCode,
+  CallEvents,
+  CallParticipant,
+  CallRole,
+  CallServer,
+  CallState,
+  CreateRoomPayload,
+  LobbyDeniedNotification,
+  LobbyEntry,
+  ModerationAction,
+  ModerationNotification,
+  RaisedHand,
+  RemovalReason,
+  RoomMetadata,
+  ScreenSharePolicy,
+} from '../types';
+import { MODERATOR_ROLES } from '../config/permissions';
+import {
+  EMPTY_ROOM_TIMEOUT,
+  getClosingTime,
+  getMinParticipants,
+  resolveRoomSettings,
+  resolveSchedule,
+} from '../config/roomSettings';
+import { emitCallLifecycle } from './callLifecycle';
+import { recordCallEnded, recordJoin, recordLeave } from './metricsService';
+import { getRoomStore } from '../store';
+import { logger } from '../utils/logger';
+
+/**
+ * Storage for call rooms, their participants and socket mappings
+ */
+const store = getRoomStore();
+
+/**
+ * Pending expirations of rooms created ahead of time on this instance. Key: meetingId
+ */
+const emptyRoomTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Name of the Socket.IO room that reaches a meeting's hosts and co-hosts
+ * @param {string} meetingId - Meeting/room identifier
+ * @returns {string} Socket.IO room name
+ */
+export const moderatorsRoom = (meetingId: string): string => `${meetingId}:moderators`;
+
+/**
+ * Build the metadata of a newly created room
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {Omit<CreateRoomPayload, 'meetingId'>} [request={}] - Settings chosen by the creator
+ * @returns {RoomMetadata} Metadata with the requested settings and schedule completed with the
+ * defaults (unlocked, no lobby, nobody banned, one presenter at a time, no schedule), a new history
+ * session and the `waiting` state
+ */
+export const createRoomMetadata = (
+  meetingId: string,
+  request: Omit<CreateRoomPayload, 'meetingId'> = {}
+): RoomMetadata => {
+  const createdAt = new Date().toISOString();
+  const schedule = resolveSchedule(request.schedule);
+
+  return {
+    meetingId,
+    sessionId: randomUUID(),
+    createdAt,
+    isLocked: false,
+    bannedUserIds: [],
+    lobbyEnabled: request.lobbyEnabled ?? false,
+    screenSharePolicy: 'single',
+    settings: resolveRoomSettings(request),
+    state: 'waiting',
+    stateChangedAt: createdAt,
+    endsAt: null,
+    schedule,
+    startedAt: null,
+    closesAt: getClosingTime(schedule, null),
+  };
+};
+
+/**
+ * Create and store a call room unless the meeting already has one
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {Omit<CreateRoomPayload, 'meetingId'>} [request={}] - Settings chosen by the creator
+ * @returns {Promise<RoomMetadata | null>} The new room, or null if the meeting already has a room
+ * @description The call, and its history session, only starts when the first participant is
+ * admitted. Of two requests creating the same room at once, only one succeeds.
+ */
+export const createRoom = async (
+  meetingId: string,
+  request: Omit<CreateRoomPayload, 'meetingId'> = {}
+): Promise<RoomMetadata | null> => {
+  const room = createRoomMetadata(meetingId, request);
+  return (await store.createRoom(room)) ? room : null;
+};
+
+/**
+ * Delete a room created ahead of time if nobody joined it
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {string} sessionId - Session of the room the timer was set for; a newer room of the same meeting is kept
+ * @returns {Promise<void>}
+ * @private
+ */
+const expireEmptyRoom = async (io: CallServer, meetingId: string, sessionId: string): Promise<void> => {
+  emptyRoomTimers.delete(meetingId);
+
+  try {
+    const room = await store.getRoom(meetingId);
+    if (!room || room.sessionId !== sessionId || (await store.countParticipants(meetingId)) > 0) {
+      return;
+    }
+
+    await closeRoom(io, meetingId, room);
+    logger.call('cleanup', `Call room ${meetingId} deleted (nobody joined within ${EMPTY_ROOM_TIMEOUT}s)`);
+  } catch (error) {
+    logger.error('Error expiring empty call room', error);
+  }
+};
+
+/**
+ * Create a call room with its own settings before anyone joins
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CreateRoomPayload} payload - Meeting identifier and requested settings
+ * @param {boolean} [reopen=false] - Whether the creator may start again a meeting whose schedule
+ * ended it; only for designated hosts of the meeting and admins
+ * @returns {Promise<RoomMetadata | { code: CallErrorCode, message: string }>} The new room, or why
+ * it was not created: `ROOM_EXISTS` if the meeting already has a room, `MEETING_ENDED` if its
+ * schedule ended it and `reopen` is not set
+ * @description The room is deleted after {@link EMPTY_ROOM_TIMEOUT} seconds (counted from its
+ * scheduled start, if later) if nobody has joined it by then. The first user to join still becomes
+ * host. With `reopen`, creating the room lifts the `MEETING_ENDED` rejection left by an earlier
+ * schedule; otherwise the meeting stays ended, as for `call:join`.
+ * @example
+ * const result = await createRoomAhead(io, { meetingId: 'abc123', maxParticipants: 4, audioOnly: true }, true);
+ * if ('code' in result) emitCallError(socket, result.code, result.message, ack);
+ */
+export const createRoomAhead = async (
+  io: CallServer,
+  payload: CreateRoomPayload,
+  reopen: boolean = false
+): Promise<RoomMetadata | { code: CallErrorCode; message: string }> => {
+  const { meetingId, ...request } = payload;
+  if (!reopen && (await store.isMeetingEnded(meetingId))) {
+    return { code: 'MEETING_ENDED', message: 'This meeting has ended' };
+  }
+
+  const room = await createRoom(meetingId, request);
+  if (!room) {
+    return { code: 'ROOM_EXISTS', message: 'This meeting already has a call room' };
+  }
+
+  if (reopen) {
+    await store.clearMeetingEnded(meetingId);
+  }
+
+  const { startsAt } = room.schedule;
+  const untilStart = startsAt ? Math.max(Date.parse(startsAt) - Date.now(), 0) : 0;
+
+  clearTimeout(emptyRoomTimers.get(meetingId));
+  emptyRoomTimers.set(
+    meetingId,
+    setTimeout(() => void expireEmptyRoom(io, meetingId, room.sessionId), untilStart + EMPTY_ROOM_TIMEOUT * 1000)
+  );
+
+  logger.call('create', `Call room ${meetingId} created ahead`, { ...room.settings, ...room.schedule });
+  return room;
+};
+
+/**
+ * Number of rooms created ahead whose expiration is pending on this instance
+ * @returns {number} Pending expirations
+ */
+export const countEmptyRoomTimers = (): number => emptyRoomTimers.size;
+
+/**
+ * Cancel the expiration of every room created ahead on this instance
+ * @returns {void}
+ * @description Used when the server shuts down.
+ */
+export const clearEmptyRoomTimers = (): void => {
+  emptyRoomTimers.forEach(timer => clearTimeout(timer));
+  emptyRoomTimers.clear();
+};
+
+/**
+ * Build a participant entering a room
+ * @param {RoomMetadata} room - Room being entered
+ * @param {Pick<CallParticipant, 'socketId' | 'userId' | 'peerId' | 'username' | 'role'>} identity - Who enters, with which socket, peer and role
+ * @returns {CallParticipant} New participant, connected, with a fresh resume token
+ * @description The microphone and camera start as the room's settings say. Viewers always start
+ * muted with the camera off, and cameras stay off in audio-only rooms.
+ */
+export const buildParticipant = (
+  room: RoomMetadata,
+  identity: Pick<CallParticipant, 'socketId' | 'userId' | 'peerId' | 'username' | 'role'>
+): CallParticipant => {
+  const { settings } = room;
+
+  return {
+    ...identity,
+    meetingId: room.meetingId,
+    isMuted: settings.startMuted || identity.role === 'viewer',
+    isVideoOn: !settings.startCameraOff && !settings.audioOnly && identity.role !== 'viewer',
+    isScreenSharing: false,
+    screenStreamId: null,
+    handRaisedAt: null,
+    joinedAt: new Date().toISOString(),
+    connectionState: 'connected',
+    resumeToken: createResumeToken(),
+  };
+};
+
+/**
+ * Generate a secret for resuming a participant's session
+ * @returns {string} Random URL-safe token
+ */
+export const createResumeToken = (): string => randomBytes(24).toString('base64url');
+
+/**
+ * Change the state of a call and tell its participants
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {RoomMetadata} room - Room to update
+ * @param {CallState} state - New state
+ * @param {string | null} [endsAt=null] - When a `waiting` or `ending` call ends
+ * @returns {Promise<boolean>} False if the room was deleted, or its state or countdown changed
+ * since it was read, leaving the stored state as it is
+ * @description Ending a call applies whatever the stored state, and an ended call never changes again.
+ * @fires CallEvents#STATE - Emitted to all participants in the room when the state is changed
+ */
+export const setCallState = async (
+  io: CallServer,
+  room: RoomMetadata,
+  state: CallState,
+  endsAt: string | null = null
+): Promise<boolean> => {
+  const previousState = room.state;
+  const timestamp = new Date().toISOString();
+
+  const changed = await store.updateRoom(
+    room.meetingId,
+    { state, stateChangedAt: timestamp, endsAt },
+    state === 'ended' ? {} : { state: previousState, endsAt: room.endsAt }
+  );
+  if (!changed) return false;
+
+  room.state = state;
+  room.stateChangedAt = timestamp;
+  room.endsAt = endsAt;
+
+  io.to(room.meetingId).emit(CallEvents.STATE, {
+    meetingId: room.meetingId,
+    state,
+    previousState,
+    participants: await store.countParticipants(room.meetingId),
+    minParticipants: getMinParticipants(room.settings),
+    endsAt,
+    timestamp,
+  });
+
+  logger.call('state', `Call ${room.meetingId} is ${state} (was ${previousState})`);
+  return true;
+};
+
+/**
+ * Put a participant's socket into the call and exchange peers
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CallParticipant} participant - Participant joining, reconnecting or admitted from the lobby
+ * @param {boolean} [isResume=false] - Whether the participant resumes an existing session
+ * @returns {Promise<number | null>} Number of participants in the room, or null if the room is
+ * full or no longer exists and the participant was not admitted
+ * @description Stores the participant, within the room's capacity, and its socket mapping, adds
+ * the socket to the meeting room (and the moderators room for hosts and co-hosts), sends it the
+ * existing peers and its resume token, and announces it to everyone else. This is the only way into a call, so peer
+ * identifiers are never exposed to users still waiting in the lobby. The first participant starts
+ * the call and the clock of the schedule's `maxDuration`, publishing `call-started`. Publishes
+ * `participant-joined` unless a held slot is resumed.
+ * @fires CallEvents#PEERS_LIST - Emitted to the joining participant with list of existing peers
+ * @fires CallEvents#PEER_JOINED - Emitted to all other participants in the room for a new participant
+ * @fires CallEvents#PEER_RECONNECTED - Emitted to all other participants in the room for a resumed session
+ * @fires CallEvents#LOBBY_UPDATE - Emitted to a joining moderator when users are waiting
+ */
+export const admitParticipant = async (
+  io: CallServer,
+  participant: CallParticipant,
+  isResume: boolean = false
+): Promise<number | null> => {
+  const { meetingId, userId, socketId } = participant;
+
+  // The capacity is checked again as the participant is stored, so concurrent joins cannot exceed it
+  const room = await store.getRoom(meetingId);
+  if (!room || !(await store.addParticipant(participant, room.settings.maxParticipants))) {
+    return null;
+  }
+  recordJoin(isResume);
+
+  // A room created ahead is in use now
+  clearTimeout(emptyRoomTimers.get(meetingId));
+  emptyRoomTimers.delete(meetingId);
+
+  // Map socket to user for disconnect handling
+  await store.setSocketMapping(socketId, { meetingId, userId });
+
+  // Join the socket room
+  io.in(socketId).socketsJoin(meetingId);
+
+  const participants = await store.getParticipants(meetingId);
+
+  // Only the first of several participants admitted at once starts the call
+  if (room.startedAt === null) {
+    const startedAt = participant.joinedAt;
+    const closesAt = getClosingTime(room.schedule, startedAt);
+    if (await store.updateRoom(meetingId, { startedAt, closesAt }, { startedAt: null })) {
+      room.startedAt = startedAt;
+      room.closesAt = closesAt;
+      emitCallLifecycle('call-started', { sessionId: room.sessionId, meetingId, startedAt });
+    }
+  }
+
+  // Get list of other participants (excluding self)
+  const otherParticipants = participants
+    .filter(p => p.userId !== userId)
+    .map(p => ({
+      userId: p.userId,
+      peerId: p.peerId,
+      username: p.username,
+      role: p.role,
+      isMuted: p.isMuted,
+      isVideoOn: p.isVideoOn,
+      isScreenSharing: p.isScreenSharing,
+      screenStreamId: p.screenStreamId,
+      handRaisedAt: p.handRaisedAt,
+      joinedAt: p.joinedAt,
+      connectionState: p.connectionState,
+    }));
+
+  // Send list of existing peers to the new participant
+  io.to(socketId).emit(CallEvents.PEERS_LIST, {
+    meetingId,
+    participants: otherParticipants,
+    count: otherParticipants.length,
+    resumeToken: participant.resumeToken,
+    settings: room.settings,
+    state: room.state,
+    closesAt: room.closesAt,
+  });
+
+  // Notify other participants about the new (or returning) peer
+  if (isResume) {
+    io.to(meetingId).except(socketId).emit(CallEvents.PEER_RECONNECTED, {
+      userId,
+      peerId: participant.peerId,
+      username: participant.username,
+      timestamp: new Date().toISOString(),
+    });
+  } else {
+    io.to(meetingId).except(socketId).emit(CallEvents.PEER_JOINED, {
+      userId,
+      peerId: participant.peerId,
+      username: participant.username,
+      role: participant.role,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  if (MODERATOR_ROLES.includes(participant.role)) {
+    io.in(socketId).socketsJoin(moderatorsRoom(meetingId));
+    await notifyLobbyUpdate(io, meetingId, socketId, false);
+  }
+
+  if (!isResume) {
+    emitCallLifecycle('participant-joined', {
+      sessionId: room.sessionId,
+      participant,
+      participantCount: participants.length,
+    });
+  }
+
+  return participants.length;
+};
+
+/**
+ * Set a participant's microphone state and notify the room
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CallParticipant} participant - Participant to update
+ * @param {boolean} isMuted - New mute status
+ * @returns {Promise<void>}
+ * @fires CallEvents#MUTE_STATUS - Emitted to all participants in the room
+ */
+export const setParticipantMuted = async (
+  io: CallServer,
+  participant: CallParticipant,
+  isMuted: boolean
+): Promise<void> => {
+  participant.isMuted = isMuted;
+  await store.saveParticipant(participant);
+
+  io.to(participant.meetingId).emit(CallEvents.MUTE_STATUS, {
+    userId: participant.userId,
+    username: participant.username,
+    isMuted,
+    timestamp: new Date().toISOString(),
+  });
+};
+
+/**
+ * Set a participant's camera state and notify the room
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CallParticipant} participant - Participant to update
+ * @param {boolean} isVideoOn - New video status
+ * @returns {Promise<void>}
+ * @fires CallEvents#VIDEO_STATUS - Emitted to all participants in the room
+ */
+export const setParticipantVideo = async (
+  io: CallServer,
+  participant: CallParticipant,
+  isVideoOn: boolean
+): Promise<void> => {
+  participant.isVideoOn = isVideoOn;
+  await store.saveParticipant(participant);
+
+  io.to(participant.meetingId).emit(CallEvents.VIDEO_STATUS, {
+    userId: participant.userId,
+    username: participant.username,
+    isVideoOn,
+    timestamp: new Date().toISOString(),
+  });
+};
+
+/**
+ * Set a participant's screen share and notify the room
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CallParticipant} participant - Participant to update
+ * @param {string | null} streamId - Peer or stream identifier of the share, or null to stop it
+ * @returns {Promise<void>}
+ * @fires CallEvents#SCREEN_SHARE_STATUS - Emitted to all participants in the room
+ */
+export const setParticipantScreenShare = async (
+  io: CallServer,
+  participant: CallParticipant,
+  streamId: string | null
+): Promise<void> => {
+  participant.isScreenSharing = streamId !== null;
+  participant.screenStreamId = streamId;
+  await store.saveParticipant(participant);
+
+  io.to(participant.meetingId).emit(CallEvents.SCREEN_SHARE_STATUS, {
+    userId: participant.userId,
+    username: participant.username,
+    isScreenSharing: participant.isScreenSharing,
+    streamId,
+    timestamp: new Date().toISOString(),
+  });
+};
+
+/**
+ * Get a room's raised hands in the order they were raised
+ * @param {string} meetingId - Meeting/room identifier
+ * @returns {Promise<RaisedHand[]>} The raised hand queue
+ */
+export const getHandQueue = async (meetingId: string): Promise<RaisedHand[]> => {
+  const participants = await store.getParticipants(meetingId);
+
+  return participants
+    .filter(p => p.handRaisedAt !== null)
+    .sort((a, b) => (a.handRaisedAt as string).localeCompare(b.handRaisedAt as string))
+    .map(p => ({ userId: p.userId, username: p.username, raisedAt: p.handRaisedAt as string }));
+};
+
+/**
+ * Broadcast a room's raised hand queue
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @returns {Promise<void>}
+ * @fires CallEvents#HAND_QUEUE - Emitted to all participants in the room
+ */
+export const notifyHandQueue = async (io: CallServer, meetingId: string): Promise<void> => {
+  io.to(meetingId).emit(CallEvents.HAND_QUEUE, {
+    meetingId,
+    queue: await getHandQueue(meetingId),
+  });
+};
+
+/**
+ * Raise or lower a participant's hand and notify the room
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CallParticipant} participant - Participant to update
+ * @param {boolean} isRaised - Whether the hand is raised
+ * @returns {Promise<void>}
+ * @description Raising an already raised hand keeps its place in the queue.
+ * @fires CallEvents#HAND_QUEUE - Emitted to all participants in the room
+ */
+export const setParticipantHand = async (
+  io: CallServer,
+  participant: CallParticipant,
+  isRaised: boolean
+): Promise<void> => {
+  if (isRaised === (participant.handRaisedAt !== null)) return;
+
+  participant.handRaisedAt = isRaised ? new Date().toISOString() : null;
+  await store.saveParticipant(participant);
+
+  await notifyHandQueue(io, participant.meetingId);
+};
+
+/**
+ * Assign a role to a participant and notify the room
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CallParticipant} participant - Participant whose role changes
+ * @param {CallRole} role - New role
+ * @param {string | null} changedBy - User who made the change, or null when automatic
+ * @returns {Promise<void>}
+ * @description Viewers cannot publish media, so a participant demoted to viewer is muted and
+ * their camera and screen share are turned off, with the corresponding status broadcasts.
+ * @fires CallEvents#ROLE_CHANGED
+ */
+export const applyRole = async (
+  io: CallServer,
+  participant: CallParticipant,
+  role: CallRole,
+  changedBy: string | null
+): Promise<void> => {
+  const { meetingId, userId, username } = participant;
+
+  participant.role = role;
+  await store.saveParticipant(participant);
+
+  io.to(meetingId).emit(CallEvents.ROLE_CHANGED, {
+    userId,
+    username,
+    role,
+    changedBy,
+    timestamp: new Date().toISOString(),
+  });
+
+  // Only hosts and co-hosts hear about the lobby
+  if (MODERATOR_ROLES.includes(role)) {
+    io.in(participant.socketId).socketsJoin(moderatorsRoom(meetingId));
+    await notifyLobbyUpdate(io, meetingId, participant.socketId, false);
+  } else {
+    io.in(participant.socketId).socketsLeave(moderatorsRoom(meetingId));
+  }
+
+  if (role !== 'viewer') return;
+
+  if (!participant.isMuted) {
+    await setParticipantMuted(io, participant, true);
+  }
+  if (participant.isVideoOn) {
+    await setParticipantVideo(io, participant, false);
+  }
+  if (participant.isScreenSharing) {
+    await setParticipantScreenShare(io, participant, null);
+  }
+};
+
+/**
+ * Promote a remaining participant to host after the host left
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @returns {Promise<void>}
+ * @description Does nothing if another host is still present. Otherwise the earliest-joined
+ * co-host is promoted, falling back to the earliest-joined participant. Viewers are never promoted.
+ */
+export const promoteNextHost = async (io: CallServer, meetingId: string): Promise<void> => {
+  const remaining = await store.getParticipants(meetingId);
+  if (remaining.some(p => p.role === 'host')) return;
+
+  const byJoinTime = (a: CallParticipant, b: CallParticipant) => a.joinedAt.localeCompare(b.joinedAt);
+  const successor =
+    remaining.filter(p => p.role === 'co-host').sort(byJoinTime)[0] ||
+    remaining.filter(p => p.role === 'participant').sort(byJoinTime)[0];
+
+  if (successor) {
+    await applyRole(io, successor, 'host', null);
+    logger.call('role', `User ${successor.username} promoted to host in call ${meetingId}`);
+  }
+};
+
+/**
+ * Delete a room, turning away anyone still waiting in its lobby
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {RoomMetadata | null} room - The room's metadata, read before its last participant was removed
+ * @returns {Promise<void>}
+ * @description Publishes `call-ended` if anyone was admitted into the room.
+ * @fires CallEvents#LOBBY_DENIED - Emitted to waiting users
+ * @private
+ */
+const closeRoom = async (io: CallServer, meetingId: string, room: RoomMetadata | null): Promise<void> => {
+  for (const entry of await store.getLobbyEntries(meetingId)) {
+    await denyLobbyEntry(io, entry, 'ROOM_CLOSED', null);
+  }
+  await store.deleteRoom(meetingId);
+
+  clearTimeout(emptyRoomTimers.get(meetingId));
+  emptyRoomTimers.delete(meetingId);
+
+  if (room && room.startedAt !== null) {
+    recordCallEnded(room.startedAt);
+    emitCallLifecycle('call-ended', {
+      sessionId: room.sessionId,
+      meetingId,
+      startedAt: room.startedAt,
+      endedAt: new Date().toISOString(),
+    });
+  }
+};
+
+/**
+ * Remove a participant from a call and notify the room
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CallParticipant} participant - Participant to remove
+ * @param {RemovalReason} [reason] - Why the participant was removed; omitted when they left on their own
+ * @param {string | null} [removedBy] - User who removed them, or null when automatic
+ * @returns {Promise<number>} Number of participants left in the room
+ * @description Removes the participant and its socket mapping from the store and takes the socket
+ * out of the meeting room (on whichever instance it is connected). A removed participant is told
+ * why before being taken out. Empty rooms are deleted, turning away anyone still waiting in the
+ * lobby; otherwise host rights are handed over if the host left. Publishes `participant-left`,
+ * then `call-ended` when the room is deleted.
+ * @fires CallEvents#REMOVED - Emitted to the removed participant when a reason other than `CALL_ENDED` is given
+ * @fires CallEvents#PEER_LEFT - Emitted to all remaining participants in the room
+ * @fires CallEvents#HAND_QUEUE - Emitted to all remaining participants if the participant's hand was raised
+ * @fires CallEvents#LOBBY_DENIED - Emitted to waiting users when the room is deleted
+ */
+export const removeParticipant = async (
+  io: CallServer,
+  participant: CallParticipant,
+  reason?: RemovalReason,
+  removedBy: string | null = null
+): Promise<number> => {
+  const { meetingId, userId, socketId } = participant;
+
+  const room = await store.getRoom(meetingId);
+  const remaining = await store.removeParticipant(meetingId, userId);
+  await store.deleteSocketMapping(socketId);
+  recordLeave(participant.joinedAt, reason ? reason.toLowerCase() : 'left');
+
+  if (room) {
+    emitCallLifecycle('participant-left', {
+      sessionId: room.sessionId,
+      participant,
+      reason: reason ?? null,
+      leftAt: new Date().toISOString(),
+      participantCount: remaining,
+    });
+  }
+
+  // Participants of an ended call were told through call:ended already
+  if (reason && reason !== 'CALL_ENDED') {
+    io.to(socketId).emit(CallEvents.REMOVED, {
+      meetingId,
+      reason,
+      removedBy,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // Leave the socket rooms
+  io.in(socketId).socketsLeave([meetingId, moderatorsRoom(meetingId)]);
+
+  // Notify other participants
+  io.to(meetingId).emit(CallEvents.PEER_LEFT, {
+    userId,
+    peerId: participant.peerId,
+    username: participant.username,
+    timestamp: new Date().toISOString(),
+  });
+
+  logger.call('leave', `User ${participant.username} left call ${meetingId}${reason ? ` (${reason})` : ''}`);
+
+  // Clean up empty rooms
+  if (remaining === 0) {
+    await closeRoom(io, meetingId, room);
+    logger.call('cleanup', `Call room ${meetingId} deleted (empty)`);
+    return remaining;
+  }
+
+  if (participant.handRaisedAt !== null) {
+    await notifyHandQueue(io, meetingId);
+  }
+
+  // Hand host rights over so the call is never left without a host
+  if (participant.role === 'host') {
+    await promoteNextHost(io, meetingId);
+  }
+
+  logger.call('leave', `Call ${meetingId} now has ${remaining} participants`);
+  return remaining;
+};
+
+/**
+ * Ban a user from a meeting and remove them if present
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CallParticipant} participant - Participant to ban
+ * @param {string | null} bannedBy - User who issued the ban
+ * @returns {Promise<void>}
+ * @description The ban lasts as long as the room exists; `call:join` is rejected with `BANNED`.
+ */
+export const banParticipant = async (
+  io: CallServer,
+  participant: CallParticipant,
+  bannedBy: string | null
+): Promise<void> => {
+  await store.banUser(participant.meetingId, participant.userId);
+  await removeParticipant(io, participant, 'BANNED', bannedBy);
+};
+
+/**
+ * Remove or ban a participant on behalf of a moderator and tell the room
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CallParticipant} target - Participant to remove
+ * @param {boolean} ban - Whether the user may not rejoin for the rest of the meeting
+ * @param {string | null} byUserId - Moderator who removed them, or null for an operator
+ * @returns {Promise<void>}
+ * @fires CallEvents#REMOVED - Emitted to the removed participant
+ * @fires CallEvents#PEER_LEFT - Emitted to all remaining participants
+ * @fires CallEvents#MODERATION - Emitted to all remaining participants
+ */
+export const kickParticipant = async (
+  io: CallServer,
+  target: CallParticipant,
+  ban: boolean,
+  byUserId: string | null
+): Promise<void> => {
+  if (ban) {
+    await banParticipant(io, target, byUserId);
+  } else {
+    await removeParticipant(io, target, 'REMOVED_BY_HOST', byUserId);
+  }
+  notifyModeration(io, target.meetingId, ban ? 'ban' : 'remove', target.userId, byUserId);
+};
+
+/**
+ * Mute one participant on behalf of a moderator and tell the room
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CallParticipant} target - Participant to mute
+ * @param {string | null} byUserId - Moderator muting them, or null for an operator
+ * @returns {Promise<void>}
+ * @fires CallEvents#MUTE_STATUS - Emitted to all participants in the room, unless already muted
+ * @fires CallEvents#MODERATION - Emitted to all participants in the room
+ */
+export const forceMuteParticipant = async (
+  io: CallServer,
+  target: CallParticipant,
+  byUserId: string | null
+): Promise<void> => {
+  if (!target.isMuted) {
+    await setParticipantMuted(io, target, true);
+  }
+  notifyModeration(io, target.meetingId, 'mute', target.userId, byUserId);
+};
+
+/**
+ * Mute every participant of a call except the hosts
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {string | null} byUserId - Moderator muting the call (never muted), or null for an operator
+ * @returns {Promise<number>} Number of participants muted
+ * @fires CallEvents#MUTE_STATUS - Emitted to all participants for each muted participant
+ * @fires CallEvents#MODERATION - Emitted to all participants in the room
+ */
+export const muteAllParticipants = async (
+  io: CallServer,
+  meetingId: string,
+  byUserId: string | null
+): Promise<number> => {
+  let muted = 0;
+
+  for (const participant of await store.getParticipants(meetingId)) {
+    if (participant.userId !== byUserId && participant.role !== 'host' && !participant.isMuted) {
+      await setParticipantMuted(io, participant, true);
+      muted += 1;
+    }
+  }
+  notifyModeration(io, meetingId, 'mute-all', null, byUserId);
+  return muted;
+};
+
+/**
+ * End a call for everyone
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {string | null} endedBy - User who ended the call, or null for an operator
+ * @returns {Promise<number>} Number of participants removed, including those reconnecting
+ * @description Moves the call to `ended` and tells the room, takes every socket out of it, then
+ * removes the participants one by one with `CALL_ENDED`, so the history, metrics and webhooks see
+ * the same leaves as usual. Removing the last one deletes the room and turns the lobby away.
+ * @fires CallEvents#STATE - Emitted to all participants in the room
+ * @fires CallEvents#ENDED - Emitted to all participants in the room
+ * @fires CallEvents#LOBBY_DENIED - Emitted to waiting users
+ */
+export const endCall = async (io: CallServer, meetingId: string, endedBy: string | null): Promise<number> => {
+  const [room, participants] = await Promise.all([
+    store.getRoom(meetingId),
+    store.getParticipants(meetingId),
+  ]);
+
+  if (room) {
+    await setCallState(io, room, 'ended');
+  }
+
+  io.to(meetingId).emit(CallEvents.ENDED, {
+    meetingId,
+    endedBy,
+    timestamp: new Date().toISOString(),
+  });
+
+  // Nobody is left to hear about the others leaving
+  io.in(meetingId).socketsLeave([meetingId, moderatorsRoom(meetingId)]);
+
+  for (const participant of participants) {
+    await removeParticipant(io, participant, 'CALL_ENDED', endedBy);
+  }
+
+  // A room without participants is not deleted by the last removal
+  if (participants.length === 0) {
+    await closeRoom(io, meetingId, room);
+  }
+
+  logger.call('ended', `Call ${meetingId} ended for everyone${endedBy ? ` by ${endedBy}` : ''}`);
+  return participants.length;
+};
+
+/**
+ * Lock or unlock a room
+ * @param {RoomMetadata} room - Room to update
+ * @param {boolean} isLocked - Whether new joins are rejected
+ * @returns {Promise<void>}
+ * @description While locked, `call:join` is rejected with `ROOM_LOCKED` for anyone who is not
+ * already in the call or a designated host.
+ */
+export const setRoomLocked = async (room: RoomMetadata, isLocked: boolean): Promise<void> => {
+  room.isLocked = isLocked;
+  await store.updateRoom(room.meetingId, { isLocked });
+};
+
+/**
+ * Set whether one or several participants may share their screen at once
+ * @param {RoomMetadata} room - Room to update
+ * @param {ScreenSharePolicy} policy - New policy
+ * @returns {Promise<void>}
+ * @description Switching to `single` does not stop shares already running; new shares are
+ * rejected with `SCREEN_SHARE_BUSY` until they have all stopped.
+ */
+export const setRoomScreenSharePolicy = async (room: RoomMetadata, policy: ScreenSharePolicy): Promise<void> => {
+  room.screenSharePolicy = policy;
+  await store.updateRoom(room.meetingId, { screenSharePolicy: policy });
+};
+
+/**
+ * Broadcast a moderation action to the room
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {ModerationAction} action - Action that was taken
+ * @param {string | null} targetUserId - Affected user, or null for room-wide actions
+ * @param {string | null} byUserId - Moderator who took the action
+ * @returns {void}
+ * @description Also publishes the `moderation` lifecycle event.
+ * @fires CallEvents#MODERATION
+ */
+export const notifyModeration = (
+  io: CallServer,
+  meetingId: string,
+  action: ModerationAction,
+  targetUserId: string | null,
+  byUserId: string | null
+): void => {
+  const notification: ModerationNotification = {
+    meetingId,
+    action,
+    targetUserId,
+    byUserId,
+    timestamp: new Date().toISOString(),
+  };
+
+  io.to(meetingId).emit(CallEvents.MODERATION, notification);
+  emitCallLifecycle('moderation', notification);
+  logger.call('moderation', `${action} in call ${meetingId}`, { targetUserId, byUserId });
+};
+
+/**
+ * Send the current lobby to the room's moderators
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {string} [target] - Socket or room to notify; defaults to all hosts and co-hosts
+ * @param {boolean} [whenEmpty=true] - Whether to send the update when nobody is waiting
+ * @returns {Promise<void>}
+ * @fires CallEvents#LOBBY_UPDATE
+ */
+export const notifyLobbyUpdate = async (
+  io: CallServer,
+  meetingId: string,
+  target: string = moderatorsRoom(meetingId),
+  whenEmpty: boolean = true
+): Promise<void> => {
+  const entries = await store.getLobbyEntries(meetingId);
+  if (entries.length === 0 && !whenEmpty) return;
+
+  io.to(target).emit(CallEvents.LOBBY_UPDATE, {
+    meetingId,
+    waiting: entries.map(e => ({ userId: e.userId, username: e.username, requestedAt: e.requestedAt })),
+  });
+};
+
+/**
+ * Place a user in a room's lobby
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {LobbyEntry} entry - Waiting user; an existing entry of the same user is replaced
+ * @returns {Promise<void>}
+ * @description The user's socket is mapped to the meeting so a disconnect clears the entry, but it
+ * is not added to the meeting room.
+ * @fires CallEvents#LOBBY_WAITING - Emitted to the waiting user
+ * @fires CallEvents#LOBBY_UPDATE - Emitted to the room's moderators
+ */
+export const enterLobby = async (io: CallServer, entry: LobbyEntry): Promise<void> => {
+  const { meetingId, userId, socketId } = entry;
+
+  await store.saveLobbyEntry(entry);
+  await store.setSocketMapping(socketId, { meetingId, userId });
+
+  io.to(socketId).emit(CallEvents.LOBBY_WAITING, { meetingId, requestedAt: entry.requestedAt });
+  await notifyLobbyUpdate(io, meetingId);
+
+  logger.call('lobby', `User ${entry.username} is waiting in the lobby of call ${meetingId}`);
+};
+
+/**
+ * Admit a waiting user into the call
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {RoomMetadata} room - Room the user waited for
+ * @param {LobbyEntry} entry - Lobby entry to admit; must already be removed from the store
+ * @returns {Promise<CallParticipant | null>} The new participant, or null if the call is full or has
+ * been closed
+ * @fires CallEvents#PEERS_LIST - Emitted to the admitted user
+ * @fires CallEvents#PEER_JOINED - Emitted to all other participants in the room
+ */
+export const admitLobbyEntry = async (
+  io: CallServer,
+  room: RoomMetadata,
+  entry: LobbyEntry
+): Promise<CallParticipant | null> => {
+  const participant = buildParticipant(room, {
+    socketId: entry.socketId,
+    userId: entry.userId,
+    peerId: entry.peerId,
+    username: entry.username,
+    role: entry.role,
+  });
+
+  const count = await admitParticipant(io, participant);
+  if (count === null) return null;
+  logger.call('join', `User ${entry.username} admitted to call ${entry.meetingId} as ${entry.role} (${count} participants)`);
+
+  return participant;
+};
+
+/**
+ * Turn a waiting user away
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {LobbyEntry} entry - Lobby entry to deny
+ * @param {LobbyDeniedNotification['reason']} reason - Why the user is turned away
+ * @param {string | null} deniedBy - Moderator who denied entry, or null when automatic
+ * @returns {Promise<void>}
+ * @fires CallEvents#LOBBY_DENIED - Emitted to the denied user
+ */
+export const denyLobbyEntry = async (
+  io: CallServer,
+  entry: LobbyEntry,
+  reason: LobbyDeniedNotification['reason'],
+  deniedBy: string | null
+): Promise<void> => {
+  await store.removeLobbyEntry(entry.meetingId, entry.userId);
+  await store.deleteSocketMapping(entry.socketId);
+
+  io.to(entry.socketId).emit(CallEvents.LOBBY_DENIED, {
+    meetingId: entry.meetingId,
+    reason,
+    deniedBy,
+    timestamp: new Date().toISOString(),
+  });
+
+  logger.call('lobby', `User ${entry.username} denied entry to call ${entry.meetingId} (${reason})`);
+};
+
+/**
+ * Remove a user who gave up waiting from the lobby
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {string} userId - User identifier
+ * @param {string} socketId - Socket that is leaving; entries of a newer socket are kept
+ * @returns {Promise<void>}
+ * @fires CallEvents#LOBBY_UPDATE - Emitted to the room's moderators if the user was waiting
+ */
+export const leaveLobby = async (
+  io: CallServer,
+  meetingId: string,
+  userId: string,
+  socketId: string
+): Promise<void> => {
+  const entry = (await store.getLobbyEntries(meetingId)).find(e => e.userId === userId);
+  if (!entry || entry.socketId !== socketId) return;
+
+  await store.removeLobbyEntry(meetingId, userId);
+  await notifyLobbyUpdate(io, meetingId);
+
+  logger.call('lobby', `User ${entry.username} left the lobby of call ${meetingId}`);
+};
+
+/**
+ * Enable or disable a room's lobby
+ * @param {RoomMetadata} room - Room to update
+ * @param {boolean} lobbyEnabled - Whether joiners must wait to be admitted
+ * @returns {Promise<void>}
+ * @description Disabling the lobby does not admit anyone already waiting; moderators still decide
+ * on them with `call:lobby-admit`, `call:lobby-deny` or `call:lobby-admit-all`.
+ */
+export const setRoomLobby = async (room: RoomMetadata, lobbyEnabled: boolean): Promise<void> => {
+  room.lobbyEnabled = lobbyEnabled;
+  await store.updateRoom(room.meetingId, { lobbyEnabled });
+};
@@ -0,0 +1,190 @@
+/**
+ * Call schedule service
+ * @module services/scheduleService
+ * @description Enforces the planned times of scheduled calls: rejects joins outside their window,
+ * warns participants with `call:ending-soon` before the schedule ends a call, and ends it.
+ */
+
+import { CallClosingReason, CallErrorCode, CallEvents, CallServer, RoomMetadata } from '../types';
+import { CALL_ENDING_WARNINGS, ENDED_MEETING_RETENTION } from '../config/roomSettings';
+import { onCallLifecycle } from './callLifecycle';
+import { endCall } from './roomService';
+import { getRoomStore } from '../store';
+import { logger } from '../utils/logger';
+
+/**
+ * Storage for call rooms, their participants and socket mappings
+ */
+const store = getRoomStore();
+
+/**
+ * Warning and closing timers armed on this instance, with the closing time they were armed for
+ */
+interface ScheduleTimers {
+  /** Session the timers belong to */
+  sessionId: string;
+  /** ISO 8601 timestamp the call closes at */
+  closesAt: string;
+  /** Pending warnings and the closing itself */
+  timers: NodeJS.Timeout[];
+}
+
+/**
+ * Schedule timers of the calls on this instance. Key: meetingId
+ */
+const scheduleTimers = new Map<string, ScheduleTimers>();
+
+/**
+ * Why a join is rejected at this time
+ * @param {RoomMetadata} room - Room being joined
+ * @returns {{ code: CallErrorCode, message: string } | null} The rejection, or null within the window
+ * @description Before the schedule's `startsAt` joins fail with `MEETING_NOT_STARTED`; once the
+ * call reached its closing time they fail with `MEETING_ENDED`. Participants resuming their slot
+ * are not checked.
+ * @example
+ * const rejection = getJoinRejection(room);
+ * if (rejection) emitCallError(socket, rejection.code, rejection.message, ack);
+ */
+export const getJoinRejection = (room: RoomMetadata): { code: CallErrorCode; message: string } | null => {
+  const now = Date.now();
+  const { startsAt } = room.schedule;
+
+  if (startsAt !== null && Date.parse(startsAt) > now) {
+    return { code: 'MEETING_NOT_STARTED', message: `This meeting starts at ${startsAt}` };
+  }
+  if (room.closesAt !== null && Date.parse(room.closesAt) <= now) {
+    return { code: 'MEETING_ENDED', message: 'This meeting has ended' };
+  }
+  return null;
+};
+
+/**
+ * Cancel the warnings and closing of a call
+ * @param {string} meetingId - Meeting/room identifier
+ * @returns {void}
+ * @private
+ */
+const cancelSchedule = (meetingId: string): void => {
+  scheduleTimers.get(meetingId)?.timers.forEach(timer => clearTimeout(timer));
+  scheduleTimers.delete(meetingId);
+};
+
+/**
+ * Warn a call's participants that its schedule is about to end it
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {RoomMetadata} room - Room whose call is ending
+ * @param {CallClosingReason} reason - What ends the call
+ * @returns {void}
+ * @fires CallEvents#ENDING_SOON - Emitted to all participants in the room
+ * @private
+ */
+const warnEndingSoon = (io: CallServer, room: RoomMetadata, reason: CallClosingReason): void => {
+  const closesAt = room.closesAt as string;
+  const secondsLeft = Math.max(Math.round((Date.parse(closesAt) - Date.now()) / 1000), 0);
+
+  io.to(room.meetingId).emit(CallEvents.ENDING_SOON, {
+    meetingId: room.meetingId,
+    closesAt,
+    secondsLeft,
+    reason,
+    timestamp: new Date().toISOString(),
+  });
+
+  logger.call('schedule', `Call ${room.meetingId} ends in ${secondsLeft}s (${reason})`);
+};
+
+/**
+ * End a call whose closing time came
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {string} sessionId - Session the timer was armed for; a newer call of the same meeting is kept
+ * @returns {Promise<void>}
+ * @description Later joins are rejected with `MEETING_ENDED` for {@link ENDED_MEETING_RETENTION}
+ * seconds, or until a designated host or an admin creates the room again.
+ * @private
+ */
+const closeOnSchedule = async (io: CallServer, meetingId: string, sessionId: string): Promise<void> => {
+  scheduleTimers.delete(meetingId);
+
+  try {
+    const room = await store.getRoom(meetingId);
+    if (!room || room.sessionId !== sessionId || room.state === 'ended') return;
+
+    await store.markMeetingEnded(meetingId, ENDED_MEETING_RETENTION);
+    logger.call('schedule', `Call ${meetingId} reached its closing time ${room.closesAt}`);
+    await endCall(io, meetingId, null);
+  } catch (error) {
+    logger.error('Error ending scheduled call', error);
+  }
+};
+
+/**
+ * Arm the warnings and closing of a call on this instance
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @returns {Promise<void>}
+ * @description Does nothing for calls without a closing time, or already armed for it. Warnings
+ * whose offset has already passed are skipped.
+ * @private
+ */
+const armSchedule = async (io: CallServer, meetingId: string): Promise<void> => {
+  const room = await store.getRoom(meetingId);
+  if (!room || room.closesAt === null) return;
+
+  const armed = scheduleTimers.get(meetingId);
+  if (armed && armed.sessionId === room.sessionId && armed.closesAt === room.closesAt) return;
+
+  cancelSchedule(meetingId);
+
+  const closesAt = Date.parse(room.closesAt);
+  const reason: CallClosingReason = room.closesAt === room.schedule.endsAt ? 'scheduled-end' : 'max-duration';
+  const timers: NodeJS.Timeout[] = [];
+
+  for (const offset of CALL_ENDING_WARNINGS) {
+    const delay = closesAt - offset * 1000 - Date.now();
+    if (delay > 0) {
+      timers.push(setTimeout(() => warnEndingSoon(io, room, reason), delay));
+    }
+  }
+  timers.push(setTimeout(
+    () => void closeOnSchedule(io, meetingId, room.sessionId),
+    Math.max(closesAt - Date.now(), 0)
+  ));
+
+  scheduleTimers.set(meetingId, { sessionId: room.sessionId, closesAt: room.closesAt, timers });
+};
+
+/**
+ * Number of calls whose schedule is armed on this instance
+ * @returns {number} Calls with pending warnings or closing
+ */
+export const countScheduleTimers = (): number => scheduleTimers.size;
+
+/**
+ * Cancel the warnings and closings of every call on this instance
+ * @returns {void}
+ * @description Used when the server shuts down.
+ */
+export const clearScheduleTimers = (): void => {
+  scheduleTimers.forEach((_armed, meetingId) => cancelSchedule(meetingId));
+};
+
+/**
+ * Start enforcing call schedules from the call lifecycle events
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @returns {void}
+ * @description Timers are armed when a scheduled call starts with its first join, and checked
+ * again on every later join. They run on the instance that armed them.
+ * @example
+ * registerCallScheduler(io);
+ */
+export const registerCallScheduler = (io: CallServer): void => {
+  const arm = (meetingId: string) => armSchedule(io, meetingId)
+    .catch(error => logger.error(`Error scheduling call ${meetingId}`, error));
+
+  onCallLifecycle('call-started', ({ meetingId }) => arm(meetingId));
+
+  onCallLifecycle('participant-joined', ({ participant }) => arm(participant.meetingId));
+
+  onCallLifecycle('call-ended', ({ meetingId }) => cancelSchedule(meetingId));
+};
@@ -0,0 +1,143 @@
+/**
+ * Session resumption service
+ * @module services/sessionService
+ * @description Keeps a participant's slot during a short grace period after their socket drops,
+ * so a network blip does not tear down every peer's WebRTC connections. The participant can
+ * reclaim the slot from a new socket with the resume token sent in `call:peers-list`.
+ */
+
+import { CallEvents, CallParticipant, CallServer } from '../types';
+import { removeParticipant, setParticipantScreenShare } from './roomService';
+import { getRoomStore } from '../store';
+import { logger } from '../utils/logger';
+
+/**
+ * Storage for call rooms, their participants and socket mappings
+ */
+const store = getRoomStore();
+
+/**
+ * Seconds a disconnected participant keeps their slot
+ * @constant {number}
+ * @default 30
+ * @description `0` removes participants as soon as their socket disconnects.
+ */
+export const RECONNECT_GRACE_PERIOD = parseInt(process.env.RECONNECT_GRACE_PERIOD || '30', 10);
+
+/**
+ * Pending slot expirations on this instance. Key: `${meetingId}:${userId}`
+ */
+const graceTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Build the key of a grace timer
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {string} userId - User identifier
+ * @returns {string} Timer key
+ * @private
+ */
+const timerKey = (meetingId: string, userId: string): string => `${meetingId}:${userId}`;
+
+/**
+ * Remove a participant whose grace period expired
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {string} userId - User identifier
+ * @param {string} socketId - Socket that dropped
+ * @returns {Promise<void>}
+ * @description Does nothing if the participant resumed in the meantime (possibly on another
+ * instance) or was removed already.
+ * @private
+ */
+const expireSlot = async (
+  io: CallServer,
+  meetingId: string,
+  userId: string,
+  socketId: string
+): Promise<void> => {
+  graceTimers.delete(timerKey(meetingId, userId));
+
+  try {
+    const participant = await store.getParticipant(meetingId, userId);
+    if (!participant || participant.socketId !== socketId || participant.connectionState !== 'reconnecting') {
+      return;
+    }
+
+    logger.call('reconnect', `Grace period of ${participant.username} expired in call ${meetingId}`);
+    await removeParticipant(io, participant);
+
+  } catch (error) {
+    logger.error('Error expiring reconnection grace period', error);
+  }
+};
+
+/**
+ * Keep a disconnected participant's slot for the grace period
+ * @param {CallServer} io - Socket.IO server instance for broadcasting events
+ * @param {CallParticipant} participant - Participant whose socket dropped
+ * @returns {Promise<void>}
+ * @description Marks the participant `reconnecting` and removes them once
+ * {@link RECONNECT_GRACE_PERIOD} elapses without a resume. A screen share dies with the
+ * connection, so it is stopped right away.
+ * @fires CallEvents#PEER_RECONNECTING - Emitted to all other participants in the room
+ * @fires CallEvents#SCREEN_SHARE_STATUS - Emitted to all other participants if the participant was sharing
+ */
+export const holdParticipantSlot = async (io: CallServer, participant: CallParticipant): Promise<void> => {
+  const { meetingId, userId, socketId } = participant;
+  const expiresAt = new Date(Date.now() + RECONNECT_GRACE_PERIOD * 1000);
+
+  participant.connectionState = 'reconnecting';
+  await store.saveParticipant(participant);
+
+  if (participant.isScreenSharing) {
+    await setParticipantScreenShare(io, participant, null);
+  }
+
+  io.to(meetingId).emit(CallEvents.PEER_RECONNECTING, {
+    userId,
+    peerId: participant.peerId,
+    username: participant.username,
+    expiresAt: expiresAt.toISOString(),
+    timestamp: new Date().toISOString(),
+  });
+
+  const key = timerKey(meetingId, userId);
+  clearTimeout(graceTimers.get(key));
+  graceTimers.set(
+    key,
+    setTimeout(() => void expireSlot(io, meetingId, userId, socketId), RECONNECT_GRACE_PERIOD * 1000)
+  );
+
+  logger.call('reconnect', `User ${participant.username} is reconnecting to call ${meetingId}`);
+};
+
+/**
+ * Cancel the pending expiration of a participant's slot
+ * @param {string} meetingId - Meeting/room identifier
+ * @param {string} userId - User identifier
+ * @returns {void}
+ * @description Only affects timers on this instance; a timer elsewhere finds the slot resumed
+ * and does nothing.
+ */
+export const cancelSlotExpiry = (meetingId: string, userId: string): void => {
+  const key = timerKey(meetingId, userId);
+  clearTimeout(graceTimers.get(key));
+  graceTimers.delete(key);
+};
+
+/**
+ * Number of slot expirations pending on this instance
+ * @returns {number} Participants whose slot is held by a timer here
+ */
+export const countSlotExpiries = (): number => graceTimers.size;
+
+/**
+ * Cancel every pending slot expiration on this instance
+ * @returns {void}
+ * @description Used when the server shuts down. Held slots stay in the store, so with a shared
+ * store their participants can still resume them on another instance.
+ */
+export const clearSlotExpiries = (): void => {
+  graceTimers.forEach(timer => clearTimeout(timer));
+  graceTimers.clear();
+};
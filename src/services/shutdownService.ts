@@ -0,0 +1,248 @@
+/**
+ * Graceful shutdown service
+ * @module services/shutdownService
+ * @description Stops a server instance without cutting calls off: on SIGTERM or SIGINT it refuses
+ * new joins, tells connected clients to reconnect elsewhere and gives them time to leave, closes
+ * Socket.IO and the HTTP server, then flushes pending state and logs before the process exits.
+ * An uncaught exception goes through the same steps, without waiting for clients to leave.
+ */
+
+import { ExtendedError } from 'socket.io';
+import { CallError, CallEvents, CallServer, CallSocket } from '../types';
+import { closeRedisAdapter, isRedisEnabled } from '../config/redis';
+import { getHistoryStore } from '../history';
+import { settleCallLifecycle } from './callLifecycle';
+import { clearEndingTimers } from './callStateService';
+import { recordRejectedConnection } from './metricsService';
+import { clearEmptyRoomTimers } from './roomService';
+import { clearScheduleTimers } from './scheduleService';
+import { clearSlotExpiries } from './sessionService';
+import { flushWebhooks } from './webhookService';
+import { getRoomStore } from '../store';
+import { flushLogs, logger } from '../utils/logger';
+
+/**
+ * Seconds connected clients are given to leave before their sockets are closed
+ * @constant {number}
+ * @default 10
+ */
+export const SHUTDOWN_DRAIN_TIMEOUT = parseInt(process.env.SHUTDOWN_DRAIN_TIMEOUT || '10', 10);
+
+/**
+ * Seconds clients are asked to wait before reconnecting, sent in `call:server-shutdown`
+ * @constant {number}
+ * @default 2
+ * @description Leaves the load balancer time to stop routing new connections to this instance.
+ */
+export const SHUTDOWN_RECONNECT_AFTER = parseInt(process.env.SHUTDOWN_RECONNECT_AFTER || '2', 10);
+
+/**
+ * Seconds after which the process exits even if the shutdown has not finished
+ * @constant {number}
+ * @default 30
+ */
+export const SHUTDOWN_TIMEOUT = parseInt(process.env.SHUTDOWN_TIMEOUT || '30', 10);
+
+/**
+ * Seconds after which the process exits even if the shutdown after an uncaught exception has not finished
+ * @constant {number}
+ * @default 5
+ * @description Kept short since the process may be left in a broken state.
+ */
+export const SHUTDOWN_CRASH_TIMEOUT = parseInt(process.env.SHUTDOWN_CRASH_TIMEOUT || '5', 10);
+
+/**
+ * Whether the shutdown has started
+ */
+let shuttingDown = false;
+
+/**
+ * Work the shutdown waits for before closing the stores, such as disconnect handlers
+ */
+const deferredTasks = new Set<Promise<unknown>>();
+
+/**
+ * Whether this instance is shutting down
+ * @returns {boolean} True once SIGTERM, SIGINT or an uncaught exception was received; joins and new rooms are then refused
+ */
+export const isShuttingDown = (): boolean => shuttingDown;
+
+/**
+ * Keep the shutdown from closing the stores until a task has finished
+ * @param {Promise<unknown>} task - Work that still reads or writes call state
+ * @returns {void}
+ * @example
+ * deferShutdown(handleDisconnect());
+ */
+export const deferShutdown = (task: Promise<unknown>): void => {
+  deferredTasks.add(task);
+  task
+    .finally(() => deferredTasks.delete(task))
+    .catch(() => undefined);
+};
+
+/**
+ * Socket.IO handshake middleware that turns new connections away during the shutdown
+ * @param {CallSocket} socket - Socket attempting to connect
+ * @param {Function} next - Callback to accept or reject the connection
+ * @returns {void}
+ * @description Rejects with `SERVER_SHUTTING_DOWN`, so that clients retry and reach another instance.
+ */
+export const rejectConnectionsDuringShutdown = (
+  socket: CallSocket,
+  next: (err?: ExtendedError) => void
+): void => {
+  if (!shuttingDown) {
+    next();
+    return;
+  }
+
+  recordRejectedConnection('SERVER_SHUTTING_DOWN');
+  logger.socket('shutdown', `Rejected connection ${socket.id}: server is shutting down`);
+
+  const message = 'Server is shutting down';
+  const error: ExtendedError = new Error(message);
+  error.data = { message, code: 'SERVER_SHUTTING_DOWN' } satisfies CallError;
+  next(error);
+};
+
+/**
+ * Tell the clients of this instance to reconnect and wait for them to leave
+ * @param {CallServer} io - Socket.IO server instance
+ * @returns {Promise<void>} Resolves once no socket is connected or {@link SHUTDOWN_DRAIN_TIMEOUT} elapsed
+ * @description Only sockets connected to this instance are notified; with the Redis adapter,
+ * participants of the same calls on other instances are not affected.
+ * @fires CallEvents#SERVER_SHUTDOWN - Emitted to every socket connected to this instance
+ * @private
+ */
+const drainConnections = async (io: CallServer): Promise<void> => {
+  const connected = io.sockets.sockets.size;
+  if (connected === 0) return;
+
+  const deadline = Date.now() + SHUTDOWN_DRAIN_TIMEOUT * 1000;
+  io.local.emit(CallEvents.SERVER_SHUTDOWN, {
+    reconnectAfter: SHUTDOWN_RECONNECT_AFTER,
+    disconnectAt: new Date(deadline).toISOString(),
+    timestamp: new Date().toISOString(),
+  });
+  logger.info(`Waiting up to ${SHUTDOWN_DRAIN_TIMEOUT}s for ${connected} connection(s) to close`);
+
+  while (io.sockets.sockets.size > 0 && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+};
+
+/**
+ * Wait for the deferred tasks, including those started while waiting
+ * @returns {Promise<void>}
+ * @private
+ */
+const settleDeferredTasks = async (): Promise<void> => {
+  while (deferredTasks.size > 0) {
+    await Promise.allSettled(deferredTasks);
+  }
+};
+
+/**
+ * Stop the server instance
+ * @param {CallServer} io - Socket.IO server instance
+ * @param {boolean} drain - Whether to give connected clients time to leave
+ * @returns {Promise<number>} Exit code: 0 once everything was closed, 1 on error
+ * @description In order:
+ * 1. Joins, room creations and new connections are refused.
+ * 2. When draining, connected clients receive `call:server-shutdown` and up to
+ *    {@link SHUTDOWN_DRAIN_TIMEOUT} seconds to leave.
+ * 3. Socket.IO closes the remaining sockets and the HTTP server; their disconnect handlers run as
+ *    usual, so participants keep their slot for the reconnection grace period.
+ * 4. Timers are cancelled, webhooks and the history file are flushed and the stores closed.
+ * @private
+ */
+const shutdownServer = async (io: CallServer, drain: boolean): Promise<number> => {
+  shuttingDown = true;
+
+  try {
+    if (drain) {
+      await drainConnections(io);
+    }
+
+    // Also closes the HTTP server it is attached to, once the requests in progress are answered
+    await new Promise<void>(resolve => io.close(() => resolve()));
+    logger.info('Socket.IO and HTTP server closed');
+
+    // Disconnect handlers and the listeners of the events they publish still use the stores
+    await settleDeferredTasks();
+    await settleCallLifecycle();
+
+    clearSlotExpiries();
+    clearEmptyRoomTimers();
+    clearEndingTimers();
+    clearScheduleTimers();
+
+    await flushWebhooks();
+    await getHistoryStore().close();
+    await getRoomStore().close();
+    if (isRedisEnabled()) {
+      await closeRedisAdapter();
+    }
+
+    logger.success('Shutdown complete');
+    return 0;
+
+  } catch (error) {
+    logger.error('Error during shutdown', error);
+    return 1;
+  }
+};
+
+/**
+ * Shut the server down gracefully on SIGTERM and SIGINT, and after an uncaught exception
+ * @param {CallServer} io - Socket.IO server instance, attached to the HTTP server
+ * @returns {void}
+ * @description The process exits once the shutdown is done, or after {@link SHUTDOWN_TIMEOUT}
+ * seconds. A second signal exits immediately. After an uncaught exception, connections are not
+ * drained, the process exits with code 1 and waits at most {@link SHUTDOWN_CRASH_TIMEOUT} seconds;
+ * an exception thrown while already shutting down exits immediately.
+ * @example
+ * registerShutdownHandlers(io);
+ */
+export const registerShutdownHandlers = (io: CallServer): void => {
+  const exit = (code: number): void => {
+    void flushLogs().finally(() => process.exit(code));
+  };
+
+  const shutDown = (drain: boolean, timeout: number): Promise<number> => {
+    setTimeout(() => {
+      logger.error(`Shutdown did not finish within ${timeout}s, exiting`);
+      exit(1);
+    }, timeout * 1000).unref();
+
+    return shutdownServer(io, drain);
+  };
+
+  const onSignal = (signal: NodeJS.Signals): void => {
+    if (shuttingDown) {
+      logger.warn(`${signal} received again, exiting immediately`);
+      exit(1);
+      return;
+    }
+
+    logger.warn(`${signal} received, shutting down`);
+    void shutDown(true, SHUTDOWN_TIMEOUT).then(exit);
+  };
+
+  const onUncaughtException = (error: Error): void => {
+    logger.error('Uncaught Exception:', error);
+
+    if (shuttingDown) {
+      exit(1);
+      return;
+    }
+
+    logger.warn('Shutting down after an uncaught exception');
+    void shutDown(false, SHUTDOWN_CRASH_TIMEOUT).then(() => exit(1));
+  };
+
+  process.on('SIGTERM', onSignal);
+  process.on('SIGINT', onSignal);
+  process.on('uncaughtException', onUncaughtException);
+};
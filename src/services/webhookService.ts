@@ -0,0 +1,315 @@
+/**
+ * Webhook delivery service
+ * @module services/webhookService
+ * @description Sends call lifecycle events to the configured webhook endpoints as signed JSON
+ * POST requests. Deliveries run in the background through a queue, are retried with exponential
+ * backoff and end up in a dead-letter file when every attempt failed.
+ */
+
+import { randomUUID } from 'crypto';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import {
+  WEBHOOK_CONCURRENCY,
+  WEBHOOK_DEAD_LETTER_FILE,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_DELAY,
+  WEBHOOK_SUBSCRIPTIONS,
+  WEBHOOK_TIMEOUT,
+  WebhookEventType,
+  WebhookSubscription,
+} from '../config/webhooks';
+import { CallParticipant } from '../types';
+import { onCallLifecycle } from './callLifecycle';
+import { logger } from '../utils/logger';
+import { signWebhook } from '../utils/webhookSignature';
+
+/**
+ * Body of a webhook request
+ * @interface WebhookEvent
+ */
+export interface WebhookEvent {
+  /** Unique event identifier, the same for every attempt; receivers should ignore duplicates */
+  id: string;
+  /** Event type */
+  type: WebhookEventType;
+  /** ISO 8601 timestamp of when the event happened */
+  createdAt: string;
+  /** Event details */
+  data: Record<string, unknown>;
+}
+
+/**
+ * One event to deliver to one endpoint
+ * @interface Delivery
+ * @private
+ */
+interface Delivery {
+  /** Endpoint to deliver to */
+  subscription: WebhookSubscription;
+  /** Event to deliver */
+  event: WebhookEvent;
+  /** Serialized event, signed as sent */
+  body: string;
+  /** Attempts made so far */
+  attempts: number;
+}
+
+/**
+ * Deliveries waiting for a free slot
+ */
+const queue: Delivery[] = [];
+
+/**
+ * Deliveries currently being sent
+ */
+let activeDeliveries = 0;
+
+/**
+ * Deliveries waiting for their next attempt, by retry timer
+ */
+const retries = new Map<NodeJS.Timeout, Delivery>();
+
+/**
+ * Whether the server is shutting down; failed deliveries are then dead-lettered instead of retried
+ */
+let flushing = false;
+
+/**
+ * Callbacks waiting for the queue to empty and the last delivery to finish
+ */
+let idleWaiters: (() => void)[] = [];
+
+/**
+ * HTTP statuses worth retrying: timeouts, rate limiting and server errors
+ * @param {number} status - Response status
+ * @returns {boolean} True if a later attempt may succeed
+ * @private
+ */
+const isRetryable = (status: number): boolean => status === 408 || status === 429 || status >= 500;
+
+/**
+ * Append a delivery that failed every attempt to the dead-letter file
+ * @param {Delivery} delivery - Failed delivery
+ * @param {string} error - Reason of the last failure
+ * @returns {Promise<void>}
+ * @description The entry holds the endpoint URL (never its secret) and the full event, so it can
+ * be replayed by hand.
+ * @private
+ */
+const deadLetter = async (delivery: Delivery, error: string): Promise<void> => {
+  const { subscription, event, attempts } = delivery;
+  logger.error(`Webhook ${event.type} (${event.id}) to ${subscription.url} failed after ${attempts} attempts: ${error}`);
+
+  const entry = { failedAt: new Date().toISOString(), url: subscription.url, attempts, error, event };
+  await mkdir(dirname(WEBHOOK_DEAD_LETTER_FILE), { recursive: true });
+  await appendFile(WEBHOOK_DEAD_LETTER_FILE, `${JSON.stringify(entry)}\n`);
+};
+
+/**
+ * Send a delivery once and schedule what comes next
+ * @param {Delivery} delivery - Delivery to attempt
+ * @returns {Promise<void>}
+ * @description A 2xx response completes the delivery. Network errors, timeouts, 408, 429 and 5xx
+ * responses are retried after `WEBHOOK_RETRY_BASE_DELAY * 2^(attempt - 1)` milliseconds, up to
+ * `WEBHOOK_MAX_ATTEMPTS` attempts; other responses are dead-lettered immediately.
+ * @private
+ */
+const attemptDelivery = async (delivery: Delivery): Promise<void> => {
+  const { subscription, event, body } = delivery;
+  const timestamp = Math.floor(Date.now() / 1000);
+  delivery.attempts += 1;
+
+  let error: string;
+  let retryable = true;
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'voice-call-server-webhooks',
+        'X-Webhook-Id': event.id,
+        'X-Webhook-Event': event.type,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhook(subscription.secret, timestamp, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+    });
+
+    if (response.ok) {
+      logger.info(`Webhook ${event.type} (${event.id}) delivered to ${subscription.url}`);
+      return;
+    }
+    error = `HTTP ${response.status}`;
+    retryable = isRetryable(response.status);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  if (!retryable || delivery.attempts >= WEBHOOK_MAX_ATTEMPTS || flushing) {
+    await deadLetter(delivery, error);
+    return;
+  }
+
+  const delay = WEBHOOK_RETRY_BASE_DELAY * 2 ** (delivery.attempts - 1);
+  logger.warn(`Webhook ${event.type} (${event.id}) to ${subscription.url} failed (${error}), retrying in ${delay}ms`);
+  const retry = setTimeout(() => {
+    retries.delete(retry);
+    enqueue(delivery);
+  }, delay);
+  retries.set(retry, delivery);
+};
+
+/**
+ * Start queued deliveries while slots are free
+ * @returns {void}
+ * @private
+ */
+const drainQueue = (): void => {
+  while (activeDeliveries < WEBHOOK_CONCURRENCY && queue.length > 0) {
+    const delivery = queue.shift() as Delivery;
+    activeDeliveries += 1;
+
+    attemptDelivery(delivery)
+      .catch(error => logger.error('Error delivering webhook', error))
+      .finally(() => {
+        activeDeliveries -= 1;
+        drainQueue();
+      });
+  }
+
+  if (activeDeliveries === 0 && queue.length === 0) {
+    idleWaiters.forEach(resolve => resolve());
+    idleWaiters = [];
+  }
+};
+
+/**
+ * Queue a delivery
+ * @param {Delivery} delivery - Delivery to send
+ * @returns {void}
+ * @private
+ */
+const enqueue = (delivery: Delivery): void => {
+  queue.push(delivery);
+  drainQueue();
+};
+
+/**
+ * Send an event to every endpoint subscribed to its type
+ * @param {WebhookEventType} type - Event type
+ * @param {Record<string, unknown>} data - Event details
+ * @param {string} [createdAt] - When the event happened; defaults to now
+ * @returns {void}
+ * @description Returns immediately; deliveries happen in the background.
+ * @example
+ * dispatchWebhook('call.ended', { sessionId, meetingId, startedAt, endedAt, durationSeconds });
+ */
+export const dispatchWebhook = (
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+  createdAt: string = new Date().toISOString()
+): void => {
+  const subscriptions = WEBHOOK_SUBSCRIPTIONS.filter(s => s.events.includes(type));
+  if (subscriptions.length === 0) return;
+
+  const event: WebhookEvent = { id: randomUUID(), type, createdAt, data };
+  const body = JSON.stringify(event);
+
+  for (const subscription of subscriptions) {
+    enqueue({ subscription, event, body, attempts: 0 });
+  }
+};
+
+/**
+ * Get the state of the delivery queue of this instance
+ * @returns {{ queued: number, active: number, retrying: number }} Deliveries waiting for a slot,
+ * being sent, and waiting for their next attempt
+ */
+export const getWebhookQueueStats = (): { queued: number; active: number; retrying: number } => ({
+  queued: queue.length,
+  active: activeDeliveries,
+  retrying: retries.size,
+});
+
+/**
+ * Finish the deliveries in progress before the server shuts down
+ * @returns {Promise<void>} Resolves once every queued delivery was attempted
+ * @description Queued deliveries are still sent, once each. Deliveries waiting for a retry, and
+ * those failing from now on, go to the dead-letter file so they can be replayed by hand.
+ * @example
+ * await flushWebhooks();
+ */
+export const flushWebhooks = async (): Promise<void> => {
+  flushing = true;
+
+  const waiting = Array.from(retries.entries());
+  retries.clear();
+  waiting.forEach(([retry]) => clearTimeout(retry));
+
+  await new Promise<void>(resolve => {
+    idleWaiters.push(resolve);
+    drainQueue();
+  });
+
+  for (const [, delivery] of waiting) {
+    await deadLetter(delivery, 'Server shut down before the next attempt')
+      .catch(error => logger.error('Error writing webhook dead letter', error));
+  }
+};
+
+/**
+ * Public details of a participant sent in webhooks
+ * @param {CallParticipant} participant - Participant joining or leaving
+ * @returns {Record<string, unknown>} Identity, role and join time; socket, peer and resume token are left out
+ * @private
+ */
+const describeParticipant = (participant: CallParticipant): Record<string, unknown> => ({
+  meetingId: participant.meetingId,
+  userId: participant.userId,
+  username: participant.username,
+  role: participant.role,
+  joinedAt: participant.joinedAt,
+});
+
+/**
+ * Start sending call lifecycle events to the configured webhook endpoints
+ * @returns {void}
+ * @description Does nothing when `WEBHOOKS` is not set. Events are delivered by the instance that
+ * handled them, so each event is sent once even with several instances.
+ * @example
+ * registerWebhooks();
+ */
+export const registerWebhooks = (): void => {
+  if (WEBHOOK_SUBSCRIPTIONS.length === 0) return;
+
+  onCallLifecycle('call-started', ({ sessionId, meetingId, startedAt }) => {
+    dispatchWebhook('call.started', { sessionId, meetingId, startedAt }, startedAt);
+  });
+
+  onCallLifecycle('participant-joined', ({ sessionId, participant, participantCount }) => {
+    dispatchWebhook('participant.joined', { sessionId, ...describeParticipant(participant), participantCount });
+  });
+
+  onCallLifecycle('participant-left', ({ sessionId, participant, reason, leftAt, participantCount }) => {
+    dispatchWebhook(
+      'participant.left',
+      { sessionId, ...describeParticipant(participant), leftAt, reason, participantCount },
+      leftAt
+    );
+  });
+
+  onCallLifecycle('call-ended', ({ sessionId, meetingId, startedAt, endedAt }) => {
+    const durationSeconds = Math.round((Date.parse(endedAt) - Date.parse(startedAt)) / 1000);
+    dispatchWebhook('call.ended', { sessionId, meetingId, startedAt, endedAt, durationSeconds }, endedAt);
+  });
+
+  onCallLifecycle('moderation', (notification) => {
+    dispatchWebhook('moderation.action', { ...notification }, notification.timestamp);
+  });
+
+  logger.info(`Webhooks enabled for ${WEBHOOK_SUBSCRIPTIONS.length} endpoint(s)`);
+};
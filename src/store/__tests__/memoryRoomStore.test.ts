@@ -0,0 +1,194 @@
+/**
+ * Tests of the in-memory room store
+ */
+
+import { CallParticipant, RoomMetadata } from '../../types';
+import { MemoryRoomStore } from '../memoryRoomStore';
+
+const makeRoom = (meetingId: string, overrides: Partial<RoomMetadata> = {}): RoomMetadata => ({
+  meetingId,
+  sessionId: `session-${meetingId}`,
+  createdAt: '2026-01-01T10:00:00.000Z',
+  isLocked: false,
+  bannedUserIds: [],
+  lobbyEnabled: false,
+  screenSharePolicy: 'single',
+  settings: {
+    maxParticipants: 2,
+    audioOnly: false,
+    startMuted: false,
+    startCameraOff: false,
+    allowedRoles: ['host', 'co-host', 'participant', 'viewer'],
+  },
+  state: 'waiting',
+  stateChangedAt: '2026-01-01T10:00:00.000Z',
+  endsAt: null,
+  schedule: { startsAt: null, endsAt: null, maxDuration: null },
+  startedAt: null,
+  closesAt: null,
+  ...overrides,
+});
+
+const makeParticipant = (meetingId: string, userId: string): CallParticipant => ({
+  socketId: `socket-${userId}`,
+  userId,
+  meetingId,
+  peerId: `peer-${userId}`,
+  username: userId,
+  role: 'participant',
+  isMuted: false,
+  isVideoOn: true,
+  isScreenSharing: false,
+  screenStreamId: null,
+  handRaisedAt: null,
+  joinedAt: '2026-01-01T10:01:00.000Z',
+  connectionState: 'connected',
+  resumeToken: `token-${userId}`,
+});
+
+describe('MemoryRoomStore', () => {
+  let store: MemoryRoomStore;
+
+  beforeEach(() => {
+    store = new MemoryRoomStore();
+  });
+
+  describe('rooms', () => {
+    it('creates a room only once', async () => {
+      expect(await store.createRoom(makeRoom('m1'))).toBe(true);
+      expect(await store.createRoom(makeRoom('m1', { sessionId: 'other' }))).toBe(false);
+
+      expect((await store.getRoom('m1'))?.sessionId).toBe('session-m1');
+      expect(await store.listRoomIds()).toEqual(['m1']);
+    });
+
+    it('lets exactly one of concurrent creations win', async () => {
+      const results = await Promise.all(
+        ['a', 'b', 'c'].map(sessionId => store.createRoom(makeRoom('m1', { sessionId })))
+      );
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect((await store.getRoom('m1'))?.sessionId).toBe('a');
+    });
+
+    it('returns copies that do not change the stored room', async () => {
+      await store.createRoom(makeRoom('m1'));
+      const room = await store.getRoom('m1');
+      room!.isLocked = true;
+      room!.bannedUserIds.push('u1');
+
+      expect(await store.getRoom('m1')).toEqual(makeRoom('m1'));
+    });
+
+    it('updates only the given fields', async () => {
+      await store.createRoom(makeRoom('m1'));
+
+      await Promise.all([
+        store.updateRoom('m1', { isLocked: true }),
+        store.updateRoom('m1', { lobbyEnabled: true }),
+        store.banUser('m1', 'u1'),
+      ]);
+
+      expect(await store.getRoom('m1')).toMatchObject({ isLocked: true, lobbyEnabled: true, bannedUserIds: ['u1'] });
+    });
+
+    it('applies an update only while the expected fields match', async () => {
+      await store.createRoom(makeRoom('m1'));
+
+      expect(await store.updateRoom('m1', { startedAt: 'first' }, { startedAt: null })).toBe(true);
+      expect(await store.updateRoom('m1', { startedAt: 'second' }, { startedAt: null })).toBe(false);
+      expect((await store.getRoom('m1'))?.startedAt).toBe('first');
+    });
+
+    it('does not update or ban in a room that does not exist', async () => {
+      expect(await store.updateRoom('m1', { isLocked: true })).toBe(false);
+      expect(await store.banUser('m1', 'u1')).toBe(false);
+      expect(await store.getRoom('m1')).toBeNull();
+    });
+
+    it('bans a user once', async () => {
+      await store.createRoom(makeRoom('m1'));
+      await store.banUser('m1', 'u1');
+      await store.banUser('m1', 'u1');
+
+      expect((await store.getRoom('m1'))?.bannedUserIds).toEqual(['u1']);
+    });
+
+    it('deletes a room with its participants, lobby and quality records', async () => {
+      await store.createRoom(makeRoom('m1'));
+      await store.addParticipant(makeParticipant('m1', 'u1'), 2);
+      await store.saveLobbyEntry({
+        meetingId: 'm1',
+        userId: 'u2',
+        username: 'u2',
+        socketId: 'socket-u2',
+        peerId: 'peer-u2',
+        role: 'participant',
+        requestedAt: '2026-01-01T10:02:00.000Z',
+      });
+
+      await store.deleteRoom('m1');
+
+      expect(await store.getRoom('m1')).toBeNull();
+      expect(await store.getSizes()).toMatchObject({ rooms: 0, participants: 0, waiting: 0, qualityRecords: 0 });
+    });
+  });
+
+  describe('participants', () => {
+    beforeEach(async () => {
+      await store.createRoom(makeRoom('m1'));
+    });
+
+    it('admits participants up to the capacity', async () => {
+      expect(await store.addParticipant(makeParticipant('m1', 'u1'), 2)).toBe(true);
+      expect(await store.addParticipant(makeParticipant('m1', 'u2'), 2)).toBe(true);
+      expect(await store.addParticipant(makeParticipant('m1', 'u3'), 2)).toBe(false);
+
+      expect(await store.countParticipants('m1')).toBe(2);
+    });
+
+    it('never exceeds the capacity with concurrent joins', async () => {
+      const results = await Promise.all(
+        ['u1', 'u2', 'u3', 'u4'].map(userId => store.addParticipant(makeParticipant('m1', userId), 2))
+      );
+
+      expect(results.filter(Boolean)).toHaveLength(2);
+      expect(await store.countParticipants('m1')).toBe(2);
+    });
+
+    it('updates a participant already in a full room', async () => {
+      await store.addParticipant(makeParticipant('m1', 'u1'), 1);
+
+      expect(await store.addParticipant({ ...makeParticipant('m1', 'u1'), socketId: 'new-socket' }, 1)).toBe(true);
+      expect((await store.getParticipant('m1', 'u1'))?.socketId).toBe('new-socket');
+    });
+
+    it('does not admit into a room that does not exist', async () => {
+      expect(await store.addParticipant(makeParticipant('m2', 'u1'), 2)).toBe(false);
+      expect(await store.countParticipants('m2')).toBe(0);
+    });
+
+    it('returns the number of participants left on removal', async () => {
+      await store.addParticipant(makeParticipant('m1', 'u1'), 2);
+      await store.addParticipant(makeParticipant('m1', 'u2'), 2);
+
+      expect(await store.removeParticipant('m1', 'u1')).toBe(1);
+      expect(await store.getParticipant('m1', 'u1')).toBeNull();
+    });
+  });
+
+  describe('ended meetings', () => {
+    it('remembers an ended meeting until it is cleared', async () => {
+      await store.markMeetingEnded('m1', 60);
+      expect(await store.isMeetingEnded('m1')).toBe(true);
+
+      await store.clearMeetingEnded('m1');
+      expect(await store.isMeetingEnded('m1')).toBe(false);
+    });
+
+    it('forgets an ended meeting once the mark expires', async () => {
+      await store.markMeetingEnded('m1', 0);
+      expect(await store.isMeetingEnded('m1')).toBe(false);
+    });
+  });
+});
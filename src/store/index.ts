@@ -0,0 +1,33 @@
+/**
+ * Room store factory
+ * @module store
+ * @description Provides the room store selected by the `ROOM_STORE` environment variable.
+ */
+
+import { getRedisClient, isRedisEnabled } from '../config/redis';
+import { MemoryRoomStore } from './memoryRoomStore';
+import { RedisRoomStore } from './redisRoomStore';
+import { RoomStore } from './roomStore';
+
+export { RoomMetadataChanges, RoomStore, RoomStoreSizes } from './roomStore';
+
+/**
+ * Room store instance, created on first use
+ * @type {RoomStore | null}
+ */
+let roomStore: RoomStore | null = null;
+
+/**
+ * Get the room store shared by the socket handlers and HTTP routes
+ * @returns {RoomStore} {@link RedisRoomStore} when `ROOM_STORE=redis`, otherwise {@link MemoryRoomStore}
+ * @example
+ * const participants = await getRoomStore().getParticipants('meeting-123');
+ */
+export const getRoomStore = (): RoomStore => {
+  if (!roomStore) {
+    roomStore = isRedisEnabled()
+      ? new RedisRoomStore(getRedisClient(), process.env.REDIS_KEY_PREFIX || 'call:')
+      : new MemoryRoomStore();
+  }
+  return roomStore;
+};
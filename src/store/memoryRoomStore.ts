@@ -0,0 +1,268 @@
+/**
+ * In-memory room store
+ * @module store/memoryRoomStore
+ * @description Keeps call state in process memory. Suitable for a single server instance.
+ */
+
+import { CallParticipant, LobbyEntry, PeerQualityRecord, RoomMetadata, SocketMapping } from '../types';
+import { RoomMetadataChanges, RoomStore, RoomStoreSizes } from './roomStore';
+
+/**
+ * Room store backed by in-process Maps
+ * @class MemoryRoomStore
+ * @implements {RoomStore}
+ * @description Returned objects are copies, so callers must save changes back through the store
+ * exactly as they would with a remote implementation. Operations that check a room before
+ * changing it hold a per-meeting lock, so they never interleave with each other.
+ */
+export class MemoryRoomStore implements RoomStore {
+  /** Room metadata. Key: meetingId */
+  private readonly rooms = new Map<string, RoomMetadata>();
+
+  /** Participants per room. Key: meetingId, Value: Map of participants keyed by userId */
+  private readonly participants = new Map<string, Map<string, CallParticipant>>();
+
+  /** Lobby entries per room. Key: meetingId, Value: Map of entries keyed by userId (insertion ordered) */
+  private readonly lobbies = new Map<string, Map<string, LobbyEntry>>();
+
+  /** Quality records per room. Key: meetingId, Value: Map of records keyed by `userId remoteUserId` */
+  private readonly quality = new Map<string, Map<string, PeerQualityRecord>>();
+
+  /** Socket to call mapping. Key: socketId */
+  private readonly sockets = new Map<string, SocketMapping>();
+
+  /** Meetings ended by their schedule. Key: meetingId, Value: expiry in milliseconds since the epoch */
+  private readonly endedMeetings = new Map<string, number>();
+
+  /** Last operation queued on each meeting's lock. Key: meetingId */
+  private readonly locks = new Map<string, Promise<void>>();
+
+  /**
+   * Run an operation once the operations queued before it on the same meeting have finished
+   * @param {string} meetingId - Meeting/room identifier
+   * @param {() => T} operation - Operation to run
+   * @returns {Promise<T>} The operation's result
+   * @private
+   */
+  private async withLock<T>(meetingId: string, operation: () => T): Promise<T> {
+    const result = (this.locks.get(meetingId) ?? Promise.resolve()).then(operation);
+    const released = result.then(() => undefined, () => undefined);
+    this.locks.set(meetingId, released);
+
+    try {
+      return await result;
+    } finally {
+      if (this.locks.get(meetingId) === released) {
+        this.locks.delete(meetingId);
+      }
+    }
+  }
+
+  public async getRoom(meetingId: string): Promise<RoomMetadata | null> {
+    const room = this.rooms.get(meetingId);
+    return room ? structuredClone(room) : null;
+  }
+
+  public async createRoom(room: RoomMetadata): Promise<boolean> {
+    return this.withLock(room.meetingId, () => {
+      if (this.rooms.has(room.meetingId)) return false;
+      this.rooms.set(room.meetingId, structuredClone(room));
+      return true;
+    });
+  }
+
+  public async updateRoom(meetingId: string, changes: RoomMetadataChanges, expected: RoomMetadataChanges = {}): Promise<boolean> {
+    return this.withLock(meetingId, () => {
+      const room = this.rooms.get(meetingId);
+      if (!room) return false;
+
+      // Compared as serialized, like the Redis store does
+      const matches = Object.entries(expected).every(
+        ([field, value]) => JSON.stringify(room[field as keyof RoomMetadata]) === JSON.stringify(value)
+      );
+      if (!matches) return false;
+
+      Object.assign(room, structuredClone(changes));
+      return true;
+    });
+  }
+
+  public async banUser(meetingId: string, userId: string): Promise<boolean> {
+    return this.withLock(meetingId, () => {
+      const room = this.rooms.get(meetingId);
+      if (!room) return false;
+      if (!room.bannedUserIds.includes(userId)) {
+        room.bannedUserIds.push(userId);
+      }
+      return true;
+    });
+  }
+
+  public async deleteRoom(meetingId: string): Promise<void> {
+    await this.withLock(meetingId, () => {
+      this.rooms.delete(meetingId);
+      this.participants.delete(meetingId);
+      this.lobbies.delete(meetingId);
+      this.quality.delete(meetingId);
+    });
+  }
+
+  public async listRoomIds(): Promise<string[]> {
+    return Array.from(this.rooms.keys());
+  }
+
+  public async getParticipant(meetingId: string, userId: string): Promise<CallParticipant | null> {
+    const participant = this.participants.get(meetingId)?.get(userId);
+    return participant ? structuredClone(participant) : null;
+  }
+
+  public async getParticipants(meetingId: string): Promise<CallParticipant[]> {
+    const room = this.participants.get(meetingId);
+    return room ? Array.from(room.values()).map(p => structuredClone(p)) : [];
+  }
+
+  public async saveParticipant(participant: CallParticipant): Promise<void> {
+    let room = this.participants.get(participant.meetingId);
+    if (!room) {
+      room = new Map<string, CallParticipant>();
+      this.participants.set(participant.meetingId, room);
+    }
+    room.set(participant.userId, structuredClone(participant));
+  }
+
+  public async addParticipant(participant: CallParticipant, maxParticipants: number): Promise<boolean> {
+    return this.withLock(participant.meetingId, () => {
+      if (!this.rooms.has(participant.meetingId)) return false;
+
+      let room = this.participants.get(participant.meetingId);
+      if (!room?.has(participant.userId) && (room?.size ?? 0) >= maxParticipants) return false;
+
+      if (!room) {
+        room = new Map<string, CallParticipant>();
+        this.participants.set(participant.meetingId, room);
+      }
+      room.set(participant.userId, structuredClone(participant));
+      return true;
+    });
+  }
+
+  public async removeParticipant(meetingId: string, userId: string): Promise<number> {
+    const room = this.participants.get(meetingId);
+    if (!room) return 0;
+    room.delete(userId);
+    return room.size;
+  }
+
+  public async countParticipants(meetingId: string): Promise<number> {
+    return this.participants.get(meetingId)?.size ?? 0;
+  }
+
+  public async countAllParticipants(): Promise<number> {
+    let total = 0;
+    for (const room of this.participants.values()) {
+      total += room.size;
+    }
+    return total;
+  }
+
+  public async getLobbyEntries(meetingId: string): Promise<LobbyEntry[]> {
+    const lobby = this.lobbies.get(meetingId);
+    return lobby ? Array.from(lobby.values()).map(e => structuredClone(e)) : [];
+  }
+
+  public async saveLobbyEntry(entry: LobbyEntry): Promise<void> {
+    let lobby = this.lobbies.get(entry.meetingId);
+    if (!lobby) {
+      lobby = new Map<string, LobbyEntry>();
+      this.lobbies.set(entry.meetingId, lobby);
+    }
+    lobby.set(entry.userId, structuredClone(entry));
+  }
+
+  public async removeLobbyEntry(meetingId: string, userId: string): Promise<LobbyEntry | null> {
+    const lobby = this.lobbies.get(meetingId);
+    const entry = lobby?.get(userId);
+    if (!lobby || !entry) return null;
+
+    lobby.delete(userId);
+    if (lobby.size === 0) {
+      this.lobbies.delete(meetingId);
+    }
+    return entry;
+  }
+
+  public async getQualityRecord(meetingId: string, userId: string, remoteUserId: string): Promise<PeerQualityRecord | null> {
+    const record = this.quality.get(meetingId)?.get(`${userId} ${remoteUserId}`);
+    return record ? structuredClone(record) : null;
+  }
+
+  public async getQualityRecords(meetingId: string): Promise<PeerQualityRecord[]> {
+    const records = this.quality.get(meetingId);
+    return records ? Array.from(records.values()).map(r => structuredClone(r)) : [];
+  }
+
+  public async saveQualityRecord(record: PeerQualityRecord): Promise<void> {
+    let records = this.quality.get(record.meetingId);
+    if (!records) {
+      records = new Map<string, PeerQualityRecord>();
+      this.quality.set(record.meetingId, records);
+    }
+    records.set(`${record.userId} ${record.remoteUserId}`, structuredClone(record));
+  }
+
+  public async getSocketMapping(socketId: string): Promise<SocketMapping | null> {
+    const mapping = this.sockets.get(socketId);
+    return mapping ? { ...mapping } : null;
+  }
+
+  public async setSocketMapping(socketId: string, mapping: SocketMapping): Promise<void> {
+    this.sockets.set(socketId, { ...mapping });
+  }
+
+  public async deleteSocketMapping(socketId: string): Promise<void> {
+    this.sockets.delete(socketId);
+  }
+
+  public async markMeetingEnded(meetingId: string, ttl: number): Promise<void> {
+    this.endedMeetings.set(meetingId, Date.now() + ttl * 1000);
+  }
+
+  public async isMeetingEnded(meetingId: string): Promise<boolean> {
+    const expiresAt = this.endedMeetings.get(meetingId);
+    if (expiresAt === undefined) return false;
+
+    if (expiresAt <= Date.now()) {
+      this.endedMeetings.delete(meetingId);
+      return false;
+    }
+    return true;
+  }
+
+  public async clearMeetingEnded(meetingId: string): Promise<void> {
+    this.endedMeetings.delete(meetingId);
+  }
+
+  public async getSizes(): Promise<RoomStoreSizes> {
+    const countEntries = (maps: Map<string, Map<string, unknown>>): number =>
+      Array.from(maps.values()).reduce((total, entries) => total + entries.size, 0);
+
+    return {
+      rooms: this.rooms.size,
+      participants: countEntries(this.participants),
+      waiting: countEntries(this.lobbies),
+      socketMappings: this.sockets.size,
+      endedMeetings: this.endedMeetings.size,
+      qualityRecords: countEntries(this.quality),
+    };
+  }
+
+  public async close(): Promise<void> {
+    this.locks.clear();
+    this.rooms.clear();
+    this.participants.clear();
+    this.lobbies.clear();
+    this.quality.clear();
+    this.sockets.clear();
+    this.endedMeetings.clear();
+  }
+}
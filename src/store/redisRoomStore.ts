@@ -0,0 +1,384 @@
+/**
+ * Redis-backed room store
+ * @module store/redisRoomStore
+ * @description Keeps call state in Redis so that every server instance behind a load balancer
+ * sees the same rooms and participants.
+ */
+
+import Redis from 'ioredis';
+import { CallParticipant, LobbyEntry, PeerQualityRecord, RoomMetadata, SocketMapping } from '../types';
+import { RoomMetadataChanges, RoomStore, RoomStoreSizes } from './roomStore';
+
+/**
+ * Lifetime of socket mappings in seconds
+ * @constant {number}
+ * @description Mappings are removed on disconnect; the expiry only cleans up after instances
+ * that crashed without running their disconnect handlers.
+ */
+const SOCKET_MAPPING_TTL = 24 * 60 * 60;
+
+/**
+ * Lua script creating a room unless it exists
+ * @constant {string}
+ * @description KEYS: room hash, set of rooms, banned users set. ARGV: meetingId, number of
+ * fields, the fields and their values, then the banned users.
+ */
+const CREATE_ROOM_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 1 then return 0 end
+local last = 2 + tonumber(ARGV[2]) * 2
+redis.call('HSET', KEYS[1], unpack(ARGV, 3, last))
+if #ARGV > last then redis.call('SADD', KEYS[3], unpack(ARGV, last + 1)) end
+redis.call('SADD', KEYS[2], ARGV[1])
+return 1
+`;
+
+/**
+ * Lua script changing fields of an existing room if other fields still have the expected values
+ * @constant {string}
+ * @description KEYS: room hash. ARGV: number of expected fields, the expected fields and their
+ * values, then the fields to set and their values.
+ */
+const UPDATE_ROOM_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then return 0 end
+local last = 1 + tonumber(ARGV[1]) * 2
+for i = 2, last, 2 do
+  if redis.call('HGET', KEYS[1], ARGV[i]) ~= ARGV[i + 1] then return 0 end
+end
+redis.call('HSET', KEYS[1], unpack(ARGV, last + 1))
+return 1
+`;
+
+/**
+ * Lua script banning a user from an existing room
+ * @constant {string}
+ * @description KEYS: room hash, banned users set. ARGV: userId.
+ */
+const BAN_USER_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then return 0 end
+redis.call('SADD', KEYS[2], ARGV[1])
+return 1
+`;
+
+/**
+ * Lua script inserting or updating a participant of an existing room unless the room is full
+ * @constant {string}
+ * @description KEYS: participants hash, room hash. ARGV: userId, JSON participant, capacity.
+ */
+const ADD_PARTICIPANT_SCRIPT = `
+if redis.call('EXISTS', KEYS[2]) == 0 then return 0 end
+if redis.call('HEXISTS', KEYS[1], ARGV[1]) == 0 and redis.call('HLEN', KEYS[1]) >= tonumber(ARGV[3]) then return 0 end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+return 1
+`;
+
+/**
+ * Flatten room metadata fields into the arguments of a hash command
+ * @param {RoomMetadataChanges} fields - Fields and their values
+ * @returns {string[]} Field names alternating with their JSON-encoded values
+ * @private
+ */
+const toHashArguments = (fields: RoomMetadataChanges): string[] =>
+  Object.entries(fields).flatMap(([field, value]) => [field, JSON.stringify(value)]);
+
+/**
+ * Room store backed by Redis
+ * @class RedisRoomStore
+ * @implements {RoomStore}
+ * @description Key layout (all keys share the configured prefix, `call:` by default):
+ * - `rooms`: set of meeting identifiers
+ * - `room:<meetingId>`: hash of room metadata field to JSON value (banned users excepted)
+ * - `room:<meetingId>:banned`: set of users banned from the room
+ * - `room:<meetingId>:participants`: hash of userId to JSON participant
+ * - `room:<meetingId>:lobby`: hash of userId to JSON lobby entry
+ * - `room:<meetingId>:quality`: hash of `<userId> <remoteUserId>` to JSON quality record
+ * - `socket:<socketId>`: JSON socket mapping
+ * - `ended:<meetingId>`: marker of a meeting ended by its schedule, expiring on its own
+ *
+ * Operations that check a room before changing it run as Lua scripts, which Redis executes
+ * atomically.
+ */
+export class RedisRoomStore implements RoomStore {
+  /**
+   * Creates a new Redis room store
+   * @param {Redis} redis - Connected ioredis client
+   * @param {string} [prefix='call:'] - Prefix applied to every key
+   */
+  constructor(
+    private readonly redis: Redis,
+    private readonly prefix: string = 'call:'
+  ) {}
+
+  /** Key of the set of all meeting identifiers */
+  private roomsKey(): string {
+    return `${this.prefix}rooms`;
+  }
+
+  /** Key of a room's metadata */
+  private roomKey(meetingId: string): string {
+    return `${this.prefix}room:${meetingId}`;
+  }
+
+  /** Key of a room's banned users set */
+  private bannedKey(meetingId: string): string {
+    return `${this.prefix}room:${meetingId}:banned`;
+  }
+
+  /** Key of a room's participants hash */
+  private participantsKey(meetingId: string): string {
+    return `${this.prefix}room:${meetingId}:participants`;
+  }
+
+  /** Key of a room's lobby hash */
+  private lobbyKey(meetingId: string): string {
+    return `${this.prefix}room:${meetingId}:lobby`;
+  }
+
+  /** Key of a room's quality records hash */
+  private qualityKey(meetingId: string): string {
+    return `${this.prefix}room:${meetingId}:quality`;
+  }
+
+  /** Key of a socket mapping */
+  private socketKey(socketId: string): string {
+    return `${this.prefix}socket:${socketId}`;
+  }
+
+  /** Key of the marker of a meeting ended by its schedule */
+  private endedKey(meetingId: string): string {
+    return `${this.prefix}ended:${meetingId}`;
+  }
+
+  /**
+   * Count the keys matching a pattern without blocking Redis
+   * @param {string} pattern - Glob-style pattern, prefix included
+   * @returns {Promise<number>} Number of matching keys
+   */
+  private async countKeys(pattern: string): Promise<number> {
+    let count = 0;
+    for await (const keys of this.redis.scanStream({ match: pattern, count: 500 })) {
+      count += (keys as string[]).length;
+    }
+    return count;
+  }
+
+  public async getRoom(meetingId: string): Promise<RoomMetadata | null> {
+    const results = await this.redis
+      .multi()
+      .hgetall(this.roomKey(meetingId))
+      .smembers(this.bannedKey(meetingId))
+      .exec();
+
+    const fields = (results?.[0]?.[1] ?? {}) as Record<string, string>;
+    if (Object.keys(fields).length === 0) return null;
+
+    const room = Object.fromEntries(
+      Object.entries(fields).map(([field, raw]) => [field, JSON.parse(raw)])
+    ) as RoomMetadata;
+    room.bannedUserIds = (results?.[1]?.[1] ?? []) as string[];
+    return room;
+  }
+
+  public async createRoom(room: RoomMetadata): Promise<boolean> {
+    const { bannedUserIds, ...fields } = room;
+    const hashArguments = toHashArguments(fields);
+
+    const created = await this.redis.eval(
+      CREATE_ROOM_SCRIPT,
+      3,
+      this.roomKey(room.meetingId),
+      this.roomsKey(),
+      this.bannedKey(room.meetingId),
+      room.meetingId,
+      hashArguments.length / 2,
+      ...hashArguments,
+      ...bannedUserIds
+    );
+    return created === 1;
+  }
+
+  public async updateRoom(meetingId: string, changes: RoomMetadataChanges, expected: RoomMetadataChanges = {}): Promise<boolean> {
+    const expectedArguments = toHashArguments(expected);
+    const changeArguments = toHashArguments(changes);
+    if (changeArguments.length === 0) return false;
+
+    const updated = await this.redis.eval(
+      UPDATE_ROOM_SCRIPT,
+      1,
+      this.roomKey(meetingId),
+      expectedArguments.length / 2,
+      ...expectedArguments,
+      ...changeArguments
+    );
+    return updated === 1;
+  }
+
+  public async banUser(meetingId: string, userId: string): Promise<boolean> {
+    const banned = await this.redis.eval(
+      BAN_USER_SCRIPT,
+      2,
+      this.roomKey(meetingId),
+      this.bannedKey(meetingId),
+      userId
+    );
+    return banned === 1;
+  }
+
+  public async deleteRoom(meetingId: string): Promise<void> {
+    await this.redis
+      .multi()
+      .del(
+        this.roomKey(meetingId),
+        this.bannedKey(meetingId),
+        this.participantsKey(meetingId),
+        this.lobbyKey(meetingId),
+        this.qualityKey(meetingId)
+      )
+      .srem(this.roomsKey(), meetingId)
+      .exec();
+  }
+
+  public async listRoomIds(): Promise<string[]> {
+    return this.redis.smembers(this.roomsKey());
+  }
+
+  public async getParticipant(meetingId: string, userId: string): Promise<CallParticipant | null> {
+    const raw = await this.redis.hget(this.participantsKey(meetingId), userId);
+    return raw ? (JSON.parse(raw) as CallParticipant) : null;
+  }
+
+  public async getParticipants(meetingId: string): Promise<CallParticipant[]> {
+    const values = await this.redis.hvals(this.participantsKey(meetingId));
+    return values.map(raw => JSON.parse(raw) as CallParticipant);
+  }
+
+  public async saveParticipant(participant: CallParticipant): Promise<void> {
+    await this.redis.hset(
+      this.participantsKey(participant.meetingId),
+      participant.userId,
+      JSON.stringify(participant)
+    );
+  }
+
+  public async addParticipant(participant: CallParticipant, maxParticipants: number): Promise<boolean> {
+    const added = await this.redis.eval(
+      ADD_PARTICIPANT_SCRIPT,
+      2,
+      this.participantsKey(participant.meetingId),
+      this.roomKey(participant.meetingId),
+      participant.userId,
+      JSON.stringify(participant),
+      maxParticipants
+    );
+    return added === 1;
+  }
+
+  public async removeParticipant(meetingId: string, userId: string): Promise<number> {
+    const key = this.participantsKey(meetingId);
+    const results = await this.redis.multi().hdel(key, userId).hlen(key).exec();
+    return Number(results?.[1]?.[1] ?? 0);
+  }
+
+  public async countParticipants(meetingId: string): Promise<number> {
+    return this.redis.hlen(this.participantsKey(meetingId));
+  }
+
+  public async countAllParticipants(): Promise<number> {
+    const meetingIds = await this.listRoomIds();
+    if (meetingIds.length === 0) return 0;
+
+    const pipeline = this.redis.pipeline();
+    meetingIds.forEach(meetingId => pipeline.hlen(this.participantsKey(meetingId)));
+    const results = await pipeline.exec();
+
+    return (results || []).reduce((total, [, count]) => total + Number(count ?? 0), 0);
+  }
+
+  public async getLobbyEntries(meetingId: string): Promise<LobbyEntry[]> {
+    const values = await this.redis.hvals(this.lobbyKey(meetingId));
+    return values
+      .map(raw => JSON.parse(raw) as LobbyEntry)
+      .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+  }
+
+  public async saveLobbyEntry(entry: LobbyEntry): Promise<void> {
+    await this.redis.hset(this.lobbyKey(entry.meetingId), entry.userId, JSON.stringify(entry));
+  }
+
+  public async removeLobbyEntry(meetingId: string, userId: string): Promise<LobbyEntry | null> {
+    const key = this.lobbyKey(meetingId);
+    const results = await this.redis.multi().hget(key, userId).hdel(key, userId).exec();
+    const raw = results?.[0]?.[1];
+    return typeof raw === 'string' ? (JSON.parse(raw) as LobbyEntry) : null;
+  }
+
+  public async getQualityRecord(meetingId: string, userId: string, remoteUserId: string): Promise<PeerQualityRecord | null> {
+    const raw = await this.redis.hget(this.qualityKey(meetingId), `${userId} ${remoteUserId}`);
+    return raw ? (JSON.parse(raw) as PeerQualityRecord) : null;
+  }
+
+  public async getQualityRecords(meetingId: string): Promise<PeerQualityRecord[]> {
+    const values = await this.redis.hvals(this.qualityKey(meetingId));
+    return values.map(raw => JSON.parse(raw) as PeerQualityRecord);
+  }
+
+  public async saveQualityRecord(record: PeerQualityRecord): Promise<void> {
+    await this.redis.hset(
+      this.qualityKey(record.meetingId),
+      `${record.userId} ${record.remoteUserId}`,
+      JSON.stringify(record)
+    );
+  }
+
+  public async getSocketMapping(socketId: string): Promise<SocketMapping | null> {
+    const raw = await this.redis.get(this.socketKey(socketId));
+    return raw ? (JSON.parse(raw) as SocketMapping) : null;
+  }
+
+  public async setSocketMapping(socketId: string, mapping: SocketMapping): Promise<void> {
+    await this.redis.set(this.socketKey(socketId), JSON.stringify(mapping), 'EX', SOCKET_MAPPING_TTL);
+  }
+
+  public async deleteSocketMapping(socketId: string): Promise<void> {
+    await this.redis.del(this.socketKey(socketId));
+  }
+
+  public async markMeetingEnded(meetingId: string, ttl: number): Promise<void> {
+    await this.redis.set(this.endedKey(meetingId), '1', 'EX', ttl);
+  }
+
+  public async isMeetingEnded(meetingId: string): Promise<boolean> {
+    return (await this.redis.exists(this.endedKey(meetingId))) === 1;
+  }
+
+  public async clearMeetingEnded(meetingId: string): Promise<void> {
+    await this.redis.del(this.endedKey(meetingId));
+  }
+
+  public async getSizes(): Promise<RoomStoreSizes> {
+    const meetingIds = await this.listRoomIds();
+
+    const pipeline = this.redis.pipeline();
+    meetingIds.forEach(meetingId => {
+      pipeline.hlen(this.participantsKey(meetingId));
+      pipeline.hlen(this.lobbyKey(meetingId));
+      pipeline.hlen(this.qualityKey(meetingId));
+    });
+    const results = meetingIds.length > 0 ? (await pipeline.exec()) || [] : [];
+    const sumEvery = (offset: number): number => results
+      .filter((_result, index) => index % 3 === offset)
+      .reduce((total, [, count]) => total + Number(count ?? 0), 0);
+
+    return {
+      rooms: meetingIds.length,
+      participants: sumEvery(0),
+      waiting: sumEvery(1),
+      socketMappings: await this.countKeys(this.socketKey('*')),
+      endedMeetings: await this.countKeys(this.endedKey('*')),
+      qualityRecords: sumEvery(2),
+    };
+  }
+
+  public async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Room store abstraction
+ * @module store/roomStore
+ * @description Defines the storage contract for call state (participants, lobby entries,
+ * socket mappings, room metadata, connection quality and meetings ended by their schedule) so
+ * that several server instances can share it.
+ */
+
+import { CallParticipant, LobbyEntry, PeerQualityRecord, RoomMetadata, SocketMapping } from '../types';
+
+/**
+ * Room metadata fields changed by {@link RoomStore.updateRoom}
+ * @typedef {Object} RoomMetadataChanges
+ * @description Banned users are added with {@link RoomStore.banUser} instead, and a room's
+ * meeting never changes.
+ */
+export type RoomMetadataChanges = Partial<Omit<RoomMetadata, 'meetingId' | 'bannedUserIds'>>;
+
+/**
+ * Number of entries of each kind held by a store
+ * @interface RoomStoreSizes
+ * @description Reported by the diagnostics endpoint to spot entries that are never cleaned up,
+ * such as socket mappings outliving their sockets.
+ */
+export interface RoomStoreSizes {
+  /** Rooms */
+  rooms: number;
+  /** Participants in every room, including those reconnecting */
+  participants: number;
+  /** Users waiting in every lobby */
+  waiting: number;
+  /** Socket to call mappings */
+  socketMappings: number;
+  /** Meetings ended by their schedule, still rejecting joins */
+  endedMeetings: number;
+  /** Peer connection quality records in every room */
+  qualityRecords: number;
+}
+
+/**
+ * Storage backend for call state
+ * @interface RoomStore
+ * @description All operations are asynchronous so that implementations can be backed by a
+ * network store. Implementations: {@link MemoryRoomStore} (single instance) and
+ * {@link RedisRoomStore} (shared by a cluster). Room metadata is never rewritten as a whole:
+ * creating a room, changing some of its fields, banning a user and admitting a participant within
+ * the room's capacity are each atomic, so concurrent joins and moderation actions, on one instance
+ * or several, cannot overwrite each other.
+ */
+export interface RoomStore {
+  /**
+   * Get room metadata
+   * @param {string} meetingId - Meeting/room identifier
+   * @returns {Promise<RoomMetadata | null>} The metadata, or null if the room does not exist
+   */
+  getRoom(meetingId: string): Promise<RoomMetadata | null>;
+
+  /**
+   * Store the metadata of a new room unless the meeting already has one
+   * @param {RoomMetadata} room - Room metadata to store
+   * @returns {Promise<boolean>} False, leaving the existing room untouched, if the meeting already has a room
+   */
+  createRoom(room: RoomMetadata): Promise<boolean>;
+
+  /**
+   * Change some fields of a room's metadata, leaving the others as they are
+   * @param {string} meetingId - Meeting/room identifier
+   * @param {RoomMetadataChanges} changes - Fields to set
+   * @param {RoomMetadataChanges} [expected] - Fields that must still have these values for the change to apply
+   * @returns {Promise<boolean>} False if the room does not exist or an expected field has another value
+   */
+  updateRoom(meetingId: string, changes: RoomMetadataChanges, expected?: RoomMetadataChanges): Promise<boolean>;
+
+  /**
+   * Add a user to a room's banned users
+   * @param {string} meetingId - Meeting/room identifier
+   * @param {string} userId - User identifier
+   * @returns {Promise<boolean>} False if the room does not exist
+   */
+  banUser(meetingId: string, userId: string): Promise<boolean>;
+
+  /**
+   * Delete a room together with all of its participants, lobby entries and quality records
+   * @param {string} meetingId - Meeting/room identifier
+   * @returns {Promise<void>}
+   */
+  deleteRoom(meetingId: string): Promise<void>;
+
+  /**
+   * List the identifiers of all existing rooms
+   * @returns {Promise<string[]>} Meeting identifiers
+   */
+  listRoomIds(): Promise<string[]>;
+
+  /**
+   * Get a participant of a room
+   * @param {string} meetingId - Meeting/room identifier
+   * @param {string} userId - User identifier
+   * @returns {Promise<CallParticipant | null>} The participant, or null if not in the room
+   */
+  getParticipant(meetingId: string, userId: string): Promise<CallParticipant | null>;
+
+  /**
+   * Get all participants of a room
+   * @param {string} meetingId - Meeting/room identifier
+   * @returns {Promise<CallParticipant[]>} Participants (empty if the room does not exist)
+   */
+  getParticipants(meetingId: string): Promise<CallParticipant[]>;
+
+  /**
+   * Insert or update a participant, keyed by its meetingId and userId
+   * @param {CallParticipant} participant - Participant to store
+   * @returns {Promise<void>}
+   */
+  saveParticipant(participant: CallParticipant): Promise<void>;
+
+  /**
+   * Insert a participant into an existing room unless it is full, keyed by its meetingId and userId
+   * @param {CallParticipant} participant - Participant to store
+   * @param {number} maxParticipants - Capacity of the room
+   * @returns {Promise<boolean>} False if the room does not exist, or if the participant is not in
+   * the room yet and it already holds `maxParticipants` participants; a participant already in the
+   * room is always updated
+   */
+  addParticipant(participant: CallParticipant, maxParticipants: number): Promise<boolean>;
+
+  /**
+   * Remove a participant from a room
+   * @param {string} meetingId - Meeting/room identifier
+   * @param {string} userId - User identifier
+   * @returns {Promise<number>} Number of participants left in the room
+   */
+  removeParticipant(meetingId: string, userId: string): Promise<number>;
+
+  /**
+   * Count the participants of a room
+   * @param {string} meetingId - Meeting/room identifier
+   * @returns {Promise<number>} Participant count
+   */
+  countParticipants(meetingId: string): Promise<number>;
+
+  /**
+   * Count the participants across all rooms
+   * @returns {Promise<number>} Total participant count
+   */
+  countAllParticipants(): Promise<number>;
+
+  /**
+   * Get the users waiting in a room's lobby
+   * @param {string} meetingId - Meeting/room identifier
+   * @returns {Promise<LobbyEntry[]>} Waiting users, oldest first
+   */
+  getLobbyEntries(meetingId: string): Promise<LobbyEntry[]>;
+
+  /**
+   * Insert or update a lobby entry, keyed by its meetingId and userId
+   * @param {LobbyEntry} entry - Entry to store
+   * @returns {Promise<void>}
+   */
+  saveLobbyEntry(entry: LobbyEntry): Promise<void>;
+
+  /**
+   * Remove a user from a room's lobby
+   * @param {string} meetingId - Meeting/room identifier
+   * @param {string} userId - User identifier
+   * @returns {Promise<LobbyEntry | null>} The removed entry, or null if the user was not waiting
+   */
+  removeLobbyEntry(meetingId: string, userId: string): Promise<LobbyEntry | null>;
+
+  /**
+   * Get the call a socket has joined
+   * @param {string} socketId - Socket.IO socket identifier
+   * @returns {Promise<SocketMapping | null>} The mapping, or null if the socket is not in a call
+   */
+  getSocketMapping(socketId: string): Promise<SocketMapping | null>;
+
+  /**
+   * Map a socket to the call it has joined
+   * @param {string} socketId - Socket.IO socket identifier
+   * @param {SocketMapping} mapping - Meeting and user of the socket
+   * @returns {Promise<void>}
+   */
+  setSocketMapping(socketId: string, mapping: SocketMapping): Promise<void>;
+
+  /**
+   * Remove a socket mapping
+   * @param {string} socketId - Socket.IO socket identifier
+   * @returns {Promise<void>}
+   */
+  deleteSocketMapping(socketId: string): Promise<void>;
+
+  /**
+   * Get the quality record of a peer connection
+   * @param {string} meetingId - Meeting/room identifier
+   * @param {string} userId - User identifier of the participant who reports the connection
+   * @param {string} remoteUserId - User identifier of the remote participant
+   * @returns {Promise<PeerQualityRecord | null>} The record, or null before the first report
+   */
+  getQualityRecord(meetingId: string, userId: string, remoteUserId: string): Promise<PeerQualityRecord | null>;
+
+  /**
+   * Get the quality records of every peer connection of a room
+   * @param {string} meetingId - Meeting/room identifier
+   * @returns {Promise<PeerQualityRecord[]>} Records (empty if the room does not exist)
+   */
+  getQualityRecords(meetingId: string): Promise<PeerQualityRecord[]>;
+
+  /**
+   * Insert or update a quality record, keyed by its meetingId, userId and remoteUserId
+   * @param {PeerQualityRecord} record - Record to store
+   * @returns {Promise<void>}
+   */
+  saveQualityRecord(record: PeerQualityRecord): Promise<void>;
+
+  /**
+   * Remember that a meeting's schedule ended its call, so joins are rejected for a while
+   * @param {string} meetingId - Meeting/room identifier
+   * @param {number} ttl - Seconds to remember it
+   * @returns {Promise<void>}
+   */
+  markMeetingEnded(meetingId: string, ttl: number): Promise<void>;
+
+  /**
+   * Check whether a meeting's schedule ended its call
+   * @param {string} meetingId - Meeting/room identifier
+   * @returns {Promise<boolean>} True until the mark expires or is cleared
+   */
+  isMeetingEnded(meetingId: string): Promise<boolean>;
+
+  /**
+   * Forget that a meeting's schedule ended its call
+   * @param {string} meetingId - Meeting/room identifier
+   * @returns {Promise<void>}
+   */
+  clearMeetingEnded(meetingId: string): Promise<void>;
+
+  /**
+   * Count the entries held by the store
+   * @returns {Promise<RoomStoreSizes>} Number of entries of each kind
+   */
+  getSizes(): Promise<RoomStoreSizes>;
+
+  /**
+   * Release any resources held by the store
+   * @returns {Promise<void>}
+   */
+  close(): Promise<void>;
+}
@@ -0,0 +1,656 @@
+/**
+ * Load test
+ * @module tools/loadTest
+ * @description Simulates call participants against a running server with the real protocol:
+ * every virtual participant connects with its own token and socket, joins its room, exchanges
+ * offers, answers and ICE candidates with every other participant (full mesh), toggles its
+ * microphone, and some leave, drop and come back over time. Prints join and relay latency
+ * percentiles, errors by code and the server's memory over time.
+ * @example
+ * // Terminal 1: raise the per-IP limits, as every virtual participant connects from this machine
+ * MAX_CONNECTIONS_PER_IP=1000 CONNECTION_RATE_LIMIT=1000:1000 npm run dev
+ * // Terminal 2 (same JWT_SECRET)
+ * npm run loadtest -- --rooms 50 --per-room 8 --duration 120
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { parseArgs } from 'util';
+import { io, Socket } from 'socket.io-client';
+import {
+  CallAckResponse,
+  CallError,
+  CallEvents,
+  ClientToServerEvents,
+  PeersListResponse,
+  ServerToClientEvents,
+  SignalNotification,
+  SignalType,
+  WebRTCSignal,
+} from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Socket of a virtual participant, typed with the call event contract
+ */
+type LoadTestSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+const { values: args } = parseArgs({
+  options: {
+    url: { type: 'string', default: `http://localhost:${process.env.PORT || '5000'}` },
+    rooms: { type: 'string', default: '10' },
+    'per-room': { type: 'string', default: '4' },
+    duration: { type: 'string', default: '60' },
+    'ramp-up': { type: 'string', default: '10' },
+    candidates: { type: 'string', default: '3' },
+    'mute-interval': { type: 'string', default: '10' },
+    'churn-interval': { type: 'string', default: '15' },
+    'sample-interval': { type: 'string', default: '5' },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+if (args.help) {
+  console.log(`Usage: npm run loadtest -- [options]
+
+  --url <url>                 Server to load (default: http://localhost:$PORT or 5000)
+  --rooms <n>                 Rooms to fill (default: 10)
+  --per-room <n>              Participants per room (default: 4)
+  --duration <s>              Seconds to run once the ramp-up starts (default: 60)
+  --ramp-up <s>               Seconds over which participants join (default: 10)
+  --candidates <n>            ICE candidates sent per peer connection (default: 3)
+  --mute-interval <s>         Seconds between mute toggles of each participant, 0 to disable (default: 10)
+  --churn-interval <s>        Seconds between churn rounds, 0 to disable (default: 15)
+  --sample-interval <s>       Seconds between server memory samples (default: 5)
+
+Tokens are signed with JWT_SECRET (and JWT_ISSUER / JWT_AUDIENCE when set). Memory is read from
+/metrics, with METRICS_TOKEN when set.`);
+  process.exit(0);
+}
+
+/**
+ * Parse a numeric option
+ * @param {string} name - Option name
+ * @param {number} min - Lowest accepted value
+ * @returns {number} The value
+ * @private
+ */
+const numberOption = (name: keyof typeof args, min: number): number => {
+  const value = Number(args[name]);
+  if (!Number.isFinite(value) || value < min) {
+    logger.error(`--${name} must be a number of at least ${min}`);
+    process.exit(1);
+  }
+  return value;
+};
+
+const URL = (args.url as string).replace(/\/$/, '');
+const ROOMS = numberOption('rooms', 1);
+const PER_ROOM = numberOption('per-room', 1);
+const DURATION = numberOption('duration', 1);
+const RAMP_UP = numberOption('ramp-up', 0);
+const CANDIDATES = numberOption('candidates', 0);
+const MUTE_INTERVAL = numberOption('mute-interval', 0);
+const CHURN_INTERVAL = numberOption('churn-interval', 0);
+const SAMPLE_INTERVAL = numberOption('sample-interval', 1);
+
+/**
+ * Milliseconds a participant that left or dropped waits before coming back
+ */
+const CHURN_RETURN_DELAY = 1000;
+
+if (!process.env.JWT_SECRET || process.env.JWT_ALGORITHM === 'RS256') {
+  logger.error('Set JWT_SECRET to the server\'s HS256 secret to sign the participants\' tokens');
+  process.exit(1);
+}
+
+/**
+ * Identifier of this run, part of every meeting and user id so that runs do not collide
+ */
+const RUN_ID = randomUUID().slice(0, 8);
+
+/**
+ * Measurements of the run
+ */
+const results = {
+  joins: 0,
+  resumes: 0,
+  joinLatencies: [] as number[],
+  signalsSent: 0,
+  signalsRelayed: 0,
+  relayLatencies: [] as number[],
+  muteToggles: 0,
+  leaves: 0,
+  drops: 0,
+  errors: new Map<string, number>(),
+  memory: [] as { elapsed: number; rss: number; heapUsed: number; connected: number }[],
+};
+
+/**
+ * Send time of the signals not yet received. Key: probe id carried in the signal
+ */
+const pendingSignals = new Map<string, number>();
+
+/**
+ * Start of the run
+ */
+const startedAt = Date.now();
+
+/**
+ * Count an error
+ * @param {string} code - Error code, or a description for failures without one
+ * @returns {void}
+ * @private
+ */
+const countError = (code: string): void => {
+  results.errors.set(code, (results.errors.get(code) ?? 0) + 1);
+};
+
+/**
+ * Milliseconds elapsed since a high-resolution time
+ * @param {bigint} start - `process.hrtime.bigint()` at the start
+ * @returns {number} Milliseconds
+ * @private
+ */
+const since = (start: bigint): number => Number(process.hrtime.bigint() - start) / 1e6;
+
+/**
+ * Build an SDP of realistic size carrying a probe id
+ * @param {string} probeId - Identifier used to measure the relay latency
+ * @returns {string} SDP with an audio and a video section
+ * @private
+ */
+const buildSdp = (probeId: string): string => [
+  'v=0',
+  `o=- ${probeId} 2 IN IP4 127.0.0.1`,
+  's=-',
+  't=0 0',
+  'a=group:BUNDLE 0 1',
+  'a=msid-semantic: WMS loadtest',
+  'm=audio 9 UDP/TLS/RTP/SAVPF 111 63 9 0 8 13 110 126',
+  'c=IN IP4 0.0.0.0',
+  'a=rtcp:9 IN IP4 0.0.0.0',
+  `a=ice-ufrag:${probeId.slice(-4)}`,
+  'a=ice-pwd:loadtestloadtestloadtestload',
+  'a=fingerprint:sha-256 6B:8B:5D:EA:59:04:20:23:29:C8:87:1C:CC:87:32:BE:DD:8C:66:A5:8E:50:55:EA:8C:D3:B6:5C:09:5E:D6:BC',
+  'a=setup:actpass',
+  'a=mid:0',
+  'a=sendrecv',
+  'a=rtcp-mux',
+  'a=rtpmap:111 opus/48000/2',
+  'a=fmtp:111 minptime=10;useinbandfec=1',
+  'm=video 9 UDP/TLS/RTP/SAVPF 96 97 102 103 104 105 106 107',
+  'c=IN IP4 0.0.0.0',
+  'a=mid:1',
+  'a=sendrecv',
+  'a=rtcp-mux',
+  'a=rtcp-rsize',
+  'a=rtpmap:96 VP8/90000',
+  'a=rtcp-fb:96 goog-remb',
+  'a=rtcp-fb:96 transport-cc',
+  'a=rtcp-fb:96 ccm fir',
+  'a=rtcp-fb:96 nack',
+  'a=rtcp-fb:96 nack pli',
+  'a=rtpmap:102 H264/90000',
+  'a=fmtp:102 level-asymmetry-allowed=1;packetization-mode=1;profile-level-id=42001f',
+  '',
+].join('\r\n');
+
+/**
+ * Read the probe id of a relayed signal
+ * @param {WebRTCSignal} signal - Signal as received
+ * @returns {string | null} The probe id, or null for a signal sent by someone else
+ * @private
+ */
+const readProbeId = (signal: WebRTCSignal): string | null => {
+  const text = 'sdp' in signal ? signal.sdp : signal.candidate;
+  return /(?:o=- |candidate:)(lt\d+)/.exec(text)?.[1] ?? null;
+};
+
+/**
+ * Sequence of the probe ids
+ */
+let probeSequence = 0;
+
+/**
+ * A simulated call participant with its own socket
+ * @class VirtualParticipant
+ */
+class VirtualParticipant {
+  /** Current socket, replaced when the participant comes back after a drop */
+  private socket: LoadTestSocket | null = null;
+
+  /** Peer id of the current stay */
+  private peerId = '';
+
+  /** Token to resume the slot after a drop */
+  private resumeToken: string | null = null;
+
+  /** Whether the microphone is muted */
+  private isMuted = true;
+
+  /** Mute toggle timer */
+  private muteTimer: NodeJS.Timeout | null = null;
+
+  /** Whether the participant is in the call */
+  public joined = false;
+
+  /**
+   * Creates a virtual participant
+   * @param {string} meetingId - Room to join
+   * @param {string} userId - User id, the token's subject
+   */
+  constructor(
+    private readonly meetingId: string,
+    private readonly userId: string
+  ) {}
+
+  /**
+   * Connect and join the room
+   * @param {boolean} [resume=false] - Reclaim the held slot with the resume token
+   * @returns {void}
+   */
+  public start(resume: boolean = false): void {
+    this.peerId = `peer-${this.userId}-${randomUUID().slice(0, 8)}`;
+    const token = jwt.sign(
+      { sub: this.userId, username: this.userId },
+      process.env.JWT_SECRET as string,
+      {
+        expiresIn: DURATION + RAMP_UP + 600,
+        ...(process.env.JWT_ISSUER ? { issuer: process.env.JWT_ISSUER } : {}),
+        ...(process.env.JWT_AUDIENCE ? { audience: process.env.JWT_AUDIENCE } : {}),
+      }
+    );
+
+    const socket: LoadTestSocket = io(URL, {
+      auth: { token },
+      transports: ['websocket'],
+      reconnection: false,
+      forceNew: true,
+    });
+    this.socket = socket;
+
+    socket.on('connect', () => void this.join(resume));
+    socket.on('connect_error', (error: Error & { data?: CallError }) => countError(error.data?.code ?? 'CONNECT_ERROR'));
+    socket.on('disconnect', (reason) => {
+      if (this.socket === socket && reason !== 'io client disconnect') {
+        countError(`DISCONNECTED (${reason})`);
+        this.stopMuteToggles();
+        this.joined = false;
+      }
+    });
+
+    socket.on(CallEvents.PEERS_LIST, (response) => this.connectToPeers(response));
+    socket.on(CallEvents.SIGNAL, (notification) => this.onSignal(notification));
+  }
+
+  /**
+   * Send an event and wait for its acknowledgement
+   * @param {E} event - Client event name
+   * @param {Parameters<ClientToServerEvents[E]>[0]} payload - Event payload
+   * @returns {Promise<CallAckResponse>} The acknowledgement; failures are counted by error code
+   * @private
+   */
+  private async request<E extends keyof ClientToServerEvents>(
+    event: E,
+    payload: Parameters<ClientToServerEvents[E]>[0]
+  ): Promise<CallAckResponse> {
+    const socket = this.socket as LoadTestSocket;
+    try {
+      const response = await (socket.timeout(10000).emitWithAck as (
+        event: E,
+        payload: Parameters<ClientToServerEvents[E]>[0]
+      ) => Promise<CallAckResponse>)(event, payload);
+
+      if (!response.ok) {
+        countError(response.error?.code ?? 'UNKNOWN');
+      }
+      return response;
+    } catch {
+      countError('TIMEOUT');
+      return { ok: false };
+    }
+  }
+
+  /**
+   * Join the room and start toggling the microphone
+   * @param {boolean} resume - Send the resume token
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async join(resume: boolean): Promise<void> {
+    const start = process.hrtime.bigint();
+    const response = await this.request(CallEvents.JOIN, {
+      meetingId: this.meetingId,
+      peerId: this.peerId,
+      ...(resume && this.resumeToken ? { resumeToken: this.resumeToken } : {}),
+    });
+    if (!response.ok) {
+      this.joined = false;
+      return;
+    }
+
+    results.joinLatencies.push(since(start));
+    results[resume ? 'resumes' : 'joins'] += 1;
+
+    if (MUTE_INTERVAL > 0) {
+      // Spread the toggles so that participants do not all toggle at once
+      this.muteTimer = setTimeout(() => {
+        this.muteTimer = setInterval(() => void this.toggleMute(), MUTE_INTERVAL * 1000);
+      }, Math.random() * MUTE_INTERVAL * 1000);
+    }
+  }
+
+  /**
+   * Offer a connection to every participant already in the call
+   * @param {PeersListResponse} response - Peers list received on join
+   * @returns {void}
+   * @private
+   */
+  private connectToPeers({ participants, resumeToken }: PeersListResponse): void {
+    // The peers list arrives before the join acknowledgement
+    this.joined = true;
+    this.resumeToken = resumeToken;
+
+    for (const peer of participants) {
+      if (peer.userId !== this.userId && peer.connectionState === 'connected') {
+        void this.sendSignal(peer.userId, peer.peerId, 'offer');
+      }
+    }
+  }
+
+  /**
+   * Answer offers, send candidates after answers and measure the relay latency
+   * @param {SignalNotification} notification - Relayed signal
+   * @returns {void}
+   * @private
+   */
+  private onSignal({ fromUserId, fromPeerId, signalType, signal }: SignalNotification): void {
+    const probeId = readProbeId(signal);
+    const sentAt = probeId ? pendingSignals.get(probeId) : undefined;
+    if (probeId && sentAt !== undefined) {
+      pendingSignals.delete(probeId);
+      results.relayLatencies.push(Date.now() - sentAt);
+      results.signalsRelayed += 1;
+    }
+
+    if (signalType === 'offer') {
+      void this.sendSignal(fromUserId, fromPeerId, 'answer').then(() => this.sendCandidates(fromUserId, fromPeerId));
+    } else if (signalType === 'answer') {
+      void this.sendCandidates(fromUserId, fromPeerId);
+    }
+  }
+
+  /**
+   * Send one signal to a peer
+   * @param {string} toUserId - Recipient
+   * @param {string} toPeerId - Recipient's peer id
+   * @param {SignalType} signalType - Signal to send
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async sendSignal(toUserId: string, toPeerId: string, signalType: SignalType): Promise<void> {
+    if (!this.joined) return;
+
+    probeSequence += 1;
+    const probeId = `lt${probeSequence}`;
+    const signal: WebRTCSignal = signalType === 'ice-candidate'
+      ? { candidate: `candidate:${probeId} 1 udp 2122260223 192.168.1.${probeSequence % 250} ${50000 + (probeSequence % 10000)} typ host generation 0`, sdpMid: '0', sdpMLineIndex: 0 }
+      : { type: signalType, sdp: buildSdp(probeId) };
+
+    pendingSignals.set(probeId, Date.now());
+    results.signalsSent += 1;
+
+    const response = await this.request(CallEvents.SIGNAL, { meetingId: this.meetingId, toUserId, toPeerId, signalType, signal });
+    if (!response.ok) {
+      pendingSignals.delete(probeId);
+    }
+  }
+
+  /**
+   * Send the ICE candidates of a peer connection
+   * @param {string} toUserId - Recipient
+   * @param {string} toPeerId - Recipient's peer id
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async sendCandidates(toUserId: string, toPeerId: string): Promise<void> {
+    for (let i = 0; i < CANDIDATES; i += 1) {
+      await this.sendSignal(toUserId, toPeerId, 'ice-candidate');
+    }
+  }
+
+  /**
+   * Mute or unmute the microphone
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async toggleMute(): Promise<void> {
+    const response = await this.request(this.isMuted ? CallEvents.UNMUTE : CallEvents.MUTE, { meetingId: this.meetingId });
+    if (response.ok) {
+      this.isMuted = !this.isMuted;
+      results.muteToggles += 1;
+    }
+  }
+
+  /**
+   * Stop toggling the microphone
+   * @returns {void}
+   * @private
+   */
+  private stopMuteToggles(): void {
+    if (this.muteTimer) {
+      clearTimeout(this.muteTimer);
+      clearInterval(this.muteTimer);
+      this.muteTimer = null;
+    }
+  }
+
+  /**
+   * Leave the call with `call:leave` and join afresh a moment later
+   * @returns {Promise<void>}
+   */
+  public async churnByLeaving(): Promise<void> {
+    this.stopMuteToggles();
+    await this.request(CallEvents.LEAVE, { meetingId: this.meetingId });
+    this.joined = false;
+    this.isMuted = true;
+    results.leaves += 1;
+
+    setTimeout(() => void this.join(false), CHURN_RETURN_DELAY);
+  }
+
+  /**
+   * Drop the connection without leaving and resume the slot from a new socket a moment later
+   * @returns {void}
+   */
+  public churnByDropping(): void {
+    this.stopMuteToggles();
+    this.joined = false;
+    this.socket?.disconnect();
+    results.drops += 1;
+
+    setTimeout(() => this.start(true), CHURN_RETURN_DELAY);
+  }
+
+  /**
+   * Leave the call and close the connection
+   * @returns {Promise<void>}
+   */
+  public async stop(): Promise<void> {
+    this.stopMuteToggles();
+    if (this.joined) {
+      this.joined = false;
+      await this.request(CallEvents.LEAVE, { meetingId: this.meetingId });
+    }
+    this.socket?.disconnect();
+  }
+}
+
+/**
+ * Value at a percentile of sorted numbers
+ * @param {number[]} sorted - Values in ascending order
+ * @param {number} percentile - Percentile between 0 and 100
+ * @returns {number} The value, or 0 without values
+ * @private
+ */
+const percentile = (sorted: number[], percentile: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(Math.ceil((percentile / 100) * sorted.length) - 1, sorted.length - 1);
+  return sorted[Math.max(index, 0)];
+};
+
+/**
+ * Describe the distribution of latencies
+ * @param {number[]} values - Latencies in milliseconds
+ * @returns {string} Percentiles and max
+ * @private
+ */
+const describeLatencies = (values: number[]): string => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const format = (value: number) => `${value.toFixed(1)}ms`.padStart(9);
+  return `p50 ${format(percentile(sorted, 50))}  p95 ${format(percentile(sorted, 95))}  `
+    + `p99 ${format(percentile(sorted, 99))}  max ${format(sorted[sorted.length - 1] ?? 0)}  (${sorted.length} samples)`;
+};
+
+/**
+ * Format a number of bytes in mebibytes
+ * @param {number} bytes - Bytes
+ * @returns {string} Formatted size
+ * @private
+ */
+const mebibytes = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(1)} MiB`;
+
+/**
+ * Read the server's memory from its metrics endpoint
+ * @param {VirtualParticipant[]} participants - Every virtual participant, to count those in a call
+ * @returns {Promise<void>}
+ * @private
+ */
+const sampleServerMemory = async (participants: VirtualParticipant[]): Promise<void> => {
+  const elapsed = Math.round((Date.now() - startedAt) / 1000);
+  const connected = participants.filter(p => p.joined).length;
+
+  try {
+    const response = await fetch(`${URL}/metrics`, {
+      headers: process.env.METRICS_TOKEN ? { Authorization: `Bearer ${process.env.METRICS_TOKEN}` } : {},
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const text = await response.text();
+    const read = (name: string) => Number(new RegExp(`^${name}(?:\\{[^}]*\\})? (\\S+)$`, 'm').exec(text)?.[1] ?? 0);
+    const sample = {
+      elapsed,
+      rss: read('process_resident_memory_bytes'),
+      heapUsed: read('nodejs_heap_size_used_bytes'),
+      connected,
+    };
+    results.memory.push(sample);
+
+    logger.info(`${elapsed}s: ${connected} in calls, ${results.signalsRelayed}/${results.signalsSent} signals relayed, `
+      + `server rss ${mebibytes(sample.rss)}, heap ${mebibytes(sample.heapUsed)}`);
+  } catch (error) {
+    logger.warn(`${elapsed}s: ${connected} in calls, could not read server memory (${error instanceof Error ? error.message : error})`);
+  }
+};
+
+/**
+ * Print the results of the run
+ * @returns {void}
+ * @private
+ */
+const printReport = (): void => {
+  const lost = pendingSignals.size;
+  const errors = Array.from(results.errors.entries()).sort((a, b) => b[1] - a[1]);
+
+  console.log(`
+Load test of ${URL}: ${ROOMS} rooms x ${PER_ROOM} participants, ${DURATION}s
+
+Joins            ${results.joins} joined, ${results.resumes} resumed
+Join latency     ${describeLatencies(results.joinLatencies)}
+Signals          ${results.signalsSent} sent, ${results.signalsRelayed} relayed, ${lost} not received
+Relay latency    ${describeLatencies(results.relayLatencies)}
+Mute toggles     ${results.muteToggles}
+Churn            ${results.leaves} left and rejoined, ${results.drops} dropped and resumed
+
+Errors by code${errors.length === 0 ? '   none' : ''}`);
+  for (const [code, count] of errors) {
+    console.log(`  ${code.padEnd(30)} ${count}`);
+  }
+
+  console.log('\nServer memory');
+  console.log(`  ${'time'.padStart(6)}  ${'in calls'.padStart(8)}  ${'rss'.padStart(12)}  ${'heap used'.padStart(12)}`);
+  for (const { elapsed, connected, rss, heapUsed } of results.memory) {
+    console.log(`  ${`${elapsed}s`.padStart(6)}  ${String(connected).padStart(8)}  ${mebibytes(rss).padStart(12)}  ${mebibytes(heapUsed).padStart(12)}`);
+  }
+};
+
+/**
+ * Run the load test
+ * @returns {Promise<void>}
+ * @private
+ */
+const run = async (): Promise<void> => {
+  const rooms: VirtualParticipant[][] = [];
+  for (let room = 0; room < ROOMS; room += 1) {
+    const meetingId = `loadtest-${RUN_ID}-${room}`;
+    rooms.push(Array.from({ length: PER_ROOM }, (_, i) => new VirtualParticipant(meetingId, `load-${RUN_ID}-${room}-${i}`)));
+  }
+  const participants = rooms.flat();
+
+  logger.info(`Starting ${participants.length} participants in ${ROOMS} rooms against ${URL} over ${RAMP_UP}s`);
+
+  // Join room by room, so that rooms fill one after the other as in real meetings
+  const spacing = participants.length > 1 ? (RAMP_UP * 1000) / (participants.length - 1) : 0;
+  const joinTimers = participants.map((participant, index) =>
+    setTimeout(() => participant.start(), index * spacing)
+  );
+
+  const sampleTimer = setInterval(() => void sampleServerMemory(participants), SAMPLE_INTERVAL * 1000);
+  void sampleServerMemory(participants);
+
+  // Each churn round, one participant per room leaves or drops, alternately
+  let churnRound = 0;
+  const churnTimer = CHURN_INTERVAL > 0
+    ? setInterval(() => {
+      churnRound += 1;
+      for (const room of rooms) {
+        const candidates = room.filter(p => p.joined);
+        const participant = candidates[Math.floor(Math.random() * candidates.length)];
+        if (!participant) continue;
+
+        if (churnRound % 2 === 0) {
+          participant.churnByDropping();
+        } else {
+          void participant.churnByLeaving();
+        }
+      }
+    }, CHURN_INTERVAL * 1000)
+    : null;
+
+  await new Promise(resolve => setTimeout(resolve, DURATION * 1000));
+
+  joinTimers.forEach(timer => clearTimeout(timer));
+  if (churnTimer) clearInterval(churnTimer);
+  clearInterval(sampleTimer);
+
+  // Signals still in flight get a moment to arrive before they count as lost
+  await new Promise(resolve => setTimeout(resolve, 1000));
+  await sampleServerMemory(participants);
+
+  logger.info('Leaving the calls');
+  await Promise.all(participants.map(participant => participant.stop()));
+
+  printReport();
+};
+
+run()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error('Load test failed', error);
+    process.exit(1);
+  });
@@ -0,0 +1,74 @@
+/**
+ * Local webhook receiver
+ * @module tools/webhookReceiver
+ * @description Minimal HTTP server for testing webhook delivery: verifies the signature of every
+ * request and prints the event. Setting `FAIL_RATE` answers that share of requests with a 503 to
+ * exercise retries and the dead-letter file.
+ * @example
+ * // Terminal 1
+ * WEBHOOK_SECRET=local-webhook-secret npm run webhook-receiver
+ * // Terminal 2
+ * WEBHOOKS='[{"url":"http://localhost:5100/webhooks","secret":"local-webhook-secret"}]' npm run dev
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { createServer } from 'http';
+import { logger } from '../utils/logger';
+import { verifyWebhook } from '../utils/webhookSignature';
+
+/**
+ * Port the receiver listens on
+ * @constant {number}
+ * @default 5100
+ */
+const PORT = parseInt(process.env.WEBHOOK_RECEIVER_PORT || '5100', 10);
+
+/**
+ * Secret shared with the call server's `WEBHOOKS` entry
+ * @constant {string}
+ */
+const SECRET = process.env.WEBHOOK_SECRET || '';
+
+/**
+ * Share of requests answered with 503, between 0 and 1
+ * @constant {number}
+ * @default 0
+ */
+const FAIL_RATE = parseFloat(process.env.FAIL_RATE || '0');
+
+if (!SECRET) {
+  logger.error('Set WEBHOOK_SECRET to the secret of the webhook subscription');
+  process.exit(1);
+}
+
+const server = createServer((req, res) => {
+  const chunks: Buffer[] = [];
+
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const timestamp = req.headers['x-webhook-timestamp'] as string | undefined;
+    const signature = req.headers['x-webhook-signature'] as string | undefined;
+
+    if (req.method !== 'POST' || !verifyWebhook(SECRET, timestamp, body, signature)) {
+      logger.warn(`Rejected ${req.method} ${req.url}: invalid or expired signature`);
+      res.writeHead(401).end();
+      return;
+    }
+
+    if (Math.random() < FAIL_RATE) {
+      logger.warn(`Failing ${req.headers['x-webhook-event']} (${req.headers['x-webhook-id']}) on purpose`);
+      res.writeHead(503).end();
+      return;
+    }
+
+    logger.success(`Received ${req.headers['x-webhook-event']}`, JSON.parse(body));
+    res.writeHead(204).end();
+  });
+});
+
+server.listen(PORT, () => {
+  logger.info(`Webhook receiver listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,1296 @@
+/**
+ * Event contract between the call server and its clients
+ * @module types/contract
+ * @description Event names, payloads, notifications and error codes exchanged over Socket.IO,
+ * and the typed event maps applied to the server. Has no imports, so the client SDK
+ * (`client/`) compiles this file as is.
+ */
+
+/**
+ * Role of a participant within a call
+ * @typedef {string} CallRole
+ * @description Determines which events a participant may emit (see `config/permissions`):
+ * - `host`: full control of the call, including role changes
+ * - `co-host`: moderator appointed by the host
+ * - `participant`: regular attendee who may speak and share video
+ * - `viewer`: listen-only attendee
+ */
+export type CallRole = 'host' | 'co-host' | 'participant' | 'viewer';
+
+/**
+ * Connection state of a participant
+ * @typedef {string} ConnectionState
+ * @description A participant whose socket dropped stays `reconnecting` for the grace period,
+ * keeping their slot until they resume or the period expires.
+ */
+export type ConnectionState = 'connected' | 'reconnecting';
+
+/**
+ * Screen sharing policy of a room
+ * @typedef {string} ScreenSharePolicy
+ * @description
+ * - `single`: one presenter at a time; others must wait until the share stops
+ * - `multiple`: any number of participants may share at once
+ */
+export type ScreenSharePolicy = 'single' | 'multiple';
+
+/**
+ * Lifecycle state of a call
+ * @typedef {string} CallState
+ * @description Driven by the number of participants against `MIN_PARTICIPANTS`:
+ * - `waiting`: the call has not reached the minimum number of participants yet; it ends at `endsAt` unless enough participants join
+ * - `active`: the call has at least the minimum number of participants
+ * - `ending`: an active call fell below the minimum; it ends at `endsAt` unless enough participants return
+ * - `ended`: the call was ended for everyone; its room is being closed
+ */
+export type CallState = 'waiting' | 'active' | 'ending' | 'ended';
+
+/**
+ * Settings a call room is created with
+ * @interface CallRoomSettings
+ * @description Chosen when the room is created with `POST /api/call/room` or `call:create-room`;
+ * rooms created by a first `call:join` get the server defaults (`MAX_PARTICIPANTS`, not audio-only,
+ * starting muted with the camera off, every role allowed).
+ */
+export interface CallRoomSettings {
+  /** Maximum number of participants, including those reconnecting */
+  maxParticipants: number;
+  /** Whether cameras and screen sharing are disabled */
+  audioOnly: boolean;
+  /** Whether joiners start with their microphone muted */
+  startMuted: boolean;
+  /** Whether joiners start with their camera off */
+  startCameraOff: boolean;
+  /** Roles allowed to join the call or be assigned in it; always includes `host` */
+  allowedRoles: CallRole[];
+}
+
+/**
+ * Planned times of a call
+ * @interface CallSchedule
+ * @description Given when the room is created ahead. The call is ended automatically at
+ * `endsAt` or `maxDuration` seconds after its first join, whichever comes first, with
+ * `call:ending-soon` warnings before. Every field may be null.
+ */
+export interface CallSchedule {
+  /** ISO 8601 timestamp before which joins are rejected with `MEETING_NOT_STARTED` */
+  startsAt: string | null;
+  /** ISO 8601 timestamp at which the call is ended */
+  endsAt: string | null;
+  /** Longest the call may run, in seconds from its first join */
+  maxDuration: number | null;
+}
+
+/**
+ * Public view of a call room returned by the REST API
+ * @interface CallRoomInfo
+ * @description Returned by `GET /api/call/room/:meetingId`. Never includes socket or peer identifiers.
+ */
+export interface CallRoomInfo {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** Number of participants in the call */
+  participants: number;
+  /** Whether the room is locked against new joins */
+  isLocked: boolean;
+  /** Whether joiners wait in the lobby */
+  lobbyEnabled: boolean;
+  /** Whether one or several participants may share their screen at once */
+  screenSharePolicy: ScreenSharePolicy;
+  /** Settings the room was created with */
+  settings: CallRoomSettings;
+  /** Lifecycle state of the call */
+  state: CallState;
+  /** ISO 8601 timestamp of when a `waiting` or `ending` call ends, or null */
+  endsAt: string | null;
+  /** Planned times the room was created with */
+  schedule: CallSchedule;
+  /** ISO 8601 timestamp of when the schedule ends the call, or null */
+  closesAt: string | null;
+  /** Users waiting in the lobby */
+  lobby: LobbyUser[];
+  /** Raised hands, in the order they were raised */
+  raisedHands: RaisedHand[];
+  /** Participants and their current state */
+  users: Array<{
+    /** User identifier */
+    userId: string;
+    /** Display name */
+    username: string;
+    /** Role in the call */
+    role: CallRole;
+    /** Current mute status */
+    isMuted: boolean;
+    /** Current video status */
+    isVideoOn: boolean;
+    /** Current screen sharing status */
+    isScreenSharing: boolean;
+    /** ISO 8601 timestamp of when they raised their hand, or null */
+    handRaisedAt: string | null;
+    /** Whether the participant is connected or reconnecting */
+    connectionState: ConnectionState;
+  }>;
+}
+
+/**
+ * Aggregated quality of the connection from one participant to another
+ * @interface PeerQuality
+ * @description Built from the reports of `userId` about its connection to `remoteUserId`; the
+ * other direction is a separate entry.
+ */
+export interface PeerQuality {
+  /** User identifier of the participant who reported the connection */
+  userId: string;
+  /** User identifier of the remote participant */
+  remoteUserId: string;
+  /** Local candidate type of the latest report */
+  candidateType: CandidateType;
+  /** Number of reports */
+  reports: number;
+  /** Metrics of the latest report */
+  latest: QualityValues;
+  /** Mean of every report */
+  average: QualityValues;
+  /** Highest RTT, jitter and packet loss, and lowest bitrate, of every report */
+  worst: QualityValues;
+  /** Metrics of the latest report beyond their thresholds */
+  issues: QualityIssue[];
+  /** ISO 8601 timestamp of the first report */
+  firstReportAt: string;
+  /** ISO 8601 timestamp of the latest report */
+  updatedAt: string;
+}
+
+/**
+ * Aggregated quality of the connections of one participant
+ * @interface ParticipantQuality
+ * @description Combines the participant's reports about all their connections.
+ */
+export interface ParticipantQuality {
+  /** User identifier */
+  userId: string;
+  /** Display name */
+  username: string;
+  /** Number of reports, across connections */
+  reports: number;
+  /** Mean of every report, or null before the first one */
+  average: QualityValues | null;
+  /** Worst values of every report, or null before the first one */
+  worst: QualityValues | null;
+  /** Local candidate types in use */
+  candidateTypes: CandidateType[];
+  /** Remote participants with whom a connection, in either direction, currently has issues */
+  degradedWith: string[];
+  /** ISO 8601 timestamp of the latest report, or null before the first one */
+  updatedAt: string | null;
+}
+
+/**
+ * Connection quality of a call returned by the REST API
+ * @interface CallQualityInfo
+ * @description Returned by `GET /api/call/room/:meetingId/quality`. Connections stay listed until
+ * the room closes, including those of participants who left.
+ */
+export interface CallQualityInfo {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** Thresholds the latest reports are checked against */
+  thresholds: Record<QualityMetric, number>;
+  /** Current participants */
+  participants: ParticipantQuality[];
+  /** Reported connections */
+  peers: PeerQuality[];
+}
+
+/**
+ * Payload sent when a client joins a voice call
+ * @interface JoinCallPayload
+ * @description Contains the necessary information for a client to join an existing
+ * voice call room or create a new one if it doesn't exist. The user identity is taken
+ * from the authenticated socket, never from the payload.
+ */
+export interface JoinCallPayload {
+  /** Meeting/room identifier to join */
+  meetingId: string;
+  /** PeerJS peer identifier for WebRTC connections */
+  peerId: string;
+  /** Resume token from the last `call:peers-list`, to reclaim the slot after a dropped connection */
+  resumeToken?: string;
+}
+
+/**
+ * Payload sent to create a call room ahead of the first join
+ * @interface CreateRoomPayload
+ * @description Settings left out take the server defaults. Rooms are still created by a plain
+ * `call:join` when they do not exist.
+ */
+export interface CreateRoomPayload extends Partial<CallRoomSettings> {
+  /** Meeting/room identifier to create */
+  meetingId: string;
+  /** Whether joiners wait in the lobby until a moderator admits them; defaults to false */
+  lobbyEnabled?: boolean;
+  /** Planned times of the call; none by default */
+  schedule?: Partial<CallSchedule>;
+}
+
+/**
+ * Payload sent when a client leaves a voice call
+ * @interface LeaveCallPayload
+ * @description Contains the minimum information needed to identify and remove
+ * a participant from a voice call room.
+ */
+export interface LeaveCallPayload {
+  /** Meeting/room identifier to leave */
+  meetingId: string;
+}
+
+/**
+ * Kind of WebRTC signal relayed between peers
+ * @typedef {string} SignalType
+ */
+export type SignalType = 'offer' | 'answer' | 'ice-candidate';
+
+/**
+ * SDP offer or answer, as produced by `RTCPeerConnection.createOffer()`/`createAnswer()`
+ * @interface SessionDescriptionSignal
+ */
+export interface SessionDescriptionSignal {
+  /** Must match the signal type */
+  type: 'offer' | 'answer';
+  /** Session description */
+  sdp: string;
+}
+
+/**
+ * ICE candidate, as produced by `RTCIceCandidate.toJSON()`
+ * @interface IceCandidateSignal
+ */
+export interface IceCandidateSignal {
+  /** Candidate line (empty for the end-of-candidates marker) */
+  candidate: string;
+  /** Media stream identification tag */
+  sdpMid?: string | null;
+  /** Index of the media description */
+  sdpMLineIndex?: number | null;
+  /** ICE username fragment */
+  usernameFragment?: string | null;
+}
+
+/**
+ * WebRTC signal data
+ * @typedef {SessionDescriptionSignal | IceCandidateSignal} WebRTCSignal
+ * @description Offers and answers carry a {@link SessionDescriptionSignal}, `ice-candidate`
+ * signals an {@link IceCandidateSignal}. Unknown fields are dropped by the server.
+ */
+export type WebRTCSignal = SessionDescriptionSignal | IceCandidateSignal;
+
+/**
+ * Payload for WebRTC signaling messages
+ * @interface SignalPayload
+ * @description Used to exchange WebRTC signaling data (SDP offers, answers, and ICE candidates)
+ * between peers through the server. The server acts as a relay for these signals and
+ * fills in the sender's user and peer identifiers itself.
+ */
+export interface SignalPayload {
+  /** Meeting/room identifier where the signal is being sent */
+  meetingId: string;
+  /** User identifier of the intended signal recipient */
+  toUserId: string;
+  /** PeerJS peer identifier of the recipient */
+  toPeerId: string;
+  /** WebRTC signal data (SDP offer, SDP answer, or ICE candidate) */
+  signal: WebRTCSignal;
+  /** Type of WebRTC signal being sent */
+  signalType: SignalType;
+}
+
+/**
+ * WebRTC signal relayed by the server
+ * @interface SignalNotification
+ * @description A {@link SignalPayload} as delivered to its recipient, with the sender's
+ * identifiers filled in from the authenticated socket.
+ */
+export interface SignalNotification {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** User identifier of the sender */
+  fromUserId: string;
+  /** User identifier of the recipient */
+  toUserId: string;
+  /** PeerJS peer identifier of the sender */
+  fromPeerId: string;
+  /** PeerJS peer identifier of the recipient */
+  toPeerId: string;
+  /** WebRTC signal data (SDP offer, SDP answer, or ICE candidate) */
+  signal: WebRTCSignal;
+  /** Type of WebRTC signal */
+  signalType: SignalType;
+}
+
+/**
+ * Payload sent by the host to change a participant's role
+ * @interface SetRolePayload
+ * @description Assigning `host` transfers host rights; the previous host becomes co-host.
+ */
+export interface SetRolePayload {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** User identifier of the participant whose role changes */
+  targetUserId: string;
+  /** New role to assign */
+  role: CallRole;
+}
+
+/**
+ * Payload for moderation actions aimed at a single participant
+ * @interface ModerationTargetPayload
+ * @description Used by `call:mute-participant` and `call:stop-video`.
+ */
+export interface ModerationTargetPayload {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** User identifier of the affected participant */
+  targetUserId: string;
+}
+
+/**
+ * Payload for removing a participant from the call
+ * @interface RemoveParticipantPayload
+ */
+export interface RemoveParticipantPayload extends ModerationTargetPayload {
+  /** Also ban the user from rejoining for the rest of the meeting */
+  ban?: boolean;
+}
+
+/**
+ * Payload for room-wide moderation actions
+ * @interface RoomModerationPayload
+ * @description Used by `call:mute-all`, `call:lock-room`, `call:unlock-room` and `call:end`.
+ */
+export interface RoomModerationPayload {
+  /** Meeting/room identifier */
+  meetingId: string;
+}
+
+/**
+ * Payload for mute and unmute actions
+ * @interface MutePayload
+ * @description Sent when a user mutes or unmutes their microphone.
+ * The server broadcasts this status change to all other participants.
+ */
+export interface MutePayload {
+  /** Meeting/room identifier where the mute action occurred */
+  meetingId: string;
+}
+
+/**
+ * Payload for video on/off actions
+ * @interface VideoPayload
+ * @description Sent when a user turns their camera on or off.
+ * The server broadcasts this status change to all other participants.
+ */
+export interface VideoPayload {
+  /** Meeting/room identifier where the video action occurred */
+  meetingId: string;
+}
+
+/**
+ * Payload for starting a screen share
+ * @interface ScreenShareStartPayload
+ * @description Sent when a user starts sharing their screen. The screen is published as a
+ * separate stream, identified by its own peerId or stream id.
+ */
+export interface ScreenShareStartPayload {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** Peer or stream identifier of the screen share */
+  streamId: string;
+}
+
+/**
+ * Payload for stopping a screen share
+ * @interface ScreenShareStopPayload
+ */
+export interface ScreenShareStopPayload {
+  /** Meeting/room identifier */
+  meetingId: string;
+}
+
+/**
+ * Payload for changing a room's screen sharing policy
+ * @interface SetScreenSharePolicyPayload
+ */
+export interface SetScreenSharePolicyPayload {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** New policy */
+  policy: ScreenSharePolicy;
+}
+
+/**
+ * Payload for raising or lowering one's own hand
+ * @interface HandPayload
+ */
+export interface HandPayload {
+  /** Meeting/room identifier */
+  meetingId: string;
+}
+
+/**
+ * Payload for sending a reaction
+ * @interface ReactionPayload
+ */
+export interface ReactionPayload {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** One of the allowed reaction emojis */
+  emoji: string;
+}
+
+/**
+ * Type of the local ICE candidate a peer connection uses
+ * @typedef {string} CandidateType
+ * @description As reported by `getStats()` for the selected candidate pair; `relay` means the
+ * media goes through the TURN server.
+ */
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+/**
+ * Connection quality metrics of one peer connection
+ * @interface QualityValues
+ */
+export interface QualityValues {
+  /** Round-trip time, in milliseconds */
+  rtt: number;
+  /** Jitter of the received media, in milliseconds */
+  jitter: number;
+  /** Share of the packets received from the peer that were lost, in percent */
+  packetLoss: number;
+  /** Bitrate received from the peer, in kbit/s */
+  bitrate: number;
+}
+
+/**
+ * Summarized `getStats()` numbers of the connection to one remote participant
+ * @interface PeerQualityStats
+ * @description Values summarize the interval since the previous report (e.g. the mean RTT and the
+ * packets lost over the last 10 seconds), not cumulative counters.
+ */
+export interface PeerQualityStats extends QualityValues {
+  /** User identifier of the remote participant */
+  userId: string;
+  /** Type of the local candidate of the selected candidate pair */
+  candidateType: CandidateType;
+}
+
+/**
+ * Payload for reporting connection quality
+ * @interface QualityReportPayload
+ * @description Sent periodically (every 5 to 10 seconds) with one entry per remote participant.
+ * Entries for users who are not in the call are ignored.
+ */
+export interface QualityReportPayload {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** Quality of the connection to each remote participant */
+  peers: PeerQualityStats[];
+}
+
+/**
+ * Response containing the list of peers in a call
+ * @interface PeersListResponse
+ * @description Sent to a newly joined participant containing information about
+ * all other participants already in the call. Used to establish initial connections.
+ */
+export interface PeersListResponse {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** Array of participant information */
+  participants: Array<{
+    /** User identifier */
+    userId: string;
+    /** PeerJS peer identifier for WebRTC connection */
+    peerId: string;
+    /** Display name */
+    username: string;
+    /** Role in the call */
+    role: CallRole;
+    /** Current mute status */
+    isMuted: boolean;
+    /** Current video status */
+    isVideoOn: boolean;
+    /** Current screen sharing status */
+    isScreenSharing: boolean;
+    /** Peer or stream identifier of the screen share, or null when not sharing */
+    screenStreamId: string | null;
+    /** ISO 8601 timestamp of when they raised their hand, or null */
+    handRaisedAt: string | null;
+    /** ISO 8601 timestamp of when they joined */
+    joinedAt: string;
+    /** Whether the peer is connected or reconnecting */
+    connectionState: ConnectionState;
+  }>;
+  /** Total number of participants in the list */
+  count: number;
+  /** Token to send with `call:join` to resume this session after a dropped connection */
+  resumeToken: string;
+  /** Settings of the room, including the media state new participants start with */
+  settings: CallRoomSettings;
+  /** Lifecycle state of the call when joining; changes arrive in `call:state` */
+  state: CallState;
+  /** ISO 8601 timestamp of when the schedule ends the call, or null */
+  closesAt: string | null;
+}
+
+/**
+ * Notification broadcast when a new peer joins the call
+ * @interface PeerJoinedNotification
+ * @description Sent to all existing participants when a new user joins the voice call.
+ * Recipients should initiate a WebRTC connection with the new peer.
+ */
+export interface PeerJoinedNotification {
+  /** User identifier of the new participant */
+  userId: string;
+  /** PeerJS peer identifier for establishing WebRTC connection */
+  peerId: string;
+  /** Display name of the new participant */
+  username: string;
+  /** Role of the new participant */
+  role: CallRole;
+  /** ISO 8601 timestamp of when they joined */
+  timestamp: string;
+}
+
+/**
+ * Notification broadcast when a peer's connection drops
+ * @interface PeerReconnectingNotification
+ * @description The peer keeps its slot until `expiresAt`. Recipients should keep their state for
+ * this peer and wait for `call:peer-reconnected` or `call:peer-left`.
+ */
+export interface PeerReconnectingNotification {
+  /** User identifier of the reconnecting participant */
+  userId: string;
+  /** PeerJS peer identifier of the dropped connection */
+  peerId: string;
+  /** Display name of the participant */
+  username: string;
+  /** ISO 8601 timestamp of when the slot is released */
+  expiresAt: string;
+  /** ISO 8601 timestamp of the disconnection */
+  timestamp: string;
+}
+
+/**
+ * Notification broadcast when a reconnecting peer resumes its session
+ * @interface PeerReconnectedNotification
+ * @description The peer may come back with a new peerId; recipients should re-establish their
+ * WebRTC connection with it.
+ */
+export interface PeerReconnectedNotification {
+  /** User identifier of the participant */
+  userId: string;
+  /** PeerJS peer identifier of the new connection */
+  peerId: string;
+  /** Display name of the participant */
+  username: string;
+  /** ISO 8601 timestamp of the resumption */
+  timestamp: string;
+}
+
+/**
+ * Notification broadcast when a peer leaves the call
+ * @interface PeerLeftNotification
+ * @description Sent to all remaining participants when a user leaves the voice call.
+ * Recipients should close their WebRTC connection with this peer.
+ */
+export interface PeerLeftNotification {
+  /** User identifier of the leaving participant */
+  userId: string;
+  /** PeerJS peer identifier of the leaving participant */
+  peerId: string;
+  /** Display name of the leaving participant */
+  username: string;
+  /** ISO 8601 timestamp of when they left */
+  timestamp: string;
+}
+
+/**
+ * Notification broadcast when a participant's mute status changes
+ * @interface MuteStatusNotification
+ * @description Sent to all participants in a call when someone mutes or unmutes.
+ * Used to update UI indicators showing who is speaking or muted.
+ */
+export interface MuteStatusNotification {
+  /** User identifier of the participant who changed status */
+  userId: string;
+  /** Display name of the participant */
+  username: string;
+  /** New mute status (true = muted, false = unmuted) */
+  isMuted: boolean;
+  /** ISO 8601 timestamp of the status change */
+  timestamp: string;
+}
+
+/**
+ * Notification broadcast when a participant's video status changes
+ * @interface VideoStatusNotification
+ * @description Sent to all participants in a call when someone turns their camera on or off.
+ * Used to update UI indicators showing who has their camera active.
+ */
+export interface VideoStatusNotification {
+  /** User identifier of the participant who changed status */
+  userId: string;
+  /** Display name of the participant */
+  username: string;
+  /** New video status (true = camera on, false = camera off) */
+  isVideoOn: boolean;
+  /** ISO 8601 timestamp of the status change */
+  timestamp: string;
+}
+
+/**
+ * Notification broadcast when a participant starts or stops sharing their screen
+ * @interface ScreenShareStatusNotification
+ * @description Sent to all participants in a call. Recipients connect to `streamId` to
+ * receive the screen, or close that connection when sharing stops.
+ */
+export interface ScreenShareStatusNotification {
+  /** User identifier of the participant who changed status */
+  userId: string;
+  /** Display name of the participant */
+  username: string;
+  /** New screen sharing status */
+  isScreenSharing: boolean;
+  /** Peer or stream identifier of the screen share, or null when it stopped */
+  streamId: string | null;
+  /** ISO 8601 timestamp of the status change */
+  timestamp: string;
+}
+
+/**
+ * Entry of a room's raised hand queue
+ * @interface RaisedHand
+ */
+export interface RaisedHand {
+  /** User identifier */
+  userId: string;
+  /** Display name */
+  username: string;
+  /** ISO 8601 timestamp of when the hand was raised */
+  raisedAt: string;
+}
+
+/**
+ * Notification broadcast whenever a room's raised hand queue changes
+ * @interface HandQueueNotification
+ * @description Carries the whole queue, so clients can simply replace their copy.
+ */
+export interface HandQueueNotification {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** Raised hands, in the order they were raised */
+  queue: RaisedHand[];
+}
+
+/**
+ * Reaction fanned out to a room
+ * @interface ReactionNotification
+ * @description Reactions are ephemeral: they are not stored and late joiners never see them.
+ */
+export interface ReactionNotification {
+  /** User identifier of the sender */
+  userId: string;
+  /** Display name of the sender */
+  username: string;
+  /** Reaction emoji */
+  emoji: string;
+  /** ISO 8601 timestamp of the reaction */
+  timestamp: string;
+}
+
+/**
+ * Notification broadcast when a participant's role changes
+ * @interface RoleChangedNotification
+ * @description Sent to all participants when the host changes a role or when host rights
+ * are handed over after the host leaves.
+ */
+export interface RoleChangedNotification {
+  /** User identifier of the participant whose role changed */
+  userId: string;
+  /** Display name of the participant */
+  username: string;
+  /** New role */
+  role: CallRole;
+  /** User identifier of who made the change, or null when assigned automatically */
+  changedBy: string | null;
+  /** ISO 8601 timestamp of the change */
+  timestamp: string;
+}
+
+/**
+ * Public view of a user waiting in the lobby
+ * @interface LobbyUser
+ */
+export interface LobbyUser {
+  /** User identifier */
+  userId: string;
+  /** Display name */
+  username: string;
+  /** ISO 8601 timestamp of when the user started waiting */
+  requestedAt: string;
+}
+
+/**
+ * Notification sent to moderators whenever the lobby changes
+ * @interface LobbyUpdateNotification
+ */
+export interface LobbyUpdateNotification {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** Users currently waiting, oldest first */
+  waiting: LobbyUser[];
+}
+
+/**
+ * Notification sent to a user placed in the lobby
+ * @interface LobbyWaitingNotification
+ * @description The user is admitted when `call:peers-list` arrives, or turned away with `call:lobby-denied`.
+ */
+export interface LobbyWaitingNotification {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** ISO 8601 timestamp of when the user started waiting */
+  requestedAt: string;
+}
+
+/**
+ * Notification sent to a waiting user who will not be admitted
+ * @interface LobbyDeniedNotification
+ */
+export interface LobbyDeniedNotification {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** `DENIED` by a moderator, or `ROOM_CLOSED` because everyone left */
+  reason: 'DENIED' | 'ROOM_CLOSED';
+  /** Moderator who denied entry, or null */
+  deniedBy: string | null;
+  /** ISO 8601 timestamp */
+  timestamp: string;
+}
+
+/**
+ * Payload for enabling or disabling the lobby
+ * @interface SetLobbyPayload
+ */
+export interface SetLobbyPayload {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** Whether joiners must wait to be admitted */
+  enabled: boolean;
+}
+
+/**
+ * Payload for admitting or denying a waiting user
+ * @interface LobbyDecisionPayload
+ */
+export interface LobbyDecisionPayload {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** User identifier of the waiting user */
+  targetUserId: string;
+}
+
+/**
+ * Moderation action reported in {@link ModerationNotification}
+ * @typedef {string} ModerationAction
+ */
+export type ModerationAction =
+  | 'mute'
+  | 'mute-all'
+  | 'stop-video'
+  | 'remove'
+  | 'ban'
+  | 'lock'
+  | 'unlock'
+  | 'enable-lobby'
+  | 'disable-lobby'
+  | 'stop-screen-share'
+  | 'lower-hand'
+  | 'single-presenter'
+  | 'multiple-presenters';
+
+/**
+ * Notification broadcast when a moderator acts on the call
+ * @interface ModerationNotification
+ * @description Sent to all participants in addition to the regular status notifications
+ * (`call:mute-status`, `call:video-status`, `call:peer-left`) so clients can tell users who acted.
+ */
+export interface ModerationNotification {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** Action that was taken */
+  action: ModerationAction;
+  /** Affected user, or null for room-wide actions */
+  targetUserId: string | null;
+  /** Moderator who took the action */
+  byUserId: string | null;
+  /** ISO 8601 timestamp of the action */
+  timestamp: string;
+}
+
+/**
+ * Reason a participant was taken out of a call by the server
+ * @typedef {string} RemovalReason
+ * @description Participants removed with `CALL_ENDED` receive `call:ended` instead of `call:removed`.
+ */
+export type RemovalReason = 'REMOVED_BY_HOST' | 'BANNED' | 'CALL_ENDED';
+
+/**
+ * Notification sent to a participant who was removed from the call
+ * @interface RemovedNotification
+ * @description The socket stays connected but is no longer in the meeting room.
+ */
+export interface RemovedNotification {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** Why the participant was removed */
+  reason: RemovalReason;
+  /** User who removed them, or null when automatic */
+  removedBy: string | null;
+  /** ISO 8601 timestamp of the removal */
+  timestamp: string;
+}
+
+/**
+ * Notification broadcast when a call is ended for everyone
+ * @interface CallEndedNotification
+ * @description All participants are taken out of the call and users waiting in the lobby are
+ * turned away with `ROOM_CLOSED`. Joining the same meeting again starts a new call.
+ */
+export interface CallEndedNotification {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** User who ended the call, or null when ended by an operator or the server */
+  endedBy: string | null;
+  /** ISO 8601 timestamp of when the call ended */
+  timestamp: string;
+}
+
+/**
+ * Notification broadcast when a call changes state
+ * @interface CallStateNotification
+ */
+export interface CallStateNotification {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** New state */
+  state: CallState;
+  /** State before the change */
+  previousState: CallState;
+  /** Number of participants, including those reconnecting */
+  participants: number;
+  /** Participants the call needs to be `active` */
+  minParticipants: number;
+  /** ISO 8601 timestamp of when a `waiting` or `ending` call ends, or null */
+  endsAt: string | null;
+  /** ISO 8601 timestamp of the change */
+  timestamp: string;
+}
+
+/**
+ * What ends a scheduled call
+ * @typedef {string} CallClosingReason
+ * @description
+ * - `scheduled-end`: the schedule's `endsAt` was reached
+ * - `max-duration`: the call ran for the schedule's `maxDuration`
+ */
+export type CallClosingReason = 'scheduled-end' | 'max-duration';
+
+/**
+ * Warning broadcast before the schedule ends a call
+ * @interface CallEndingSoonNotification
+ * @description Sent at each of the `CALL_ENDING_WARNINGS` offsets before `closesAt`.
+ */
+export interface CallEndingSoonNotification {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** ISO 8601 timestamp of when the call is ended */
+  closesAt: string;
+  /** Seconds left until then */
+  secondsLeft: number;
+  /** What ends the call */
+  reason: CallClosingReason;
+  /** ISO 8601 timestamp of the warning */
+  timestamp: string;
+}
+
+/**
+ * Notification broadcast when the server instance is shutting down
+ * @interface ServerShutdownNotification
+ * @description Sent to every socket connected to the stopping instance. Clients should leave,
+ * wait `reconnectAfter` seconds and reconnect (reaching another instance behind a load balancer),
+ * then join again with their resume token. Sockets still connected at `disconnectAt` are closed.
+ */
+export interface ServerShutdownNotification {
+  /** Seconds to wait before reconnecting */
+  reconnectAfter: number;
+  /** ISO 8601 timestamp of when the remaining connections are closed */
+  disconnectAt: string;
+  /** ISO 8601 timestamp of the notification */
+  timestamp: string;
+}
+
+/**
+ * Connection quality metric that is checked against a threshold
+ * @typedef {string} QualityMetric
+ */
+export type QualityMetric = 'rtt' | 'jitter' | 'packetLoss';
+
+/**
+ * Metric of a peer connection beyond its threshold
+ * @interface QualityIssue
+ */
+export interface QualityIssue {
+  /** Metric beyond its threshold */
+  metric: QualityMetric;
+  /** Value of the latest report */
+  value: number;
+  /** Highest acceptable value */
+  threshold: number;
+}
+
+/**
+ * Notification sent when the quality of a peer connection degrades or recovers
+ * @interface QualityWarningNotification
+ * @description Sent to both participants of the connection whenever the set of metrics beyond
+ * their thresholds changes: `degraded` with the current issues, `recovered` with none.
+ */
+export interface QualityWarningNotification {
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** User identifier of the participant who reported the connection */
+  userId: string;
+  /** User identifier of the remote participant of the connection */
+  remoteUserId: string;
+  /** Whether the connection degraded or recovered */
+  status: 'degraded' | 'recovered';
+  /** Metrics beyond their thresholds */
+  issues: QualityIssue[];
+  /** ISO 8601 timestamp of the notification */
+  timestamp: string;
+}
+
+/**
+ * Error response sent to clients
+ * @interface CallError
+ * @description Standard error format sent when an operation fails.
+ * Includes a human-readable message and optional error code for programmatic handling.
+ */
+export interface CallError {
+  /** Human-readable error message */
+  message: string;
+  /** Error code for programmatic error handling */
+  code: CallErrorCode;
+  /** Dot-separated path of the offending payload field, for `INVALID_PAYLOAD` */
+  path?: string;
+}
+
+/**
+ * Response passed to a client's acknowledgement callback
+ * @interface CallAckResponse
+ * @description Every client-to-server event accepts an optional acknowledgement callback as its
+ * last argument. It is called once, with `ok: true` when the event was handled or with the same
+ * error that is sent through `call:error`.
+ * @example
+ * socket.emit('call:mute', { meetingId }, (res) => { if (!res.ok) console.log(res.error.code); });
+ */
+export interface CallAckResponse {
+  /** Whether the event was handled */
+  ok: boolean;
+  /** The error, when `ok` is false */
+  error?: CallError;
+}
+
+/**
+ * Acknowledgement callback supplied by the client
+ * @typedef {Function} CallAck
+ */
+export type CallAck = (response: CallAckResponse) => void;
+
+/**
+ * Error codes sent to clients in {@link CallError} payloads
+ * @typedef {string} CallErrorCode
+ * @description `AUTH_*` codes, and `RATE_LIMITED` and `SERVER_SHUTTING_DOWN` for rejected
+ * connections, are delivered on handshake rejection through the Socket.IO `connect_error` event (as `err.data`), all others
+ * through `call:error`.
+ */
+export type CallErrorCode =
+  | 'AUTH_REQUIRED'
+  | 'AUTH_EXPIRED'
+  | 'AUTH_INVALID'
+  | 'INVALID_PAYLOAD'
+  | 'ROOM_FULL'
+  | 'ROOM_EXISTS'
+  | 'MEETING_NOT_STARTED'
+  | 'MEETING_ENDED'
+  | 'JOIN_ERROR'
+  | 'INVALID_SIGNAL'
+  | 'ROOM_NOT_FOUND'
+  | 'USER_NOT_FOUND'
+  | 'SIGNAL_ERROR'
+  | 'SIGNAL_TOO_LARGE'
+  | 'PEER_MISMATCH'
+  | 'PEER_UNAVAILABLE'
+  | 'FORBIDDEN'
+  | 'ROOM_LOCKED'
+  | 'BANNED'
+  | 'ROLE_NOT_ALLOWED'
+  | 'AUDIO_ONLY'
+  | 'SCREEN_SHARE_BUSY'
+  | 'RATE_LIMITED'
+  | 'SERVER_SHUTTING_DOWN'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Socket.IO event names for media call operations (audio + video)
+ * @enum {string} CallEvents
+ * @description Enumeration of all socket event names used in the media call system.
+ * Using an enum ensures consistency between client and server implementations.
+ */
+export enum CallEvents {
+  /** Socket.IO built-in connection event */
+  CONNECTION = 'connection',
+  /** Socket.IO built-in disconnection event */
+  DISCONNECT = 'disconnect',
+  
+  /** Client requests to join a call room */
+  JOIN = 'call:join',
+  /** Client requests to leave a call room */
+  LEAVE = 'call:leave',
+  /** Client creates a call room with its own settings before anyone joins */
+  CREATE_ROOM = 'call:create-room',
+  
+  /** WebRTC signaling message (offer, answer, or ICE candidate) */
+  SIGNAL = 'call:signal',
+  
+  /** Client mutes their microphone */
+  MUTE = 'call:mute',
+  /** Client unmutes their microphone */
+  UNMUTE = 'call:unmute',
+  
+  /** Client turns on their camera */
+  VIDEO_ON = 'call:video-on',
+  /** Client turns off their camera */
+  VIDEO_OFF = 'call:video-off',
+
+  /** Client starts sharing their screen */
+  SCREEN_SHARE_START = 'call:screen-share-start',
+  /** Client stops sharing their screen */
+  SCREEN_SHARE_STOP = 'call:screen-share-stop',
+
+  /** Client raises their hand to ask to speak */
+  RAISE_HAND = 'call:raise-hand',
+  /** Client lowers their hand */
+  LOWER_HAND = 'call:lower-hand',
+  /** Client sends an ephemeral reaction; also fanned out by the server */
+  REACTION = 'call:reaction',
+  /** Client reports the quality of its peer connections */
+  QUALITY_REPORT = 'call:quality-report',
+
+  /** Host changes a participant's role */
+  SET_ROLE = 'call:set-role',
+
+  /** Moderator mutes a participant */
+  MUTE_PARTICIPANT = 'call:mute-participant',
+  /** Moderator mutes every other participant */
+  MUTE_ALL = 'call:mute-all',
+  /** Moderator turns off a participant's camera */
+  STOP_VIDEO = 'call:stop-video',
+  /** Moderator removes (and optionally bans) a participant */
+  REMOVE_PARTICIPANT = 'call:remove-participant',
+  /** Moderator locks the room against new joins */
+  LOCK_ROOM = 'call:lock-room',
+  /** Moderator unlocks the room */
+  UNLOCK_ROOM = 'call:unlock-room',
+  /** Moderator lowers a participant's hand */
+  LOWER_PARTICIPANT_HAND = 'call:lower-participant-hand',
+  /** Moderator stops a participant's screen share */
+  STOP_SCREEN_SHARE = 'call:stop-screen-share',
+  /** Moderator switches between one and several presenters */
+  SET_SCREEN_SHARE_POLICY = 'call:set-screen-share-policy',
+
+  /** Moderator enables or disables the lobby */
+  SET_LOBBY = 'call:set-lobby',
+  /** Moderator admits a waiting user */
+  LOBBY_ADMIT = 'call:lobby-admit',
+  /** Moderator denies a waiting user */
+  LOBBY_DENY = 'call:lobby-deny',
+  /** Moderator admits every waiting user */
+  LOBBY_ADMIT_ALL = 'call:lobby-admit-all',
+
+  /** Host ends the call for everyone */
+  END = 'call:end',
+
+  /** Client requests fresh ICE servers (TURN credentials) before they expire */
+  REFRESH_ICE_SERVERS = 'call:ice-servers-refresh',
+  
+  /** Server notifies clients that a new peer has joined */
+  PEER_JOINED = 'call:peer-joined',
+  /** Server notifies clients that a peer has left */
+  PEER_LEFT = 'call:peer-left',
+  /** Server broadcasts that a participant's connection dropped */
+  PEER_RECONNECTING = 'call:peer-reconnecting',
+  /** Server broadcasts that a reconnecting participant resumed its session */
+  PEER_RECONNECTED = 'call:peer-reconnected',
+  /** Server sends list of current peers to a newly joined client */
+  PEERS_LIST = 'call:peers-list',
+  /** Server broadcasts a participant's mute status change */
+  MUTE_STATUS = 'call:mute-status',
+  /** Server broadcasts a participant's video status change */
+  VIDEO_STATUS = 'call:video-status',
+  /** Server broadcasts a participant's screen sharing status change */
+  SCREEN_SHARE_STATUS = 'call:screen-share-status',
+  /** Server broadcasts the raised hand queue */
+  HAND_QUEUE = 'call:hand-queue',
+  /** Server broadcasts a participant's role change */
+  ROLE_CHANGED = 'call:role-changed',
+  /** Server broadcasts a moderation action */
+  MODERATION = 'call:moderation',
+  /** Server tells a participant they were removed from the call */
+  REMOVED = 'call:removed',
+  /** Server tells all participants the call was ended for everyone */
+  ENDED = 'call:ended',
+  /** Server broadcasts that the call changed state */
+  STATE = 'call:state',
+  /** Server warns that the schedule is about to end the call */
+  ENDING_SOON = 'call:ending-soon',
+  /** Server tells clients it is shutting down and when to reconnect */
+  SERVER_SHUTDOWN = 'call:server-shutdown',
+  /** Server warns participants that their connection degraded or recovered */
+  QUALITY_WARNING = 'call:quality-warning',
+  /** Server sends moderators the current lobby */
+  LOBBY_UPDATE = 'call:lobby-update',
+  /** Server tells a joiner they are waiting in the lobby */
+  LOBBY_WAITING = 'call:lobby-waiting',
+  /** Server tells a waiting user they were not admitted */
+  LOBBY_DENIED = 'call:lobby-denied',
+  /** Server sends ICE servers configuration to a client */
+  ICE_SERVERS = 'call:ice-servers',
+  
+  /** Server sends an error message to a client */
+  ERROR = 'call:error',
+}
+
+/**
+ * ICE (Interactive Connectivity Establishment) server configuration
+ * @interface IceServer
+ * @description Configuration for STUN/TURN servers used in WebRTC connections.
+ * STUN servers help clients discover their public IP addresses for NAT traversal.
+ */
+export interface IceServer {
+  /** STUN/TURN server URL(s) in the format "stun:hostname:port" or "turn:hostname:port" */
+  urls: string | string[];
+  /** Username for TURN server authentication (optional for STUN) */
+  username?: string;
+  /** Credential/password for TURN server authentication (optional for STUN) */
+  credential?: string;
+}
+
+/**
+ * ICE servers configuration sent to clients
+ * @interface IceServersResponse
+ * @description Delivered on connection, on `call:ice-servers-refresh` and by
+ * `GET /api/call/ice-servers`. When TURN credentials are generated per user, `ttl` and
+ * `expiresAt` tell the client when to request fresh ones.
+ */
+export interface IceServersResponse {
+  /** STUN/TURN servers to pass to RTCPeerConnection */
+  iceServers: IceServer[];
+  /** Lifetime of the TURN credentials in seconds, or null if they do not expire */
+  ttl: number | null;
+  /** ISO 8601 expiry of the TURN credentials, or null if they do not expire */
+  expiresAt: string | null;
+}
+
+/**
+ * Media type for call connections
+ * @enum {string} MediaType
+ * @description Defines the types of media that can be transmitted in a call.
+ */
+export enum MediaType {
+  /** Audio only transmission */
+  AUDIO = 'audio',
+  /** Video only transmission */
+  VIDEO = 'video',
+  /** Both audio and video transmission */
+  AUDIO_VIDEO = 'audio_video',
+}
+
+/**
+ * Events a client may emit, with their payload and optional acknowledgement callback
+ * @interface ClientToServerEvents
+ * @description Applied to the Socket.IO server so handlers are checked against their payloads.
+ */
+export interface ClientToServerEvents {
+  [CallEvents.JOIN]: (payload: JoinCallPayload, ack?: CallAck) => void;
+  [CallEvents.LEAVE]: (payload: LeaveCallPayload, ack?: CallAck) => void;
+  [CallEvents.CREATE_ROOM]: (payload: CreateRoomPayload, ack?: CallAck) => void;
+  [CallEvents.SIGNAL]: (payload: SignalPayload, ack?: CallAck) => void;
+  [CallEvents.MUTE]: (payload: MutePayload, ack?: CallAck) => void;
+  [CallEvents.UNMUTE]: (payload: MutePayload, ack?: CallAck) => void;
+  [CallEvents.VIDEO_ON]: (payload: VideoPayload, ack?: CallAck) => void;
+  [CallEvents.VIDEO_OFF]: (payload: VideoPayload, ack?: CallAck) => void;
+  [CallEvents.SCREEN_SHARE_START]: (payload: ScreenShareStartPayload, ack?: CallAck) => void;
+  [CallEvents.SCREEN_SHARE_STOP]: (payload: ScreenShareStopPayload, ack?: CallAck) => void;
+  [CallEvents.RAISE_HAND]: (payload: HandPayload, ack?: CallAck) => void;
+  [CallEvents.LOWER_HAND]: (payload: HandPayload, ack?: CallAck) => void;
+  [CallEvents.REACTION]: (payload: ReactionPayload, ack?: CallAck) => void;
+  [CallEvents.QUALITY_REPORT]: (payload: QualityReportPayload, ack?: CallAck) => void;
+  [CallEvents.SET_ROLE]: (payload: SetRolePayload, ack?: CallAck) => void;
+  [CallEvents.MUTE_PARTICIPANT]: (payload: ModerationTargetPayload, ack?: CallAck) => void;
+  [CallEvents.MUTE_ALL]: (payload: RoomModerationPayload, ack?: CallAck) => void;
+  [CallEvents.STOP_VIDEO]: (payload: ModerationTargetPayload, ack?: CallAck) => void;
+  [CallEvents.REMOVE_PARTICIPANT]: (payload: RemoveParticipantPayload, ack?: CallAck) => void;
+  [CallEvents.LOCK_ROOM]: (payload: RoomModerationPayload, ack?: CallAck) => void;
+  [CallEvents.UNLOCK_ROOM]: (payload: RoomModerationPayload, ack?: CallAck) => void;
+  [CallEvents.LOWER_PARTICIPANT_HAND]: (payload: ModerationTargetPayload, ack?: CallAck) => void;
+  [CallEvents.STOP_SCREEN_SHARE]: (payload: ModerationTargetPayload, ack?: CallAck) => void;
+  [CallEvents.SET_SCREEN_SHARE_POLICY]: (payload: SetScreenSharePolicyPayload, ack?: CallAck) => void;
+  [CallEvents.SET_LOBBY]: (payload: SetLobbyPayload, ack?: CallAck) => void;
+  [CallEvents.LOBBY_ADMIT]: (payload: LobbyDecisionPayload, ack?: CallAck) => void;
+  [CallEvents.LOBBY_DENY]: (payload: LobbyDecisionPayload, ack?: CallAck) => void;
+  [CallEvents.LOBBY_ADMIT_ALL]: (payload: RoomModerationPayload, ack?: CallAck) => void;
+  [CallEvents.END]: (payload: RoomModerationPayload, ack?: CallAck) => void;
+  [CallEvents.REFRESH_ICE_SERVERS]: (payload?: Record<string, never> | null, ack?: CallAck) => void;
+}
+
+/**
+ * Events the server emits to clients, with their payload
+ * @interface ServerToClientEvents
+ */
+export interface ServerToClientEvents {
+  [CallEvents.PEERS_LIST]: (payload: PeersListResponse) => void;
+  [CallEvents.PEER_JOINED]: (payload: PeerJoinedNotification) => void;
+  [CallEvents.PEER_LEFT]: (payload: PeerLeftNotification) => void;
+  [CallEvents.PEER_RECONNECTING]: (payload: PeerReconnectingNotification) => void;
+  [CallEvents.PEER_RECONNECTED]: (payload: PeerReconnectedNotification) => void;
+  [CallEvents.SIGNAL]: (payload: SignalNotification) => void;
+  [CallEvents.MUTE_STATUS]: (payload: MuteStatusNotification) => void;
+  [CallEvents.VIDEO_STATUS]: (payload: VideoStatusNotification) => void;
+  [CallEvents.SCREEN_SHARE_STATUS]: (payload: ScreenShareStatusNotification) => void;
+  [CallEvents.HAND_QUEUE]: (payload: HandQueueNotification) => void;
+  [CallEvents.REACTION]: (payload: ReactionNotification) => void;
+  [CallEvents.ROLE_CHANGED]: (payload: RoleChangedNotification) => void;
+  [CallEvents.MODERATION]: (payload: ModerationNotification) => void;
+  [CallEvents.REMOVED]: (payload: RemovedNotification) => void;
+  [CallEvents.ENDED]: (payload: CallEndedNotification) => void;
+  [CallEvents.STATE]: (payload: CallStateNotification) => void;
+  [CallEvents.ENDING_SOON]: (payload: CallEndingSoonNotification) => void;
+  [CallEvents.SERVER_SHUTDOWN]: (payload: ServerShutdownNotification) => void;
+  [CallEvents.QUALITY_WARNING]: (payload: QualityWarningNotification) => void;
+  [CallEvents.LOBBY_UPDATE]: (payload: LobbyUpdateNotification) => void;
+  [CallEvents.LOBBY_WAITING]: (payload: LobbyWaitingNotification) => void;
+  [CallEvents.LOBBY_DENIED]: (payload: LobbyDeniedNotification) => void;
+  [CallEvents.ICE_SERVERS]: (payload: IceServersResponse) => void;
+  [CallEvents.ERROR]: (error: CallError) => void;
+}
@@ -1,10 +1,27 @@
 /**
  * Type definitions for the Voice Call Server
  * @module types
- * @description Contains all TypeScript interfaces, types, and enums used throughout the voice call server.
- * Includes definitions for participants, payloads, notifications, and socket events.
+ * @description Contains the server-side TypeScript interfaces and types used throughout the voice call server:
+ * stored participants and rooms, call history, authenticated users and the typed Socket.IO server and socket.
+ * Re-exports the client-facing event contract from `types/contract`.
  */
 
+import { DefaultEventsMap, Server, Socket } from 'socket.io';
+import {
+  CallRole,
+  CallRoomSettings,
+  CallSchedule,
+  CallState,
+  ClientToServerEvents,
+  ConnectionState,
+  PeerQuality,
+  RemovalReason,
+  ScreenSharePolicy,
+  ServerToClientEvents,
+} from './contract';
+
+export * from './contract';
+
 /**
  * Represents a participant in a media call room (audio + video)
  * @interface CallParticipant
@@ -22,335 +39,220 @@ export interface CallParticipant {
   peerId: string;
   /** Display name of the participant */
   username: string;
+  /** Role of the participant in this call */
+  role: CallRole;
   /** Whether the participant's microphone is currently muted */
   isMuted: boolean;
   /** Whether the participant's camera is currently on */
   isVideoOn: boolean;
+  /** Whether the participant is currently sharing their screen */
+  isScreenSharing: boolean;
+  /** Peer or stream identifier of the screen share, or null when not sharing */
+  screenStreamId: string | null;
+  /** ISO 8601 timestamp of when the participant raised their hand, or null if it is down */
+  handRaisedAt: string | null;
   /** ISO 8601 timestamp of when the participant joined the call */
   joinedAt: string;
+  /** Whether the participant's socket is connected or within the reconnection grace period */
+  connectionState: ConnectionState;
+  /** Secret that lets the participant reclaim this slot from a new socket */
+  resumeToken: string;
 }
 
 /**
- * Payload sent when a client joins a voice call
- * @interface JoinCallPayload
- * @description Contains the necessary information for a client to join an existing
- * voice call room or create a new one if it doesn't exist.
+ * Room-level metadata shared by all participants of a call
+ * @interface RoomMetadata
+ * @description Stored alongside the participants in the room store; a room exists while
+ * its metadata exists.
  */
-export interface JoinCallPayload {
-  /** Meeting/room identifier to join */
+export interface RoomMetadata {
+  /** Meeting/room identifier */
   meetingId: string;
-  /** Unique user identifier */
-  userId: string;
-  /** PeerJS peer identifier for WebRTC connections */
-  peerId: string;
-  /** Display name of the user joining */
-  username: string;
+  /** Identifier of the call session recorded in the history for this room's lifetime */
+  sessionId: string;
+  /** ISO 8601 timestamp of when the room was created */
+  createdAt: string;
+  /** Whether new participants are rejected */
+  isLocked: boolean;
+  /** Users banned from the meeting by a moderator */
+  bannedUserIds: string[];
+  /** Whether joiners wait in the lobby until a moderator admits them */
+  lobbyEnabled: boolean;
+  /** Whether one or several participants may share their screen at once */
+  screenSharePolicy: ScreenSharePolicy;
+  /** Capacity, media defaults and allowed roles chosen when the room was created */
+  settings: CallRoomSettings;
+  /** Lifecycle state of the call */
+  state: CallState;
+  /** ISO 8601 timestamp of the last state change */
+  stateChangedAt: string;
+  /** ISO 8601 timestamp of when a `waiting` or `ending` call ends, or null */
+  endsAt: string | null;
+  /** Planned times chosen when the room was created */
+  schedule: CallSchedule;
+  /** ISO 8601 timestamp of the first join, or null while nobody has joined */
+  startedAt: string | null;
+  /** ISO 8601 timestamp of when the schedule ends the call, or null; `maxDuration` counts once someone joins */
+  closesAt: string | null;
 }
 
 /**
- * Payload sent when a client leaves a voice call
- * @interface LeaveCallPayload
- * @description Contains the minimum information needed to identify and remove
- * a participant from a voice call room.
+ * A user waiting in a room's lobby
+ * @interface LobbyEntry
+ * @description Waiting users are not in the Socket.IO room and receive no peers or signals
+ * until a moderator admits them.
  */
-export interface LeaveCallPayload {
-  /** Meeting/room identifier to leave */
+export interface LobbyEntry {
+  /** Meeting/room identifier */
   meetingId: string;
-  /** Unique user identifier of the leaving participant */
+  /** User identifier */
   userId: string;
+  /** Display name */
+  username: string;
+  /** Socket of the waiting user */
+  socketId: string;
+  /** PeerJS peer identifier sent with the join request */
+  peerId: string;
+  /** Role the user receives once admitted */
+  role: CallRole;
+  /** ISO 8601 timestamp of when the user started waiting */
+  requestedAt: string;
 }
 
 /**
- * Payload for WebRTC signaling messages
- * @interface SignalPayload
- * @description Used to exchange WebRTC signaling data (SDP offers, answers, and ICE candidates)
- * between peers through the server. The server acts as a relay for these signals.
- */
-export interface SignalPayload {
-  /** Meeting/room identifier where the signal is being sent */
-  meetingId: string;
-  /** User identifier of the signal sender */
-  fromUserId: string;
-  /** User identifier of the intended signal recipient */
-  toUserId: string;
-  /** PeerJS peer identifier of the sender */
-  fromPeerId: string;
-  /** PeerJS peer identifier of the recipient */
-  toPeerId: string;
-  /** WebRTC signal data (SDP offer, SDP answer, or ICE candidate) */
-  signal: unknown;
-  /** Type of WebRTC signal being sent */
-  signalType: 'offer' | 'answer' | 'ice-candidate';
-}
-
-/**
- * Payload for mute and unmute actions
- * @interface MutePayload
- * @description Sent when a user mutes or unmutes their microphone.
- * The server broadcasts this status change to all other participants.
+ * Mapping from a socket to the call it has joined
+ * @interface SocketMapping
+ * @description Used to find the participant to clean up when a socket disconnects.
  */
-export interface MutePayload {
-  /** Meeting/room identifier where the mute action occurred */
+export interface SocketMapping {
+  /** Meeting/room identifier */
   meetingId: string;
-  /** User identifier of the participant changing mute status */
+  /** User identifier */
   userId: string;
 }
 
 /**
- * Payload for video on/off actions
- * @interface VideoPayload
- * @description Sent when a user turns their camera on or off.
- * The server broadcasts this status change to all other participants.
+ * Aggregated quality of a peer connection, as kept in the room store
+ * @interface PeerQualityRecord
+ * @description Updated on every `call:quality-report` and deleted with its room.
  */
-export interface VideoPayload {
-  /** Meeting/room identifier where the video action occurred */
+export interface PeerQualityRecord extends PeerQuality {
+  /** Meeting/room identifier */
   meetingId: string;
-  /** User identifier of the participant changing video status */
-  userId: string;
 }
 
 /**
- * Response containing the list of peers in a call
- * @interface PeersListResponse
- * @description Sent to a newly joined participant containing information about
- * all other participants already in the call. Used to establish initial connections.
+ * Summary of a running call returned by the admin API
+ * @interface CallRoomSummary
+ * @description Listed by `GET /api/call/rooms`; `GET /api/call/room/:meetingId` has the details.
  */
-export interface PeersListResponse {
+export interface CallRoomSummary {
   /** Meeting/room identifier */
   meetingId: string;
-  /** Array of participant information */
-  participants: Array<{
-    /** User identifier */
-    userId: string;
-    /** PeerJS peer identifier for WebRTC connection */
-    peerId: string;
-    /** Display name */
-    username: string;
-    /** Current mute status */
-    isMuted: boolean;
-    /** Current video status */
-    isVideoOn: boolean;
-    /** ISO 8601 timestamp of when they joined */
-    joinedAt: string;
-  }>;
-  /** Total number of participants in the list */
-  count: number;
+  /** Identifier of the call session in the history */
+  sessionId: string;
+  /** ISO 8601 timestamp of when the room was created */
+  createdAt: string;
+  /** Number of participants, including those reconnecting */
+  participants: number;
+  /** Number of users waiting in the lobby */
+  waiting: number;
+  /** Whether the room is locked against new joins */
+  isLocked: boolean;
+  /** Whether joiners wait in the lobby */
+  lobbyEnabled: boolean;
+  /** Lifecycle state of the call */
+  state: CallState;
 }
 
 /**
- * Notification broadcast when a new peer joins the call
- * @interface PeerJoinedNotification
- * @description Sent to all existing participants when a new user joins the voice call.
- * Recipients should initiate a WebRTC connection with the new peer.
+ * One stay of a user in a recorded call session
+ * @interface SessionAttendance
+ * @description A user leaving and joining again gets a new entry. Resuming a held slot after a
+ * dropped connection continues the same entry.
  */
-export interface PeerJoinedNotification {
-  /** User identifier of the new participant */
+export interface SessionAttendance {
+  /** User identifier */
   userId: string;
-  /** PeerJS peer identifier for establishing WebRTC connection */
-  peerId: string;
-  /** Display name of the new participant */
+  /** Display name when joining */
   username: string;
-  /** ISO 8601 timestamp of when they joined */
-  timestamp: string;
+  /** Role when joining */
+  role: CallRole;
+  /** ISO 8601 timestamp of when the participant joined */
+  joinedAt: string;
+  /** ISO 8601 timestamp of when the participant left, or null while still in the call */
+  leftAt: string | null;
+  /** How the participant left: `left` on their own (or after their connection was lost), or the removal reason */
+  leaveReason: 'left' | RemovalReason | null;
 }
 
 /**
- * Notification broadcast when a peer leaves the call
- * @interface PeerLeftNotification
- * @description Sent to all remaining participants when a user leaves the voice call.
- * Recipients should close their WebRTC connection with this peer.
+ * A call recorded in the history, from its first join until the last participant left
+ * @interface CallSession
  */
-export interface PeerLeftNotification {
-  /** User identifier of the leaving participant */
-  userId: string;
-  /** PeerJS peer identifier of the leaving participant */
-  peerId: string;
-  /** Display name of the leaving participant */
-  username: string;
-  /** ISO 8601 timestamp of when they left */
-  timestamp: string;
+export interface CallSession {
+  /** Session identifier */
+  sessionId: string;
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** ISO 8601 timestamp of when the first participant joined */
+  startedAt: string;
+  /** ISO 8601 timestamp of when the last participant left, or null while the call is running */
+  endedAt: string | null;
+  /** Highest number of participants in the call at the same time */
+  peakParticipants: number;
+  /** Every stay of every participant, in joining order */
+  attendance: SessionAttendance[];
 }
 
 /**
- * Notification broadcast when a participant's mute status changes
- * @interface MuteStatusNotification
- * @description Sent to all participants in a call when someone mutes or unmutes.
- * Used to update UI indicators showing who is speaking or muted.
+ * A user's stay in a call, as returned by attendance queries
+ * @interface AttendanceRecord
  */
-export interface MuteStatusNotification {
-  /** User identifier of the participant who changed status */
-  userId: string;
-  /** Display name of the participant */
-  username: string;
-  /** New mute status (true = muted, false = unmuted) */
-  isMuted: boolean;
-  /** ISO 8601 timestamp of the status change */
-  timestamp: string;
+export interface AttendanceRecord extends SessionAttendance {
+  /** Session identifier */
+  sessionId: string;
+  /** Meeting/room identifier */
+  meetingId: string;
+  /** Seconds spent in the call, or null while still in it */
+  durationSeconds: number | null;
 }
 
 /**
- * Notification broadcast when a participant's video status changes
- * @interface VideoStatusNotification
- * @description Sent to all participants in a call when someone turns their camera on or off.
- * Used to update UI indicators showing who has their camera active.
+ * Identity of an authenticated user, derived from the verified access token
+ * @interface AuthenticatedUser
  */
-export interface VideoStatusNotification {
-  /** User identifier of the participant who changed status */
+export interface AuthenticatedUser {
+  /** Unique user identifier (token `sub` claim) */
   userId: string;
-  /** Display name of the participant */
+  /** Display name (token `username` or `name` claim) */
   username: string;
-  /** New video status (true = camera on, false = camera off) */
-  isVideoOn: boolean;
-  /** ISO 8601 timestamp of the status change */
-  timestamp: string;
+  /** Meetings the user is designated host of (token `hostOf` claim) */
+  hostOf: string[];
+  /** Role assigned when not joining as host (token `role` claim, `viewer` or `participant`) */
+  defaultRole: Extract<CallRole, 'participant' | 'viewer'>;
 }
 
 /**
- * Error response sent to clients
- * @interface CallError
- * @description Standard error format sent when an operation fails.
- * Includes a human-readable message and optional error code for programmatic handling.
+ * Per-socket data attached by the server
+ * @interface SocketData
+ * @description Stored in `socket.data`; populated by the authentication middleware.
  */
-export interface CallError {
-  /** Human-readable error message */
-  message: string;
-  /** Optional error code for programmatic error handling */
-  code?: string;
+export interface SocketData {
+  /** Verified identity of the connected user */
+  user: AuthenticatedUser;
 }
 
 /**
- * Socket.IO event names for media call operations (audio + video)
- * @enum {string} CallEvents
- * @description Enumeration of all socket event names used in the media call system.
- * Using an enum ensures consistency between client and server implementations.
+ * Socket.IO server instance used by the call server
+ * @typedef {Server} CallServer
+ * @description Typed with the event maps of `types/contract`, so every handler and emit is
+ * checked against the payloads clients rely on.
  */
-export enum CallEvents {
-  /** Socket.IO built-in connection event */
-  CONNECTION = 'connection',
-  /** Socket.IO built-in disconnection event */
-  DISCONNECT = 'disconnect',
-  
-  /** Client requests to join a call room */
-  JOIN = 'call:join',
-  /** Client requests to leave a call room */
-  LEAVE = 'call:leave',
-  
-  /** WebRTC signaling message (offer, answer, or ICE candidate) */
-  SIGNAL = 'call:signal',
-  
-  /** Client mutes their microphone */
-  MUTE = 'call:mute',
-  /** Client unmutes their microphone */
-  UNMUTE = 'call:unmute',
-  
-  /** Client turns on their camera */
-  VIDEO_ON = 'call:video-on',
-  /** Client turns off their camera */
-  VIDEO_OFF = 'call:video-off',
-  
-  /** Server notifies clients that a new peer has joined */
-  PEER_JOINED = 'call:peer-joined',
-  /** Server notifies clients that a peer has left */
-  PEER_LEFT = 'call:peer-left',
-  /** Server sends list of current peers to a newly joined client */
-  PEERS_LIST = 'call:peers-list',
-  /** Server broadcasts a participant's mute status change */
-  MUTE_STATUS = 'call:mute-status',
-  /** Server broadcasts a participant's video status change */
-  VIDEO_STATUS = 'call:video-status',
-  
-  /** Server sends an error message to a client */
-  ERROR = 'call:error',
-}
-
-/**
- * ICE (Interactive Connectivity Establishment) server configuration
- * @interface IceServer
- * @description Configuration for STUN/TURN servers used in WebRTC connections.
- * STUN servers help clients discover their public IP addresses for NAT traversal.
- */
-export interface IceServer {
-  /** STUN/TURN server URL(s) in the format "stun:hostname:port" or "turn:hostname:port" */
-  urls: string | string[];
-  /** Username for TURN server authentication (optional for STUN) */
-  username?: string;
-  /** Credential/password for TURN server authentication (optional for STUN) */
-  credential?: string;
-}
+export type CallServer = Server<ClientToServerEvents, ServerToClientEvents, DefaultEventsMap, SocketData>;
 
 /**
- * Get ICE servers configuration from environment or use defaults
- * @function getIceServers
- * @description Returns ICE server configuration for WebRTC connections.
- * Uses ExpressTURN credentials from environment variables if available,
- * otherwise falls back to public STUN servers.
- * @returns {IceServer[]} Array of ICE server configurations
+ * Socket instance representing an authenticated client connection
+ * @typedef {Socket} CallSocket
  */
-export const getIceServers = (): IceServer[] => {
-  const turnUrl = process.env.TURN_SERVER_URL;
-  const turnUsername = process.env.TURN_USERNAME;
-  const turnCredential = process.env.TURN_CREDENTIAL;
-
-  const iceServers: IceServer[] = [];
-
-  // Add ExpressTURN STUN/TURN server if configured
-  if (turnUrl) {
-    // Extract hostname (without port) for TURNS
-    const turnHost = turnUrl.split(':')[0];
-
-    // STUN from ExpressTURN (uses full URL with port)
-    iceServers.push({
-      urls: `stun:${turnUrl}`,
-    });
-
-    // TURN from ExpressTURN (if credentials provided)
-    if (turnUsername && turnCredential) {
-      // TURN UDP/TCP (uses full URL with port)
-      iceServers.push({
-        urls: `turn:${turnUrl}`,
-        username: turnUsername,
-        credential: turnCredential,
-      });
-      // TURNS (TLS) for better firewall traversal - uses port 443
-      iceServers.push({
-        urls: `turns:${turnHost}:443`,
-        username: turnUsername,
-        credential: turnCredential,
-      });
-    }
-  }
-
-  // Fallback: Add public STUN servers if no TURN configured
-  if (iceServers.length === 0) {
-    iceServers.push(
-      { urls: 'stun:stun.l.google.com:19302' },
-      { urls: 'stun:stun1.l.google.com:19302' },
-    );
-  }
-
-  return iceServers;
-};
-
-/**
- * Default ICE servers - use getIceServers() instead for dynamic configuration
- * @constant {IceServer[]}
- * @deprecated Use getIceServers() function instead
- */
-export const DEFAULT_ICE_SERVERS: IceServer[] = [
-  { urls: 'stun:stun.l.google.com:19302' },
-  { urls: 'stun:stun1.l.google.com:19302' },
-];
-
-/**
- * Media type for call connections
- * @enum {string} MediaType
- * @description Defines the types of media that can be transmitted in a call.
- */
-export enum MediaType {
-  /** Audio only transmission */
-  AUDIO = 'audio',
-  /** Video only transmission */
-  VIDEO = 'video',
-  /** Both audio and video transmission */
-  AUDIO_VIDEO = 'audio_video',
-}
+export type CallSocket = Socket<ClientToServerEvents, ServerToClientEvents, DefaultEventsMap, SocketData>;
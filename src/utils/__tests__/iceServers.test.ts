@@ -0,0 +1,87 @@
+/**
+ * Tests of the ICE server configuration and TURN credentials
+ */
+
+import crypto from 'crypto';
+import { checkTurnConfiguration, createTurnCredentials, getIceServers } from '../iceServers';
+
+describe('createTurnCredentials', () => {
+  it('signs an expiring username with the shared secret', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const { username, credential, expiresAt } = createTurnCredentials('user1', 'secret', 600);
+
+    expect(expiresAt).toBeGreaterThanOrEqual(now + 600);
+    expect(username).toBe(`${expiresAt}:user1`);
+    expect(credential).toBe(crypto.createHmac('sha1', 'secret').update(username).digest('base64'));
+  });
+
+  it('gives a different credential for another secret', () => {
+    const a = createTurnCredentials('user1', 'secret', 600);
+    const b = createTurnCredentials('user1', 'other-secret', 600);
+
+    expect(a.credential).not.toBe(b.credential);
+  });
+});
+
+describe('getIceServers', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env, TURN_SERVER_URL: 'turn.example.com:3478' };
+    delete process.env.TURN_SECRET;
+    delete process.env.TURN_CREDENTIAL_TTL;
+    delete process.env.TURN_ALLOW_STATIC_CREDENTIALS;
+    delete process.env.TURN_USERNAME;
+    delete process.env.TURN_CREDENTIAL;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('falls back to public STUN servers without a TURN server', () => {
+    delete process.env.TURN_SERVER_URL;
+    const { iceServers, ttl } = getIceServers('user1');
+
+    expect(iceServers.every(server => String(server.urls).startsWith('stun:'))).toBe(true);
+    expect(ttl).toBeNull();
+  });
+
+  it('mints per-user credentials with the shared secret', () => {
+    process.env.TURN_SECRET = 'secret';
+    process.env.TURN_CREDENTIAL_TTL = '120';
+
+    const { iceServers, ttl, expiresAt } = getIceServers('user1');
+    const turn = iceServers.filter(server => server.username);
+
+    expect(ttl).toBe(120);
+    expect(expiresAt).not.toBeNull();
+    expect(turn.map(server => server.urls)).toEqual(['turn:turn.example.com:3478', 'turns:turn.example.com:443']);
+    expect(turn[0].username).toMatch(/^\d+:user1$/);
+  });
+
+  it('never sends the static credentials without opting in', () => {
+    process.env.TURN_USERNAME = 'static';
+    process.env.TURN_CREDENTIAL = 'password';
+
+    expect(getIceServers('user1').iceServers).toEqual([{ urls: 'stun:turn.example.com:3478' }]);
+  });
+
+  it('sends the static credentials when opted in', () => {
+    process.env.TURN_USERNAME = 'static';
+    process.env.TURN_CREDENTIAL = 'password';
+    process.env.TURN_ALLOW_STATIC_CREDENTIALS = 'true';
+
+    expect(getIceServers('user1').iceServers).toContainEqual(
+      { urls: 'turn:turn.example.com:3478', username: 'static', credential: 'password' }
+    );
+  });
+
+  it('refuses to start in production without a shared secret', () => {
+    process.env.NODE_ENV = 'production';
+    expect(() => checkTurnConfiguration()).toThrow('TURN_SECRET');
+
+    process.env.TURN_SECRET = 'secret';
+    expect(() => checkTurnConfiguration()).not.toThrow();
+  });
+});
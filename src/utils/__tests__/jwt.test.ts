@@ -0,0 +1,92 @@
+/**
+ * Tests of access token verification
+ */
+
+import jwt from 'jsonwebtoken';
+import { extractBearerToken, verifyAccessToken } from '../jwt';
+
+const SECRET = 'test-secret';
+
+const sign = (claims: object, options: jwt.SignOptions = {}, secret: string = SECRET): string =>
+  jwt.sign(claims, secret, { expiresIn: 60, ...options });
+
+describe('verifyAccessToken', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env, JWT_SECRET: SECRET };
+    delete process.env.JWT_ALGORITHM;
+    delete process.env.JWT_ISSUER;
+    delete process.env.JWT_AUDIENCE;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('accepts a signed token and maps its claims', () => {
+    const result = verifyAccessToken(sign({ sub: 'user1', username: 'John', hostOf: ['abc123', 42], role: 'viewer' }));
+
+    expect(result).toEqual({
+      valid: true,
+      user: { userId: 'user1', username: 'John', hostOf: ['abc123'], defaultRole: 'viewer' },
+    });
+  });
+
+  it('falls back to the userId and name claims', () => {
+    const result = verifyAccessToken(sign({ userId: 'user2', name: 'Jane' }));
+
+    expect(result).toEqual({
+      valid: true,
+      user: { userId: 'user2', username: 'Jane', hostOf: [], defaultRole: 'participant' },
+    });
+  });
+
+  it('rejects a missing token', () => {
+    expect(verifyAccessToken(undefined)).toMatchObject({ valid: false, code: 'AUTH_REQUIRED' });
+  });
+
+  it('rejects a token signed with another secret', () => {
+    expect(verifyAccessToken(sign({ sub: 'user1' }, {}, 'other-secret'))).toMatchObject({ valid: false, code: 'AUTH_INVALID' });
+  });
+
+  it('rejects an expired token', () => {
+    const token = jwt.sign({ sub: 'user1', exp: Math.floor(Date.now() / 1000) - 10 }, SECRET);
+    expect(verifyAccessToken(token)).toMatchObject({ valid: false, code: 'AUTH_EXPIRED' });
+  });
+
+  it('rejects a token without a subject', () => {
+    expect(verifyAccessToken(sign({ username: 'John' }))).toMatchObject({ valid: false, code: 'AUTH_INVALID' });
+  });
+
+  it('rejects a token signed with another algorithm', () => {
+    expect(verifyAccessToken(sign({ sub: 'user1' }, { algorithm: 'HS512' }))).toMatchObject({ valid: false, code: 'AUTH_INVALID' });
+  });
+
+  it('enforces the configured issuer', () => {
+    process.env.JWT_ISSUER = 'https://auth.example.com';
+
+    expect(verifyAccessToken(sign({ sub: 'user1' }, { issuer: 'https://evil.example.com' }))).toMatchObject({ valid: false });
+    expect(verifyAccessToken(sign({ sub: 'user1' }, { issuer: 'https://auth.example.com' }))).toMatchObject({ valid: true });
+  });
+
+  it('rejects every token when no key is configured', () => {
+    const token = sign({ sub: 'user1' });
+    delete process.env.JWT_SECRET;
+
+    expect(verifyAccessToken(token)).toMatchObject({ valid: false, code: 'AUTH_INVALID' });
+  });
+});
+
+describe('extractBearerToken', () => {
+  it('returns the token of a bearer header', () => {
+    expect(extractBearerToken('Bearer abc.def.ghi')).toBe('abc.def.ghi');
+    expect(extractBearerToken('bearer abc.def.ghi')).toBe('abc.def.ghi');
+  });
+
+  it('ignores missing and other headers', () => {
+    expect(extractBearerToken(undefined)).toBeUndefined();
+    expect(extractBearerToken('Basic dXNlcjpwYXNz')).toBeUndefined();
+    expect(extractBearerToken('Bearer')).toBeUndefined();
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Tests of the token bucket rate limiter
+ */
+
+import { TokenBucket } from '../tokenBucket';
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows a burst up to its capacity, then rejects', () => {
+    const bucket = new TokenBucket(3, 1);
+
+    expect(bucket.tryRemove()).toBe(true);
+    expect(bucket.tryRemove()).toBe(true);
+    expect(bucket.tryRemove()).toBe(true);
+    expect(bucket.tryRemove()).toBe(false);
+  });
+
+  it('refills over time', () => {
+    const bucket = new TokenBucket(2, 2);
+    bucket.tryRemove(2);
+    expect(bucket.tryRemove()).toBe(false);
+
+    jest.advanceTimersByTime(500);
+    expect(bucket.tryRemove()).toBe(true);
+    expect(bucket.tryRemove()).toBe(false);
+  });
+
+  it('never refills beyond its capacity', () => {
+    const bucket = new TokenBucket(2, 10);
+
+    jest.advanceTimersByTime(60 * 1000);
+    expect(bucket.tryRemove(2)).toBe(true);
+    expect(bucket.tryRemove()).toBe(false);
+  });
+
+  it('rejects taking more tokens than available without taking any', () => {
+    const bucket = new TokenBucket(2, 1);
+
+    expect(bucket.tryRemove(3)).toBe(false);
+    expect(bucket.tryRemove(2)).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests of webhook request signing and verification
+ */
+
+import crypto from 'crypto';
+import { WEBHOOK_SIGNATURE_TOLERANCE, signWebhook, verifyWebhook } from '../webhookSignature';
+
+const SECRET = 'a-webhook-secret-of-some-length';
+const BODY = JSON.stringify({ id: 'evt-1', type: 'call.started', data: { meetingId: 'abc123' } });
+
+const now = (): number => Math.floor(Date.now() / 1000);
+
+describe('signWebhook', () => {
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const expected = crypto.createHmac('sha256', SECRET).update(`1700000000.${BODY}`).digest('hex');
+
+    expect(signWebhook(SECRET, 1700000000, BODY)).toBe(`sha256=${expected}`);
+  });
+});
+
+describe('verifyWebhook', () => {
+  it('accepts a fresh request signed with the shared secret', () => {
+    const timestamp = now();
+
+    expect(verifyWebhook(SECRET, String(timestamp), BODY, signWebhook(SECRET, timestamp, BODY))).toBe(true);
+  });
+
+  it('rejects a changed body, another secret or a changed timestamp', () => {
+    const timestamp = now();
+    const signature = signWebhook(SECRET, timestamp, BODY);
+
+    expect(verifyWebhook(SECRET, String(timestamp), `${BODY} `, signature)).toBe(false);
+    expect(verifyWebhook('another-secret-of-some-length', String(timestamp), BODY, signature)).toBe(false);
+    expect(verifyWebhook(SECRET, String(timestamp - 1), BODY, signature)).toBe(false);
+  });
+
+  it('rejects a request older than the tolerance, even correctly signed', () => {
+    const timestamp = now() - WEBHOOK_SIGNATURE_TOLERANCE - 10;
+
+    expect(verifyWebhook(SECRET, String(timestamp), BODY, signWebhook(SECRET, timestamp, BODY))).toBe(false);
+  });
+
+  it('rejects missing or malformed headers', () => {
+    const timestamp = now();
+    const signature = signWebhook(SECRET, timestamp, BODY);
+
+    expect(verifyWebhook(SECRET, undefined, BODY, signature)).toBe(false);
+    expect(verifyWebhook(SECRET, 'yesterday', BODY, signature)).toBe(false);
+    expect(verifyWebhook(SECRET, String(timestamp), BODY, undefined)).toBe(false);
+    expect(verifyWebhook(SECRET, String(timestamp), BODY, 'sha256=short')).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * ICE server configuration utility module
+ * @module utils/iceServers
+ * @description Builds the STUN/TURN server list handed to clients, minting short-lived
+ * TURN credentials per user with the TURN REST API shared-secret scheme (coturn `use-auth-secret`).
+ */
+
+import crypto from 'crypto';
+import { IceServer, IceServersResponse } from '../types';
+import { logger } from './logger';
+
+/**
+ * Default lifetime of generated TURN credentials in seconds
+ * @constant {number}
+ * @default 3600
+ */
+const DEFAULT_TURN_CREDENTIAL_TTL = 3600;
+
+/**
+ * Public STUN servers used when no TURN server is configured
+ * @constant {IceServer[]}
+ */
+const FALLBACK_STUN_SERVERS: IceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+];
+
+/**
+ * Whether the static `TURN_USERNAME`/`TURN_CREDENTIAL` may be sent to clients without `TURN_SECRET`
+ * @returns {boolean} True when `TURN_ALLOW_STATIC_CREDENTIALS` is `true`
+ * @description Opt-in for development against a TURN provider without shared-secret support:
+ * every client receives the same long-lived credentials.
+ */
+const allowsStaticCredentials = (): boolean => process.env.TURN_ALLOW_STATIC_CREDENTIALS === 'true';
+
+/**
+ * Gets the configured lifetime of generated TURN credentials
+ * @returns {number} TTL in seconds (`TURN_CREDENTIAL_TTL`, default 3600)
+ */
+const getCredentialTtl = (): number => {
+  const ttl = parseInt(process.env.TURN_CREDENTIAL_TTL || '', 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TURN_CREDENTIAL_TTL;
+};
+
+/**
+ * Mints time-limited TURN credentials for a user
+ * @param {string} userId - User the credentials are issued to
+ * @param {string} secret - Shared secret configured on the TURN server (`static-auth-secret`)
+ * @param {number} ttl - Lifetime in seconds
+ * @returns {{ username: string; credential: string; expiresAt: number }} Credentials and expiry (unix seconds)
+ * @description The username is `<expiry>:<userId>` and the credential is the base64-encoded
+ * HMAC-SHA1 of the username keyed with the shared secret, as expected by coturn.
+ * @example
+ * const { username, credential } = createTurnCredentials('user-1', secret, 3600);
+ */
+export const createTurnCredentials = (
+  userId: string,
+  secret: string,
+  ttl: number
+): { username: string; credential: string; expiresAt: number } => {
+  const expiresAt = Math.floor(Date.now() / 1000) + ttl;
+  const username = `${expiresAt}:${userId}`;
+  const credential = crypto.createHmac('sha1', secret).update(username).digest('base64');
+  return { username, credential, expiresAt };
+};
+
+/**
+ * Get ICE servers configuration for a user
+ * @param {string} userId - Authenticated user the TURN credentials are minted for
+ * @returns {IceServersResponse} ICE servers plus the credential expiry, if any
+ * @description Uses `TURN_SERVER_URL` for STUN and TURN. When `TURN_SECRET` is set, TURN
+ * entries carry per-user credentials valid for `TURN_CREDENTIAL_TTL` seconds and clients should
+ * refresh them before `expiresAt`. Without a secret, only STUN is offered, unless
+ * `TURN_ALLOW_STATIC_CREDENTIALS` opts in to the static `TURN_USERNAME` and `TURN_CREDENTIAL`.
+ * Falls back to public STUN servers when no TURN server is configured.
+ * @example
+ * socket.emit(CallEvents.ICE_SERVERS, getIceServers(socket.data.user.userId));
+ */
+export const getIceServers = (userId: string): IceServersResponse => {
+  const turnUrl = process.env.TURN_SERVER_URL;
+
+  if (!turnUrl) {
+    return { iceServers: FALLBACK_STUN_SERVERS, ttl: null, expiresAt: null };
+  }
+
+  // Extract hostname (without port) for TURNS
+  const turnHost = turnUrl.split(':')[0];
+  const iceServers: IceServer[] = [{ urls: `stun:${turnUrl}` }];
+
+  let username: string | undefined;
+  let credential: string | undefined;
+  let ttl: number | null = null;
+  let expiresAt: string | null = null;
+
+  const secret = process.env.TURN_SECRET;
+  if (secret) {
+    ttl = getCredentialTtl();
+    const generated = createTurnCredentials(userId, secret, ttl);
+    username = generated.username;
+    credential = generated.credential;
+    expiresAt = new Date(generated.expiresAt * 1000).toISOString();
+  } else if (allowsStaticCredentials()) {
+    username = process.env.TURN_USERNAME;
+    credential = process.env.TURN_CREDENTIAL;
+  }
+
+  if (username && credential) {
+    // TURN UDP/TCP (uses full URL with port)
+    iceServers.push({ urls: `turn:${turnUrl}`, username, credential });
+    // TURNS (TLS) for better firewall traversal - uses port 443
+    iceServers.push({ urls: `turns:${turnHost}:443`, username, credential });
+  }
+
+  return { iceServers, ttl, expiresAt };
+};
+
+/**
+ * Checks the TURN configuration at startup
+ * @returns {void}
+ * @throws {Error} In production, when a TURN server is configured without `TURN_SECRET`
+ * @description Outside production, a missing secret is only logged: clients get STUN alone, or
+ * the static credentials when `TURN_ALLOW_STATIC_CREDENTIALS` is set.
+ */
+export const checkTurnConfiguration = (): void => {
+  if (!process.env.TURN_SERVER_URL || process.env.TURN_SECRET) return;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('TURN_SECRET is required in production when TURN_SERVER_URL is set');
+  }
+
+  if (allowsStaticCredentials() && process.env.TURN_CREDENTIAL) {
+    logger.warn('TURN_SECRET is not set - static TURN credentials are sent to every client');
+  } else {
+    logger.warn('TURN_SECRET is not set - clients only get STUN from TURN_SERVER_URL');
+  }
+};
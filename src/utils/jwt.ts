@@ -0,0 +1,119 @@
+/**
+ * JWT verification utility module
+ * @module utils/jwt
+ * @description Verifies signed access tokens issued by the authentication system and
+ * maps their claims to the identity used throughout the call server.
+ */
+
+import jwt, { Algorithm, JwtPayload, TokenExpiredError } from 'jsonwebtoken';
+import { AuthenticatedUser, CallErrorCode } from '../types';
+
+/**
+ * Algorithms accepted for access tokens
+ * @constant {Algorithm[]}
+ */
+const SUPPORTED_ALGORITHMS: Algorithm[] = ['HS256', 'RS256'];
+
+/**
+ * Result of a token verification attempt
+ * @typedef {Object} TokenVerificationResult
+ */
+export type TokenVerificationResult =
+  | { valid: true; user: AuthenticatedUser }
+  | { valid: false; code: CallErrorCode; message: string };
+
+/**
+ * Resolves the signing algorithm and verification key from environment variables
+ * @returns {{ algorithm: Algorithm; key: string } | null} Verification settings, or null if not configured
+ * @description Uses `JWT_ALGORITHM` (HS256 by default). HS256 verifies with `JWT_SECRET`,
+ * RS256 with the PEM-encoded `JWT_PUBLIC_KEY` (escaped `\n` sequences are supported so the
+ * key can be stored on a single line).
+ */
+const getVerificationSettings = (): { algorithm: Algorithm; key: string } | null => {
+  const algorithm = (process.env.JWT_ALGORITHM || 'HS256').toUpperCase() as Algorithm;
+
+  if (!SUPPORTED_ALGORITHMS.includes(algorithm)) {
+    return null;
+  }
+
+  const key = algorithm === 'RS256'
+    ? process.env.JWT_PUBLIC_KEY?.replace(/\\n/g, '\n')
+    : process.env.JWT_SECRET;
+
+  return key ? { algorithm, key } : null;
+};
+
+/**
+ * Verifies an access token and extracts the authenticated user
+ * @param {string | undefined} token - Raw JWT (without the "Bearer " prefix)
+ * @returns {TokenVerificationResult} The verified user or the reason the token was rejected
+ * @description The user id is read from the `sub` claim (falling back to `userId`) and the
+ * display name from `username` or `name`. The `hostOf` claim lists meetings the user hosts and
+ * `role: "viewer"` makes the user join as a viewer. Optional `JWT_ISSUER` and `JWT_AUDIENCE`
+ * are enforced when configured.
+ * @example
+ * const result = verifyAccessToken(socket.handshake.auth.token);
+ * if (result.valid) console.log(result.user.userId);
+ */
+export const verifyAccessToken = (token: string | undefined): TokenVerificationResult => {
+  if (!token) {
+    return { valid: false, code: 'AUTH_REQUIRED', message: 'Authentication token is required' };
+  }
+
+  const settings = getVerificationSettings();
+  if (!settings) {
+    return { valid: false, code: 'AUTH_INVALID', message: 'Token verification is not configured' };
+  }
+
+  try {
+    const decoded = jwt.verify(token, settings.key, {
+      algorithms: [settings.algorithm],
+      issuer: process.env.JWT_ISSUER || undefined,
+      audience: process.env.JWT_AUDIENCE || undefined,
+    }) as JwtPayload;
+
+    const userId = decoded.sub || decoded.userId;
+    if (!userId || typeof userId !== 'string') {
+      return { valid: false, code: 'AUTH_INVALID', message: 'Token has no subject' };
+    }
+
+    const username = decoded.username || decoded.name;
+    const hostOf = Array.isArray(decoded.hostOf)
+      ? decoded.hostOf.filter((id: unknown): id is string => typeof id === 'string')
+      : [];
+
+    return {
+      valid: true,
+      user: {
+        userId,
+        username: typeof username === 'string' && username ? username : 'Anonymous',
+        hostOf,
+        defaultRole: decoded.role === 'viewer' ? 'viewer' : 'participant',
+      },
+    };
+  } catch (error) {
+    if (error instanceof TokenExpiredError) {
+      return { valid: false, code: 'AUTH_EXPIRED', message: 'Authentication token has expired' };
+    }
+    return { valid: false, code: 'AUTH_INVALID', message: 'Invalid authentication token' };
+  }
+};
+
+/**
+ * Extracts a bearer token from an Authorization header value
+ * @param {string | undefined} header - Raw Authorization header
+ * @returns {string | undefined} The token, or undefined if the header is missing or malformed
+ * @example
+ * extractBearerToken('Bearer abc.def.ghi'); // 'abc.def.ghi'
+ */
+export const extractBearerToken = (header: string | undefined): string | undefined => {
+  if (!header) return undefined;
+  const [scheme, token] = header.split(' ');
+  return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
+};
+
+/**
+ * Checks whether token verification has been configured
+ * @returns {boolean} True if a key is available for the configured algorithm
+ */
+export const isAuthConfigured = (): boolean => getVerificationSettings() !== null;
@@ -1,9 +1,92 @@
 /**
- * Logger utility module with colored console output
+ * Logger utility module with structured output
  * @module utils/logger
- * @description Provides logging functions with different severity levels and colored output for terminal
+ * @description Provides logging functions with different severity levels. Writes one JSON object
+ * per line in production, for log aggregators, and colored lines in development. Every entry
+ * carries the context of the logger and of the socket event or HTTP request being handled
+ * (`socketId`, `meetingId`, `userId`, `requestId`), and SDP bodies, tokens and credentials are
+ * redacted before anything is written.
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
+import { inspect } from 'util';
+
+/**
+ * Severity of a log entry
+ * @typedef {string} LogLevel
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Identifiers attached to every entry of a logger
+ * @interface LogContext
+ */
+export interface LogContext {
+  /** Correlation id of the HTTP request being handled */
+  requestId?: string;
+  /** Socket that sent the event being handled */
+  socketId?: string;
+  /** Meeting/room identifier */
+  meetingId?: string;
+  /** Authenticated user */
+  userId?: string;
+  /** Socket.IO event being handled */
+  event?: string;
+}
+
+/**
+ * Logging functions sharing one context
+ * @interface Logger
+ */
+export interface Logger {
+  /** Logs an informational message */
+  info(message: string, data?: unknown): void;
+  /** Logs a success message */
+  success(message: string, data?: unknown): void;
+  /** Logs a warning message */
+  warn(message: string, data?: unknown): void;
+  /** Logs an error message */
+  error(message: string, error?: unknown): void;
+  /** Logs a debug message */
+  debug(message: string, data?: unknown): void;
+  /** Logs a Socket.IO related event */
+  socket(event: string, message: string, data?: unknown): void;
+  /** Logs a voice call related event */
+  call(action: string, message: string, data?: unknown): void;
+  /** Creates a logger adding the given context to this one's */
+  child(context: LogContext): Logger;
+}
+
+/**
+ * Numeric order of the levels
+ * @constant {Object}
+ */
+const LEVEL_ORDER: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 50,
+};
+
+/**
+ * Whether entries are written as JSON lines
+ * @constant {boolean}
+ * @description `LOG_FORMAT` (`json` or `pretty`) when set, otherwise JSON in production.
+ */
+const JSON_OUTPUT = (process.env.LOG_FORMAT || (process.env.NODE_ENV === 'production' ? 'json' : 'pretty')) === 'json';
+
+/**
+ * Lowest level written
+ * @constant {LogLevel | 'silent'}
+ * @default 'info' in production, 'debug' otherwise
+ */
+const LOG_LEVEL: LogLevel | 'silent' = ((): LogLevel | 'silent' => {
+  const configured = (process.env.LOG_LEVEL || '').toLowerCase();
+  if (configured in LEVEL_ORDER) return configured as LogLevel | 'silent';
+  return process.env.NODE_ENV === 'production' ? 'info' : 'debug';
+})();
+
 /**
  * ANSI color codes for terminal output formatting
  * @constant {Object}
@@ -13,6 +96,8 @@ const colors = {
   reset: '\x1b[0m',
   /** Bold/bright text */
   bright: '\x1b[1m',
+  /** Dimmed text for the context */
+  dim: '\x1b[2m',
   /** Red color for errors */
   red: '\x1b[31m',
   /** Green color for success messages */
@@ -27,6 +112,96 @@ const colors = {
   cyan: '\x1b[36m',
 } as const;
 
+/**
+ * Keys whose values are never logged
+ * @constant {RegExp}
+ * @description SDP bodies and ICE candidates, tokens (JWTs, resume tokens), authorization
+ * headers, TURN credentials, API keys, secrets and signatures.
+ */
+const SENSITIVE_KEY = /sdp|candidate|token|authorization|cookie|credential|password|secret|signature|api-?key|admin-?key/i;
+
+/**
+ * JSON Web Tokens appearing in text
+ * @constant {RegExp}
+ */
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]*/g;
+
+/**
+ * Placeholder for redacted values
+ * @constant {string}
+ */
+const REDACTED = '[REDACTED]';
+
+/**
+ * Deepest nesting of logged data
+ * @constant {number}
+ */
+const MAX_DEPTH = 6;
+
+/**
+ * Context of the socket event or HTTP request being handled
+ */
+const scopes = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run a function with context added to every entry logged while it runs, including its
+ * asynchronous continuations
+ * @param {LogContext} context - Identifiers to attach
+ * @param {Function} callback - Function to run
+ * @returns {T} What the function returns
+ * @example
+ * runWithLogContext({ meetingId: 'abc123' }, () => handleEvent());
+ */
+export const runWithLogContext = <T>(context: LogContext, callback: () => T): T =>
+  scopes.run({ ...scopes.getStore(), ...context }, callback);
+
+/**
+ * Redact tokens and SDP bodies in a text
+ * @param {string} text - Text to clean
+ * @returns {string} The text with JWTs replaced, or a placeholder for an SDP body
+ * @private
+ */
+const redactText = (text: string): string => {
+  if (/^v=0\r?\n/.test(text)) return `[SDP ${text.length} chars]`;
+  return text.replace(JWT_PATTERN, REDACTED);
+};
+
+/**
+ * Copy data for logging with its sensitive values redacted
+ * @param {unknown} value - Data to copy
+ * @param {number} [depth=0] - Current nesting
+ * @param {WeakSet<object>} [seen] - Objects already visited, to cut cycles
+ * @returns {unknown} JSON-serializable copy; errors become `{ name, message, stack }`
+ * @example
+ * redact({ userId: 'u1', resumeToken: 'abc' });
+ * // Returns: { userId: 'u1', resumeToken: '[REDACTED]' }
+ */
+export const redact = (value: unknown, depth: number = 0, seen: WeakSet<object> = new WeakSet()): unknown => {
+  if (typeof value === 'string') return redactText(value);
+  if (typeof value === 'bigint') return value.toString();
+  if (value === null || typeof value !== 'object') return value;
+
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      ...(value.stack ? { stack: redactText(value.stack) } : {}),
+    };
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1, seen));
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = SENSITIVE_KEY.test(key) ? REDACTED : redact(item, depth + 1, seen);
+  }
+  return copy;
+};
+
 /**
  * Gets the current timestamp in ISO 8601 format
  * @returns {string} Current timestamp string
@@ -39,10 +214,77 @@ const getTimestamp = (): string => {
 };
 
 /**
- * Logger object providing methods for different log levels
- * @namespace logger
+ * How an entry is labelled in each format
+ * @interface EntryKind
+ * @private
+ */
+interface EntryKind {
+  /** Severity */
+  level: LogLevel;
+  /** `category` of the JSON entry, when not a plain message */
+  category?: 'success' | 'socket' | 'call';
+  /** Colored prefix of the pretty format */
+  label: string;
+  /** Symbol before the message in the pretty format */
+  icon: string;
+}
+
+/**
+ * Write one entry
+ * @param {EntryKind} kind - Level and labels
+ * @param {LogContext} context - Context of the logger
+ * @param {string} message - The message
+ * @param {string | undefined} tag - Socket event or call action, if any
+ * @param {unknown} data - Additional data or error
+ * @returns {void}
+ * @private
+ */
+const write = (kind: EntryKind, context: LogContext, message: string, tag: string | undefined, data: unknown): void => {
+  if (LEVEL_ORDER[kind.level] < LEVEL_ORDER[LOG_LEVEL]) return;
+
+  const fields: LogContext = { ...scopes.getStore(), ...context };
+  const print = kind.level === 'error' ? console.error : kind.level === 'warn' ? console.warn : console.log;
+
+  if (JSON_OUTPUT) {
+    print(JSON.stringify({
+      time: getTimestamp(),
+      level: kind.level,
+      ...(kind.category ? { category: kind.category } : {}),
+      ...(tag !== undefined ? { tag } : {}),
+      msg: redactText(message),
+      ...fields,
+      ...(data !== undefined ? { [kind.level === 'error' ? 'error' : 'data']: redact(data) } : {}),
+    }));
+    return;
+  }
+
+  const contextText = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(' ');
+  const redacted = redact(data);
+  const dataText = data === undefined
+    ? ''
+    : data instanceof Error
+      ? `\n${(redacted as { stack?: string }).stack ?? (redacted as { message: string }).message}`
+      : ` ${inspect(redacted, { colors: true, breakLength: Infinity, depth: MAX_DEPTH })}`;
+
+  print(
+    `${kind.label} ${colors.cyan}${getTimestamp()}${colors.reset} - ${kind.icon}${tag !== undefined ? `[${tag}] ` : ''}${redactText(message)}` +
+      (contextText ? ` ${colors.dim}(${contextText})${colors.reset}` : '') +
+      dataText
+  );
+};
+
+/**
+ * Create a logger
+ * @param {LogContext} [context={}] - Identifiers attached to every entry
+ * @returns {Logger} The logger
+ * @example
+ * const log = createLogger({ meetingId: 'abc123' });
+ * log.call('join', 'User joined call');
  */
-export const logger = {
+export const createLogger = (context: LogContext = {}): Logger => ({
   /**
    * Logs an informational message
    * @param {string} message - The message to log
@@ -50,13 +292,10 @@ export const logger = {
    * @returns {void}
    * @example
    * logger.info('Server started');
-   * logger.info('User connected', { oderId: '123' });
+   * logger.info('User connected', { userId: '123' });
    */
   info: (message: string, data?: unknown): void => {
-    console.log(
-      `${colors.blue}[INFO]${colors.reset} ${colors.cyan}${getTimestamp()}${colors.reset} - ${message}`,
-      data !== undefined ? data : ''
-    );
+    write({ level: 'info', label: `${colors.blue}[INFO]${colors.reset}`, icon: '' }, context, message, undefined, data);
   },
 
   /**
@@ -68,9 +307,9 @@ export const logger = {
    * logger.success('Connection established');
    */
   success: (message: string, data?: unknown): void => {
-    console.log(
-      `${colors.green}[SUCCESS]${colors.reset} ${colors.cyan}${getTimestamp()}${colors.reset} - ✅ ${message}`,
-      data !== undefined ? data : ''
+    write(
+      { level: 'info', category: 'success', label: `${colors.green}[SUCCESS]${colors.reset}`, icon: '✅ ' },
+      context, message, undefined, data
     );
   },
 
@@ -83,10 +322,7 @@ export const logger = {
    * logger.warn('Connection timeout approaching');
    */
   warn: (message: string, data?: unknown): void => {
-    console.warn(
-      `${colors.yellow}[WARN]${colors.reset} ${colors.cyan}${getTimestamp()}${colors.reset} - ⚠️ ${message}`,
-      data !== undefined ? data : ''
-    );
+    write({ level: 'warn', label: `${colors.yellow}[WARN]${colors.reset}`, icon: '⚠️ ' }, context, message, undefined, data);
   },
 
   /**
@@ -98,14 +334,11 @@ export const logger = {
    * logger.error('Failed to connect', new Error('Connection refused'));
    */
   error: (message: string, error?: unknown): void => {
-    console.error(
-      `${colors.red}[ERROR]${colors.reset} ${colors.cyan}${getTimestamp()}${colors.reset} - ❌ ${message}`,
-      error !== undefined ? error : ''
-    );
+    write({ level: 'error', label: `${colors.red}[ERROR]${colors.reset}`, icon: '❌ ' }, context, message, undefined, error);
   },
 
   /**
-   * Logs a debug message (only in non-production environments)
+   * Logs a debug message (below the default `LOG_LEVEL` in production)
    * @param {string} message - The debug message to log
    * @param {unknown} [data] - Optional additional data to log
    * @returns {void}
@@ -113,12 +346,7 @@ export const logger = {
    * logger.debug('Variable state', { count: 5 });
    */
   debug: (message: string, data?: unknown): void => {
-    if (process.env.NODE_ENV !== 'production') {
-      console.log(
-        `${colors.magenta}[DEBUG]${colors.reset} ${colors.cyan}${getTimestamp()}${colors.reset} - 🔍 ${message}`,
-        data !== undefined ? data : ''
-      );
-    }
+    write({ level: 'debug', label: `${colors.magenta}[DEBUG]${colors.reset}`, icon: '🔍 ' }, context, message, undefined, data);
   },
 
   /**
@@ -131,9 +359,9 @@ export const logger = {
    * logger.socket('connection', 'New client connected', { socketId: 'abc123' });
    */
   socket: (event: string, message: string, data?: unknown): void => {
-    console.log(
-      `${colors.bright}${colors.cyan}[SOCKET]${colors.reset} ${colors.cyan}${getTimestamp()}${colors.reset} - 🔌 [${event}] ${message}`,
-      data !== undefined ? data : ''
+    write(
+      { level: 'info', category: 'socket', label: `${colors.bright}${colors.cyan}[SOCKET]${colors.reset}`, icon: '🔌 ' },
+      context, message, event, data
     );
   },
 
@@ -144,12 +372,42 @@ export const logger = {
    * @param {unknown} [data] - Optional additional data to log
    * @returns {void}
    * @example
-   * logger.call('join', 'User joined call', { oderId: '123', meetingId: 'abc' });
+   * logger.call('join', 'User joined call', { userId: '123', meetingId: 'abc' });
    */
   call: (action: string, message: string, data?: unknown): void => {
-    console.log(
-      `${colors.bright}${colors.green}[CALL]${colors.reset} ${colors.cyan}${getTimestamp()}${colors.reset} - 📞 [${action}] ${message}`,
-      data !== undefined ? data : ''
+    write(
+      { level: 'info', category: 'call', label: `${colors.bright}${colors.green}[CALL]${colors.reset}`, icon: '📞 ' },
+      context, message, action, data
     );
   },
+
+  /**
+   * Creates a logger adding context to this one's
+   * @param {LogContext} childContext - Identifiers to add
+   * @returns {Logger} The child logger
+   * @example
+   * const log = logger.child({ socketId: socket.id, userId });
+   * log.socket('connection', 'New connection');
+   */
+  child: (childContext: LogContext): Logger => createLogger({ ...context, ...childContext }),
+});
+
+/**
+ * Root logger, without context of its own
+ * @namespace logger
+ */
+export const logger: Logger = createLogger();
+
+/**
+ * Wait until every entry written so far has reached stdout and stderr
+ * @returns {Promise<void>}
+ * @description Used before the process exits, as writes to pipes may still be buffered.
+ * @example
+ * await flushLogs();
+ * process.exit(0);
+ */
+export const flushLogs = async (): Promise<void> => {
+  await Promise.all([process.stdout, process.stderr].map(stream =>
+    new Promise<void>(resolve => stream.write('', () => resolve()))
+  ));
 };
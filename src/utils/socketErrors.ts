@@ -0,0 +1,32 @@
+/**
+ * Socket error utility module
+ * @module utils/socketErrors
+ * @description Sends typed errors to Socket.IO clients.
+ */
+
+import { CallAck, CallError, CallErrorCode, CallEvents, CallSocket } from '../types';
+
+/**
+ * Send a typed error to a single client
+ * @param {CallSocket} socket - Socket to notify
+ * @param {CallErrorCode} code - Stable error code for programmatic handling
+ * @param {string} message - Human-readable error message
+ * @param {CallAck} [ack] - Acknowledgement callback of the failed event, answered with the same error
+ * @param {string} [path] - Offending payload field, for `INVALID_PAYLOAD`
+ * @returns {void}
+ * @fires CallEvents#ERROR
+ * @example
+ * emitCallError(socket, 'ROOM_FULL', 'Call is full (maximum 10 participants)', ack);
+ */
+export const emitCallError = (
+  socket: CallSocket,
+  code: CallErrorCode,
+  message: string,
+  ack?: CallAck,
+  path?: string
+): void => {
+  const error: CallError = path === undefined ? { message, code } : { message, code, path };
+
+  socket.emit(CallEvents.ERROR, error);
+  ack?.({ ok: false, error });
+};
@@ -0,0 +1,64 @@
+/**
+ * Token bucket rate limiter
+ * @module utils/tokenBucket
+ * @description Allows short bursts of actions while capping their sustained rate.
+ */
+
+/**
+ * Token bucket for a single client
+ * @class TokenBucket
+ * @description Starts full. Every action takes one token; tokens refill continuously at
+ * `refillPerSecond` up to `capacity`.
+ * @example
+ * const bucket = new TokenBucket(5, 1); // bursts of 5, then 1 per second
+ * if (!bucket.tryRemove()) {
+ *   emitCallError(socket, 'RATE_LIMITED', 'Too many reactions');
+ * }
+ */
+export class TokenBucket {
+  /** Tokens currently available */
+  private tokens: number;
+
+  /** Time of the last refill, in milliseconds */
+  private lastRefill: number;
+
+  /**
+   * Creates a new token bucket
+   * @param {number} capacity - Maximum number of tokens (burst size)
+   * @param {number} refillPerSecond - Tokens added per second
+   */
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Take a token if one is available
+   * @param {number} [count=1] - Number of tokens to take
+   * @returns {boolean} True if the action is allowed
+   */
+  public tryRemove(count: number = 1): boolean {
+    this.refill();
+
+    if (this.tokens < count) {
+      return false;
+    }
+    this.tokens -= count;
+    return true;
+  }
+
+  /**
+   * Add the tokens accumulated since the last refill
+   * @private
+   */
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Webhook signature utility module
+ * @module utils/webhookSignature
+ * @description Signs webhook requests and verifies their signatures, so receivers can check a
+ * request comes from this server and was not replayed.
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Seconds a signed request is accepted after it was sent
+ * @constant {number}
+ */
+export const WEBHOOK_SIGNATURE_TOLERANCE = 300;
+
+/**
+ * Compute the signature of a webhook request
+ * @param {string} secret - Secret shared with the receiver
+ * @param {number} timestamp - Unix time of the request in seconds, sent as `X-Webhook-Timestamp`
+ * @param {string} body - Raw JSON body
+ * @returns {string} `sha256=` followed by the hex HMAC-SHA256 of `${timestamp}.${body}`
+ * @example
+ * const signature = signWebhook(secret, Math.floor(Date.now() / 1000), body);
+ */
+export const signWebhook = (secret: string, timestamp: number, body: string): string => {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+};
+
+/**
+ * Verify the signature of a received webhook request
+ * @param {string} secret - Secret shared with the sender
+ * @param {string | undefined} timestamp - `X-Webhook-Timestamp` header
+ * @param {string} body - Raw request body, exactly as received
+ * @param {string | undefined} signature - `X-Webhook-Signature` header
+ * @returns {boolean} True if the signature matches and the request is recent enough
+ * @example
+ * const valid = verifyWebhook(secret, req.headers['x-webhook-timestamp'], rawBody, req.headers['x-webhook-signature']);
+ */
+export const verifyWebhook = (
+  secret: string,
+  timestamp: string | undefined,
+  body: string,
+  signature: string | undefined
+): boolean => {
+  const sentAt = Number(timestamp);
+  if (!signature || !Number.isInteger(sentAt)) return false;
+  if (Math.abs(Date.now() / 1000 - sentAt) > WEBHOOK_SIGNATURE_TOLERANCE) return false;
+
+  const expected = Buffer.from(signWebhook(secret, sentAt, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};